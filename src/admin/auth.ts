@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('admin');
+
+export const ADMIN_SCOPES = [
+  'mentions:read',
+  'mentions:write',
+  'features:read',
+  'features:write',
+  'projects:read',
+  'projects:write',
+  'tags:read',
+  'tags:write',
+] as const;
+
+export type AdminScope = typeof ADMIN_SCOPES[number];
+
+export interface ApiKey {
+  name: string;
+  // SHA-256 of the key, hex; the key itself is never stored
+  hash: string;
+  scopes: ReadonlySet<AdminScope>;
+}
+
+const KEY_PREFIX = 'rmk_';
+
+let keys: ApiKey[] | null = null;
+
+/**
+ * Keys from ADMIN_API_KEYS: comma-separated "name:sha256-of-key:scope+scope" entries,
+ * "*" for every scope. `npm run admin-key` makes a key and its entry.
+ */
+export function getApiKeys(): ApiKey[] {
+  if (!keys) {
+    keys = parseApiKeys(process.env.ADMIN_API_KEYS || '');
+  }
+  return keys;
+}
+
+export function parseApiKeys(value: string): ApiKey[] {
+  const parsed: ApiKey[] = [];
+  for (const entry of value.split(',').map(e => e.trim()).filter(Boolean)) {
+    const [name, hash, ...rest] = entry.split(':');
+    const scopes = parseScopes(rest.join(':'));
+    if (!name || !/^[0-9a-f]{64}$/.test(hash || '') || !scopes) {
+      log.error(`Ignoring malformed ADMIN_API_KEYS entry "${name || entry.slice(0, 12)}"`);
+      continue;
+    }
+    parsed.push({ name, hash, scopes });
+  }
+  return parsed;
+}
+
+/**
+ * "mentions:read+features:write" or "*"; null if any scope is unknown
+ */
+export function parseScopes(value: string): Set<AdminScope> | null {
+  if (value.trim() === '*') return new Set(ADMIN_SCOPES);
+  const scopes = value.split('+').map(s => s.trim()).filter(Boolean);
+  if (scopes.length === 0 || !scopes.every(s => (ADMIN_SCOPES as readonly string[]).includes(s))) {
+    return null;
+  }
+  return new Set(scopes as AdminScope[]);
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): string {
+  return KEY_PREFIX + crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * The configured key matching `key`, compared in constant time
+ */
+export function findApiKey(key: string): ApiKey | null {
+  const hash = Buffer.from(hashApiKey(key), 'hex');
+  return getApiKeys().find(k => crypto.timingSafeEqual(Buffer.from(k.hash, 'hex'), hash)) ?? null;
+}
+
+/**
+ * The key sent as "Authorization: Bearer <key>" or "X-API-Key: <key>"
+ */
+export function readApiKey(headers: Record<string, string | string[] | undefined>): string | null {
+  const authorization = headers.authorization;
+  if (typeof authorization === 'string') {
+    const match = authorization.match(/^Bearer\s+(\S+)$/i);
+    if (match) return match[1];
+  }
+  const header = headers['x-api-key'];
+  return typeof header === 'string' && header ? header : null;
+}
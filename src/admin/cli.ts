@@ -0,0 +1,23 @@
+import { generateApiKey, hashApiKey, parseScopes, ADMIN_SCOPES } from './auth.js';
+
+/**
+ * Generate an admin API key
+ * Usage:
+ *   npm run admin-key -- <name> <scope+scope|*>
+ */
+function main() {
+  const [name, scopes] = process.argv.slice(2);
+
+  if (!name || !/^[\w-]+$/.test(name) || !scopes || !parseScopes(scopes)) {
+    console.error('Usage: admin-key <name> <scope+scope|*>');
+    console.error(`Scopes: ${ADMIN_SCOPES.join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const key = generateApiKey();
+  console.log(`Key (shown once, give it to the client): ${key}`);
+  console.log(`Add to ADMIN_API_KEYS: ${name}:${hashApiKey(key)}:${scopes}`);
+}
+
+main();
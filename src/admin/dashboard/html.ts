@@ -0,0 +1,77 @@
+/**
+ * Markup that is already escaped. Only `html` and `raw` make one.
+ */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString() {
+    return this.value;
+  }
+}
+
+type Interpolation = SafeHtml | string | number | boolean | null | undefined | Interpolation[];
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function render(value: Interpolation): string {
+  if (value === null || value === undefined || value === false) return '';
+  if (Array.isArray(value)) return value.map(render).join('');
+  if (value instanceof SafeHtml) return value.value;
+  return escapeHtml(String(value));
+}
+
+/**
+ * Template tag that escapes everything interpolated except nested `html` fragments.
+ * `false`, null and undefined render as nothing, so `${cond && html`...`}` works.
+ */
+export function html(strings: TemplateStringsArray, ...values: Interpolation[]): SafeHtml {
+  let out = strings[0];
+  values.forEach((value, i) => {
+    out += render(value) + strings[i + 1];
+  });
+  return new SafeHtml(out);
+}
+
+export function raw(value: string): SafeHtml {
+  return new SafeHtml(value);
+}
+
+const STYLES = `
+  body { font: 14px/1.4 system-ui, sans-serif; margin: 0 auto; max-width: 1200px; padding: 16px; color: #1d1d1f; }
+  header { display: flex; justify-content: space-between; align-items: center; border-bottom: 1px solid #ddd; }
+  h1 { font-size: 20px; } h2 { font-size: 16px; margin-top: 32px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+  th { background: #f6f6f6; }
+  code { font-size: 12px; }
+  form.inline { display: inline; }
+  button { cursor: pointer; }
+  .notice { background: #eef6ff; border: 1px solid #b6d4fe; padding: 8px; margin: 12px 0; }
+  .badge { display: inline-block; padding: 0 6px; border-radius: 8px; font-size: 12px; background: #eee; }
+  .badge.created { background: #d1f5d3; } .badge.merged { background: #d6e9ff; }
+  .badge.error { background: #ffd9d9; } .badge.held { background: #fff1c2; }
+  .muted { color: #777; }
+`;
+
+export function page(title: string, body: SafeHtml, notice?: string): string {
+  return html`<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title} · Roadmapr admin</title>
+  <style>${raw(STYLES)}</style>
+</head>
+<body>
+  ${notice && html`<div class="notice">${notice}</div>`}
+  ${body}
+</body>
+</html>`.value;
+}
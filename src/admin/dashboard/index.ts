@@ -0,0 +1,196 @@
+import express, { type NextFunction, type Request, type Response } from 'express';
+import { findApiKey, hashApiKey, type AdminScope, type ApiKey } from '../auth.js';
+import { ApiError, ForbiddenError, NotFoundError } from '../errors.js';
+import { requeueMention } from '../operations.js';
+import { renderDashboard, renderLogin } from './views.js';
+import { replyToReview } from '../../bot/processor.js';
+import { reviewHeldRequestsAsOperator } from '../../bot/moderation.js';
+import { undoActionsForMention } from '../../bot/undo.js';
+import { listBotMentions } from '../../db/bot.js';
+import { countFeaturesByStatus } from '../../db/features.js';
+import { getModerationItem, listPendingModeration } from '../../db/moderation.js';
+import { listPendingProjectSetups } from '../../db/project-setups.js';
+import { getAllProjects } from '../../db/projects.js';
+import { createLogger } from '../../log/index.js';
+
+const log = createLogger('admin');
+
+const COOKIE = 'roadmapr_admin';
+const MENTION_LIMIT = 100;
+const LIST_LIMIT = 50;
+
+interface Session {
+  apiKey: ApiKey;
+  csrf: string;
+}
+
+/**
+ * Server-rendered admin dashboard, mounted at /admin/dashboard. Signing in stores the
+ * API key in an HttpOnly, same-site cookie; every button is a form post carrying a
+ * token derived from the key, so other sites can't submit them.
+ */
+export function createDashboard(): express.Router {
+  const router = express.Router();
+  router.use(express.urlencoded({ extended: false, limit: '10kb' }));
+
+  router.get('/login', (req, res) => {
+    res.type('html').send(renderLogin(req.baseUrl, noticeFrom(req)));
+  });
+
+  router.post('/login', (req, res) => {
+    const key = typeof req.body?.key === 'string' ? req.body.key.trim() : '';
+    const apiKey = key ? findApiKey(key) : null;
+    if (!apiKey) {
+      return res.status(401).type('html').send(renderLogin(req.baseUrl, 'Unknown API key'));
+    }
+    log.info(`Dashboard sign-in with key "${apiKey.name}"`);
+    res.cookie(COOKIE, key, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      path: req.baseUrl || '/'
+    });
+    res.redirect(`${req.baseUrl}/`);
+  });
+
+  router.use((req, res, next) => {
+    const key = readCookie(req.headers.cookie, COOKIE);
+    const apiKey = key ? findApiKey(key) : null;
+    if (!apiKey) {
+      return res.redirect(`${req.baseUrl}/login`);
+    }
+    if (req.method === 'POST' && req.body?.csrf !== csrfToken(key!)) {
+      return res.status(403).type('text').send('Invalid form token, reload the page and try again');
+    }
+    res.locals.session = { apiKey, csrf: csrfToken(key!) } satisfies Session;
+    next();
+  });
+
+  router.post('/logout', (req, res) => {
+    res.clearCookie(COOKIE, { path: req.baseUrl || '/' });
+    res.redirect(`${req.baseUrl}/login`);
+  });
+
+  router.get('/', async (req, res, next) => {
+    try {
+      const { apiKey, csrf } = res.locals.session as Session;
+      const can = (scope: AdminScope) => apiKey.scopes.has(scope);
+      const errorsOnly = req.query.errors === '1';
+      const canSeeProjects = can('projects:read');
+
+      const [mentions, projects, featureCounts, setups, moderation] = await Promise.all([
+        can('mentions:read') ? listBotMentions({ limit: MENTION_LIMIT, ...(errorsOnly && { error: true }) }) : null,
+        canSeeProjects ? getAllProjects() : null,
+        canSeeProjects ? countFeaturesByStatus() : null,
+        canSeeProjects ? listPendingProjectSetups(LIST_LIMIT) : null,
+        can('features:read') ? listPendingModeration(null, LIST_LIMIT) : null
+      ]);
+
+      res.type('html').send(renderDashboard({
+        base: req.baseUrl,
+        keyName: apiKey.name,
+        scopes: apiKey.scopes,
+        csrf,
+        notice: noticeFrom(req),
+        errorsOnly,
+        mentions,
+        projects,
+        featureCounts,
+        setups,
+        moderation
+      }));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  action(router, '/mentions/:castHash/reprocess', 'mentions:write', async (req) => {
+    const job = await requeueMention(req.params.castHash);
+    return `Queued ${req.params.castHash} for reprocessing${job ? '' : ' (already queued)'}`;
+  });
+
+  action(router, '/mentions/:castHash/undo', 'features:write', async (req) => {
+    const result = await undoActionsForMention(req.params.castHash);
+    log.info(`Dashboard undo of ${req.params.castHash}: ${result.status}`);
+    if (result.status === 'undone') {
+      return `Reverted: ${result.reverted.map(r => `${r.type} "${r.title}"`).join(', ')}`;
+    }
+    if (result.status === 'blocked') {
+      return `Can't undo: other requests were merged into "${result.title}" since`;
+    }
+    return 'Nothing left to undo for that mention';
+  });
+
+  action(router, '/moderation/:id/:decision(approve|reject)', 'features:write', async (req) => {
+    const item = await getModerationItem(req.params.id);
+    if (!item) {
+      throw new NotFoundError('Held request', req.params.id);
+    }
+    const decision = req.params.decision as 'approve' | 'reject';
+    const result = await reviewHeldRequestsAsOperator([item], decision);
+    // Answer where moderators would have, so the requester hears about it
+    if ((result.status === 'approved' || result.status === 'rejected') && item.notice_cast_hash) {
+      await replyToReview(item.notice_cast_hash, result);
+    }
+    if (result.status === 'approved') {
+      return `Approved "${item.feature.title}" (${result.outcomes[0].action})`;
+    }
+    if (result.status === 'rejected') {
+      return `Rejected "${item.feature.title}"`;
+    }
+    return `"${item.feature.title}" was already reviewed`;
+  });
+
+  router.use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
+    log.error(`Dashboard ${req.method} ${req.path} failed`, err);
+    res.status(500).type('text').send('Something went wrong, see the server log');
+  });
+
+  return router;
+}
+
+/**
+ * A button's form post: check the scope, run it, and go back to the dashboard with what happened
+ */
+function action(router: express.Router, path: string, scope: AdminScope, run: (req: Request) => Promise<string>) {
+  router.post(path, async (req, res, next) => {
+    try {
+      const { apiKey } = res.locals.session as Session;
+      if (!apiKey.scopes.has(scope)) {
+        throw new ForbiddenError(scope);
+      }
+      redirectWithNotice(req, res, await run(req));
+    } catch (err) {
+      if (err instanceof ApiError) {
+        return redirectWithNotice(req, res, err.message);
+      }
+      next(err);
+    }
+  });
+}
+
+function redirectWithNotice(req: Request, res: Response, notice: string) {
+  res.redirect(`${req.baseUrl}/?notice=${encodeURIComponent(notice)}`);
+}
+
+function noticeFrom(req: Request): string | undefined {
+  return typeof req.query.notice === 'string' ? req.query.notice.slice(0, 500) : undefined;
+}
+
+function csrfToken(key: string): string {
+  return hashApiKey(`${key}:dashboard-form`);
+}
+
+function readCookie(header: string | undefined, name: string): string | null {
+  for (const part of (header || '').split(';')) {
+    const [cookieName, ...value] = part.trim().split('=');
+    if (cookieName === name) {
+      try {
+        return decodeURIComponent(value.join('='));
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
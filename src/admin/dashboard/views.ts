@@ -0,0 +1,245 @@
+import { html, page, type SafeHtml } from './html.js';
+import type { AdminScope } from '../auth.js';
+import { FEATURE_STATUSES } from '../../bot/lifecycle.js';
+import type { BotMention } from '../../db/bot.js';
+import type { FeatureCount } from '../../db/features.js';
+import type { ModerationItem } from '../../db/moderation.js';
+import type { PendingProjectSetup } from '../../db/project-setups.js';
+import type { Project } from '../../db/projects.js';
+
+export type MentionOutcome =
+  | { kind: 'created' | 'merged' | 'handled'; label: string }
+  | { kind: 'error'; label: string; category: string };
+
+// First match wins; the patterns follow the `error` strings the processor passes to logBotMention
+const ERROR_CATEGORIES: Array<[RegExp, string]> = [
+  [/^Rate limited/, 'rate limited'],
+  [/^(?:Blocked author|Thread reply limit|Low Neynar score)/, 'filtered'],
+  [/^(?:No parent cast|Parent cast not found)/, 'missing cast'],
+  [/^(?:Projects not found|Multiple projects|Awaiting project|Clarification cancelled)/, 'project'],
+  [/^Low confidence intent/, 'intent'],
+  [/^(?:Undo|Status|Admin|Alias|Rate limit|Moderation|Ownership|Vote|hide|unhide|follow|unfollow)\b/, 'command'],
+];
+
+export function mentionOutcome(mention: BotMention): MentionOutcome {
+  if (mention.error_message) {
+    const match = ERROR_CATEGORIES.find(([pattern]) => pattern.test(mention.error_message!));
+    const category = match ? match[1] : 'other';
+    return { kind: 'error', label: category, category };
+  }
+  if (mention.features_created > 0) {
+    const merged = mention.features_merged > 0 ? `, merged ${mention.features_merged}` : '';
+    return { kind: 'created', label: `created ${mention.features_created}${merged}` };
+  }
+  if (mention.features_merged > 0) {
+    return { kind: 'merged', label: `merged ${mention.features_merged}` };
+  }
+  return { kind: 'handled', label: 'handled' };
+}
+
+export interface DashboardView {
+  base: string;
+  keyName: string;
+  scopes: ReadonlySet<AdminScope>;
+  csrf: string;
+  notice?: string;
+  errorsOnly: boolean;
+  // Each section is null when the key lacks the scope to read it
+  mentions: BotMention[] | null;
+  projects: Project[] | null;
+  featureCounts: FeatureCount[] | null;
+  setups: PendingProjectSetup[] | null;
+  moderation: ModerationItem[] | null;
+}
+
+export function renderLogin(base: string, notice?: string): string {
+  return page('Sign in', html`
+    <h1>Roadmapr admin</h1>
+    <form method="post" action="${base}/login">
+      <label>API key <input type="password" name="key" autocomplete="off" size="50" autofocus></label>
+      <button type="submit">Sign in</button>
+    </form>
+    <p class="muted">Use a key from ADMIN_API_KEYS (<code>npm run admin-key</code> makes one).</p>
+  `, notice);
+}
+
+export function renderDashboard(view: DashboardView): string {
+  return page('Dashboard', html`
+    <header>
+      <h1>Roadmapr admin</h1>
+      <form class="inline" method="post" action="${view.base}/logout">
+        ${csrfField(view)}
+        <span class="muted">Signed in as ${view.keyName}</span>
+        <button type="submit">Sign out</button>
+      </form>
+    </header>
+    ${renderMentions(view)}
+    ${renderFailures(view)}
+    ${renderModeration(view)}
+    ${renderProjects(view)}
+    ${renderSetups(view)}
+  `, view.notice);
+}
+
+function csrfField(view: DashboardView): SafeHtml {
+  return html`<input type="hidden" name="csrf" value="${view.csrf}">`;
+}
+
+function actionButton(view: DashboardView, path: string, label: string, confirmText?: string): SafeHtml {
+  return html`<form class="inline" method="post" action="${view.base}${path}">
+    ${csrfField(view)}
+    <button type="submit"${confirmText && html` onclick="return confirm('${confirmText}')"`}>${label}</button>
+  </form>`;
+}
+
+function missingScope(title: string, scope: AdminScope): SafeHtml {
+  return html`<h2>${title}</h2><p class="muted">Needs the ${scope} scope.</p>`;
+}
+
+function time(value: string): string {
+  return value.replace('T', ' ').slice(0, 19);
+}
+
+function shortHash(hash: string): string {
+  return hash.length > 12 ? `${hash.slice(0, 10)}…` : hash;
+}
+
+function renderMentions(view: DashboardView): SafeHtml {
+  if (!view.mentions) return missingScope('Recent mentions', 'mentions:read');
+
+  const canReprocess = view.scopes.has('mentions:write');
+  const canUndo = view.scopes.has('features:write');
+  const rows = view.mentions.map(mention => {
+    const outcome = mentionOutcome(mention);
+    const changed = mention.features_created + mention.features_merged > 0;
+    return html`<tr>
+      <td>${time(mention.created_at)}</td>
+      <td><code title="${mention.cast_hash}">${shortHash(mention.cast_hash)}</code></td>
+      <td>${mention.mention_author_fid}</td>
+      <td>${(mention.detected_projects ?? []).map(handle => `@${handle}`).join(' ')}</td>
+      <td><span class="badge ${outcome.kind}">${outcome.label}</span></td>
+      <td>${mention.error_message ?? ''}</td>
+      <td>
+        ${canReprocess && actionButton(view, `/mentions/${mention.cast_hash}/reprocess`, 'Reprocess')}
+        ${canUndo && changed && actionButton(view, `/mentions/${mention.cast_hash}/undo`, 'Undo', 'Revert the features this mention created or merged?')}
+      </td>
+    </tr>`;
+  });
+
+  return html`
+    <h2>Recent mentions</h2>
+    <p>
+      ${view.errorsOnly ? html`<a href="${view.base}/">All</a> · <strong>Failed only</strong>` : html`<strong>All</strong> · <a href="${view.base}/?errors=1">Failed only</a>`}
+    </p>
+    <table>
+      <tr><th>When</th><th>Cast</th><th>FID</th><th>Projects</th><th>Outcome</th><th>Reason</th><th></th></tr>
+      ${rows.length > 0 ? rows : html`<tr><td colspan="7" class="muted">Nothing logged yet</td></tr>`}
+    </table>
+  `;
+}
+
+function renderFailures(view: DashboardView): SafeHtml {
+  if (!view.mentions) return html``;
+
+  // Failure reasons among the mentions above, most frequent first
+  const reasons = new Map<string, { category: string; count: number; latest: string }>();
+  for (const mention of view.mentions) {
+    const outcome = mentionOutcome(mention);
+    if (outcome.kind !== 'error') continue;
+    const entry = reasons.get(mention.error_message!) ?? { category: outcome.category, count: 0, latest: mention.created_at };
+    entry.count++;
+    if (mention.created_at > entry.latest) entry.latest = mention.created_at;
+    reasons.set(mention.error_message!, entry);
+  }
+  const sorted = [...reasons.entries()].sort((a, b) => b[1].count - a[1].count);
+
+  return html`
+    <h2>Failure reasons</h2>
+    <table>
+      <tr><th>Category</th><th>Reason</th><th>Count</th><th>Latest</th></tr>
+      ${sorted.length > 0
+        ? sorted.map(([reason, entry]) => html`<tr>
+          <td><span class="badge error">${entry.category}</span></td>
+          <td>${reason}</td>
+          <td>${entry.count}</td>
+          <td>${time(entry.latest)}</td>
+        </tr>`)
+        : html`<tr><td colspan="4" class="muted">No failures among these mentions</td></tr>`}
+    </table>
+  `;
+}
+
+function renderModeration(view: DashboardView): SafeHtml {
+  if (!view.moderation) return missingScope('Held for review', 'features:read');
+
+  const handles = new Map((view.projects ?? []).map(project => [project.id, project.project_handle]));
+  const canReview = view.scopes.has('features:write');
+  return html`
+    <h2>Held for review</h2>
+    <table>
+      <tr><th>When</th><th>Project</th><th>Requester</th><th>Request</th><th>Reasons</th><th></th></tr>
+      ${view.moderation.length > 0
+        ? view.moderation.map(item => html`<tr>
+          <td>${time(item.created_at)}</td>
+          <td>${handles.has(item.project_id) ? `@${handles.get(item.project_id)}` : item.project_id}</td>
+          <td>${item.requester_fid}</td>
+          <td><strong>${item.feature.title}</strong><br><span class="muted">${item.source_cast_text}</span></td>
+          <td>${item.reasons.join('; ')}</td>
+          <td>
+            ${canReview && actionButton(view, `/moderation/${item.id}/approve`, 'Approve')}
+            ${canReview && actionButton(view, `/moderation/${item.id}/reject`, 'Reject')}
+          </td>
+        </tr>`)
+        : html`<tr><td colspan="6" class="muted">Nothing waiting</td></tr>`}
+    </table>
+  `;
+}
+
+function renderProjects(view: DashboardView): SafeHtml {
+  if (!view.projects) return missingScope('Projects', 'projects:read');
+
+  const counts = new Map<string, Map<string, number>>();
+  for (const row of view.featureCounts ?? []) {
+    const byStatus = counts.get(row.project_id) ?? new Map<string, number>();
+    byStatus.set(row.status, row.count);
+    counts.set(row.project_id, byStatus);
+  }
+
+  return html`
+    <h2>Projects</h2>
+    <table>
+      <tr><th>Project</th><th>Verified</th>${FEATURE_STATUSES.map(status => html`<th>${status.replace('_', ' ')}</th>`)}<th>Total</th></tr>
+      ${view.projects.map(project => {
+        const byStatus = counts.get(project.id) ?? new Map<string, number>();
+        const total = [...byStatus.values()].reduce((sum, n) => sum + n, 0);
+        return html`<tr>
+          <td>@${project.project_handle} <span class="muted">${project.name}</span></td>
+          <td>${project.is_verified ? 'yes' : 'no'}</td>
+          ${FEATURE_STATUSES.map(status => html`<td>${byStatus.get(status) ?? 0}</td>`)}
+          <td><strong>${total}</strong></td>
+        </tr>`;
+      })}
+    </table>
+  `;
+}
+
+function renderSetups(view: DashboardView): SafeHtml {
+  if (!view.setups) return missingScope('Pending project setups', 'projects:read');
+
+  return html`
+    <h2>Pending project setups</h2>
+    <table>
+      <tr><th>Started</th><th>Handle</th><th>Requester</th><th>Step</th><th>Mention</th><th>Expires</th></tr>
+      ${view.setups.length > 0
+        ? view.setups.map(setup => html`<tr>
+          <td>${time(setup.created_at)}</td>
+          <td>@${setup.project_handle}</td>
+          <td>${setup.requester_fid}</td>
+          <td>${setup.step}</td>
+          <td><code title="${setup.mention_cast_hash}">${shortHash(setup.mention_cast_hash)}</code></td>
+          <td>${time(setup.expires_at)}</td>
+        </tr>`)
+        : html`<tr><td colspan="6" class="muted">None</td></tr>`}
+    </table>
+  `;
+}
@@ -0,0 +1,71 @@
+/**
+ * Errors the admin API turns into JSON responses: { error: { code, message, issues? } }
+ */
+
+export type ApiErrorCode =
+  | 'validation_failed'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'internal';
+
+export interface ValidationIssue {
+  // Where in the request, e.g. "body.title" or "query.limit"
+  path: string;
+  message: string;
+}
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ApiErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  toJSON(): { error: { code: ApiErrorCode; message: string; issues?: ValidationIssue[] } } {
+    return { error: { code: this.code, message: this.message } };
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(400, 'validation_failed', `Invalid request: ${issues.map(i => `${i.path} ${i.message}`).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+
+  toJSON() {
+    return { error: { code: this.code, message: this.message, issues: this.issues } };
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor() {
+    super(401, 'unauthorized', 'Missing or unknown API key');
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(public readonly scope: string) {
+    super(403, 'forbidden', `This API key lacks the "${scope}" scope`);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(what: string, id: string) {
+    super(404, 'not_found', `${what} ${id} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super(409, 'conflict', message);
+    this.name = 'ConflictError';
+  }
+}
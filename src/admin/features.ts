@@ -0,0 +1,162 @@
+import { route } from './router.js';
+import { listOf, ref } from './openapi.js';
+import { ConflictError, NotFoundError, ValidationError } from './errors.js';
+import { array, boolean, integer, object, oneOf, optional, string } from './schema.js';
+import { FEATURE_STATUSES } from '../bot/lifecycle.js';
+import { MAX_TITLE_LENGTH } from '../bot/schemas.js';
+import { getProjectById } from '../db/projects.js';
+import { getTagByName, type Tag } from '../db/tags.js';
+import {
+  getFeatureById,
+  getFeatureSources,
+  getFeatureTags,
+  listFeatures,
+  mergeFeatures,
+  setFeatureTags,
+  updateFeature
+} from '../db/features.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('admin');
+
+const idParams = object({ id: string({ max: 64 }) });
+
+const featureDetails = {
+  type: 'object',
+  properties: {
+    feature: ref('Feature'),
+    tags: listOf('Tag'),
+    sources: { type: 'array', items: { type: 'object' } },
+  },
+};
+
+async function getFeatureDetails(id: string) {
+  const feature = await getFeatureById(id);
+  if (!feature) {
+    throw new NotFoundError('Feature', id);
+  }
+  const [tags, sources] = await Promise.all([getFeatureTags(id), getFeatureSources(id)]);
+  return { feature, tags, sources };
+}
+
+export const featureRoutes = [
+  route({
+    method: 'get',
+    path: '/projects/{projectId}/features',
+    scope: 'features:read',
+    operationId: 'listFeatures',
+    summary: "List a project's features, sub-items and hidden ones included on request, newest first",
+    tag: 'features',
+    params: object({ projectId: string({ max: 64 }) }),
+    query: object({
+      status: optional(oneOf(FEATURE_STATUSES)),
+      include_hidden: optional(boolean()),
+      limit: optional(integer({ min: 1, max: 200 })),
+      offset: optional(integer({ min: 0 })),
+    }),
+    response: { type: 'object', properties: { features: listOf('Feature') } },
+    async handler({ params, query }) {
+      if (!(await getProjectById(params.projectId))) {
+        throw new NotFoundError('Project', params.projectId);
+      }
+      const features = await listFeatures({
+        project_id: params.projectId,
+        status: query.status,
+        include_hidden: query.include_hidden,
+        limit: query.limit ?? 50,
+        offset: query.offset
+      });
+      return { features };
+    }
+  }),
+
+  route({
+    method: 'get',
+    path: '/features/{id}',
+    scope: 'features:read',
+    operationId: 'getFeature',
+    summary: 'A feature with its tags and source casts',
+    tag: 'features',
+    params: idParams,
+    response: featureDetails,
+    async handler({ params }) {
+      return getFeatureDetails(params.id);
+    }
+  }),
+
+  route({
+    method: 'patch',
+    path: '/features/{id}',
+    scope: 'features:write',
+    operationId: 'updateFeature',
+    summary: "Edit a feature's title, description, visibility or tags (status changes go through the bot)",
+    tag: 'features',
+    params: idParams,
+    body: object({
+      title: optional(string({ max: MAX_TITLE_LENGTH })),
+      description: optional(string({ max: 5000 })),
+      is_hidden: optional(boolean()),
+      tags: optional(array(string({ max: 50 }), { max: 20, description: 'Tag names; replaces the current tags' })),
+    }),
+    response: featureDetails,
+    async handler({ params, body }) {
+      if (!(await getFeatureById(params.id))) {
+        throw new NotFoundError('Feature', params.id);
+      }
+
+      let tags: Tag[] | undefined;
+      if (body.tags) {
+        tags = [];
+        const unknown: string[] = [];
+        for (const name of body.tags) {
+          const tag = await getTagByName(name);
+          if (tag) tags.push(tag); else unknown.push(name);
+        }
+        if (unknown.length > 0) {
+          throw new ValidationError(unknown.map(name => ({ path: 'body.tags', message: `unknown tag "${name}"` })));
+        }
+      }
+
+      const { tags: _tags, ...changes } = body;
+      const changed = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+      if (Object.keys(changed).length > 0) {
+        await updateFeature(params.id, changed);
+      }
+      if (tags) {
+        await setFeatureTags(params.id, tags.map(tag => tag.id));
+      }
+      log.info(`Updated feature ${params.id}: ${Object.keys(body).join(', ')}`);
+      return getFeatureDetails(params.id);
+    }
+  }),
+
+  route({
+    method: 'post',
+    path: '/features/{id}/merge',
+    scope: 'features:write',
+    operationId: 'mergeFeature',
+    summary: 'Merge a feature into another of the same project; its sources, votes and followers move over',
+    tag: 'features',
+    params: idParams,
+    body: object({ into: string({ max: 64, description: 'The feature to keep' }) }),
+    response: featureDetails,
+    async handler({ params, body }) {
+      if (params.id === body.into) {
+        throw new ValidationError([{ path: 'body.into', message: 'must be a different feature' }]);
+      }
+      const [source, target] = await Promise.all([getFeatureById(params.id), getFeatureById(body.into)]);
+      if (!source) throw new NotFoundError('Feature', params.id);
+      if (!target) throw new NotFoundError('Feature', body.into);
+      if (source.project_id !== target.project_id) {
+        throw new ConflictError('Features belong to different projects');
+      }
+      if (target.parent_feature_id === source.id) {
+        throw new ConflictError(`${body.into} is a sub-item of ${params.id}`);
+      }
+
+      const total = await mergeFeatures(source.id, target.id);
+      log.info(`Merged feature ${source.id} into ${target.id} (weight now ${total})`);
+      return getFeatureDetails(target.id);
+    }
+  }),
+];
@@ -0,0 +1,28 @@
+import express from 'express';
+import { createAdminRouter, type AdminRoute } from './router.js';
+import { createDashboard } from './dashboard/index.js';
+import { buildOpenApiDocument } from './openapi.js';
+import { mentionRoutes } from './mentions.js';
+import { featureRoutes } from './features.js';
+import { projectRoutes } from './projects.js';
+import { tagRoutes } from './tags.js';
+
+export { getApiKeys } from './auth.js';
+export { requireApiKey } from './router.js';
+
+export const ADMIN_ROUTES: AdminRoute[] = [
+  ...mentionRoutes,
+  ...featureRoutes,
+  ...projectRoutes,
+  ...tagRoutes,
+];
+
+/**
+ * The admin REST API and, under /dashboard, its HTML dashboard; mounted at /admin
+ */
+export function createAdminApi(): express.Router {
+  const router = express.Router();
+  router.use('/dashboard', createDashboard());
+  router.use(createAdminRouter(ADMIN_ROUTES, buildOpenApiDocument(ADMIN_ROUTES)));
+  return router;
+}
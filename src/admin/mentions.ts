@@ -0,0 +1,113 @@
+import { route } from './router.js';
+import { listOf, ref } from './openapi.js';
+import { NotFoundError } from './errors.js';
+import { integer, object, optional, string } from './schema.js';
+import { requeueMention, planMentionRun } from './operations.js';
+import { listBotMentions, getBotMentionsForCast } from '../db/bot.js';
+import { getActionsForMention } from '../db/actions.js';
+import { getModerationForMention } from '../db/moderation.js';
+
+const castHashParams = object({ castHash: string({ max: 100, pattern: /^0x[0-9a-fA-F]+$/ }) });
+
+export const mentionRoutes = [
+  route({
+    method: 'get',
+    path: '/mentions',
+    scope: 'mentions:read',
+    operationId: 'listMentions',
+    summary: 'List processed mentions, newest first',
+    tag: 'mentions',
+    query: object({
+      error: optional(string({ max: 200, description: '"true": only failed mentions, "false": only successful ones, other text: errors containing it' })),
+      fid: optional(integer({ min: 1, description: 'Mentions by this fid' })),
+      before: optional(string({ max: 40, description: 'Paging: created_at of the last mention on the previous page' })),
+      limit: optional(integer({ min: 1, max: 200 })),
+    }),
+    response: {
+      type: 'object',
+      properties: { mentions: listOf('BotMention'), next_before: { type: 'string', nullable: true } },
+    },
+    async handler({ query }) {
+      const limit = query.limit ?? 50;
+      const mentions = await listBotMentions({
+        error: query.error === 'true' ? true : query.error === 'false' ? false : query.error,
+        fid: query.fid,
+        before: query.before,
+        limit
+      });
+      return {
+        mentions,
+        next_before: mentions.length === limit ? mentions[mentions.length - 1].created_at : null
+      };
+    }
+  }),
+
+  route({
+    method: 'get',
+    path: '/mentions/{castHash}',
+    scope: 'mentions:read',
+    operationId: 'getMention',
+    summary: 'Everything recorded for one cast: log rows, feature changes and held requests',
+    tag: 'mentions',
+    params: castHashParams,
+    response: {
+      type: 'object',
+      properties: {
+        cast_hash: { type: 'string' },
+        mentions: listOf('BotMention'),
+        actions: listOf('BotAction'),
+        moderation: listOf('ModerationItem'),
+      },
+    },
+    async handler({ params }) {
+      const [mentions, actions, moderation] = await Promise.all([
+        getBotMentionsForCast(params.castHash),
+        getActionsForMention(params.castHash),
+        getModerationForMention(params.castHash)
+      ]);
+      if (mentions.length === 0 && actions.length === 0 && moderation.length === 0) {
+        throw new NotFoundError('Mention', params.castHash);
+      }
+      return { cast_hash: params.castHash, mentions, actions, moderation };
+    }
+  }),
+
+  route({
+    method: 'post',
+    path: '/mentions/{castHash}/requeue',
+    scope: 'mentions:write',
+    operationId: 'requeueMention',
+    summary: 'Process a cast again. Changes from earlier runs are kept (undo them first if needed).',
+    tag: 'mentions',
+    status: 202,
+    params: castHashParams,
+    body: object({
+      author_fid: optional(integer({ min: 1, description: 'Needed if the cast was never logged' })),
+      parent_hash: optional(string({ max: 100 })),
+    }),
+    response: { type: 'object', properties: { job_id: { type: 'string' } } },
+    async handler({ params, body }) {
+      const job = await requeueMention(params.castHash, body);
+      return { job_id: job?.id ?? null };
+    }
+  }),
+
+  route({
+    method: 'post',
+    path: '/mentions/{castHash}/plan',
+    // Writes nothing, but runs the LLM and embedding calls a real run would, which cost money
+    scope: 'mentions:write',
+    operationId: 'planMention',
+    summary: 'Dry run: what processing the cast now would do, without writing or posting anything',
+    tag: 'mentions',
+    params: castHashParams,
+    body: object({
+      author_fid: optional(integer({ min: 1, description: 'Needed if the cast was never logged' })),
+      parent_hash: optional(string({ max: 100 })),
+    }),
+    response: { type: 'object', properties: { plan: { ...ref('MentionPlan'), nullable: true } } },
+    async handler({ params, body }) {
+      return { plan: (await planMentionRun(params.castHash, body)) ?? null };
+    }
+  }),
+];
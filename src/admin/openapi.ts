@@ -0,0 +1,205 @@
+import { ADMIN_SCOPES } from './auth.js';
+import type { AdminRoute } from './router.js';
+import type { JsonSchema } from './schema.js';
+
+const nullableString = { type: 'string', nullable: true };
+const nullableInteger = { type: 'integer', nullable: true };
+
+// Shapes the admin routes return, referenced from their `response`
+const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: {
+        type: 'object',
+        required: ['code', 'message'],
+        properties: {
+          code: { type: 'string', enum: ['validation_failed', 'unauthorized', 'forbidden', 'not_found', 'conflict', 'internal'] },
+          message: { type: 'string' },
+          issues: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['path', 'message'],
+              properties: { path: { type: 'string' }, message: { type: 'string' } },
+            },
+          },
+        },
+      },
+    },
+  },
+  BotMention: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      cast_hash: { type: 'string' },
+      mention_author_fid: { type: 'integer' },
+      parent_cast_hash: nullableString,
+      parent_cast_author_fid: nullableInteger,
+      parent_cast_text: nullableString,
+      detected_projects: { type: 'array', items: { type: 'string' }, nullable: true },
+      features_created: { type: 'integer' },
+      features_merged: { type: 'integer' },
+      error_message: nullableString,
+      created_at: { type: 'string', format: 'date-time' },
+    },
+  },
+  BotAction: {
+    type: 'object',
+    description: 'Journal entry for a change the bot made to a feature',
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['create', 'merge'] },
+      project_id: { type: 'string' },
+      feature_id: { type: 'string' },
+      requester_fid: { type: 'integer' },
+      mention_cast_hash: { type: 'string' },
+      reply_cast_hash: nullableString,
+      request: { type: 'object' },
+      status: { type: 'string', enum: ['applied', 'reverted'] },
+      created_at: { type: 'string', format: 'date-time' },
+    },
+  },
+  ModerationItem: {
+    type: 'object',
+    description: 'A request held back by moderation',
+    properties: {
+      id: { type: 'string' },
+      project_id: { type: 'string' },
+      requester_fid: { type: 'integer' },
+      feature: { type: 'object' },
+      reasons: { type: 'array', items: { type: 'string' } },
+      status: { type: 'string', enum: ['pending', 'approved', 'rejected'] },
+      created_at: { type: 'string', format: 'date-time' },
+    },
+  },
+  Feature: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      project_id: { type: 'string' },
+      title: { type: 'string' },
+      description: { type: 'string' },
+      submitter_fid: { type: 'integer' },
+      parent_feature_id: nullableString,
+      is_sub_item: { type: 'boolean' },
+      status: { type: 'string' },
+      is_hidden: { type: 'boolean' },
+      total_weight: { type: 'number' },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { ...nullableString, format: 'date-time' },
+    },
+  },
+  Project: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      project_handle: { type: 'string' },
+      voting_type: { type: 'string', enum: ['score', 'token'] },
+      token_address: nullableString,
+      owner_fid: nullableInteger,
+      is_verified: { type: 'boolean' },
+      rate_limit_hourly: nullableInteger,
+      user_rate_limit_daily: nullableInteger,
+    },
+  },
+  Tag: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      type: { type: 'string', enum: ['predefined', 'custom'] },
+    },
+  },
+  MentionPlan: {
+    type: 'object',
+    description: 'What processing a mention would do (see src/bot/dry-run.ts)',
+    properties: {
+      dry_run: { type: 'boolean' },
+      cast_hash: { type: 'string' },
+      author_fid: { type: 'integer' },
+      parent_hash: nullableString,
+      command: nullableString,
+      mention: { type: 'object', nullable: true, description: 'What the mention would be logged with' },
+      features: { type: 'array', items: { type: 'object' } },
+      replies: { type: 'array', items: { type: 'string' } },
+      standalone_cast: nullableString,
+    },
+  },
+};
+
+export function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+export function listOf(name: string): JsonSchema {
+  return { type: 'array', items: ref(name) };
+}
+
+const ERROR_RESPONSES = {
+  400: 'Invalid request (see error.issues)',
+  401: 'Missing or unknown API key',
+  403: 'The API key lacks the scope',
+  404: 'Not found',
+  409: 'Conflicts with existing data',
+};
+
+/**
+ * OpenAPI 3.0 description of the admin routes, served at /admin/openapi.json
+ */
+export function buildOpenApiDocument(routes: AdminRoute[]) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of routes) {
+    const parameters = [
+      ...Object.entries(route.params?.shape ?? {}).map(([name, schema]) => ({
+        name, in: 'path', required: true, schema: schema.json,
+      })),
+      ...Object.entries(route.query?.shape ?? {}).map(([name, schema]) => ({
+        name, in: 'query', required: !schema.optional, schema: schema.json,
+      })),
+    ];
+
+    const status = route.status ?? 200;
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method]: {
+        operationId: route.operationId,
+        summary: route.summary,
+        tags: [route.tag],
+        description: `Requires the \`${route.scope}\` scope.`,
+        ...(parameters.length > 0 && { parameters }),
+        ...(route.body && {
+          requestBody: { required: true, content: { 'application/json': { schema: route.body.json } } },
+        }),
+        responses: {
+          [status]: status === 204
+            ? { description: 'Done' }
+            : { description: 'OK', content: { 'application/json': { schema: route.response ?? { type: 'object' } } } },
+          ...Object.fromEntries(Object.entries(ERROR_RESPONSES).map(([code, description]) => [
+            code,
+            { description, content: { 'application/json': { schema: ref('Error') } } },
+          ])),
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Roadmapr bot admin API',
+      version: '1.0.0',
+      description: `Inspect and fix bot state. Send an API key as "Authorization: Bearer <key>". Scopes: ${ADMIN_SCOPES.join(', ')}.`,
+    },
+    servers: [{ url: '/admin' }],
+    security: [{ apiKey: [] }],
+    components: {
+      securitySchemes: { apiKey: { type: 'http', scheme: 'bearer' } },
+      schemas: COMPONENT_SCHEMAS,
+    },
+    paths,
+  };
+}
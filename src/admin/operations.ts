@@ -0,0 +1,52 @@
+import { NotFoundError } from './errors.js';
+import { REPROCESS_JOB, processWebhook } from '../bot/processor.js';
+import type { MentionPlan } from '../bot/dry-run.js';
+import { enqueueJob, type Job } from '../queue/index.js';
+import { getBotMentionsForCast } from '../db/bot.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('admin');
+
+interface MentionOverrides {
+  author_fid?: number;
+  parent_hash?: string;
+}
+
+/**
+ * The webhook payload for a cast. The author and parent come from its latest log row
+ * unless given; a cast that was never logged needs at least the author.
+ */
+async function mentionWebhook(castHash: string, overrides: MentionOverrides) {
+  const [latest] = (await getBotMentionsForCast(castHash)).slice(-1);
+  const authorFid = overrides.author_fid ?? latest?.mention_author_fid;
+  if (!authorFid) {
+    throw new NotFoundError('Mention', castHash);
+  }
+
+  return {
+    data: {
+      hash: castHash,
+      author: { fid: authorFid },
+      parent_hash: overrides.parent_hash ?? latest?.parent_cast_hash ?? undefined
+    }
+  };
+}
+
+/**
+ * Queue a cast to be processed again
+ */
+export async function requeueMention(castHash: string, overrides: MentionOverrides = {}): Promise<Job | null> {
+  const job = await enqueueJob({
+    type: REPROCESS_JOB,
+    payload: await mentionWebhook(castHash, overrides)
+  });
+  log.info(`Requeued ${castHash} as job ${job?.id}`);
+  return job;
+}
+
+/**
+ * What processing the cast now would do, without doing it (see dry-run.ts)
+ */
+export async function planMentionRun(castHash: string, overrides: MentionOverrides = {}): Promise<MentionPlan | undefined> {
+  return processWebhook(await mentionWebhook(castHash, overrides), { dryRun: true });
+}
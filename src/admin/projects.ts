@@ -0,0 +1,139 @@
+import { route } from './router.js';
+import { listOf, ref } from './openapi.js';
+import { ConflictError, NotFoundError } from './errors.js';
+import { integer, nullable, object, oneOf, optional, string } from './schema.js';
+import {
+  createProject,
+  getAllProjects,
+  getProjectByHandle,
+  getProjectById,
+  listProjectAdmins,
+  setProjectRateLimits,
+  updateProject,
+  type ProjectChanges
+} from '../db/projects.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('admin');
+
+const idParams = object({ id: string({ max: 64 }) });
+const tokenAddress = string({ pattern: /^0x[0-9a-fA-F]{40}$/, description: 'ERC-20 contract, for token voting' });
+
+const projectDetails = {
+  type: 'object',
+  properties: {
+    project: ref('Project'),
+    admins: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { fid: { type: 'integer' }, role: { type: 'string', enum: ['owner', 'admin', 'moderator'] } },
+      },
+    },
+  },
+};
+
+async function getProjectDetails(id: string) {
+  const project = await getProjectById(id);
+  if (!project) {
+    throw new NotFoundError('Project', id);
+  }
+  const admins = await listProjectAdmins(id);
+  return { project, admins: admins.map(({ fid, role }) => ({ fid, role })) };
+}
+
+export const projectRoutes = [
+  route({
+    method: 'get',
+    path: '/projects',
+    scope: 'projects:read',
+    operationId: 'listProjects',
+    summary: 'List all projects',
+    tag: 'projects',
+    response: { type: 'object', properties: { projects: listOf('Project') } },
+    async handler() {
+      return { projects: await getAllProjects() };
+    }
+  }),
+
+  route({
+    method: 'get',
+    path: '/projects/{id}',
+    scope: 'projects:read',
+    operationId: 'getProject',
+    summary: 'A project with its admins and moderators',
+    tag: 'projects',
+    params: idParams,
+    response: projectDetails,
+    async handler({ params }) {
+      return getProjectDetails(params.id);
+    }
+  }),
+
+  route({
+    method: 'post',
+    path: '/projects',
+    scope: 'projects:write',
+    operationId: 'createProject',
+    summary: 'Create a project; it stays unverified until its owner confirms through the bot',
+    tag: 'projects',
+    status: 201,
+    body: object({
+      name: string({ max: 100 }),
+      project_handle: string({ max: 50, pattern: /^\w+$/, description: 'Without the @' }),
+      owner_fid: integer({ min: 1 }),
+      voting_type: optional(oneOf(['score', 'token'] as const)),
+      token_address: optional(tokenAddress),
+    }),
+    response: projectDetails,
+    async handler({ body }) {
+      if (await getProjectByHandle(body.project_handle)) {
+        throw new ConflictError(`@${body.project_handle} already exists`);
+      }
+      const project = await createProject(body);
+      log.info(`Created project @${project.project_handle} (${project.id})`);
+      return getProjectDetails(project.id);
+    }
+  }),
+
+  route({
+    method: 'patch',
+    path: '/projects/{id}',
+    scope: 'projects:write',
+    operationId: 'updateProject',
+    summary: "Edit a project's name, voting and rate limits (null limits fall back to the defaults)",
+    tag: 'projects',
+    params: idParams,
+    body: object({
+      name: optional(string({ max: 100 })),
+      voting_type: optional(oneOf(['score', 'token'] as const)),
+      token_address: optional(nullable(tokenAddress)),
+      rate_limit_hourly: optional(nullable(integer({ min: 0, description: 'Bot mentions per hour for the project' }))),
+      user_rate_limit_daily: optional(nullable(integer({ min: 0, description: 'Bot mentions per day for each user' }))),
+    }),
+    response: projectDetails,
+    async handler({ params, body }) {
+      const project = await getProjectById(params.id);
+      if (!project) {
+        throw new NotFoundError('Project', params.id);
+      }
+
+      const changes: ProjectChanges = {};
+      if (body.name !== undefined) changes.name = body.name;
+      if (body.voting_type !== undefined) changes.voting_type = body.voting_type;
+      if (body.token_address !== undefined) changes.token_address = body.token_address;
+      if (Object.keys(changes).length > 0) {
+        await updateProject(project.id, changes);
+      }
+
+      if (body.rate_limit_hourly !== undefined || body.user_rate_limit_daily !== undefined) {
+        await setProjectRateLimits(project.id, {
+          rate_limit_hourly: body.rate_limit_hourly !== undefined ? body.rate_limit_hourly : project.rate_limit_hourly,
+          user_rate_limit_daily: body.user_rate_limit_daily !== undefined ? body.user_rate_limit_daily : project.user_rate_limit_daily
+        });
+      }
+      log.info(`Updated project @${project.project_handle}: ${Object.keys(body).join(', ')}`);
+      return getProjectDetails(project.id);
+    }
+  }),
+];
@@ -0,0 +1,154 @@
+import express, { type NextFunction, type Request, type Response } from 'express';
+import { findApiKey, readApiKey, type AdminScope, type ApiKey } from './auth.js';
+import { ApiError, ForbiddenError, UnauthorizedError, ValidationError } from './errors.js';
+import type { JsonSchema, ObjectSchema, ParseContext, Schema } from './schema.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('admin');
+
+type Parsed<S> = S extends Schema<infer T> ? T : Record<string, never>;
+
+export interface AdminRequest<P, Q, B> {
+  params: P;
+  query: Q;
+  body: B;
+  apiKey: ApiKey;
+}
+
+type AnyObjectSchema = ObjectSchema<Record<string, Schema<unknown>>>;
+
+export interface AdminRoute {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  // OpenAPI style: /features/{id}
+  path: string;
+  scope: AdminScope;
+  operationId: string;
+  summary: string;
+  tag: string;
+  params?: AnyObjectSchema;
+  query?: AnyObjectSchema;
+  body?: AnyObjectSchema;
+  // Documentation only: what a successful call returns
+  response?: JsonSchema;
+  // 200 unless set; 204 sends no body
+  status?: number;
+  handler(request: AdminRequest<any, any, any>): Promise<unknown>;
+}
+
+interface RouteDefinition<P, Q, B> extends Omit<AdminRoute, 'params' | 'query' | 'body' | 'handler'> {
+  params?: P;
+  query?: Q;
+  body?: B;
+  handler(request: AdminRequest<Parsed<P>, Parsed<Q>, Parsed<B>>): Promise<unknown>;
+}
+
+/**
+ * Declare a route; the handler gets its params, query and body already validated
+ */
+export function route<
+  P extends AnyObjectSchema | undefined = undefined,
+  Q extends AnyObjectSchema | undefined = undefined,
+  B extends AnyObjectSchema | undefined = undefined
+>(definition: RouteDefinition<P, Q, B>): AdminRoute {
+  return definition as AdminRoute;
+}
+
+/**
+ * Express router for the admin routes. Every route needs an API key with the route's scope;
+ * the OpenAPI document at /openapi.json is public.
+ */
+export function createAdminRouter(routes: AdminRoute[], openApiDocument: unknown): express.Router {
+  const router = express.Router();
+  router.use(express.json({ limit: '100kb' }));
+
+  router.get('/openapi.json', (_req, res) => {
+    res.json(openApiDocument);
+  });
+
+  router.use((req, res, next) => {
+    const key = readApiKey(req.headers);
+    const apiKey = key ? findApiKey(key) : null;
+    if (!apiKey) {
+      return next(new UnauthorizedError());
+    }
+    res.locals.apiKey = apiKey;
+    next();
+  });
+
+  for (const definition of routes) {
+    const expressPath = definition.path.replace(/\{(\w+)\}/g, ':$1');
+    router[definition.method](expressPath, async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const apiKey = res.locals.apiKey as ApiKey;
+        if (!apiKey.scopes.has(definition.scope)) {
+          throw new ForbiddenError(definition.scope);
+        }
+
+        const result = await definition.handler({
+          params: parseInput(definition.params, req.params, 'params', true),
+          query: parseInput(definition.query, req.query, 'query', true),
+          body: parseInput(definition.body, req.body ?? {}, 'body', false),
+          apiKey
+        });
+
+        const status = definition.status ?? 200;
+        if (status === 204) {
+          res.status(204).end();
+        } else {
+          res.status(status).json(result);
+        }
+      } catch (err) {
+        next(err);
+      }
+    });
+  }
+
+  router.use((req, _res, next) => {
+    next(new ApiError(404, 'not_found', `No admin route ${req.method} ${req.path}`));
+  });
+
+  router.use(handleAdminError);
+  return router;
+}
+
+/**
+ * Middleware for endpoints outside the admin API that still need one of its keys with `scope`;
+ * a missing key or scope gets the admin API's error response
+ */
+export function requireApiKey(scope: AdminScope): express.RequestHandler {
+  return (req, res, next) => {
+    const key = readApiKey(req.headers);
+    const apiKey = key ? findApiKey(key) : null;
+    const error = !apiKey ? new UnauthorizedError() : !apiKey.scopes.has(scope) ? new ForbiddenError(scope) : null;
+    if (error) {
+      return res.status(error.status).json(error.toJSON());
+    }
+    res.locals.apiKey = apiKey;
+    next();
+  };
+}
+
+function parseInput(schema: AnyObjectSchema | undefined, value: unknown, location: string, coerce: boolean): any {
+  if (!schema) return {};
+  const ctx: ParseContext = { issues: [], coerce };
+  const parsed = schema.parse(value, '', ctx);
+  if (ctx.issues.length > 0) {
+    throw new ValidationError(ctx.issues.map(issue => ({ ...issue, path: issue.path ? `${location}.${issue.path}` : location })));
+  }
+  return parsed;
+}
+
+function handleAdminError(err: unknown, req: Request, res: Response, _next: NextFunction) {
+  // Body that isn't JSON, from express.json()
+  if ((err as { type?: string })?.type === 'entity.parse.failed') {
+    err = new ValidationError([{ path: 'body', message: 'must be valid JSON' }]);
+  }
+
+  if (err instanceof ApiError) {
+    if (err.status >= 500) log.error(`${req.method} ${req.path}`, err);
+    return res.status(err.status).json(err.toJSON());
+  }
+
+  log.error(`${req.method} ${req.path} failed`, err);
+  res.status(500).json(new ApiError(500, 'internal', 'Internal error').toJSON());
+}
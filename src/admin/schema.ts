@@ -0,0 +1,172 @@
+import type { ValidationIssue } from './errors.js';
+
+/**
+ * Request schemas for the admin API. Each schema validates a value and carries its
+ * JSON Schema, so the OpenAPI document is built from the same definitions the
+ * routes check requests against.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface ParseContext {
+  issues: ValidationIssue[];
+  // Query strings and path params arrive as text: accept "20" for 20, "true" for true, "a,b" for [a, b]
+  coerce: boolean;
+}
+
+export interface Schema<T> {
+  // Records an issue and returns undefined when the value doesn't fit
+  parse(value: unknown, path: string, ctx: ParseContext): T | undefined;
+  json: JsonSchema;
+  optional: boolean;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+export type ObjectSchema<S extends Shape> = Schema<{ [K in keyof S]: Infer<S[K]> }> & { shape: S };
+
+function fail(ctx: ParseContext, path: string, message: string): undefined {
+  ctx.issues.push({ path, message });
+  return undefined;
+}
+
+export function string(options: { min?: number; max?: number; pattern?: RegExp; description?: string } = {}): Schema<string> {
+  const min = options.min ?? 1;
+  return {
+    optional: false,
+    json: {
+      type: 'string',
+      minLength: min,
+      ...(options.max !== undefined && { maxLength: options.max }),
+      ...(options.pattern && { pattern: options.pattern.source }),
+      ...(options.description && { description: options.description }),
+    },
+    parse(value, path, ctx) {
+      if (typeof value !== 'string') return fail(ctx, path, 'must be a string');
+      const trimmed = value.trim();
+      if (trimmed.length < min) return fail(ctx, path, min === 1 ? 'must not be empty' : `must be at least ${min} characters`);
+      if (options.max !== undefined && trimmed.length > options.max) return fail(ctx, path, `must be at most ${options.max} characters`);
+      if (options.pattern && !options.pattern.test(trimmed)) return fail(ctx, path, `must match ${options.pattern.source}`);
+      return trimmed;
+    },
+  };
+}
+
+export function integer(options: { min?: number; max?: number; description?: string } = {}): Schema<number> {
+  return {
+    optional: false,
+    json: {
+      type: 'integer',
+      ...(options.min !== undefined && { minimum: options.min }),
+      ...(options.max !== undefined && { maximum: options.max }),
+      ...(options.description && { description: options.description }),
+    },
+    parse(value, path, ctx) {
+      const number = ctx.coerce && typeof value === 'string' && /^-?\d+$/.test(value) ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isInteger(number)) return fail(ctx, path, 'must be an integer');
+      if (options.min !== undefined && number < options.min) return fail(ctx, path, `must be at least ${options.min}`);
+      if (options.max !== undefined && number > options.max) return fail(ctx, path, `must be at most ${options.max}`);
+      return number;
+    },
+  };
+}
+
+export function boolean(options: { description?: string } = {}): Schema<boolean> {
+  return {
+    optional: false,
+    json: { type: 'boolean', ...(options.description && { description: options.description }) },
+    parse(value, path, ctx) {
+      if (ctx.coerce && (value === 'true' || value === 'false')) return value === 'true';
+      if (typeof value !== 'boolean') return fail(ctx, path, 'must be true or false');
+      return value;
+    },
+  };
+}
+
+export function oneOf<const T extends string>(values: readonly T[], options: { description?: string } = {}): Schema<T> {
+  return {
+    optional: false,
+    json: { type: 'string', enum: values, ...(options.description && { description: options.description }) },
+    parse(value, path, ctx) {
+      if (typeof value !== 'string' || !values.includes(value as T)) {
+        return fail(ctx, path, `must be one of ${values.map(v => `"${v}"`).join(', ')}`);
+      }
+      return value as T;
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { max?: number; description?: string } = {}): Schema<T[]> {
+  return {
+    optional: false,
+    json: {
+      type: 'array',
+      items: item.json,
+      ...(options.max !== undefined && { maxItems: options.max }),
+      ...(options.description && { description: options.description }),
+    },
+    parse(value, path, ctx) {
+      const list = ctx.coerce && typeof value === 'string' ? value.split(',').filter(Boolean) : value;
+      if (!Array.isArray(list)) return fail(ctx, path, 'must be an array');
+      if (options.max !== undefined && list.length > options.max) return fail(ctx, path, `must have at most ${options.max} items`);
+      const before = ctx.issues.length;
+      const parsed = list.map((entry, index) => item.parse(entry, `${path}[${index}]`, ctx));
+      return ctx.issues.length === before ? parsed as T[] : undefined;
+    },
+  };
+}
+
+export function object<S extends Shape>(shape: S, options: { description?: string } = {}): ObjectSchema<S> {
+  const required = Object.keys(shape).filter(key => !shape[key].optional);
+  return {
+    shape,
+    optional: false,
+    json: {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.json])),
+      ...(required.length > 0 && { required }),
+      additionalProperties: false,
+      ...(options.description && { description: options.description }),
+    },
+    parse(value, path, ctx) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(ctx, path, 'must be an object');
+      const input = value as Record<string, unknown>;
+      const before = ctx.issues.length;
+
+      // Unknown fields are rejected so a typo doesn't silently do nothing
+      for (const key of Object.keys(input)) {
+        if (!(key in shape)) fail(ctx, join(path, key), 'is not a known field');
+      }
+
+      const result: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        if (input[key] === undefined) {
+          if (!schema.optional) fail(ctx, join(path, key), 'is required');
+          continue;
+        }
+        result[key] = schema.parse(input[key], join(path, key), ctx);
+      }
+      return ctx.issues.length === before ? result as { [K in keyof S]: Infer<S[K]> } : undefined;
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return { ...schema, optional: true };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    ...schema,
+    json: { ...schema.json, nullable: true },
+    parse(value, path, ctx) {
+      return value === null ? null : schema.parse(value, path, ctx);
+    },
+  };
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,90 @@
+import { route } from './router.js';
+import { listOf, ref } from './openapi.js';
+import { ConflictError, NotFoundError } from './errors.js';
+import { object, oneOf, optional, string } from './schema.js';
+import { createTag, deleteTag, getTagById, getTagByName, listTags, renameTag } from '../db/tags.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('admin');
+
+const idParams = object({ id: string({ max: 64 }) });
+const tagName = string({ max: 50 });
+
+export const tagRoutes = [
+  route({
+    method: 'get',
+    path: '/tags',
+    scope: 'tags:read',
+    operationId: 'listTags',
+    summary: 'List all tags',
+    tag: 'tags',
+    response: { type: 'object', properties: { tags: listOf('Tag') } },
+    async handler() {
+      return { tags: await listTags() };
+    }
+  }),
+
+  route({
+    method: 'post',
+    path: '/tags',
+    scope: 'tags:write',
+    operationId: 'createTag',
+    summary: 'Create a tag',
+    tag: 'tags',
+    status: 201,
+    body: object({
+      name: tagName,
+      type: optional(oneOf(['predefined', 'custom'] as const, { description: 'Predefined tags are offered to the extractor' })),
+    }),
+    response: ref('Tag'),
+    async handler({ body }) {
+      if (await getTagByName(body.name)) {
+        throw new ConflictError(`Tag "${body.name}" already exists`);
+      }
+      const tag = await createTag(body.name, body.type);
+      log.info(`Created tag "${tag.name}"`);
+      return tag;
+    }
+  }),
+
+  route({
+    method: 'patch',
+    path: '/tags/{id}',
+    scope: 'tags:write',
+    operationId: 'renameTag',
+    summary: 'Rename a tag',
+    tag: 'tags',
+    params: idParams,
+    body: object({ name: tagName }),
+    response: ref('Tag'),
+    async handler({ params, body }) {
+      const tag = await getTagById(params.id);
+      if (!tag) {
+        throw new NotFoundError('Tag', params.id);
+      }
+      const renamed = await renameTag(tag.id, body.name);
+      if (!renamed) {
+        throw new ConflictError(`Tag "${body.name}" already exists`);
+      }
+      log.info(`Renamed tag "${tag.name}" to "${renamed.name}"`);
+      return renamed;
+    }
+  }),
+
+  route({
+    method: 'delete',
+    path: '/tags/{id}',
+    scope: 'tags:write',
+    operationId: 'deleteTag',
+    summary: 'Delete a tag and remove it from every feature',
+    tag: 'tags',
+    status: 204,
+    params: idParams,
+    async handler({ params }) {
+      if (!(await deleteTag(params.id))) {
+        throw new NotFoundError('Tag', params.id);
+      }
+      log.info(`Deleted tag ${params.id}`);
+    }
+  }),
+];
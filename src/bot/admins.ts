@@ -0,0 +1,112 @@
+import { parseOwner } from './helpers.js';
+import { getUser } from '../neynar/client.js';
+import {
+  getProjectByHandle,
+  getProjectRole,
+  listProjectAdmins,
+  setProjectAdminRole,
+  removeProjectAdmin,
+  type Project,
+  type ProjectRole
+} from '../db/projects.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('admins');
+
+export type AdminCommand =
+  | { type: 'add'; role: Exclude<ProjectRole, 'owner'>; username: string; handle: string }
+  | { type: 'remove'; username: string; handle: string }
+  | { type: 'list'; handle: string };
+
+export type AdminCommandResult =
+  | { status: 'project_not_found'; handle: string }
+  | { status: 'forbidden'; project: Project }
+  | { status: 'user_not_found'; project: Project; username: string }
+  | { status: 'is_owner'; project: Project; username: string }
+  | { status: 'unchanged'; project: Project; username: string; role: ProjectRole }
+  | { status: 'added'; project: Project; username: string; role: ProjectRole; previousRole: ProjectRole | null }
+  | { status: 'not_admin'; project: Project; username: string }
+  | { status: 'removed'; project: Project; username: string }
+  | { status: 'list'; project: Project; admins: Array<{ username: string; role: ProjectRole }> };
+
+/**
+ * "add admin @alice to @project", "add @alice as moderator on @project",
+ * "remove admin @alice from @project", "list admins of @project"
+ */
+export function parseAdminCommand(text: string): AdminCommand | null {
+  const command = text.replace(/@roadmapr\b/gi, ' ').replace(/[!.?]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+
+  const add = command.match(/^(?:add|make) (admin|mod(?:erator)?) @?(\w+) (?:to|on|for) @?(\w+)$/);
+  if (add) {
+    return { type: 'add', role: toRole(add[1]), username: add[2], handle: add[3] };
+  }
+  const addAs = command.match(/^(?:add|make) @?(\w+) (?:an? )?(admin|mod(?:erator)?) (?:of|to|on|for) @?(\w+)$/)
+    || command.match(/^add @?(\w+) as (?:an? )?(admin|mod(?:erator)?) (?:of|to|on|for) @?(\w+)$/);
+  if (addAs) {
+    return { type: 'add', role: toRole(addAs[2]), username: addAs[1], handle: addAs[3] };
+  }
+
+  const remove = command.match(/^remove (?:admin |mod(?:erator)? )?@?(\w+) (?:from|on) @?(\w+)$/);
+  if (remove) {
+    return { type: 'remove', username: remove[1], handle: remove[2] };
+  }
+
+  const list = command.match(/^(?:list )?admins (?:of|for|on) @?(\w+)$/);
+  if (list) {
+    return { type: 'list', handle: list[1] };
+  }
+
+  return null;
+}
+
+function toRole(word: string): Exclude<ProjectRole, 'owner'> {
+  return word === 'admin' ? 'admin' : 'moderator';
+}
+
+/**
+ * Run an admin command sent by `fid`. Only the project's (verified) owner may manage
+ * or list its admins; the owner role itself only changes hands through a transfer.
+ */
+export async function runAdminCommand(command: AdminCommand, fid: number): Promise<AdminCommandResult> {
+  const project = await getProjectByHandle(command.handle);
+  if (!project) {
+    return { status: 'project_not_found', handle: command.handle };
+  }
+  if ((await getProjectRole(project, fid)) !== 'owner') {
+    return { status: 'forbidden', project };
+  }
+
+  if (command.type === 'list') {
+    const admins: Array<{ username: string; role: ProjectRole }> = [];
+    for (const admin of await listProjectAdmins(project.id)) {
+      const user = await getUser(admin.fid);
+      admins.push({ username: user?.username || String(admin.fid), role: admin.role });
+    }
+    return { status: 'list', project, admins };
+  }
+
+  const user = await parseOwner(command.username);
+  if (!user) {
+    return { status: 'user_not_found', project, username: command.username };
+  }
+  if (user.fid === project.owner_fid) {
+    return { status: 'is_owner', project, username: user.username };
+  }
+
+  const previousRole = await getProjectRole(project, user.fid);
+
+  if (command.type === 'remove') {
+    if (!(await removeProjectAdmin(project.id, user.fid, fid))) {
+      return { status: 'not_admin', project, username: user.username };
+    }
+    log.info(`FID ${fid} removed ${previousRole} FID ${user.fid} from @${project.project_handle}`);
+    return { status: 'removed', project, username: user.username };
+  }
+
+  if (previousRole === command.role) {
+    return { status: 'unchanged', project, username: user.username, role: command.role };
+  }
+  await setProjectAdminRole(project.id, user.fid, command.role, fid);
+  log.info(`FID ${fid} made FID ${user.fid} ${command.role} of @${project.project_handle} (was ${previousRole || 'nothing'})`);
+  return { status: 'added', project, username: user.username, role: command.role, previousRole };
+}
@@ -0,0 +1,310 @@
+import { compileMatcher, type PatternMatcher } from './project-matcher.js';
+import { getProjectByHandle, getProjectRole, type Project } from '../db/projects.js';
+import { getProjectIndex, invalidateProjectIndex, type ProjectIndex } from '../db/project-index.js';
+import {
+  getProjectAliases,
+  addProjectAlias,
+  removeProjectAlias,
+  type ProjectAlias,
+  type ProjectAliasKind
+} from '../db/project-aliases.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('aliases');
+
+/**
+ * Every way of referring to a project, lowercased and mapped to its handle.
+ * Handles and names share a namespace: both are matched as plain words too.
+ */
+export interface ProjectAliasLookup {
+  handles: Map<string, string>;
+  names: Map<string, string>;
+  // Channel aliases, plus channels named like a project's handle
+  channels: Map<string, string>;
+  cashtags: Map<string, string>;
+  // All of the above as typed in a cast ("degen", "@degen", "$degen", "/degen"), in one matcher
+  matcher: PatternMatcher<ProjectReference>;
+}
+
+export interface ProjectReference {
+  handle: string;
+  via: 'name' | 'mention' | 'cashtag' | 'channel';
+}
+
+export type AliasCommand =
+  | { type: 'add'; kind: ProjectAliasKind; value: string; handle: string }
+  | { type: 'remove'; kind: ProjectAliasKind; value: string; handle: string }
+  | { type: 'list'; handle: string };
+
+export type AliasCommandResult =
+  | { status: 'project_not_found'; handle: string }
+  | { status: 'forbidden'; project: Project }
+  | { status: 'invalid'; project: Project; kind: ProjectAliasKind; value: string }
+  | { status: 'exists'; project: Project; kind: ProjectAliasKind; value: string }
+  | { status: 'taken'; project: Project; kind: ProjectAliasKind; value: string; otherHandle: string }
+  | { status: 'added'; project: Project; alias: ProjectAlias }
+  | { status: 'not_found'; project: Project; kind: ProjectAliasKind; value: string }
+  | { status: 'removed'; project: Project; kind: ProjectAliasKind; value: string }
+  | { status: 'list'; project: Project; aliases: ProjectAlias[] };
+
+const ALIAS_PATTERNS: Record<ProjectAliasKind, RegExp> = {
+  handle: /^[a-z0-9][a-z0-9_.-]{2,}$/,
+  channel: /^[a-z0-9][a-z0-9-]{1,}$/,
+  cashtag: /^[a-z0-9]{1,20}$/,
+  name: /^.{3,50}$/
+};
+
+/**
+ * Build the lookup from all projects and their aliases
+ */
+export function buildAliasLookup(projects: Project[], aliases: ProjectAlias[]): ProjectAliasLookup {
+  const lookup: Omit<ProjectAliasLookup, 'matcher'> = {
+    handles: new Map(),
+    names: new Map(),
+    channels: new Map(),
+    cashtags: new Map()
+  };
+  const handlesById = new Map(projects.map(p => [p.id, p.project_handle.toLowerCase()]));
+
+  for (const project of projects) {
+    const handle = project.project_handle.toLowerCase();
+    lookup.handles.set(handle, handle);
+    lookup.channels.set(handle, handle);
+    lookup.names.set(project.name.toLowerCase(), handle);
+  }
+
+  for (const alias of aliases) {
+    const handle = handlesById.get(alias.project_id);
+    if (!handle) continue;
+    const map = alias.kind === 'handle' ? lookup.handles
+      : alias.kind === 'name' ? lookup.names
+      : alias.kind === 'channel' ? lookup.channels
+      : lookup.cashtags;
+    // A project's own handle/name always wins over someone else's alias
+    if (!map.has(alias.value)) map.set(alias.value, handle);
+  }
+
+  const patterns: Array<{ text: string; value: ProjectReference }> = [];
+  for (const [text, handle] of [...lookup.names, ...lookup.handles]) {
+    // Too short to tell apart from ordinary words
+    if (text.length > 2) patterns.push({ text, value: { handle, via: 'name' } });
+  }
+  for (const [text, handle] of lookup.handles) {
+    patterns.push({ text: `@${text}`, value: { handle, via: 'mention' } });
+  }
+  for (const [text, handle] of lookup.cashtags) {
+    patterns.push({ text: `$${text}`, value: { handle, via: 'cashtag' } });
+  }
+  for (const [text, handle] of lookup.channels) {
+    patterns.push({ text: `/${text}`, value: { handle, via: 'channel' } });
+  }
+
+  return { ...lookup, matcher: compileMatcher(patterns) };
+}
+
+// Built once per loaded index
+const lookups = new WeakMap<ProjectIndex, ProjectAliasLookup>();
+
+export async function loadAliasLookup(): Promise<ProjectAliasLookup> {
+  const index = await getProjectIndex();
+  let lookup = lookups.get(index);
+  if (!lookup) {
+    lookup = buildAliasLookup(index.projects, index.aliases);
+    lookups.set(index, lookup);
+    log.debug(`Compiled matcher with ${lookup.matcher.size} pattern(s)`);
+  }
+  return lookup;
+}
+
+/**
+ * Every project the text refers to, with how: a name, an @mention, a "$CASHTAG" or a "/channel"
+ */
+export function findProjectReferences(text: string, lookup: ProjectAliasLookup): ProjectReference[] {
+  return lookup.matcher.find(text);
+}
+
+/**
+ * Rewrite "@oldhandle", "$CASHTAG", "/channel" and name ("degen.tips") references to known
+ * projects as "@handle", so mention-based patterns see the project's real handle
+ */
+export function canonicalizeReferences(text: string, lookup: ProjectAliasLookup): string {
+  const rewritten = text
+    .replace(/@(\w+)/g, (match, ref: string) => {
+      const handle = lookup.handles.get(ref.toLowerCase());
+      return handle ? `@${handle}` : match;
+    })
+    .replace(/(^|[^\w$])\$([a-z0-9]{1,20})\b/gi, (match, before: string, ref: string) => {
+      const handle = lookup.cashtags.get(ref.toLowerCase());
+      return handle ? `${before}@${handle}` : match;
+    })
+    .replace(/(^|\s)\/([a-z0-9][a-z0-9-]*)\b/gi, (match, before: string, ref: string) => {
+      const handle = lookup.channels.get(ref.toLowerCase());
+      return handle ? `${before}@${handle}` : match;
+    });
+  return canonicalizeNames(rewritten, lookup);
+}
+
+/**
+ * Names are only rewritten when they aren't also a handle: "base" or "degen" on their own
+ * are as likely to be ordinary words as the project
+ */
+function canonicalizeNames(text: string, lookup: ProjectAliasLookup): string {
+  // The matcher counts in code points
+  const chars = [...text];
+  const names = lookup.matcher.locate(text)
+    .filter(match => match.value.via === 'name')
+    // Leftmost first, and of those the longest ("degen.tips" over "degen")
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  let result = '';
+  let position = 0;
+  for (const match of names) {
+    if (match.start < position) continue;
+    const name = chars.slice(match.start, match.end).join('').toLowerCase();
+    if (lookup.handles.has(name) || /[@$/]/.test(chars[match.start - 1] ?? '')) continue;
+    result += chars.slice(position, match.start).join('') + `@${match.value.handle}`;
+    position = match.end;
+  }
+  return result + chars.slice(position).join('');
+}
+
+/**
+ * Every other way people refer to `handle`, as typed: old handles, names, cashtags and channels
+ */
+export function describeAliases(handle: string, lookup: ProjectAliasLookup): string[] {
+  const described: string[] = [];
+  const add = (map: Map<string, string>, kind: ProjectAliasKind) => {
+    for (const [value, owner] of map) {
+      if (owner === handle && value !== handle) described.push(formatAlias(kind, value));
+    }
+  };
+  add(lookup.handles, 'handle');
+  add(lookup.names, 'name');
+  add(lookup.cashtags, 'cashtag');
+  add(lookup.channels, 'channel');
+  return described;
+}
+
+/**
+ * An alias the way people type it: "$degen", "/degen", "@degen" or "degen.tips"
+ */
+export function formatAlias(kind: ProjectAliasKind, value: string): string {
+  if (kind === 'cashtag') return `$${value.toUpperCase()}`;
+  if (kind === 'channel') return `/${value}`;
+  if (kind === 'handle') return `@${value}`;
+  return `"${value}"`;
+}
+
+/**
+ * Read an alias as typed: "$DEGEN" is a cashtag, "/degen" a channel, "@old" a handle,
+ * anything else a name. An explicit kind ("channel degen") skips the prefix guess.
+ */
+export function normalizeAlias(input: string, kind?: ProjectAliasKind): { kind: ProjectAliasKind; value: string } {
+  const raw = input.trim().replace(/^["'“]|["'”]$/g, '').trim().toLowerCase();
+  const prefixed: Record<string, ProjectAliasKind> = { '$': 'cashtag', '/': 'channel', '@': 'handle' };
+  const guessed = prefixed[raw.charAt(0)];
+
+  if (kind && kind !== 'name') {
+    return { kind, value: raw.replace(/^[$/@]/, '') };
+  }
+  if (!kind && guessed) {
+    return { kind: guessed, value: raw.slice(1) };
+  }
+  return { kind: 'name', value: raw.replace(/\s+/g, ' ') };
+}
+
+/**
+ * "add alias $DEGEN to @degen", "add channel degen to @degen", "remove alias degen.tips from @degen",
+ * "list aliases of @degen"
+ */
+export function parseAliasCommand(text: string): AliasCommand | null {
+  const command = text.replace(/@roadmapr\b/gi, ' ').replace(/\s+/g, ' ').trim().replace(/[!?]+$/, '').trim();
+
+  const add = command.match(/^add (alias|handle|channel|cashtag|name) (.+?) (?:to|for|on) @?(\w+)$/i);
+  if (add) {
+    return { type: 'add', ...normalizeAlias(add[2], kindFromWord(add[1])), handle: add[3].toLowerCase() };
+  }
+
+  const remove = command.match(/^remove (alias|handle|channel|cashtag|name) (.+?) (?:from|on) @?(\w+)$/i);
+  if (remove) {
+    return { type: 'remove', ...normalizeAlias(remove[2], kindFromWord(remove[1])), handle: remove[3].toLowerCase() };
+  }
+
+  const list = command.match(/^(?:list )?aliases (?:of|for|on) @?(\w+)$/i);
+  if (list) {
+    return { type: 'list', handle: list[1].toLowerCase() };
+  }
+
+  return null;
+}
+
+function kindFromWord(word: string): ProjectAliasKind | undefined {
+  const kind = word.toLowerCase();
+  return kind === 'alias' ? undefined : kind as ProjectAliasKind;
+}
+
+/**
+ * Run an alias command sent by `fid`. Anyone can list a project's aliases; only its
+ * owner can change them. An alias another project already answers to is rejected.
+ */
+export async function runAliasCommand(command: AliasCommand, fid: number): Promise<AliasCommandResult> {
+  const project = await getProjectByHandle(command.handle);
+  if (!project) {
+    return { status: 'project_not_found', handle: command.handle };
+  }
+
+  if (command.type === 'list') {
+    return { status: 'list', project, aliases: await getProjectAliases(project.id) };
+  }
+
+  if ((await getProjectRole(project, fid)) !== 'owner') {
+    return { status: 'forbidden', project };
+  }
+
+  const { kind, value } = command;
+
+  if (command.type === 'remove') {
+    if (!(await removeProjectAlias(project.id, kind, value))) {
+      return { status: 'not_found', project, kind, value };
+    }
+    log.info(`FID ${fid} removed ${kind} "${value}" from @${project.project_handle}`);
+    return { status: 'removed', project, kind, value };
+  }
+
+  if (!ALIAS_PATTERNS[kind].test(value)) {
+    return { status: 'invalid', project, kind, value };
+  }
+
+  // Check against the database, not a copy that may predate another process's change
+  invalidateProjectIndex();
+  const owner = findOwner(await loadAliasLookup(), kind, value);
+  if (owner === project.project_handle) {
+    return { status: 'exists', project, kind, value };
+  }
+  if (owner) {
+    return { status: 'taken', project, kind, value, otherHandle: owner };
+  }
+
+  const alias = await addProjectAlias({ project_id: project.id, kind, value, created_by_fid: fid });
+  if (!alias) {
+    // Someone else got there between the check and the insert
+    invalidateProjectIndex();
+    const current = findOwner(await loadAliasLookup(), kind, value);
+    return current === project.project_handle
+      ? { status: 'exists', project, kind, value }
+      : { status: 'taken', project, kind, value, otherHandle: current || '?' };
+  }
+
+  log.info(`FID ${fid} added ${kind} "${value}" to @${project.project_handle}`);
+  return { status: 'added', project, alias };
+}
+
+/**
+ * The project that already answers to this alias, if any
+ */
+function findOwner(lookup: ProjectAliasLookup, kind: ProjectAliasKind, value: string): string | undefined {
+  if (kind === 'handle' || kind === 'name') {
+    return lookup.handles.get(value) ?? lookup.names.get(value);
+  }
+  return kind === 'channel' ? lookup.channels.get(value) : lookup.cashtags.get(value);
+}
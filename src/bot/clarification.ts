@@ -0,0 +1,112 @@
+import { BotVoice } from './voice.js';
+import { isCancelCommand } from './project-setup.js';
+import { loadAliasLookup, findProjectReferences } from './aliases.js';
+import { postReply, type Cast } from '../neynar/client.js';
+import { getProjectByHandle, getProjectById, type Project } from '../db/projects.js';
+import { createClarification, type PendingClarification } from '../db/clarifications.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('clarification');
+
+// How long the bot waits for the requester to say which project they meant
+const CLARIFICATION_TTL_MS = parseInt(process.env.CLARIFICATION_TTL_MS || '86400000');
+
+export type ClarificationAnswer =
+  | { type: 'projects'; projects: Project[] }
+  | { type: 'cancel' };
+
+// Which of the candidates the request is for, or which project at all when there are none
+export function clarificationPrompt(candidates: Project[]): string {
+  return candidates.length > 1
+    ? BotVoice.multipleProjects(candidates.map(p => ({ handle: p.project_handle, name: p.name })))
+    : BotVoice.noProjectDetected();
+}
+
+/**
+ * Ask which project a request is for and keep everything needed to resume it:
+ * the extraction context, the cast being added and the candidate projects
+ */
+export async function askClarification(params: {
+  requesterFid: number;
+  mentionCastHash: string;
+  parentCast: Cast;
+  context: string;
+  candidates: Project[];
+}): Promise<PendingClarification> {
+  const { candidates } = params;
+
+  const promptHash = await postReply(params.mentionCastHash, clarificationPrompt(candidates));
+
+  const clarification = await createClarification({
+    requester_fid: params.requesterFid,
+    mention_cast_hash: params.mentionCastHash,
+    prompt_cast_hash: promptHash,
+    parent_cast_hash: params.parentCast.hash,
+    parent_cast_author_fid: params.parentCast.author.fid,
+    parent_cast_author_username: params.parentCast.author.username,
+    parent_cast_text: params.parentCast.text,
+    context: params.context,
+    candidate_project_ids: candidates.map(p => p.id),
+    expires_at: new Date(Date.now() + CLARIFICATION_TTL_MS).toISOString()
+  });
+
+  log.info(`Asked which project (${candidates.length} candidate(s)), clarification ${clarification.id}`);
+  return clarification;
+}
+
+/**
+ * Read the requester's answer: "both" / "all" picks every candidate; otherwise the
+ * projects named in it (by @handle, name, cashtag or channel), candidates or not
+ */
+export async function parseClarificationAnswer(
+  text: string,
+  clarification: PendingClarification
+): Promise<ClarificationAnswer | null> {
+  if (isCancelCommand(text)) {
+    return { type: 'cancel' };
+  }
+
+  const answer = text.replace(/@roadmapr\b/gi, ' ').replace(/\s+/g, ' ').trim();
+
+  if (clarification.candidate_project_ids.length > 1 &&
+      /^(?:both|all|all of them|each|every ?one|all \d+)(?: of them| please| pls)?[!.]*$/i.test(answer)) {
+    const projects = await clarificationCandidates(clarification);
+    return projects.length > 0 ? { type: 'projects', projects } : null;
+  }
+
+  const handles = new Set(findProjectReferences(answer, await loadAliasLookup()).map(r => r.handle));
+  const projects: Project[] = [];
+  for (const handle of handles) {
+    const project = await getProjectByHandle(handle);
+    if (project) projects.push(project);
+  }
+  return projects.length > 0 ? { type: 'projects', projects } : null;
+}
+
+/**
+ * The projects the bot offered when it asked (still existing ones only)
+ */
+export async function clarificationCandidates(clarification: PendingClarification): Promise<Project[]> {
+  const projects: Project[] = [];
+  for (const id of clarification.candidate_project_ids) {
+    const project = await getProjectById(id);
+    if (project) projects.push(project);
+  }
+  return projects;
+}
+
+/**
+ * The cast the clarified request is about, as saved when the bot asked
+ */
+export function clarifiedParentCast(clarification: PendingClarification): Cast {
+  return {
+    hash: clarification.parent_cast_hash,
+    text: clarification.parent_cast_text,
+    author: {
+      fid: clarification.parent_cast_author_fid,
+      username: clarification.parent_cast_author_username,
+      display_name: '',
+      pfp_url: ''
+    }
+  };
+}
@@ -0,0 +1,140 @@
+import { getCast, getCastThread, type Cast } from '../neynar/client.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('processor');
+
+export const MAX_FEATURES_PER_CAST = parseInt(process.env.MAX_FEATURES_PER_CAST || '5');
+// Authors below this Neynar score are turned away as likely spam
+export const MIN_NEYNAR_SCORE = parseFloat(process.env.MIN_NEYNAR_SCORE || '0.1');
+
+/**
+ * The text features are extracted from: the mention, the cast it replied to and that cast's
+ * thread. A reply to the bot gets the whole conversation, oldest first, instead.
+ */
+export async function buildMentionContext(params: {
+  currentCastText: string;
+  parentCast: Cast;
+  isReplyToBot: boolean;
+}): Promise<{ fullContext: string; contextCastCount: number }> {
+  const { currentCastText, parentCast, isReplyToBot } = params;
+
+  if (isReplyToBot) {
+    log.debug(`Reply to bot detected - gathering conversation context`);
+    // Get the full conversation thread leading to this reply
+    const thread = await getCastThread(parentCast.hash);
+
+    // Build context from the thread (oldest to newest)
+    const threadTexts = thread.map(c => c.text).reverse();
+    const fullContext = [
+      ...threadTexts,
+      parentCast.text,
+      `Reply: ${currentCastText}`
+    ].join('\n\n---\n\n');
+
+    log.debug(`Conversation context: ${thread.length + 2} messages`);
+    return { fullContext, contextCastCount: thread.length + 2 };
+  }
+
+  // Normal flow: just parent cast and its thread
+  const thread = await getCastThread(parentCast.hash);
+
+  // Always include the current cast text - it's the message that mentioned @roadmapr
+  // so it's always relevant for intent detection
+  const fullContext = [
+    currentCastText,
+    parentCast.text,
+    ...thread.map(c => c.text)
+  ].join('\n\n---\n\n');
+  return { fullContext, contextCastCount: thread.length + 2 };
+}
+
+/**
+ * Handle for a "create project" request. When the intent model couldn't name the project,
+ * it's looked for in the conversation.
+ */
+export async function resolveNewProjectHandle(newProjectName: string, parentHash: string, botFid: number): Promise<string> {
+  const projectHandle = newProjectName.toLowerCase();
+  if (projectHandle !== 'unknown' && projectHandle !== '<project name>') {
+    return projectHandle;
+  }
+
+  const thread = await getCastThread(parentHash);
+  const extractedHandle = extractProjectHandleFromThreadContext(thread, botFid);
+  if (extractedHandle) {
+    log.info(`Extracted project handle from context: ${extractedHandle}`);
+    return extractedHandle;
+  }
+  return projectHandle;
+}
+
+/**
+ * Check if a cast is authored by the bot (by FID or username)
+ */
+export async function isReplyToBotCast(castHash: string, botFid: number, botUsername?: string): Promise<boolean> {
+  const cast = await getCast(castHash);
+  if (!cast?.author) return false;
+  return cast.author.fid === botFid ||
+    (botUsername != null && cast.author.username?.toLowerCase() === botUsername.toLowerCase());
+}
+
+/**
+ * Get the text content of a cast
+ */
+export async function getCastText(castHash: string): Promise<string> {
+  const cast = await getCast(castHash);
+  return cast?.text || '';
+}
+
+/**
+ * Extract project handle from the users' casts in a thread ("create project X", "new project X", ...)
+ */
+export function extractProjectHandleFromThreadContext(thread: Array<{ text: string; author: { fid: number } }>, botFid: number): string | null {
+  // First, try to find the original user request with project name
+  // Look for patterns like "create project called X", "new project X", etc.
+  for (const cast of thread) {
+    // Skip the bot's own casts
+    if (cast.author.fid === botFid) {
+      continue;
+    }
+
+    // Look for project creation patterns (both "create project X" and "create X project")
+    const patterns = [
+      /create(?:\s+a)?(?:\s+new)?\s+project\s+(?:called\s+|named\s+)?[@]?(\w+)/i,
+      /create\s+(?:a\s+|the\s+)?[@]?(\w+)\s+project\b/i,
+      /new\s+project\s+(?:called\s+|named\s+)?[@]?(\w+)/i,
+      /make\s+(?:a\s+)?project\s+(?:called\s+|named\s+)?[@]?(\w+)/i,
+      /make\s+(?:a\s+|the\s+)?[@]?(\w+)\s+project\b/i,
+      /add\s+project\s+(?:called\s+|named\s+)?[@]?(\w+)/i,
+      /set\s*up\s+(?:a\s+)?project\s+(?:called\s+|named\s+)?[@]?(\w+)/i,
+      /set\s*up\s+(?:a\s+|the\s+)?[@]?(\w+)\s+project\b/i,
+      /deploy\s+project\s+[@]?(\w+)/i,
+      /deploy\s+(?:a\s+|the\s+)?[@]?(\w+)\s+project\b/i,
+    ];
+    const stopwords = new Set(['a', 'an', 'the', 'my', 'our', 'this', 'that', 'new', 'project', 'board', 'alert']);
+
+    for (const pattern of patterns) {
+      const match = cast.text.match(pattern);
+      if (match) {
+        const handle = match[1].toLowerCase().replace(/[^a-z0-9_-]/g, '');
+        if (handle && handle !== 'roadmapr' && !stopwords.has(handle)) {
+          log.info(`Extracted project handle "${handle}" from conversation context`);
+          return handle;
+        }
+      }
+    }
+  }
+
+  // Fallback: look through the thread for the "NEW PROJECT ALERT!" message
+  // (but skip if it says @unknown)
+  for (const cast of thread) {
+    if (cast.text.includes('NEW PROJECT ALERT!') && !cast.text.includes('@unknown')) {
+      // Extract the @handle from the message
+      const match = cast.text.match(/@(\w+)/);
+      if (match) {
+        return match[1].toLowerCase();
+      }
+    }
+  }
+
+  return null;
+}
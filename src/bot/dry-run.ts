@@ -0,0 +1,137 @@
+import { suggestTags } from './tagger.js';
+import { type SimilarityMatch } from './similarity.js';
+import { clarificationPrompt } from './clarification.js';
+import { BotVoice } from './voice.js';
+import { displayProjectName } from './helpers.js';
+import type { FeatureRequest, MentionEffects, MentionLogDetails } from './effects.js';
+
+// Stand in for the ids a real run would get back, e.g. in the announcement cast's link
+const NEW_FEATURE_ID = '<new-feature-id>';
+const PLANNED_ID = '<planned>';
+
+export interface PlannedMatch {
+  feature_id: string;
+  title: string;
+  similarity: number;
+}
+
+export interface PlannedFeature {
+  project: string;
+  title: string;
+  description: string;
+  sub_items: string[];
+  tags: string[];
+  // merge: into `match`; confirm: the requester is asked about `match` first;
+  // hold: queued for a moderator; block: dropped
+  action: 'create' | 'merge' | 'confirm' | 'hold' | 'block';
+  match: PlannedMatch | null;
+  // Every feature above the confirm threshold, best first
+  candidates: PlannedMatch[];
+  moderation_reasons: string[];
+}
+
+export interface MentionPlan {
+  dry_run: true;
+  cast_hash: string;
+  author_fid: number;
+  parent_hash: string | null;
+  // The command (or answer to one of the bot's prompts) the cast is; it isn't run, so nothing
+  // after it is planned
+  command: string | null;
+  // The row the mention would be logged with; `error` says why nothing was added
+  mention: MentionLogDetails | null;
+  features: PlannedFeature[];
+  // What the bot would reply, in order
+  replies: string[];
+  standalone_cast: string | null;
+}
+
+/**
+ * Effects for a dry run of processWebhook: the mention goes through the same code as a real
+ * run (intent detection, routing, extraction, moderation, tagging and similarity, LLM and
+ * embedding calls included), but nothing is written and nothing is posted; `plan` records
+ * what would have been. processWebhook also runs it under withoutSpending(), so rate limits
+ * and the LLM budget are checked but not spent.
+ */
+export function createPlanEffects(castHash: string, authorFid: number, parentHash: string | null) {
+  const plan: MentionPlan = {
+    dry_run: true,
+    cast_hash: castHash,
+    author_fid: authorFid,
+    parent_hash: parentHash,
+    command: null,
+    mention: null,
+    features: [],
+    replies: [],
+    standalone_cast: null
+  };
+
+  const reply = async (text: string) => {
+    plan.replies.push(text);
+    return PLANNED_ID;
+  };
+  const record = (request: FeatureRequest, action: PlannedFeature['action'], match: SimilarityMatch | null = null) => {
+    plan.features.push({
+      project: request.project.project_handle,
+      title: request.feature.title,
+      description: request.feature.description,
+      sub_items: (request.feature.subItems ?? []).map(item => item.title),
+      tags: request.feature.tags,
+      action,
+      match: match && toPlannedMatch(match),
+      candidates: request.similar.map(toPlannedMatch),
+      moderation_reasons: request.reasons
+    });
+  };
+
+  const effects: MentionEffects = {
+    logMention: async (_castHash, _authorFid, _parentHash, details) => {
+      plan.mention = details;
+    },
+    reply: (_castHash, text) => reply(text),
+    countReply: async () => {},
+    cast: async text => {
+      plan.standalone_cast = text;
+      return PLANNED_ID;
+    },
+    linkActionsToReply: async () => {},
+    recordAnnouncement: async () => {},
+    linkModerationNotice: async () => {},
+    runCommand: name => {
+      plan.command = name;
+      return false;
+    },
+    resolveClarification: async () => true,
+    askClarification: async params => {
+      await reply(clarificationPrompt(params.candidates));
+    },
+    startProjectSetup: async params => {
+      await reply(BotVoice.newProjectIntentDetected(params.projectHandle, params.requesterFid));
+    },
+    // Names rather than ids: tags aren't created
+    tag: suggestTags,
+    dropRequest: request => record(request, 'block'),
+    holdForReview: async request => {
+      record(request, 'hold');
+      return PLANNED_ID;
+    },
+    mergeIntoFeature: async (request, into) => {
+      record(request, 'merge', into);
+      return PLANNED_ID;
+    },
+    createFeature: async request => {
+      record(request, 'create');
+      return { featureId: NEW_FEATURE_ID, actionId: PLANNED_ID };
+    },
+    askMergeConfirmation: async (request, candidate) => {
+      record(request, 'confirm', candidate);
+      await reply(BotVoice.confirmMerge(request.feature.title, candidate.title, displayProjectName(request.project)));
+    }
+  };
+
+  return { effects, plan };
+}
+
+function toPlannedMatch(match: SimilarityMatch): PlannedMatch {
+  return { feature_id: match.id, title: match.title, similarity: Math.round(match.similarity * 1000) / 1000 };
+}
@@ -0,0 +1,149 @@
+import { autoTag } from './tagger.js';
+import { type SimilarityMatch } from './similarity.js';
+import {
+  mergeIntoFeature,
+  createFeatureFromRequest,
+  type ActionContext,
+  type RequestSource
+} from './feature-actions.js';
+import { askMergeConfirmation } from './merge-confirmation.js';
+import { askClarification } from './clarification.js';
+import { startProjectSetup } from './project-setup.js';
+import { holdForReview } from './moderation.js';
+import { postReply, postStandaloneCast } from '../neynar/client.js';
+import { logBotMention } from '../db/bot.js';
+import { linkActionsToReply } from '../db/actions.js';
+import { recordAnnouncement } from '../db/announcements.js';
+import { linkModerationNotice } from '../db/moderation.js';
+import { resolveClarification } from '../db/clarifications.js';
+import { takeThreadToken } from '../ratelimit/index.js';
+import type { PendingFeature } from '../db/merge-decisions.js';
+import type { Project } from '../db/projects.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('processor');
+
+export type MentionLogDetails = Parameters<typeof logBotMention>[3];
+
+// One extracted request on its way into one project
+export interface FeatureRequest {
+  project: Project;
+  feature: PendingFeature;
+  source: RequestSource;
+  context: ActionContext;
+  // Why moderation blocked or held it; empty when it let it through
+  reasons: string[];
+  // Features above the confirm threshold, best first
+  similar: SimilarityMatch[];
+}
+
+/**
+ * Everything handling a mention does besides reading: replies and casts, the mention log and
+ * every write. processWebhook runs the same code for a real run and a dry run; liveEffects does
+ * all of it, while a dry run's effects (see dry-run.ts) only write it down.
+ */
+export interface MentionEffects {
+  logMention(castHash: string, authorFid: number, parentHash: string | null, details: MentionLogDetails): Promise<void>;
+  // Returns the reply's hash, null when it couldn't be posted
+  reply(castHash: string, text: string): Promise<string | null>;
+  // Count a reply posted by code that posts its own (project setup, ownership transfers) against
+  // the thread's reply limit; reply() and the prompts below count theirs
+  countReply(): Promise<void>;
+  cast(text: string, embedHash: string): Promise<string | null>;
+  linkActionsToReply(actionIds: string[], replyHash: string | null): Promise<void>;
+  recordAnnouncement(castHash: string | null, featureIds: string[]): Promise<void>;
+  linkModerationNotice(itemIds: string[], noticeHash: string | null): Promise<void>;
+  // Whether to go on with a command, or an answer to one of the bot's prompts; false stops there
+  runCommand(name: string): boolean;
+  resolveClarification(id: string, status: 'resumed' | 'cancelled'): Promise<boolean>;
+  askClarification(params: Parameters<typeof askClarification>[0]): Promise<void>;
+  startProjectSetup(params: Parameters<typeof startProjectSetup>[0]): Promise<void>;
+  // Tags for a request before it's stored
+  tag(title: string, description: string): Promise<string[]>;
+  dropRequest(request: FeatureRequest): void;
+  // Returns the moderation item's id
+  holdForReview(request: FeatureRequest): Promise<string>;
+  // Returns the action's id
+  mergeIntoFeature(request: FeatureRequest, into: SimilarityMatch): Promise<string>;
+  createFeature(request: FeatureRequest): Promise<{ featureId: string; actionId: string }>;
+  askMergeConfirmation(request: FeatureRequest, candidate: SimilarityMatch): Promise<void>;
+}
+
+export const liveEffects: MentionEffects = {
+  logMention: logBotMention,
+  reply: postReply,
+  countReply: async () => {},
+  cast: postStandaloneCast,
+  linkActionsToReply,
+  recordAnnouncement,
+  linkModerationNotice,
+  runCommand: () => true,
+  resolveClarification,
+  askClarification: async params => {
+    await askClarification(params);
+  },
+  startProjectSetup: async params => {
+    await startProjectSetup(params);
+  },
+  tag: autoTag,
+  dropRequest: request => {
+    log.info(`Dropped by moderation: ${request.reasons.join(', ')}`);
+  },
+  holdForReview: async request => {
+    const item = await holdForReview({
+      project: request.project,
+      feature: request.feature,
+      source: request.source,
+      requesterFid: request.context.requester_fid,
+      mentionCastHash: request.context.mention_cast_hash,
+      reasons: request.reasons
+    });
+    return item.id;
+  },
+  mergeIntoFeature: (request, into) => mergeIntoFeature(into, request.feature, request.source, request.context),
+  createFeature: request => createFeatureFromRequest(request.feature, request.source, request.context),
+  askMergeConfirmation: async (request, candidate) => {
+    await askMergeConfirmation({
+      project: request.project,
+      candidate,
+      feature: request.feature,
+      source: request.source,
+      requesterFid: request.context.requester_fid,
+      mentionCastHash: request.context.mention_cast_hash
+    });
+  }
+};
+
+/**
+ * liveEffects for a mention in `threadHash`: the first reply the bot posts for it takes a token
+ * from the thread's reply limit, so mentions it stays quiet on don't use the thread up
+ */
+export function createLiveEffects(threadHash: string): MentionEffects {
+  let counted = false;
+  const countReply = async () => {
+    if (counted) return;
+    counted = true;
+    await takeThreadToken(threadHash);
+  };
+
+  return {
+    ...liveEffects,
+    countReply,
+    reply: async (castHash, text) => {
+      await countReply();
+      return liveEffects.reply(castHash, text);
+    },
+    askClarification: async params => {
+      await countReply();
+      await liveEffects.askClarification(params);
+    },
+    startProjectSetup: async params => {
+      await countReply();
+      await liveEffects.startProjectSetup(params);
+    },
+    askMergeConfirmation: async (request, candidate) => {
+      await countReply();
+      await liveEffects.askMergeConfirmation(request, candidate);
+    }
+  };
+}
@@ -0,0 +1,36 @@
+import 'dotenv/config';
+import { backfillEmbeddings } from './similarity.js';
+import { embeddingModelId, getPrimaryEmbeddingLink, LOCAL_EMBEDDING_LINK } from '../llm/index.js';
+
+/**
+ * Store the embeddings existing features are missing: the local hashed vector, and the
+ * primary model's vector for features created while its provider was down
+ * Usage:
+ *   npm run embeddings -- backfill
+ */
+async function main() {
+  const [command] = process.argv.slice(2);
+
+  if (command !== 'backfill') {
+    console.error('Usage: embeddings backfill');
+    process.exitCode = 1;
+    return;
+  }
+
+  const links = [LOCAL_EMBEDDING_LINK];
+  const primary = getPrimaryEmbeddingLink();
+  if (primary && embeddingModelId(primary) !== embeddingModelId(LOCAL_EMBEDDING_LINK)) {
+    links.push(primary);
+  }
+
+  for (const link of links) {
+    const { stored, failed } = await backfillEmbeddings(link);
+    console.log(`${embeddingModelId(link)}: ${stored} stored, ${failed} failed`);
+    if (failed > 0) process.exitCode = 1;
+  }
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -1,42 +1,8 @@
-// OpenAI API configuration (primary)
-async function callOpenAI(body: any) {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} ${error}`);
-  }
-
-  return response.json();
-}
-
-// GLM API configuration (fallback)
-const GLM_API_URL = 'https://open.bigmodel.cn/api/paas/v4/';
+import { chatStructured, StructuredOutputError } from '../llm/index.js';
+import { validateExtractedFeatures } from './schemas.js';
+import { createLogger } from '../log/index.js';
 
-async function callGLMAPI(endpoint: string, body: any) {
-  const response = await fetch(`${GLM_API_URL}${endpoint}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${process.env.GLM_API_KEY}`,
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`GLM API error: ${response.status} ${error}`);
-  }
-
-  return response.json();
-}
+const log = createLogger('extractor');
 
 export interface ExtractedFeature {
   title: string;
@@ -168,68 +134,15 @@ ${text}
 
 Return JSON array (or empty array if no actionable features):`;
 
-  // Try OpenAI first (primary)
-  if (process.env.OPENAI_API_KEY) {
-    try {
-      console.log('[Extractor] Trying OpenAI GPT-4o-mini...');
-      const response = await callOpenAI({
-        model: 'gpt-4o-mini',
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-      }) as { choices: Array<{ message: { content: string } }> };
-
-      const content = response.choices[0]?.message?.content || '';
-      console.log('[Extractor] OpenAI response received');
-
-      // Extract JSON from response (handle markdown code blocks)
-      let jsonText = content.trim();
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.slice(7);
-      }
-      if (jsonText.startsWith('```')) {
-        jsonText = jsonText.slice(3);
-      }
-      if (jsonText.endsWith('```')) {
-        jsonText = jsonText.slice(0, -3);
-      }
-      jsonText = jsonText.trim();
-
-      const parsed = JSON.parse(jsonText);
-      return Array.isArray(parsed) ? parsed : [];
-    } catch (openaiErr) {
-      const errorMsg = openaiErr instanceof Error ? openaiErr.message : String(openaiErr);
-      console.error(`[Extractor] OpenAI failed: ${errorMsg}`);
-    }
-  }
-
-  // Fallback to GLM
-  console.log('[Extractor] OpenAI unavailable, trying GLM...');
   try {
-    const response = await callGLMAPI('chat/completions', {
-      model: 'glm-4.7',
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.3,
-    }) as { choices: Array<{ message: { content: string } }> };
-
-    const content = response.choices[0]?.message?.content || '';
-
-    // Extract JSON from response (handle markdown code blocks)
-    let jsonText = content.trim();
-    if (jsonText.startsWith('```json')) {
-      jsonText = jsonText.slice(7);
+    const { value, provider, model } = await chatStructured('extract', prompt, validateExtractedFeatures, { temperature: 0.3 });
+    log.debug(`${provider}/${model} response received`);
+    return value;
+  } catch (err) {
+    if (err instanceof StructuredOutputError) {
+      log.error(`Rejected ${err.provider}/${err.model} output: ${err.errors.join('; ')}`);
     }
-    if (jsonText.startsWith('```')) {
-      jsonText = jsonText.slice(3);
-    }
-    if (jsonText.endsWith('```')) {
-      jsonText = jsonText.slice(0, -3);
-    }
-    jsonText = jsonText.trim();
-
-    const parsed = JSON.parse(jsonText);
-    return Array.isArray(parsed) ? parsed : [];
-  } catch (glmErr) {
-    console.error('[Extractor] GLM API error, using pattern matching fallback:', glmErr instanceof Error ? glmErr.message : glmErr);
+    log.error('LLM error, using pattern matching fallback', err);
     return extractFeaturesByPattern(text);
   }
 }
@@ -0,0 +1,136 @@
+import { storeFeatureEmbedding } from './similarity.js';
+import {
+  createFeature,
+  addFeatureSource,
+  updateFeatureDescription,
+} from '../db/features.js';
+import { recordBotAction } from '../db/actions.js';
+import type { PendingFeature } from '../db/merge-decisions.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('processor');
+
+// The cast a feature request was taken from
+export interface RequestSource {
+  cast_hash: string;
+  author_fid: number;
+  text: string;
+}
+
+// Who asked for the change and where, recorded in the action journal
+export interface ActionContext {
+  project_id: string;
+  requester_fid: number;
+  mention_cast_hash: string;
+}
+
+export function additionalFeedback(description: string): string {
+  return `\n\n---\n\nAdditional feedback:\n${description}`;
+}
+
+/**
+ * Merge a request into an existing feature: record the source cast and
+ * append the new description when it adds enough detail. Returns the journal entry id.
+ */
+export async function mergeIntoFeature(
+  existing: { id: string; description: string },
+  feature: PendingFeature,
+  source: RequestSource,
+  context: ActionContext
+): Promise<string> {
+  const sourceId = await addFeatureSource(existing.id, {
+    source_cast_hash: source.cast_hash,
+    source_cast_author_fid: source.author_fid,
+    source_cast_text: source.text
+  });
+
+  // Update description if new one is more detailed
+  let description = existing.description;
+  if (feature.description.length > existing.description.length * 0.5) {
+    description = `${existing.description}${additionalFeedback(feature.description)}`;
+    await updateFeatureDescription(existing.id, description);
+  }
+
+  const action = await recordBotAction({
+    type: 'merge',
+    ...context,
+    feature_id: existing.id,
+    request: feature,
+    source,
+    before: { description: existing.description },
+    after: { description, source_id: sourceId }
+  });
+  return action.id;
+}
+
+/**
+ * Create a new feature from a request and record it in the action journal
+ */
+export async function createFeatureFromRequest(
+  feature: PendingFeature,
+  source: RequestSource,
+  context: ActionContext
+): Promise<{ featureId: string; actionId: string }> {
+  const created = await insertFeature(context.project_id, feature, source);
+
+  const action = await recordBotAction({
+    type: 'create',
+    ...context,
+    feature_id: created.featureId,
+    request: feature,
+    source,
+    before: null,
+    after: { feature_id: created.featureId, sub_feature_ids: created.subFeatureIds, source_id: created.sourceId }
+  });
+  return { featureId: created.featureId, actionId: action.id };
+}
+
+/**
+ * Create a feature (and its sub-items) with embeddings for similarity matching, without journaling
+ */
+export async function insertFeature(
+  projectId: string,
+  feature: PendingFeature,
+  source: RequestSource
+): Promise<{ featureId: string; subFeatureIds: string[]; sourceId: string | null }> {
+  const featureId = await createFeature({
+    project_id: projectId,
+    title: feature.title,
+    description: feature.description,
+    submitter_fid: source.author_fid,
+    source_cast_hash: source.cast_hash,
+    source_cast_author_fid: source.author_fid,
+    tags: feature.tags
+  });
+
+  // Store embedding for similarity matching
+  await storeFeatureEmbedding(featureId, feature.title, feature.description);
+
+  // Add source
+  const sourceId = await addFeatureSource(featureId, {
+    source_cast_hash: source.cast_hash,
+    source_cast_author_fid: source.author_fid,
+    source_cast_text: source.text
+  });
+
+  // Create sub-items if present
+  const subFeatureIds: string[] = [];
+  if (feature.subItems && feature.subItems.length > 0) {
+    log.info(`Creating ${feature.subItems.length} sub-item(s)`);
+    for (const sub of feature.subItems) {
+      const subFeatureId = await createFeature({
+        project_id: projectId,
+        title: sub.title,
+        description: sub.description,
+        submitter_fid: source.author_fid,
+        parent_feature_id: featureId,
+        is_sub_item: true
+      });
+      // Store embedding for sub-item
+      await storeFeatureEmbedding(subFeatureId, sub.title, sub.description);
+      subFeatureIds.push(subFeatureId);
+    }
+  }
+
+  return { featureId, subFeatureIds, sourceId };
+}
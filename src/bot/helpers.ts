@@ -1,4 +1,7 @@
 import { getUser, lookupUserByUsername } from '../neynar/client.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('helpers');
 
 export interface ParsedOwner {
   fid: number;
@@ -40,7 +43,7 @@ export async function parseOwner(ownerInput: string, botFid?: number): Promise<P
 
     // Special case: if owner is 'roadmapr' and we have botFid, use that
     if (username.toLowerCase() === 'roadmapr' && botFid) {
-      console.log(`[Helpers] Owner is 'roadmapr' - using bot FID: ${botFid}`);
+      log.info(`Owner is 'roadmapr' - using bot FID: ${botFid}`);
       return {
         fid: botFid,
         username: 'roadmapr'
@@ -149,7 +152,48 @@ export async function getProjectBio(projectHandle: string): Promise<string | nul
     }
     return null;
   } catch (err) {
-    console.error(`[Helpers] Failed to get bio for @${projectHandle}:`, err);
+    log.error(`Failed to get bio for @${projectHandle}`, err);
     return null;
   }
 }
+
+/**
+ * Read a yes/no answer to a "same thing?" question
+ * Supports "yes", "yep, same thing", "👍", "no", "nope, different", "new one", etc.
+ */
+export function parseConfirmation(text: string): 'yes' | 'no' | null {
+  // Drop mentions so "@roadmapr yes" reads as "yes"
+  const answer = text.replace(/@\w+/g, ' ').trim().toLowerCase();
+
+  if (/^(?:yes|yep|yeah|yup|ya|y|sure|correct|same(?: thing)?|merge(?: it)?)\b/.test(answer) || /^(?:👍|✅)/u.test(answer)) {
+    return 'yes';
+  }
+  if (/^(?:no|nope|nah|n|different|not the same|new(?: one)?|separate)\b/.test(answer) || /^(?:👎|❌)/u.test(answer)) {
+    return 'no';
+  }
+  return null;
+}
+
+/**
+ * Project name as shown in replies; flags projects whose owner hasn't confirmed them yet
+ */
+export function displayProjectName(project: { name: string; is_verified: boolean }): string {
+  return project.is_verified ? project.name : `${project.name} (unverified)`;
+}
+
+/**
+ * A wait as shown in replies: "45 seconds", "12 minutes", "3h 20m"
+ */
+export function formatWait(ms: number): string {
+  const minutes = Math.ceil(ms / 60000);
+  if (ms < 60000) {
+    const seconds = Math.max(1, Math.ceil(ms / 1000));
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  if (minutes < 60) {
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
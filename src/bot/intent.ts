@@ -1,67 +1,62 @@
-// OpenAI API configuration (primary)
-async function callOpenAI(body: any) {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} ${error}`);
-  }
-
-  return response.json();
-}
+import { chatStructured, StructuredOutputError } from '../llm/index.js';
+import { validateDetectedIntent } from './schemas.js';
+import { canonicalizeReferences, describeAliases, type ProjectAliasLookup } from './aliases.js';
+import { createLogger } from '../log/index.js';
 
-// GLM API configuration (fallback)
-const GLM_API_URL = 'https://open.bigmodel.cn/api/paas/v4/';
-
-async function callGLMAPI(endpoint: string, body: any) {
-  const response = await fetch(`${GLM_API_URL}${endpoint}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${process.env.GLM_API_KEY}`,
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`GLM API error: ${response.status} ${error}`);
-  }
+const log = createLogger('intent');
 
-  return response.json();
-}
+// Read-only questions about a roadmap, answered without changing anything
+export type QueryIntent = 'top_features' | 'new_features' | 'feature_status' | 'my_features';
 
-// Try multiple models in order of preference
-const MODELS_TO_TRY = [
-  'glm-4.7',      // Latest model
-  'glm-4.6',
-  'glm-4.5',
-  'glm-4.5-air',
-];
+export const QUERY_INTENTS: QueryIntent[] = ['top_features', 'new_features', 'feature_status', 'my_features'];
 
 export interface DetectedIntent {
-  intent: 'create_project' | 'add_feature' | 'unknown';
+  intent: 'create_project' | 'add_feature' | QueryIntent | 'unknown';
   targetProjects: string[];  // Project handles mentioned
   newProjectName?: string;   // For create_project intent
+  featureName?: string;      // For feature_status intent
   confidence: number;
   reasoning?: string;
 }
 
+export function isQueryIntent(intent: DetectedIntent['intent']): intent is QueryIntent {
+  return (QUERY_INTENTS as string[]).includes(intent);
+}
+
+// Questions are checked before feature requests: "what's trending on @base" mentions a project too.
+// Each pattern has to cover the whole cast (leading @mentions aside), in the shape of a question,
+// so a request that merely contains "my requests" or "status of" isn't taken for one.
+const PROJECT_SUFFIX = String.raw`(?:\s+(?:on|for|in|at|of)\s+@[a-z0-9_-]+)?\s*\??$`;
+const queryPatterns: Array<{ intent: QueryIntent; pattern: RegExp }> = [
+  // "what's the status of dark mode", "what is the status of 'dark mode' on @base?"
+  { intent: 'feature_status', pattern: new RegExp(String.raw`^what(?:'s|\u2019s|s| is)\s+the\s+(?:status|progress)\s+(?:of|on|for)\s+["'\u201c]?(.+?)["'\u201d]?` + PROJECT_SUFFIX, 'i') },
+  // "status of dark mode?" - bare, so only with the question mark
+  { intent: 'feature_status', pattern: /^(?:status|progress)\s+(?:of|on|for)\s+["'\u201c]?(.+?)["'\u201d]?(?:\s+(?:on|for|in)\s+@[a-z0-9_-]+)?\s*\?$/i },
+  // "is dark mode shipped?", "is 'dark mode' planned on @base"
+  { intent: 'feature_status', pattern: new RegExp(String.raw`^is\s+["'\u201c]?(.+?)["'\u201d]?\s+(?:shipped|done|planned|live|out|in\s+progress|being\s+worked\s+on)(?:\s+(?:yet|already))?` + PROJECT_SUFFIX, 'i') },
+  // "what did I submit", "what have I asked for so far?"
+  { intent: 'my_features', pattern: new RegExp(String.raw`^what\s+(?:did|have)\s+i\s+(?:submit(?:ted)?|request(?:ed)?|suggest(?:ed)?|ask(?:ed)?\s+for)(?:\s+so\s+far)?` + PROJECT_SUFFIX, 'i') },
+  // "my requests?", "show me my features", "list the ideas I suggested"
+  { intent: 'my_features', pattern: new RegExp(String.raw`^(?:(?:show|list|what\s+are)\s+(?:me\s+)?)?my\s+(?:features?|requests?|submissions?|suggestions?|ideas?)` + PROJECT_SUFFIX, 'i') },
+  { intent: 'my_features', pattern: new RegExp(String.raw`^(?:(?:show|list|what\s+are)\s+(?:me\s+)?)?(?:the\s+)?(?:features?|requests?|ideas?)\s+i\s+(?:submitted|requested|suggested|added)` + PROJECT_SUFFIX, 'i') },
+  // "newest features on @base?", "what are the latest requests", "what's new on @base"
+  { intent: 'new_features', pattern: new RegExp(String.raw`^(?:(?:show|list|what\s+are|any)\s+(?:me\s+)?)?(?:the\s+)?(?:newest|latest|most\s+recent|recent)\s+(?:features?|requests?|ideas?|additions?)` + PROJECT_SUFFIX, 'i') },
+  { intent: 'new_features', pattern: new RegExp(String.raw`^(?:any(?:thing)?\s+new|what(?:'s|\u2019s|s| is)\s+new)` + PROJECT_SUFFIX, 'i') },
+  // "what's trending on @base", "top features for @base?", "show me the roadmap"
+  { intent: 'top_features', pattern: new RegExp(String.raw`^what(?:'s|\u2019s|s| is| are)\s+(?:the\s+)?(?:trending|hot|popular|top)(?:\s+(?:\d+\s+)?(?:features?|requests?|ideas?|items?))?(?:\s+(?:right\s+)?now)?` + PROJECT_SUFFIX, 'i') },
+  { intent: 'top_features', pattern: new RegExp(String.raw`^(?:(?:show|list|what\s+are)\s+(?:me\s+)?)?(?:the\s+)?(?:top|trending|hottest|most\s+(?:voted|popular|wanted|requested))\s+(?:\d+\s+)?(?:features?|requests?|ideas?|items?)` + PROJECT_SUFFIX, 'i') },
+  { intent: 'top_features', pattern: new RegExp(String.raw`^show\s+(?:me\s+)?(?:the\s+)?(?:roadmap|top(?:\s+\d+)?)` + PROJECT_SUFFIX, 'i') },
+];
+
 /**
  * Pattern-matching fallback for when LLM is unavailable
  * Handles common intents without needing API calls
+ * `channelProject` is the project whose channel the cast was posted in, for casts that name none
  */
-function detectIntentByPattern(text: string, allKnownProjects: string[]): DetectedIntent {
+function detectIntentByPattern(text: string, allKnownProjects: string[], channelProject?: string): DetectedIntent {
   const targetProjects: string[] = [];
   let newProjectName: string | undefined;
-  let intent: 'create_project' | 'add_feature' | 'unknown' = 'unknown';
+  let intent: DetectedIntent['intent'] = 'unknown';
 
   // Strip @roadmapr mentions to reduce noise in pattern matching
   const cleanText = text.replace(/@roadmapr\b/gi, '').replace(/\s+/g, ' ').trim();
@@ -76,6 +71,24 @@ function detectIntentByPattern(text: string, allKnownProjects: string[]): Detect
     mentions.add(handle);
   }
 
+  // Pattern 0: Roadmap questions ("@base what's trending?" asks about @base)
+  const question = cleanText.replace(/^(?:@[a-z0-9_-]+[\s,:]*)+/i, '');
+  for (const { intent: queryIntent, pattern } of queryPatterns) {
+    const match = question.match(pattern);
+    if (match) {
+      const knownMentions = Array.from(mentions).filter(m => allKnownProjects.includes(m));
+      const featureName = queryIntent === 'feature_status' ? match[1]?.trim() : undefined;
+      if (queryIntent === 'feature_status' && !featureName) continue;
+      return {
+        intent: queryIntent,
+        targetProjects: knownMentions.length > 0 || !channelProject ? knownMentions : [channelProject],
+        ...(featureName && { featureName }),
+        confidence: 0.8,
+        reasoning: `Pattern matched: ${queryIntent.replace('_', ' ')} query`
+      };
+    }
+  }
+
   // Pattern 1: Create project intents
   // Patterns match against cleanText (with @roadmapr stripped)
   const createProjectPatterns = [
@@ -174,6 +187,16 @@ function detectIntentByPattern(text: string, allKnownProjects: string[]): Detect
     };
   }
 
+  // Pattern 5: No project named, but the cast is in a project's channel
+  if (channelProject) {
+    return {
+      intent: 'add_feature',
+      targetProjects: [channelProject],
+      confidence: 0.50,
+      reasoning: `Posted in @${channelProject}'s channel, assuming add feature intent`
+    };
+  }
+
   return {
     intent: 'unknown',
     targetProjects: [],
@@ -186,19 +209,36 @@ function detectIntentByPattern(text: string, allKnownProjects: string[]): Detect
  * Use LLM to intelligently detect user intent and target projects
  * This is much smarter than pattern matching - it understands context
  */
-export async function detectIntent(text: string, allKnownProjects: string[]): Promise<DetectedIntent> {
-  const projectList = allKnownProjects.map(p => `@${p}`).join(', ');
+export async function detectIntent(
+  text: string,
+  allKnownProjects: string[],
+  aliases?: ProjectAliasLookup,
+  channelId?: string
+): Promise<DetectedIntent> {
+  // "@degen (also $DGN, /degen-chat)", so the LLM can resolve aliases the rewrite below misses
+  const projectList = allKnownProjects.map(p => {
+    const also = aliases ? describeAliases(p, aliases) : [];
+    return also.length > 0 ? `@${p} (also ${also.join(', ')})` : `@${p}`;
+  }).join(', ');
+
+  // "$DEGEN", "/degen", "degen.tips" and old handles become "@degen"
+  if (aliases) {
+    text = canonicalizeReferences(text, aliases);
+  }
+
+  // A cast in /degen that names no project is about @degen
+  const channelProject = channelId ? aliases?.channels.get(channelId.toLowerCase()) : undefined;
 
   // FIRST: Try pattern matching for clear, unambiguous cases
   // This catches obvious intents without needing LLM API calls
-  const patternResult = detectIntentByPattern(text, allKnownProjects);
+  const patternResult = detectIntentByPattern(text, allKnownProjects, channelProject);
   if (patternResult.confidence >= 0.7) {
-    console.log('[Intent] Pattern matched with high confidence, skipping LLM');
+    log.debug('Pattern matched with high confidence, skipping LLM');
     return patternResult;
   }
 
   // SECOND: If pattern matching is uncertain, use LLM for smarter understanding
-  console.log('[Intent] Pattern confidence low, using LLM for better understanding');
+  log.debug('Pattern confidence low, using LLM for better understanding');
 
   // Strip @roadmapr from text before sending to LLM to reduce noise
   const cleanedText = text.replace(/@roadmapr\b/gi, '').replace(/\s+/g, ' ').trim();
@@ -206,21 +246,27 @@ export async function detectIntent(text: string, allKnownProjects: string[]): Pr
   const prompt = `You are a Farcaster bot intent classifier. Analyze the user's message and determine their intent.
 
 Known projects: ${projectList || 'none yet'}
-
+${channelProject ? `\nThe message was posted in @${channelProject}'s channel: if it names no project, it is about @${channelProject}.\n` : ''}
 USER MESSAGE:
 ${cleanedText}
 
 INTENTS:
 1. "create_project" - User wants to CREATE A NEW PROJECT. Extract the project name.
 2. "add_feature" - User wants to ADD/REQUEST a feature for an existing project.
-3. "unknown" - Anything else.
+3. "top_features" - User ASKS which features are trending / most voted on a project.
+4. "new_features" - User ASKS for the newest / latest features on a project.
+5. "feature_status" - User ASKS about the status of one named feature. Put the feature name in "featureName".
+6. "my_features" - User ASKS which features they submitted themselves.
+7. "unknown" - Anything else.
 
 IMPORTANT RULES:
 - @roadmapr is the bot, NEVER a project name
 - Words like "alert", "project", "board", "new" are NEVER project names
 - The project name is the unique identifier the user chose (e.g. "Castoors", "base", "degenswap")
 - If the user mentions a known project, it's likely add_feature
+- A project referred to by one of its aliases goes in targetProjects by its @handle
 - If no known project is mentioned and user wants to create something new, it's create_project
+- Questions about a roadmap are NEVER add_feature - nothing should be added
 
 Return ONLY valid JSON:
 {"intent": "create_project", "targetProjects": [], "newProjectName": "the-name", "confidence": 0.9, "reasoning": "why"}
@@ -230,104 +276,39 @@ Examples:
 "add dark mode to @base" → {"intent": "add_feature", "targetProjects": ["base"], "confidence": 0.95, "reasoning": "wants dark mode for base"}
 "yo can you set up a degenswap board" → {"intent": "create_project", "targetProjects": [], "newProjectName": "degenswap", "confidence": 0.9, "reasoning": "wants to create degenswap project"}
 "@base needs better search" → {"intent": "add_feature", "targetProjects": ["base"], "confidence": 0.9, "reasoning": "requesting search feature for base"}
+"what's hot on @base right now?" → {"intent": "top_features", "targetProjects": ["base"], "confidence": 0.9, "reasoning": "asking for trending base features"}
+"anything new on @base?" → {"intent": "new_features", "targetProjects": ["base"], "confidence": 0.85, "reasoning": "asking for recent base features"}
+"did dark mode ship yet on @base?" → {"intent": "feature_status", "targetProjects": ["base"], "featureName": "dark mode", "confidence": 0.9, "reasoning": "asking about dark mode status"}
+"what have I asked for so far?" → {"intent": "my_features", "targetProjects": [], "confidence": 0.85, "reasoning": "asking for own submissions"}
 
 Analyze now:`;
 
-  // Try OpenAI first (primary)
-  if (process.env.OPENAI_API_KEY) {
-    try {
-      console.log('[Intent] Trying OpenAI GPT-4o-mini...');
-      console.log('[Intent] Sending to LLM:', text.substring(0, 200) + '...');
-      const response = await callOpenAI({
-        model: 'gpt-4o-mini',
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.1,
-      }) as { choices: Array<{ message: { content: string } }> };
-
-      const content = response.choices[0]?.message?.content || '';
-      console.log('[Intent] OpenAI response received:', content.substring(0, 150));
-
-      // Extract JSON from response
-      let jsonText = content.trim();
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.slice(7);
-      }
-      if (jsonText.startsWith('```')) {
-        jsonText = jsonText.slice(3);
-      }
-      if (jsonText.endsWith('```')) {
-        jsonText = jsonText.slice(0, -3);
-      }
-      jsonText = jsonText.trim();
-
-      const parsed = JSON.parse(jsonText);
-
-      // Validate the response
-      return {
-        intent: parsed.intent || 'unknown',
-        targetProjects: Array.isArray(parsed.targetProjects) ? parsed.targetProjects : [],
-        newProjectName: parsed.newProjectName,
-        confidence: parsed.confidence || 0.5,
-        reasoning: parsed.reasoning
-      };
-    } catch (openaiErr) {
-      const errorMsg = openaiErr instanceof Error ? openaiErr.message : String(openaiErr);
-      console.error(`[Intent] OpenAI failed: ${errorMsg}`);
+  try {
+    log.debug('Sending to LLM', { text: text.substring(0, 200) });
+    const { value, provider, model } = await chatStructured('intent', prompt, validateDetectedIntent, { temperature: 0.1 });
+    log.debug(`${provider}/${model} response received`);
+    if (aliases) {
+      value.targetProjects = value.targetProjects.map(p => {
+        const ref = p.replace(/^[@$/]/, '').toLowerCase();
+        return aliases.handles.get(ref) ?? aliases.names.get(ref) ?? aliases.cashtags.get(ref) ?? aliases.channels.get(ref) ?? p;
+      });
     }
-  }
-
-  // Fallback to GLM
-  console.log('[Intent] OpenAI unavailable, trying GLM...');
-  for (const model of MODELS_TO_TRY) {
-    try {
-      const response = await callGLMAPI('chat/completions', {
-        model: model,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.1,
-      }) as { choices: Array<{ message: { content: string } }> };
-
-      const content = response.choices[0]?.message?.content || '';
-
-      // Extract JSON from response
-      let jsonText = content.trim();
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.slice(7);
-      }
-      if (jsonText.startsWith('```')) {
-        jsonText = jsonText.slice(3);
-      }
-      if (jsonText.endsWith('```')) {
-        jsonText = jsonText.slice(0, -3);
-      }
-      jsonText = jsonText.trim();
-
-      const parsed = JSON.parse(jsonText);
-
-      // Validate the response
-      return {
-        intent: parsed.intent || 'unknown',
-        targetProjects: Array.isArray(parsed.targetProjects) ? parsed.targetProjects : [],
-        newProjectName: parsed.newProjectName,
-        confidence: parsed.confidence || 0.5,
-        reasoning: parsed.reasoning
-      };
-    } catch (modelErr) {
-      const errorMsg = modelErr instanceof Error ? modelErr.message : String(modelErr);
-      console.error(`[Intent] GLM model ${model} failed: ${errorMsg}`);
-      // If it's a 400/401/404 error or model not found, try next model
-      if (errorMsg.includes('400') || errorMsg.includes('401') || errorMsg.includes('404') ||
-          errorMsg.includes('1211') || errorMsg.includes('模型不存在') || errorMsg.includes('model_not_found')) {
-        console.log(`[Intent] Model ${model} not available, trying next...`);
-        continue;
-      }
-      // For other errors, also try next model
-      continue;
+    if (channelProject && value.targetProjects.length === 0 && (value.intent === 'add_feature' || isQueryIntent(value.intent))) {
+      value.targetProjects = [channelProject];
+    }
+    return value;
+  } catch (err) {
+    if (err instanceof StructuredOutputError) {
+      log.error(`Rejected ${err.provider}/${err.model} output: ${err.errors.join('; ')}`);
+    } else {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      log.error(`LLM failed: ${errorMsg}`);
     }
   }
 
   // All models failed - use pattern matching fallback
-  console.log('[Intent] All LLM providers failed, using pattern matching fallback');
-  const fallbackPatternResult = detectIntentByPattern(text, allKnownProjects);
-  console.log(`[Intent] Pattern result: ${fallbackPatternResult.intent} (confidence: ${fallbackPatternResult.confidence})`);
+  log.info('All LLM providers failed, using pattern matching fallback');
+  const fallbackPatternResult = detectIntentByPattern(text, allKnownProjects, channelProject);
+  log.info(`Pattern result: ${fallbackPatternResult.intent} (confidence: ${fallbackPatternResult.confidence})`);
   return fallbackPatternResult;
 }
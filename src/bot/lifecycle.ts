@@ -0,0 +1,66 @@
+/**
+ * Feature lifecycle: which status changes project admins may make
+ */
+
+export const FEATURE_STATUSES = ['open', 'planned', 'in_progress', 'shipped', 'declined'] as const;
+
+export type FeatureStatus = typeof FEATURE_STATUSES[number];
+
+const TRANSITIONS: Record<FeatureStatus, FeatureStatus[]> = {
+  open: ['planned', 'in_progress', 'shipped', 'declined'],
+  planned: ['in_progress', 'shipped', 'declined', 'open'],
+  in_progress: ['shipped', 'planned', 'declined'],
+  // Reopened after a regression
+  shipped: ['in_progress'],
+  declined: ['open', 'planned'],
+};
+
+export const STATUS_LABELS: Record<FeatureStatus, string> = {
+  open: '🗳️ open',
+  planned: '🗓️ planned',
+  in_progress: '🛠️ in progress',
+  shipped: '🚀 shipped',
+  declined: '🚫 declined',
+};
+
+export function isFeatureStatus(value: string): value is FeatureStatus {
+  return (FEATURE_STATUSES as readonly string[]).includes(value);
+}
+
+export function allowedTransitions(from: string): FeatureStatus[] {
+  return isFeatureStatus(from) ? TRANSITIONS[from] : [];
+}
+
+export function canTransition(from: string, to: FeatureStatus): boolean {
+  return allowedTransitions(from).includes(to);
+}
+
+export function statusLabel(status: string): string {
+  return isFeatureStatus(status) ? STATUS_LABELS[status] : status.replace(/_/g, ' ');
+}
+
+/**
+ * Read "@roadmapr mark planned", "mark as in progress", "mark shipped", "mark declined", "reopen"
+ */
+export function parseStatusCommand(text: string): FeatureStatus | null {
+  const command = text.replace(/@\w+/g, ' ').replace(/[!.]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+
+  if (/^re-?open$/.test(command)) return 'open';
+
+  const match = command.match(/^mark\s+(?:(?:it|this)\s+)?(?:as\s+)?(.+)$/);
+  if (!match) return null;
+
+  const target = match[1].replace(/['’]/g, '').replace(/[\s-]+/g, '_');
+  const aliases: Record<string, FeatureStatus> = {
+    open: 'open',
+    planned: 'planned',
+    in_progress: 'in_progress',
+    wip: 'in_progress',
+    shipped: 'shipped',
+    done: 'shipped',
+    declined: 'declined',
+    rejected: 'declined',
+    wont_fix: 'declined',
+  };
+  return aliases[target] || null;
+}
@@ -0,0 +1,148 @@
+import { BotVoice } from './voice.js';
+import {
+  mergeIntoFeature,
+  createFeatureFromRequest,
+  type ActionContext,
+  type RequestSource
+} from './feature-actions.js';
+import { displayProjectName } from './helpers.js';
+import { postReply } from '../neynar/client.js';
+import { getFeatureById } from '../db/features.js';
+import { getProjectById, type Project } from '../db/projects.js';
+import { linkActionsToReply } from '../db/actions.js';
+import { recordAnnouncement } from '../db/announcements.js';
+import {
+  createMergeDecision,
+  getMergeDecision,
+  resolveMergeDecision,
+  type MergeDecision,
+  type PendingFeature
+} from '../db/merge-decisions.js';
+import { enqueueJob } from '../queue/index.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('merge-confirm');
+
+// How long the requester has to answer "same thing?" before the default applies
+const MERGE_CONFIRM_TIMEOUT_MS = parseInt(process.env.MERGE_CONFIRM_TIMEOUT_MS || '86400000');
+// "create" (default) or "merge"
+const MERGE_CONFIRM_DEFAULT: 'merge' | 'create' = process.env.MERGE_CONFIRM_DEFAULT === 'merge' ? 'merge' : 'create';
+
+export const MERGE_DECISION_TIMEOUT_JOB = 'merge-decision-timeout';
+
+export interface MergeDecisionOutcome {
+  action: 'merged' | 'created';
+  featureId: string;
+  // Journal entry; link it to the bot's announcement so "undo" works on it
+  actionId: string;
+  title: string;
+  project: string;
+}
+
+/**
+ * Ask the requester whether a gray-zone match is the same feature, and store the
+ * pending decision so their reply (or the timeout) can be matched back to it
+ */
+export async function askMergeConfirmation(params: {
+  project: Project;
+  candidate: { id: string; title: string; similarity: number };
+  feature: PendingFeature;
+  source: RequestSource;
+  requesterFid: number;
+  mentionCastHash: string;
+}): Promise<MergeDecision> {
+  const { project, candidate, feature, source } = params;
+
+  const questionHash = await postReply(
+    params.mentionCastHash,
+    BotVoice.confirmMerge(feature.title, candidate.title, displayProjectName(project))
+  );
+
+  const decision = await createMergeDecision({
+    project_id: project.id,
+    candidate_feature_id: candidate.id,
+    similarity: candidate.similarity,
+    requester_fid: params.requesterFid,
+    mention_cast_hash: params.mentionCastHash,
+    question_cast_hash: questionHash ?? null,
+    feature,
+    source_cast_hash: source.cast_hash,
+    source_cast_author_fid: source.author_fid,
+    source_cast_text: source.text,
+    expires_at: new Date(Date.now() + MERGE_CONFIRM_TIMEOUT_MS).toISOString()
+  });
+
+  await enqueueJob({
+    type: MERGE_DECISION_TIMEOUT_JOB,
+    payload: { decision_id: decision.id },
+    dedupe_key: `merge-decision:${decision.id}`,
+    run_at: new Date(decision.expires_at)
+  });
+
+  log.info(`Asked about "${feature.title}" vs ${candidate.id} (similarity: ${candidate.similarity.toFixed(2)})`);
+  return decision;
+}
+
+/**
+ * Apply a decision: merge into the candidate or create a new feature.
+ * Returns null if the decision was already resolved (e.g. the reply raced the timeout).
+ */
+export async function applyMergeDecision(
+  decision: MergeDecision,
+  choice: 'merge' | 'create',
+  resolvedBy: 'reply' | 'timeout'
+): Promise<MergeDecisionOutcome | null> {
+  const candidate = await getFeatureById(decision.candidate_feature_id);
+  // The candidate may have been removed while we waited
+  const action = choice === 'merge' && candidate ? 'merged' : 'created';
+
+  if (!(await resolveMergeDecision(decision.id, action, resolvedBy))) {
+    log.info(`Decision ${decision.id} already resolved`);
+    return null;
+  }
+
+  const project = await getProjectById(decision.project_id);
+  const source: RequestSource = {
+    cast_hash: decision.source_cast_hash,
+    author_fid: decision.source_cast_author_fid ?? decision.requester_fid,
+    text: decision.source_cast_text || ''
+  };
+  const context: ActionContext = {
+    project_id: decision.project_id,
+    requester_fid: decision.requester_fid,
+    mention_cast_hash: decision.mention_cast_hash
+  };
+
+  if (action === 'merged' && candidate) {
+    const actionId = await mergeIntoFeature(candidate, decision.feature, source, context);
+    log.info(`Merged into ${candidate.id} (${resolvedBy})`);
+    return { action, featureId: candidate.id, actionId, title: candidate.title, project: project ? displayProjectName(project) : '' };
+  }
+
+  const { featureId, actionId } = await createFeatureFromRequest(decision.feature, source, context);
+  log.info(`Created ${featureId} (${resolvedBy})`);
+  return { action, featureId, actionId, title: decision.feature.title, project: project ? displayProjectName(project) : '' };
+}
+
+/**
+ * Job handler: nobody answered in time, so apply MERGE_CONFIRM_DEFAULT
+ */
+export async function handleMergeDecisionTimeout(payload: { decision_id: string }): Promise<void> {
+  const decision = await getMergeDecision(payload.decision_id);
+  if (!decision || decision.status !== 'pending') {
+    return;
+  }
+
+  const outcome = await applyMergeDecision(decision, MERGE_CONFIRM_DEFAULT, 'timeout');
+  if (!outcome) {
+    return;
+  }
+
+  const candidate = await getFeatureById(decision.candidate_feature_id);
+  const replyHash = await postReply(
+    decision.question_cast_hash || decision.mention_cast_hash,
+    BotVoice.mergeDecisionTimedOut(decision.feature.title, candidate?.title || outcome.title, outcome.action === 'merged')
+  );
+  await linkActionsToReply([outcome.actionId], replyHash);
+  await recordAnnouncement(replyHash, [outcome.featureId]);
+}
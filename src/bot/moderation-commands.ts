@@ -0,0 +1,166 @@
+import { parseOwner } from './helpers.js';
+import { reviewHeldRequests, type ReviewResult } from './moderation.js';
+import { getUser } from '../neynar/client.js';
+import { getProjectByHandle, hasProjectRole, type Project } from '../db/projects.js';
+import {
+  getModerationRules,
+  addModerationRule,
+  removeModerationRule,
+  listPendingModeration,
+  type ModerationItem,
+  type ModerationRuleKind
+} from '../db/moderation.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('moderation');
+
+type BlockCommand = { username: string; handle: string };
+type FilterCommand = { kind: Exclude<ModerationRuleKind, 'fid'>; value: string; handle: string };
+type ReviewCommand = { itemId: string; handle: string };
+
+export type ModerationCommand =
+  | ({ type: 'block' } & BlockCommand)
+  | ({ type: 'unblock' } & BlockCommand)
+  | ({ type: 'filter' } & FilterCommand)
+  | ({ type: 'unfilter' } & FilterCommand)
+  | { type: 'rules'; handle: string }
+  | { type: 'queue'; handle: string }
+  | ({ type: 'approve' } & ReviewCommand)
+  | ({ type: 'reject' } & ReviewCommand);
+
+export interface DisplayRule {
+  kind: ModerationRuleKind;
+  // Username for fid rules
+  value: string;
+}
+
+export type ModerationCommandResult =
+  | { status: 'project_not_found'; handle: string }
+  | { status: 'forbidden'; project: Project }
+  | { status: 'user_not_found'; project: Project; username: string }
+  | { status: 'exists'; project: Project; rule: DisplayRule }
+  | { status: 'added'; project: Project; rule: DisplayRule }
+  | { status: 'not_found'; project: Project; rule: DisplayRule }
+  | { status: 'removed'; project: Project; rule: DisplayRule }
+  | { status: 'rules'; project: Project; rules: DisplayRule[] }
+  | { status: 'queue'; project: Project; items: ModerationItem[] }
+  | { status: 'review'; project: Project; itemId: string; result: ReviewResult };
+
+// How many held requests "queue of @project" shows
+const QUEUE_LIST_LIMIT = 10;
+// Held requests are referred to by the start of their id, as shown in the queue
+export const MODERATION_ID_LENGTH = 8;
+
+/**
+ * "block @alice on @project", "unblock @alice on @project",
+ * "filter keyword airdrop on @project", "filter domain spam.xyz on @project", "unfilter ...",
+ * "rules of @project", "queue of @project", "approve 1a2b3c4d on @project", "reject ..."
+ */
+export function parseModerationCommand(text: string): ModerationCommand | null {
+  // Keep dots: they're part of domains
+  const command = text.replace(/@roadmapr\b/gi, ' ').replace(/[!?]/g, ' ').replace(/\.(\s|$)/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+
+  const block = command.match(/^(block|unblock) (?:user )?@?(\w+) (?:on|from|in|for) @?(\w+)$/);
+  if (block) {
+    return { type: block[1] as 'block' | 'unblock', username: block[2], handle: block[3] };
+  }
+
+  const filter = command.match(/^(filter|unfilter) (keyword|word|domain) "?(.+?)"? (?:on|from|in|for) @?(\w+)$/);
+  if (filter) {
+    return {
+      type: filter[1] as 'filter' | 'unfilter',
+      kind: filter[2] === 'domain' ? 'domain' : 'keyword',
+      value: filter[3].trim(),
+      handle: filter[4]
+    };
+  }
+
+  const rules = command.match(/^(?:show |list )?(?:moderation )?rules (?:of|for|on) @?(\w+)$/);
+  if (rules) {
+    return { type: 'rules', handle: rules[1] };
+  }
+
+  const queue = command.match(/^(?:show )?(?:moderation )?queue (?:of|for|on) @?(\w+)$/);
+  if (queue) {
+    return { type: 'queue', handle: queue[1] };
+  }
+
+  const review = command.match(/^(approve|reject) #?([0-9a-f-]{4,36}) (?:on|for|in) @?(\w+)$/);
+  if (review) {
+    return { type: review[1] as 'approve' | 'reject', itemId: review[2], handle: review[3] };
+  }
+
+  return null;
+}
+
+/**
+ * Run a moderation command sent by `fid`. Rules are managed by project admins;
+ * moderators can see them and work through the queue.
+ */
+export async function runModerationCommand(command: ModerationCommand, fid: number): Promise<ModerationCommandResult> {
+  const project = await getProjectByHandle(command.handle);
+  if (!project) {
+    return { status: 'project_not_found', handle: command.handle };
+  }
+
+  const managesRules = ['block', 'unblock', 'filter', 'unfilter'].includes(command.type);
+  if (!(await hasProjectRole(project, fid, managesRules ? 'admin' : 'moderator'))) {
+    return { status: 'forbidden', project };
+  }
+
+  if (command.type === 'rules') {
+    const rules: DisplayRule[] = [];
+    for (const rule of await getModerationRules(project.id)) {
+      rules.push(rule.kind === 'fid' ? await displayFid(Number(rule.value)) : { kind: rule.kind, value: rule.value });
+    }
+    return { status: 'rules', project, rules };
+  }
+
+  if (command.type === 'queue') {
+    return { status: 'queue', project, items: await listPendingModeration(project.id, QUEUE_LIST_LIMIT) };
+  }
+
+  if (command.type === 'approve' || command.type === 'reject') {
+    const pending = await listPendingModeration(project.id, 100);
+    const items = pending.filter(item => item.id.startsWith(command.itemId));
+    // A prefix that fits several items is treated as not found rather than guessed
+    const result = await reviewHeldRequests(items.length === 1 ? items : [], fid, command.type);
+    return { status: 'review', project, itemId: command.itemId, result };
+  }
+
+  let kind: ModerationRuleKind;
+  let value: string;
+  let rule: DisplayRule;
+  if (command.type === 'block' || command.type === 'unblock') {
+    const user = await parseOwner(command.username);
+    if (!user) {
+      return { status: 'user_not_found', project, username: command.username };
+    }
+    kind = 'fid';
+    value = String(user.fid);
+    rule = { kind, value: user.username };
+  } else {
+    kind = command.kind;
+    value = command.kind === 'domain' ? command.value.replace(/^https?:\/\//, '').replace(/\/.*$/, '') : command.value;
+    rule = { kind, value };
+  }
+
+  if (command.type === 'unblock' || command.type === 'unfilter') {
+    if (!(await removeModerationRule(project.id, kind, value))) {
+      return { status: 'not_found', project, rule };
+    }
+    log.info(`FID ${fid} removed ${kind} rule "${value}" from @${project.project_handle}`);
+    return { status: 'removed', project, rule };
+  }
+
+  if (!(await addModerationRule({ project_id: project.id, kind, value, created_by_fid: fid }))) {
+    return { status: 'exists', project, rule };
+  }
+  log.info(`FID ${fid} added ${kind} rule "${value}" to @${project.project_handle}`);
+  return { status: 'added', project, rule };
+}
+
+async function displayFid(fid: number): Promise<DisplayRule> {
+  const user = await getUser(fid);
+  return { kind: 'fid', value: user?.username || String(fid) };
+}
@@ -0,0 +1,363 @@
+import { compileMatcher } from './project-matcher.js';
+import { findSimilarFeatures } from './similarity.js';
+import { validateModerationClassification } from './schemas.js';
+import {
+  mergeIntoFeature,
+  createFeatureFromRequest,
+  type ActionContext,
+  type RequestSource
+} from './feature-actions.js';
+import { displayProjectName } from './helpers.js';
+import { chatStructured, StructuredOutputError } from '../llm/index.js';
+import { getProjectById, hasProjectRole, type Project } from '../db/projects.js';
+import { getFeatureById, setFeatureHidden, type Feature } from '../db/features.js';
+import { getAnnouncedFeatureIds } from '../db/announcements.js';
+import type { PendingFeature } from '../db/merge-decisions.js';
+import {
+  getModerationRules,
+  queueForModeration,
+  reviewModerationItem,
+  type ModerationItem,
+  type ModerationRule
+} from '../db/moderation.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('moderation');
+
+// Global rules from the environment, on top of the global rows in moderation_rules
+const MODERATION_BLOCKED_FIDS = parseList(process.env.MODERATION_BLOCKED_FIDS).map(Number).filter(Number.isInteger);
+const MODERATION_KEYWORDS = parseList(process.env.MODERATION_KEYWORDS);
+const MODERATION_DOMAINS = parseList(process.env.MODERATION_DOMAINS);
+// Optional LLM check for toxicity, spam and joke requests ("true" to turn on)
+const MODERATION_CLASSIFIER = process.env.MODERATION_CLASSIFIER === 'true';
+const MODERATION_CLASSIFIER_THRESHOLD = parseFloat(process.env.MODERATION_CLASSIFIER_THRESHOLD || '0.7');
+
+export interface ModerationClassification {
+  category: 'ok' | 'toxic' | 'spam' | 'joke';
+  confidence: number;
+}
+
+export interface ModerationVerdict {
+  // block: drop the request quietly; hold: queue it for a moderator
+  action: 'allow' | 'hold' | 'block';
+  reasons: string[];
+}
+
+export interface ReviewOutcome {
+  item: ModerationItem;
+  action: 'merged' | 'created';
+  featureId: string;
+  // Journal entry; link it to the bot's reply so "undo" works on it
+  actionId: string;
+  title: string;
+  project: string;
+}
+
+export type ReviewResult =
+  | { status: 'not_found' }
+  | { status: 'forbidden' }
+  | { status: 'already_reviewed' }
+  | { status: 'approved'; outcomes: ReviewOutcome[] }
+  | { status: 'rejected'; items: ModerationItem[] };
+
+export type VisibilityResult =
+  | { status: 'no_feature' }
+  | { status: 'ambiguous'; titles: string[] }
+  | { status: 'forbidden' }
+  | { status: 'unchanged'; feature: Feature; hidden: boolean }
+  | { status: 'changed'; feature: Feature; hidden: boolean };
+
+function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(v => v.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * "@roadmapr hide" / "unhide" (mentions and punctuation around it are ignored)
+ */
+export function parseHideCommand(text: string): 'hide' | 'unhide' | null {
+  const command = text.replace(/@\w+/g, ' ').replace(/[!.]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+  const match = command.match(/^(hide|unhide)(?: (?:this|it|that))?$/);
+  return match ? match[1] as 'hide' | 'unhide' : null;
+}
+
+/**
+ * "approve" / "reject" sent as a reply to a held-for-review notice
+ */
+export function parseReviewDecision(text: string): 'approve' | 'reject' | null {
+  const command = text.replace(/@\w+/g, ' ').replace(/[!.]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+  const match = command.match(/^(approved?|reject(?:ed)?)(?: (?:this|it|that|all|both))?$/);
+  if (!match) return null;
+  return match[1].startsWith('approve') ? 'approve' : 'reject';
+}
+
+/**
+ * True if the fid is on the global blocklist, or on the project's when one is given
+ */
+export async function isBlockedFid(fid: number, project?: Project): Promise<boolean> {
+  if (MODERATION_BLOCKED_FIDS.includes(fid)) return true;
+  const rules = await loadRules(project);
+  return rules.some(rule => rule.kind === 'fid' && Number(rule.value) === fid);
+}
+
+async function loadRules(project?: Project): Promise<ModerationRule[]> {
+  const [global, own] = await Promise.all([
+    getModerationRules(null),
+    project ? getModerationRules(project.id) : Promise.resolve([])
+  ]);
+  return [...global, ...own];
+}
+
+/**
+ * Decide what happens to an extracted request before anything is stored: blocked
+ * accounts are dropped, keyword / domain hits and classifier flags are held for review
+ */
+export async function moderateRequest(params: {
+  project: Project;
+  feature: Pick<PendingFeature, 'title' | 'description' | 'subItems'>;
+  source: RequestSource;
+  requesterFid: number;
+}): Promise<ModerationVerdict> {
+  const { project, feature, source, requesterFid } = params;
+  const rules = await loadRules(project);
+
+  const blockedFids = new Set([
+    ...MODERATION_BLOCKED_FIDS,
+    ...rules.filter(r => r.kind === 'fid').map(r => Number(r.value))
+  ]);
+  const blocked = [requesterFid, source.author_fid].filter(fid => blockedFids.has(fid));
+  if (blocked.length > 0) {
+    return { action: 'block', reasons: blocked.map(fid => `fid: ${fid}`) };
+  }
+
+  const text = [
+    feature.title,
+    feature.description,
+    ...(feature.subItems || []).flatMap(sub => [sub.title, sub.description]),
+    source.text
+  ].join('\n');
+
+  const reasons = [
+    ...findKeywords(text, [...MODERATION_KEYWORDS, ...rules.filter(r => r.kind === 'keyword').map(r => r.value)])
+      .map(keyword => `keyword: ${keyword}`),
+    ...findDomains(text, [...MODERATION_DOMAINS, ...rules.filter(r => r.kind === 'domain').map(r => r.value)])
+      .map(domain => `domain: ${domain}`)
+  ];
+
+  if (reasons.length === 0 && MODERATION_CLASSIFIER) {
+    const classification = await classifyRequest(feature.title, feature.description, source.text);
+    if (classification && classification.category !== 'ok' && classification.confidence >= MODERATION_CLASSIFIER_THRESHOLD) {
+      reasons.push(`classifier: ${classification.category} (${classification.confidence.toFixed(2)})`);
+    }
+  }
+
+  return reasons.length > 0 ? { action: 'hold', reasons } : { action: 'allow', reasons };
+}
+
+function findKeywords(text: string, keywords: string[]): string[] {
+  if (keywords.length === 0) return [];
+  return compileMatcher(keywords.map(keyword => ({ text: keyword, value: keyword }))).find(text);
+}
+
+/**
+ * Domains in the text that are on the list, subdomains included ("x.spam.xyz" hits "spam.xyz")
+ */
+function findDomains(text: string, domains: string[]): string[] {
+  if (domains.length === 0) return [];
+  const hosts = [...text.toLowerCase().matchAll(/\b((?:[a-z0-9-]+\.)+[a-z]{2,})\b/g)].map(m => m[1]);
+  return domains.filter(domain => hosts.some(host => host === domain || host.endsWith(`.${domain}`)));
+}
+
+/**
+ * Ask the LLM whether a request is abusive, spam or a joke. Null if it couldn't say:
+ * the keyword and domain filters still apply, so an outage doesn't hold everything.
+ */
+async function classifyRequest(title: string, description: string, castText: string): Promise<ModerationClassification | null> {
+  const prompt = `You moderate a public feature request board for Farcaster projects.
+Classify this request:
+- "toxic": slurs, harassment, hateful or sexual content
+- "spam": shilling a token, airdrop or link, or advertising something unrelated
+- "joke": not a real request for the product (trolling, memes, nonsense)
+- "ok": anything else, including blunt or badly written requests
+
+Title: ${title}
+Description: ${description}
+Original cast: ${castText}
+
+Return ONLY valid JSON: {"category": "ok", "confidence": 0.9}`;
+
+  try {
+    const { value } = await chatStructured('moderate', prompt, validateModerationClassification, { temperature: 0 });
+    return value;
+  } catch (err) {
+    if (err instanceof StructuredOutputError) {
+      log.error(`Rejected ${err.provider}/${err.model} output: ${err.errors.join('; ')}`);
+    } else {
+      log.error(`Classifier failed: ${err instanceof Error ? err.message : err}`);
+    }
+    return null;
+  }
+}
+
+/**
+ * Put a request in the moderation queue instead of storing it
+ */
+export async function holdForReview(params: {
+  project: Project;
+  feature: PendingFeature;
+  source: RequestSource;
+  requesterFid: number;
+  mentionCastHash: string;
+  reasons: string[];
+}): Promise<ModerationItem> {
+  const item = await queueForModeration({
+    project_id: params.project.id,
+    requester_fid: params.requesterFid,
+    mention_cast_hash: params.mentionCastHash,
+    feature: params.feature,
+    source_cast_hash: params.source.cast_hash,
+    source_cast_author_fid: params.source.author_fid,
+    source_cast_text: params.source.text,
+    reasons: params.reasons
+  });
+  log.info(`Held "${params.feature.title}" for @${params.project.project_handle}: ${params.reasons.join(', ')}`);
+  return item;
+}
+
+/**
+ * Approve or reject held requests. Needs moderator rights on every item's project.
+ * An approved request goes through the usual merge-or-create, as if it had never been held.
+ */
+export async function reviewHeldRequests(
+  items: ModerationItem[],
+  fid: number,
+  decision: 'approve' | 'reject'
+): Promise<ReviewResult> {
+  if (items.length === 0) {
+    return { status: 'not_found' };
+  }
+
+  const projects = new Map<string, Project>();
+  for (const item of items) {
+    const project = projects.get(item.project_id) ?? await getProjectById(item.project_id);
+    if (!project || !(await hasProjectRole(project, fid, 'moderator'))) {
+      return { status: 'forbidden' };
+    }
+    projects.set(project.id, project);
+  }
+
+  return applyReview(items, projects, fid, decision);
+}
+
+/**
+ * Approve or reject held requests from the admin dashboard; the API key stands in
+ * for the project roles, so no reviewer fid is recorded
+ */
+export async function reviewHeldRequestsAsOperator(
+  items: ModerationItem[],
+  decision: 'approve' | 'reject'
+): Promise<ReviewResult> {
+  if (items.length === 0) {
+    return { status: 'not_found' };
+  }
+
+  const projects = new Map<string, Project>();
+  for (const item of items) {
+    const project = projects.get(item.project_id) ?? await getProjectById(item.project_id);
+    if (!project) {
+      return { status: 'not_found' };
+    }
+    projects.set(project.id, project);
+  }
+
+  return applyReview(items, projects, null, decision);
+}
+
+async function applyReview(
+  items: ModerationItem[],
+  projects: Map<string, Project>,
+  fid: number | null,
+  decision: 'approve' | 'reject'
+): Promise<ReviewResult> {
+  // Conditional on still being pending, so two moderators can't both act on one request
+  const reviewed: ModerationItem[] = [];
+  for (const item of items) {
+    if (await reviewModerationItem(item.id, decision === 'approve' ? 'approved' : 'rejected', fid)) {
+      reviewed.push(item);
+    }
+  }
+  if (reviewed.length === 0) {
+    return { status: 'already_reviewed' };
+  }
+
+  const reviewer = fid === null ? 'Dashboard' : `FID ${fid}`;
+  if (decision === 'reject') {
+    log.info(`${reviewer} rejected ${reviewed.length} request(s)`);
+    return { status: 'rejected', items: reviewed };
+  }
+
+  const outcomes: ReviewOutcome[] = [];
+  for (const item of reviewed) {
+    outcomes.push(await publishHeldRequest(item, projects.get(item.project_id)!));
+  }
+  log.info(`${reviewer} approved ${reviewed.length} request(s)`);
+  return { status: 'approved', outcomes };
+}
+
+async function publishHeldRequest(item: ModerationItem, project: Project): Promise<ReviewOutcome> {
+  const source: RequestSource = {
+    cast_hash: item.source_cast_hash,
+    author_fid: item.source_cast_author_fid,
+    text: item.source_cast_text
+  };
+  const context: ActionContext = {
+    project_id: item.project_id,
+    requester_fid: item.requester_fid,
+    mention_cast_hash: item.mention_cast_hash
+  };
+
+  // The board may have changed while the request waited
+  const similar = await findSimilarFeatures(project.id, item.feature.title, item.feature.description);
+  if (similar.length > 0 && similar[0].confident) {
+    const actionId = await mergeIntoFeature(similar[0], item.feature, source, context);
+    return { item, action: 'merged', featureId: similar[0].id, actionId, title: similar[0].title, project: displayProjectName(project) };
+  }
+
+  const { featureId, actionId } = await createFeatureFromRequest(item.feature, source, context);
+  return { item, action: 'created', featureId, actionId, title: item.feature.title, project: displayProjectName(project) };
+}
+
+/**
+ * "@roadmapr hide" / "unhide" sent as a reply to a feature's announcement cast.
+ * Project moderators and up only.
+ */
+export async function setAnnouncedFeatureHidden(
+  announcementHash: string,
+  fid: number,
+  hidden: boolean
+): Promise<VisibilityResult> {
+  const features: Feature[] = [];
+  for (const id of await getAnnouncedFeatureIds(announcementHash)) {
+    const feature = await getFeatureById(id);
+    if (feature) features.push(feature);
+  }
+
+  if (features.length === 0) {
+    return { status: 'no_feature' };
+  }
+  if (features.length > 1) {
+    return { status: 'ambiguous', titles: features.map(f => f.title) };
+  }
+
+  const feature = features[0];
+  const project = await getProjectById(feature.project_id);
+  if (!project || !(await hasProjectRole(project, fid, 'moderator'))) {
+    return { status: 'forbidden' };
+  }
+
+  if (!(await setFeatureHidden(feature.id, hidden))) {
+    return { status: 'unchanged', feature, hidden };
+  }
+
+  log.info(`${feature.id} ${hidden ? 'hidden' : 'unhidden'} by FID ${fid}`);
+  return { status: 'changed', feature, hidden };
+}
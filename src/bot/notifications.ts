@@ -0,0 +1,184 @@
+import { BotVoice } from './voice.js';
+import { displayProjectName } from './helpers.js';
+import { postReply, postStandaloneCast, getUser } from '../neynar/client.js';
+import {
+  getFeatureById,
+  getFeatureSources,
+  getStatusChange,
+  type Feature,
+  type FeatureStatusChange
+} from '../db/features.js';
+import { getProjectById } from '../db/projects.js';
+import { getAnnouncedFeatureIds } from '../db/announcements.js';
+import {
+  followFeature,
+  unfollowFeature,
+  getFeatureFollowers,
+  getNotifiedFids,
+  claimNotification,
+  markNotificationsSent
+} from '../db/notifications.js';
+import { enqueueJob } from '../queue/index.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('notify');
+
+// Statuses worth telling people about
+const NOTIFY_STATUSES = (process.env.NOTIFY_STATUSES || 'planned,shipped').split(',').map(s => s.trim()).filter(Boolean);
+// "reply" (default): reply to each source cast; "batch": tag the source authors in standalone casts
+const NOTIFY_MODE: 'reply' | 'batch' = process.env.NOTIFY_MODE === 'batch' ? 'batch' : 'reply';
+// Mentions per standalone cast
+const NOTIFY_BATCH_SIZE = parseInt(process.env.NOTIFY_BATCH_SIZE || '5');
+// Casts sent per job run; the rest goes out NOTIFY_RUN_INTERVAL_MS later
+const NOTIFY_MAX_PER_RUN = parseInt(process.env.NOTIFY_MAX_PER_RUN || '10');
+const NOTIFY_RUN_INTERVAL_MS = parseInt(process.env.NOTIFY_RUN_INTERVAL_MS || '60000');
+
+export const STATUS_NOTIFY_JOB = 'status-notify';
+
+interface Recipient {
+  fid: number;
+  // The cast they asked in; null for followers
+  castHash: string | null;
+}
+
+/**
+ * Queue the fan-out for a status change (no-op for statuses nobody needs to hear about)
+ */
+export async function scheduleStatusNotifications(change: FeatureStatusChange) {
+  if (!NOTIFY_STATUSES.includes(change.to_status)) return;
+
+  await enqueueJob({
+    type: STATUS_NOTIFY_JOB,
+    payload: { status_change_id: change.id, run: 0 },
+    dedupe_key: `status-notify:${change.id}:0`
+  });
+}
+
+/**
+ * Job handler: tell everyone who asked for (or follows) the feature, up to
+ * NOTIFY_MAX_PER_RUN casts per run. Every recipient is claimed before the cast goes
+ * out, so a retry or a restart skips anyone already handled.
+ */
+export async function handleStatusNotifications(payload: { status_change_id: string; run: number }): Promise<void> {
+  const change = await getStatusChange(payload.status_change_id);
+  const feature = change && await getFeatureById(change.feature_id);
+  if (!change || !feature) return;
+
+  // Moved on again before we got to it; that change sends its own notices
+  if (feature.status !== change.to_status) {
+    log.info(`${feature.id} is no longer ${change.to_status}, skipping`);
+    return;
+  }
+
+  const project = await getProjectById(feature.project_id);
+  const projectName = project ? displayProjectName(project) : '';
+
+  const notified = new Set(await getNotifiedFids(change.id));
+  const pending = (await collectRecipients(feature, change)).filter(r => !notified.has(r.fid));
+
+  const replies = NOTIFY_MODE === 'reply' ? pending.filter(r => r.castHash) : [];
+  const mentions = pending.filter(r => !replies.includes(r));
+
+  let sent = 0;
+  for (const recipient of replies) {
+    if (sent >= NOTIFY_MAX_PER_RUN) return scheduleNextRun(payload);
+
+    const id = await claimNotification(change.id, recipient.fid, recipient.castHash);
+    if (!id) continue;
+
+    const castHash = await postReply(
+      recipient.castHash!,
+      BotVoice.statusNotification(feature.title, projectName, change.to_status)
+    );
+    await markNotificationsSent([id], castHash);
+    sent++;
+  }
+
+  for (let i = 0; i < mentions.length; i += NOTIFY_BATCH_SIZE) {
+    if (sent >= NOTIFY_MAX_PER_RUN) return scheduleNextRun(payload);
+
+    const ids: string[] = [];
+    const usernames: string[] = [];
+    for (const recipient of mentions.slice(i, i + NOTIFY_BATCH_SIZE)) {
+      const user = await getUser(recipient.fid);
+      if (!user) continue;
+      const id = await claimNotification(change.id, recipient.fid, null);
+      if (!id) continue;
+      ids.push(id);
+      usernames.push(user.username);
+    }
+    if (ids.length === 0) continue;
+
+    const castHash = await postStandaloneCast(
+      BotVoice.statusNotificationBatch(feature.title, projectName, change.to_status, usernames),
+      feature.source_cast_hash || undefined
+    );
+    await markNotificationsSent(ids, castHash);
+    sent++;
+  }
+
+  log.info(`${feature.id} -> ${change.to_status}: sent ${sent} cast(s)`);
+}
+
+async function scheduleNextRun(payload: { status_change_id: string; run: number }) {
+  const run = payload.run + 1;
+  await enqueueJob({
+    type: STATUS_NOTIFY_JOB,
+    payload: { status_change_id: payload.status_change_id, run },
+    dedupe_key: `status-notify:${payload.status_change_id}:${run}`,
+    run_at: new Date(Date.now() + NOTIFY_RUN_INTERVAL_MS)
+  });
+  log.info(`Run limit reached for ${payload.status_change_id}, continuing in ${NOTIFY_RUN_INTERVAL_MS}ms`);
+}
+
+/**
+ * Source authors (one entry each, at the first cast they asked in), then followers.
+ * The admin who made the change isn't told about it.
+ */
+async function collectRecipients(feature: Feature, change: FeatureStatusChange): Promise<Recipient[]> {
+  const recipients = new Map<number, Recipient>();
+
+  for (const source of await getFeatureSources(feature.id)) {
+    const fid = source.source_cast_author_fid;
+    if (fid && !recipients.has(fid)) {
+      recipients.set(fid, { fid, castHash: source.source_cast_hash });
+    }
+  }
+
+  for (const fid of await getFeatureFollowers(feature.id)) {
+    if (!recipients.has(fid)) {
+      recipients.set(fid, { fid, castHash: null });
+    }
+  }
+
+  recipients.delete(change.changed_by_fid);
+  return [...recipients.values()];
+}
+
+/**
+ * "@roadmapr follow" / "unfollow" (mentions and punctuation around it are ignored)
+ */
+export function parseFollowCommand(text: string): 'follow' | 'unfollow' | null {
+  const command = text.replace(/@\w+/g, ' ').replace(/[!.]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+  const match = command.match(/^(follow|unfollow)(?: (?:this|it|that))?$/);
+  return match ? match[1] as 'follow' | 'unfollow' : null;
+}
+
+/**
+ * Follow or unfollow every feature announced in `announcementHash`. Returns their titles.
+ */
+export async function setFollowing(announcementHash: string, fid: number, follow: boolean): Promise<string[]> {
+  const titles: string[] = [];
+  for (const featureId of await getAnnouncedFeatureIds(announcementHash)) {
+    const feature = await getFeatureById(featureId);
+    if (!feature) continue;
+
+    if (follow) {
+      await followFeature(feature.id, fid);
+    } else {
+      await unfollowFeature(feature.id, fid);
+    }
+    titles.push(feature.title);
+  }
+  return titles;
+}
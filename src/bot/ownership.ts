@@ -0,0 +1,186 @@
+import { BotVoice } from './voice.js';
+import { parseConfirmation, parseOwner } from './helpers.js';
+import { postReply, lookupUserByUsername } from '../neynar/client.js';
+import {
+  getProjectByHandle,
+  getProjectById,
+  verifyProject,
+  transferProjectOwner,
+  type Project
+} from '../db/projects.js';
+import {
+  createOwnershipClaim,
+  resolveOwnershipClaim,
+  type OwnershipClaim
+} from '../db/ownership-claims.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('ownership');
+
+// How long a confirmation request stays open
+const OWNERSHIP_CLAIM_TTL_MS = parseInt(process.env.OWNERSHIP_CLAIM_TTL_MS || '604800000');
+
+export type OwnershipCommand =
+  | { type: 'verify'; handle: string }
+  | { type: 'transfer'; handle: string; to: string };
+
+export type OwnershipResult =
+  | { status: 'project_not_found'; handle: string }
+  | { status: 'user_not_found'; username: string }
+  | { status: 'already_verified'; project: Project }
+  | { status: 'not_verified'; project: Project }
+  | { status: 'forbidden'; project: Project }
+  | { status: 'not_asked'; project: Project }
+  | { status: 'verified'; project: Project; ownerFid: number }
+  | { status: 'transfer_requested'; project: Project; claim: OwnershipClaim }
+  | { status: 'transferred'; project: Project; ownerFid: number }
+  | { status: 'declined'; project: Project }
+  | { status: 'stale'; project: Project };
+
+/**
+ * "@roadmapr verify @project", "claim @project", "transfer @project to @user"
+ */
+export function parseOwnershipCommand(text: string): OwnershipCommand | null {
+  const command = text.replace(/@roadmapr\b/gi, ' ').replace(/[!.]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+
+  const verify = command.match(/^(?:verify|claim)(?: project)? @?(\w+)$/);
+  if (verify) {
+    return { type: 'verify', handle: verify[1] };
+  }
+
+  const transfer = command.match(/^transfer(?: ownership of)?(?: project)? @?(\w+) to @?(\w+)$/);
+  if (transfer) {
+    return { type: 'transfer', handle: transfer[1], to: transfer[2] };
+  }
+
+  return null;
+}
+
+/**
+ * Read an answer to a confirmation request: "confirm" / "accept" or "decline", plus plain yes/no
+ */
+export function parseClaimAnswer(text: string): 'yes' | 'no' | null {
+  const answer = text.replace(/@\w+/g, ' ').trim().toLowerCase();
+  if (/^(?:confirm(?:ed)?|accept(?:ed)?|approve[d]?|verify|verified)\b/.test(answer)) return 'yes';
+  if (/^(?:decline[d]?|reject(?:ed)?|deny|refuse)\b/.test(answer)) return 'no';
+  return parseConfirmation(text);
+}
+
+/**
+ * The fid of the Farcaster account named like the project (e.g. @castoors for project "castoors")
+ */
+async function getHandleAccountFid(project: Project): Promise<number | null> {
+  const user = await lookupUserByUsername(project.project_handle);
+  return user?.fid ?? null;
+}
+
+/**
+ * Ask the named owner of a freshly created project to confirm it. The cast that
+ * announced the project is the prompt; replying "confirm" to it verifies the project.
+ */
+export async function requestVerification(project: Project, requesterFid: number, promptCastHash: string | null) {
+  if (project.is_verified || !project.owner_fid || !promptCastHash) return;
+
+  await createOwnershipClaim({
+    project_id: project.id,
+    type: 'verify',
+    from_fid: null,
+    to_fid: project.owner_fid,
+    requested_by_fid: requesterFid,
+    prompt_cast_hash: promptCastHash,
+    expires_at: new Date(Date.now() + OWNERSHIP_CLAIM_TTL_MS).toISOString()
+  });
+}
+
+/**
+ * Run a verify/transfer command sent by `fid`. Sending it from your own account is
+ * your confirmation: the named owner or the project's account verifies directly;
+ * a transfer still needs the new owner to accept.
+ */
+export async function runOwnershipCommand(
+  command: OwnershipCommand,
+  fid: number,
+  castHash: string
+): Promise<OwnershipResult> {
+  const project = await getProjectByHandle(command.handle);
+  if (!project) {
+    return { status: 'project_not_found', handle: command.handle };
+  }
+
+  if (command.type === 'verify') {
+    if (project.is_verified) {
+      return { status: 'already_verified', project };
+    }
+    if (fid !== project.owner_fid && fid !== await getHandleAccountFid(project)) {
+      return { status: 'forbidden', project };
+    }
+    await verifyProject(project.id, fid);
+    log.info(`@${project.project_handle} verified by FID ${fid}`);
+    return { status: 'verified', project, ownerFid: fid };
+  }
+
+  if (!project.is_verified) {
+    return { status: 'not_verified', project };
+  }
+  if (fid !== project.owner_fid) {
+    return { status: 'forbidden', project };
+  }
+
+  const newOwner = await parseOwner(command.to);
+  if (!newOwner) {
+    return { status: 'user_not_found', username: command.to };
+  }
+
+  const promptHash = await postReply(castHash, BotVoice.transferRequested(project.project_handle, newOwner.username));
+  const claim = await createOwnershipClaim({
+    project_id: project.id,
+    type: 'transfer',
+    from_fid: fid,
+    to_fid: newOwner.fid,
+    requested_by_fid: fid,
+    prompt_cast_hash: promptHash,
+    expires_at: new Date(Date.now() + OWNERSHIP_CLAIM_TTL_MS).toISOString()
+  });
+  log.info(`Transfer of @${project.project_handle} to FID ${newOwner.fid} requested`);
+  return { status: 'transfer_requested', project, claim };
+}
+
+/**
+ * Someone answered a confirmation request. Only the fid being asked may answer
+ * (for verification, the project's own account may too).
+ */
+export async function answerOwnershipClaim(
+  claim: OwnershipClaim,
+  fid: number,
+  answer: 'yes' | 'no'
+): Promise<OwnershipResult | null> {
+  const project = await getProjectById(claim.project_id);
+  if (!project) return null;
+
+  const allowed = fid === claim.to_fid ||
+    (claim.type === 'verify' && fid === await getHandleAccountFid(project));
+  if (!allowed) {
+    return { status: 'not_asked', project };
+  }
+
+  if (!(await resolveOwnershipClaim(claim.id, answer === 'yes' ? 'confirmed' : 'declined'))) {
+    return null;
+  }
+  if (answer === 'no') {
+    log.info(`${claim.type} of @${project.project_handle} declined by FID ${fid}`);
+    return { status: 'declined', project };
+  }
+
+  if (claim.type === 'verify') {
+    await verifyProject(project.id, fid);
+    log.info(`@${project.project_handle} verified by FID ${fid}`);
+    return { status: 'verified', project, ownerFid: fid };
+  }
+
+  // The owner may have changed since the request
+  if (!claim.from_fid || !(await transferProjectOwner(project.id, claim.from_fid, claim.to_fid))) {
+    return { status: 'stale', project };
+  }
+  log.info(`@${project.project_handle} transferred from FID ${claim.from_fid} to ${claim.to_fid}`);
+  return { status: 'transferred', project, ownerFid: claim.to_fid };
+}
@@ -1,68 +1,155 @@
 import { extractFeatures, type ExtractedFeature } from './extractor.js';
-import { autoTag } from './tagger.js';
-import { findSimilarFeatures, storeFeatureEmbedding } from './similarity.js';
-import { detectProjects, detectNewProjects, getAllProjects } from './router.js';
+import { findSimilarFeatures, type SimilarityMatch } from './similarity.js';
+import { type RequestSource } from './feature-actions.js';
+import { applyMergeDecision } from './merge-confirmation.js';
+import { isUndoCommand, undoActionsForReply } from './undo.js';
+import { parseStatusCommand, allowedTransitions } from './lifecycle.js';
+import { findPendingSetup, continueProjectSetup } from './project-setup.js';
+import {
+  parseClarificationAnswer,
+  clarificationCandidates,
+  clarifiedParentCast
+} from './clarification.js';
+import { applyStatusCommand } from './status-commands.js';
+import {
+  parseOwnershipCommand,
+  parseClaimAnswer,
+  runOwnershipCommand,
+  answerOwnershipClaim,
+  type OwnershipResult
+} from './ownership.js';
+import { parseAdminCommand, runAdminCommand } from './admins.js';
+import { parseAliasCommand, runAliasCommand, formatAlias, loadAliasLookup } from './aliases.js';
+import { parseRateLimitCommand, runRateLimitCommand } from './rate-limit-commands.js';
+import {
+  isBlockedFid,
+  moderateRequest,
+  parseHideCommand,
+  parseReviewDecision,
+  reviewHeldRequests,
+  setAnnouncedFeatureHidden,
+  type ReviewResult
+} from './moderation.js';
+import { parseModerationCommand, runModerationCommand, MODERATION_ID_LENGTH } from './moderation-commands.js';
+import { parseFollowCommand, setFollowing } from './notifications.js';
+import { isVoteCommand, voteOnAnnouncement } from './votes.js';
+import { getAllProjects } from './router.js';
 import { BotVoice } from './voice.js';
-import { detectIntent } from './intent.js';
+import { detectIntent, isQueryIntent, type DetectedIntent, type QueryIntent } from './intent.js';
+import { answerQuery } from './queries.js';
 import {
   getCast,
-  getCastThread,
-  postReply,
-  postStandaloneCast,
   getNeynarScore,
-  getUser
+  getUser,
+  type Cast
 } from '../neynar/client.js';
+import { getPendingMergeDecision } from '../db/merge-decisions.js';
+import { getPendingOwnershipClaim } from '../db/ownership-claims.js';
+import { getPendingClarification } from '../db/clarifications.js';
+import { getActionsForMention, type BotAction } from '../db/actions.js';
+import { getFeatureById } from '../db/features.js';
 import {
-  createFeature,
-  addFeatureSource,
-  updateFeatureDescription,
-} from '../db/features.js';
+  getPendingModerationForNotice,
+  getModerationForMention,
+  type ModerationItem
+} from '../db/moderation.js';
 import {
   getProjectByHandle,
-  createProject,
   type Project
 } from '../db/projects.js';
+import { checkProcessed } from '../db/bot.js';
 import {
-  checkProcessed,
-  checkRateLimited,
-  logBotMention
-} from '../db/bot.js';
-import { supabase } from '../db/client.js';
+  takeUserToken,
+  takeProjectToken,
+  checkProjectToken,
+  checkThreadToken,
+  withoutSpending
+} from '../ratelimit/index.js';
+import { parseConfirmation, displayProjectName, formatWait } from './helpers.js';
 import {
-  parseProjectSetupReply,
-  parseOwner,
-  getProjectBio
-} from './helpers.js';
-
-const MAX_FEATURES_PER_CAST = parseInt(process.env.MAX_FEATURES_PER_CAST || '5');
-const MIN_NEYNAR_SCORE = parseFloat(process.env.MIN_NEYNAR_SCORE || '0.1');
-const SIMILARITY_THRESHOLD = parseFloat(process.env.SIMILARITY_THRESHOLD || '0.85');
+  MAX_FEATURES_PER_CAST,
+  MIN_NEYNAR_SCORE,
+  buildMentionContext,
+  isReplyToBotCast,
+  resolveNewProjectHandle
+} from './context.js';
+import { formatReply, formatStandaloneCast } from './replies.js';
+import { liveEffects, createLiveEffects, type FeatureRequest, type MentionEffects } from './effects.js';
+import { createPlanEffects, type MentionPlan } from './dry-run.js';
+import { createLogger, withLogContext } from '../log/index.js';
+
+const log = createLogger('processor');
 
 interface WebhookData {
   cast_hash?: string;
   hash?: string;
   author?: { fid: number };
   parent_hash?: string;
+  thread_hash?: string;
   data?: {
     hash?: string;
     author?: { fid: number };
     parent_hash?: string;
+    thread_hash?: string;
   };
 }
 
-export async function processWebhook(webhookData: WebhookData) {
+// Runs a mention through the processor again, e.g. after a fix (queued by the admin API)
+export const REPROCESS_JOB = 'reprocess_mention';
+
+export interface ProcessOptions {
+  // Process the cast even if it was already logged; it's logged again as a new row
+  reprocess?: boolean;
+  // Return what would happen instead of doing it (see dry-run.ts)
+  dryRun?: boolean;
+}
+
+export async function processWebhook(webhookData: WebhookData, options: ProcessOptions & { dryRun: true }): Promise<MentionPlan | undefined>;
+export async function processWebhook(webhookData: WebhookData, options?: ProcessOptions): Promise<void>;
+export async function processWebhook(webhookData: WebhookData, options: ProcessOptions = {}): Promise<MentionPlan | void> {
   // Normalize webhook data structure (Neynar webhooks can have different formats)
   const data = webhookData.data || webhookData;
-  const cast_hash = data.hash || (data as any).cast_hash;
+  const cast_hash: string | undefined = data.hash || (data as any).cast_hash;
   const author_fid = data.author?.fid;
-  const parent_hash = data.parent_hash;
+  // Everything logged while handling the cast, in whichever helper, carries its hash, author and
+  // the correlation id of the request or job that brought it in (a new one when there is none)
+  return withLogContext({ cast_hash, author_fid }, async () => {
+    log.info(`Processing cast ${cast_hash?.slice(0, 8)}... by FID ${author_fid}`);
 
-  console.log(`[Processor] Processing cast ${cast_hash?.slice(0, 8)}... by FID ${author_fid}`);
+    if (!cast_hash || !author_fid) {
+      log.error('Missing required fields in webhook data');
+      return;
+    }
 
-  if (!cast_hash || !author_fid) {
-    console.error('[Processor] Missing required fields in webhook data');
-    return;
-  }
+    const mention: Mention = {
+      cast_hash,
+      author_fid,
+      parent_hash: data.parent_hash,
+      thread_hash: data.thread_hash || data.parent_hash || cast_hash
+    };
+    if (!options.dryRun) {
+      await handleMention(mention, options, createLiveEffects(mention.thread_hash));
+      return;
+    }
+
+    // Same code as a real run, with effects that only write down what would happen. It checks
+    // the rate limits and the LLM budget like a real run, without spending them.
+    const { effects, plan } = createPlanEffects(cast_hash, author_fid, data.parent_hash || null);
+    await withoutSpending(() => handleMention(mention, options, effects));
+    return plan;
+  });
+}
+
+interface Mention {
+  cast_hash: string;
+  author_fid: number;
+  parent_hash?: string;
+  // Root of the conversation, for the thread's reply limit
+  thread_hash: string;
+}
+
+async function handleMention(mention: Mention, options: ProcessOptions, effects: MentionEffects) {
+  const { cast_hash, author_fid, parent_hash } = mention;
 
   // Check if this is a reply to the bot itself
   const BOT_FID = parseInt(process.env.ROADMAPR_BOT_FID || '0');
@@ -70,208 +157,530 @@ export async function processWebhook(webhookData: WebhookData) {
 
   // Ignore ALL bot's own casts (prevent loops) - regardless of reply status
   if (author_fid === BOT_FID) {
-    console.log(`[Processor] Ignoring bot's own cast`);
+    log.info(`Ignoring bot's own cast`);
+    return;
+  }
+
+  // Check if already processed (a dry run plans what processing it now would do)
+  if (!options.reprocess && !options.dryRun && await checkProcessed(cast_hash)) {
+    log.info(`Already processed: ${cast_hash}`);
+    return;
+  }
+
+  // Blocked accounts get no answer at all, commands included
+  if (await isBlockedFid(author_fid)) {
+    log.info(`Ignoring blocked FID ${author_fid}`);
+    await effects.logMention(cast_hash, author_fid, parent_hash || null, {
+      error: 'Blocked author'
+    });
     return;
   }
 
-  // Check if already processed
-  if (await checkProcessed(cast_hash)) {
-    console.log(`[Processor] Already processed: ${cast_hash}`);
+  // Stop answering in a thread that's getting too many bot replies (another bot talking back, a
+  // script). Only checked here: the effects take the token once the bot actually replies.
+  const threadDenial = await checkThreadToken(mention.thread_hash);
+  if (threadDenial) {
+    log.info(`Thread reply limit reached, staying quiet`);
+    await effects.logMention(cast_hash, author_fid, parent_hash || null, {
+      error: 'Thread reply limit'
+    });
     return;
   }
 
-  // Rate limit check
-  if (await checkRateLimited(author_fid)) {
-    console.log(`[Processor] Rate limited: FID ${author_fid}`);
-    await logBotMention(cast_hash, author_fid, parent_hash || null, {
+  // Rate limit and anti-spam checks come before everything else, commands and answers to
+  // our own prompts included: each of those can reply, write to the database or call the LLM
+  const userDenial = await takeUserToken(author_fid);
+  if (userDenial) {
+    log.info(`Rate limited: FID ${author_fid}`);
+    await effects.logMention(cast_hash, author_fid, parent_hash || null, {
       error: 'Rate limited'
     });
-    await postReply(cast_hash, BotVoice.rateLimited());
+    await effects.reply(cast_hash, BotVoice.rateLimited(userDenial.limit.capacity, formatWait(userDenial.retryAfterMs)));
     return;
   }
 
   // Neynar score check (anti-spam)
   const score = await getNeynarScore(author_fid);
-  console.log(`[Processor] Neynar score for FID ${author_fid}: ${score}`);
+  log.info(`Neynar score for FID ${author_fid}: ${score}`);
   if (score < MIN_NEYNAR_SCORE) {
-    console.log(`[Processor] Low score: ${author_fid} (${score})`);
-    await logBotMention(cast_hash, author_fid, parent_hash || null, {
+    log.info(`Low score: ${author_fid} (${score})`);
+    await effects.logMention(cast_hash, author_fid, parent_hash || null, {
       error: `Low Neynar score: ${score}`
     });
-    await postReply(cast_hash, BotVoice.lowNeynarScore());
+    await effects.reply(cast_hash, BotVoice.lowNeynarScore());
     return;
   }
 
-  // Need parent cast to extract context
-  if (!parent_hash) {
-    await logBotMention(cast_hash, author_fid, null, {
-      error: 'No parent cast'
+  // Get current cast text (might contain the feature request or a command)
+  const currentCast = await getCast(cast_hash);
+  const currentCastText = currentCast?.text || '';
+  // Its channel stands in for a project when the cast names none
+  const channelId = currentCast?.channel?.id;
+
+  // "@roadmapr undo" in reply to one of our announcements
+  if (parent_hash && isUndoCommand(currentCastText)) {
+    if (!effects.runCommand('undo')) return;
+    const result = await undoActionsForReply(parent_hash, author_fid);
+    log.info(`Undo by FID ${author_fid}: ${result.status}`);
+
+    await effects.logMention(cast_hash, author_fid, parent_hash, {
+      error: result.status === 'undone' ? undefined : `Undo ${result.status}`
     });
-    await postReply(cast_hash, BotVoice.noParentCast());
+
+    if (result.status === 'undone') {
+      await effects.reply(cast_hash, BotVoice.undone(result.reverted));
+    } else if (result.status === 'blocked') {
+      await effects.reply(cast_hash, BotVoice.undoBlocked(result.title));
+    } else if (result.status === 'forbidden') {
+      await effects.reply(cast_hash, BotVoice.undoForbidden());
+    } else {
+      await effects.reply(cast_hash, BotVoice.undoNothing());
+    }
     return;
   }
 
-  // Get parent cast
-  const parentCast = await getCast(parent_hash);
-  if (!parentCast) {
-    await logBotMention(cast_hash, author_fid, parent_hash, {
-      error: 'Parent cast not found'
+  // "@roadmapr mark shipped" etc. in reply to a feature's announcement
+  const statusTarget = parent_hash ? parseStatusCommand(currentCastText) : null;
+  if (parent_hash && statusTarget) {
+    if (!effects.runCommand(`status ${statusTarget}`)) return;
+    const result = await applyStatusCommand(parent_hash, author_fid, statusTarget, cast_hash);
+    log.info(`Status command by FID ${author_fid}: ${result.status}`);
+
+    await effects.logMention(cast_hash, author_fid, parent_hash, {
+      error: result.status === 'changed' ? undefined : `Status ${result.status}`
     });
-    await postReply(cast_hash, BotVoice.parentCastNotFound());
+
+    if (result.status === 'changed') {
+      await effects.reply(cast_hash, BotVoice.statusChanged(result.feature.title, result.to));
+    } else if (result.status === 'unchanged') {
+      await effects.reply(cast_hash, BotVoice.statusUnchanged(result.feature.title, result.feature.status));
+    } else if (result.status === 'invalid') {
+      await effects.reply(cast_hash, BotVoice.statusInvalidTransition(
+        result.feature.title,
+        result.feature.status,
+        result.to,
+        allowedTransitions(result.feature.status)
+      ));
+    } else if (result.status === 'forbidden') {
+      await effects.reply(cast_hash, BotVoice.statusForbidden());
+    } else if (result.status === 'ambiguous') {
+      await effects.reply(cast_hash, BotVoice.statusAmbiguous(result.titles));
+    } else {
+      await effects.reply(cast_hash, BotVoice.statusNoFeature());
+    }
     return;
   }
 
-  console.log(`[Processor] Parent cast: ${parentCast.hash} by @${parentCast.author.username}`);
+  // "@roadmapr hide" / "unhide" in reply to a feature's announcement
+  const hideCommand = parent_hash ? parseHideCommand(currentCastText) : null;
+  if (parent_hash && hideCommand) {
+    if (!effects.runCommand(hideCommand)) return;
+    const result = await setAnnouncedFeatureHidden(parent_hash, author_fid, hideCommand === 'hide');
+    log.info(`${hideCommand} by FID ${author_fid}: ${result.status}`);
 
-  // Check if this is a reply to the bot - if so, get full conversation context
-  let fullContext: string;
-  let contextCastCount: number;
-
-  // Get current cast text (might contain the feature request)
-  const currentCastText = await getCastText(cast_hash);
-
-  if (isReplyToBot) {
-    console.log(`[Processor] Reply to bot detected - gathering conversation context`);
-    // Get the full conversation thread leading to this reply
-    const thread = await getCastThread(parent_hash);
-
-    // Build context from the thread (oldest to newest)
-    const threadTexts = thread.map(c => c.text).reverse();
-    fullContext = [
-      ...threadTexts,
-      parentCast.text,
-      `Reply: ${currentCastText}`
-    ].join('\n\n---\n\n');
-
-    contextCastCount = thread.length + 2;
-    console.log(`[Processor] Conversation context: ${contextCastCount} messages`);
-  } else {
-    // Normal flow: just parent cast and its thread
-    const thread = await getCastThread(parent_hash);
-
-    // Always include the current cast text - it's the message that mentioned @roadmapr
-    // so it's always relevant for intent detection
-    fullContext = [
-      currentCastText,
-      parentCast.text,
-      ...thread.map(c => c.text)
-    ].join('\n\n---\n\n');
-    contextCastCount = thread.length + 2;
-  }
-
-  console.log(`[Processor] Context length: ${fullContext.length} chars (${contextCastCount} casts)`);
-
-  // PRIORITY: Check for project setup replies BEFORE intent detection.
-  // Don't rely on isReplyToBot (BOT_FID may be wrong) - instead detect by content:
-  // If current message has owner/token info AND context has "NEW PROJECT ALERT!", it's a setup reply.
-  const setupInfo = parseProjectSetupReply(currentCastText);
-  // Look for pending project setup in parent cast or thread
-  let pendingProjectHandle: string | null = extractProjectHandleFromBotMessage(parentCast.text);
-  if (!pendingProjectHandle) {
-    const thread = await getCastThread(parent_hash);
-    // Check all thread casts for bot's "NEW PROJECT ALERT!" message
-    for (const cast of thread) {
-      pendingProjectHandle = extractProjectHandleFromBotMessage(cast.text);
-      if (pendingProjectHandle) break;
+    await effects.logMention(cast_hash, author_fid, parent_hash, {
+      error: result.status === 'changed' ? undefined : `${hideCommand}: ${result.status}`
+    });
+
+    if (result.status === 'changed') {
+      await effects.reply(cast_hash, BotVoice.featureHidden(result.feature.title, result.hidden));
+    } else if (result.status === 'unchanged') {
+      await effects.reply(cast_hash, BotVoice.featureHiddenUnchanged(result.feature.title, result.hidden));
+    } else if (result.status === 'forbidden') {
+      await effects.reply(cast_hash, BotVoice.featureHiddenForbidden());
+    } else if (result.status === 'ambiguous') {
+      await effects.reply(cast_hash, BotVoice.featureHiddenAmbiguous(result.titles));
+    } else {
+      await effects.reply(cast_hash, BotVoice.featureHiddenNoFeature());
+    }
+    return;
+  }
+
+  // "@roadmapr follow" / "unfollow" in reply to a feature's announcement
+  const followCommand = parent_hash ? parseFollowCommand(currentCastText) : null;
+  if (parent_hash && followCommand) {
+    if (!effects.runCommand(followCommand)) return;
+    const titles = await setFollowing(parent_hash, author_fid, followCommand === 'follow');
+    log.info(`${followCommand} by FID ${author_fid}: ${titles.length} feature(s)`);
+
+    await effects.logMention(cast_hash, author_fid, parent_hash, {
+      error: titles.length > 0 ? undefined : `${followCommand}: no announced feature`
+    });
+
+    if (titles.length === 0) {
+      await effects.reply(cast_hash, BotVoice.followNothing());
+    } else {
+      await effects.reply(cast_hash, followCommand === 'follow' ? BotVoice.following(titles) : BotVoice.unfollowed(titles));
+    }
+    return;
+  }
+
+  // "+1" in reply to a feature's announcement
+  if (parent_hash && isVoteCommand(currentCastText)) {
+    if (!effects.runCommand('vote')) return;
+    const results = await voteOnAnnouncement(parent_hash, author_fid, 'reply', cast_hash);
+    const counted = results.filter(r => r.counted);
+    log.info(`Vote by FID ${author_fid}: ${counted.length}/${results.length} counted`);
+
+    await effects.logMention(cast_hash, author_fid, parent_hash, {
+      error: results.length > 0 ? undefined : 'Vote: no announced feature'
+    });
+
+    if (results.length === 0) {
+      await effects.reply(cast_hash, BotVoice.voteNothing());
+    } else if (counted.length > 0) {
+      await effects.reply(cast_hash, BotVoice.voteCounted(counted));
+    } else {
+      await effects.reply(cast_hash, BotVoice.voteAlreadyCounted());
+    }
+    return;
+  }
+
+  // "@roadmapr verify @project" / "transfer @project to @user"
+  const ownershipCommand = parseOwnershipCommand(currentCastText);
+  if (ownershipCommand) {
+    if (!effects.runCommand(`ownership ${ownershipCommand.type}`)) return;
+    const result = await runOwnershipCommand(ownershipCommand, author_fid, cast_hash);
+    log.info(`Ownership ${ownershipCommand.type} by FID ${author_fid}: ${result.status}`);
+    await replyToOwnershipResult(effects, cast_hash, author_fid, parent_hash || null, result);
+    return;
+  }
+
+  // "@roadmapr add admin @alice to @project" / "remove admin ..." / "list admins of ..."
+  const adminCommand = parseAdminCommand(currentCastText);
+  if (adminCommand) {
+    if (!effects.runCommand(`admin ${adminCommand.type}`)) return;
+    const result = await runAdminCommand(adminCommand, author_fid);
+    log.info(`Admin ${adminCommand.type} by FID ${author_fid}: ${result.status}`);
+
+    await effects.logMention(cast_hash, author_fid, parent_hash || null, {
+      detected_projects: [adminCommand.handle],
+      error: ['added', 'removed', 'list'].includes(result.status) ? undefined : `Admin ${adminCommand.type}: ${result.status}`
+    });
+
+    if (result.status === 'project_not_found') {
+      await effects.reply(cast_hash, BotVoice.projectNotFound([result.handle]));
+    } else if (result.status === 'forbidden') {
+      await effects.reply(cast_hash, BotVoice.adminForbidden(result.project.project_handle));
+    } else if (result.status === 'user_not_found') {
+      await effects.reply(cast_hash, BotVoice.ownerNotFound(result.username));
+    } else if (result.status === 'is_owner') {
+      await effects.reply(cast_hash, BotVoice.adminIsOwner(result.project.project_handle, result.username));
+    } else if (result.status === 'unchanged') {
+      await effects.reply(cast_hash, BotVoice.adminUnchanged(result.project.project_handle, result.username, result.role));
+    } else if (result.status === 'added') {
+      await effects.reply(cast_hash, BotVoice.adminAdded(result.project.project_handle, result.username, result.role, result.previousRole));
+    } else if (result.status === 'not_admin') {
+      await effects.reply(cast_hash, BotVoice.adminNotFound(result.project.project_handle, result.username));
+    } else if (result.status === 'removed') {
+      await effects.reply(cast_hash, BotVoice.adminRemoved(result.project.project_handle, result.username));
+    } else {
+      await effects.reply(cast_hash, BotVoice.adminList(result.project.project_handle, result.admins));
+    }
+    return;
+  }
+
+  // "@roadmapr add alias $DEGEN to @degen" / "remove alias ..." / "list aliases of ..."
+  const aliasCommand = parseAliasCommand(currentCastText);
+  if (aliasCommand) {
+    if (!effects.runCommand(`alias ${aliasCommand.type}`)) return;
+    const result = await runAliasCommand(aliasCommand, author_fid);
+    log.info(`Alias ${aliasCommand.type} by FID ${author_fid}: ${result.status}`);
+
+    await effects.logMention(cast_hash, author_fid, parent_hash || null, {
+      detected_projects: [aliasCommand.handle],
+      error: ['added', 'removed', 'list'].includes(result.status) ? undefined : `Alias ${aliasCommand.type}: ${result.status}`
+    });
+
+    if (result.status === 'project_not_found') {
+      await effects.reply(cast_hash, BotVoice.projectNotFound([result.handle]));
+    } else if (result.status === 'forbidden') {
+      await effects.reply(cast_hash, BotVoice.aliasForbidden(result.project.project_handle));
+    } else if (result.status === 'invalid') {
+      await effects.reply(cast_hash, BotVoice.aliasInvalid(formatAlias(result.kind, result.value)));
+    } else if (result.status === 'exists') {
+      await effects.reply(cast_hash, BotVoice.aliasExists(result.project.project_handle, formatAlias(result.kind, result.value)));
+    } else if (result.status === 'taken') {
+      await effects.reply(cast_hash, BotVoice.aliasTaken(formatAlias(result.kind, result.value), result.otherHandle));
+    } else if (result.status === 'added') {
+      await effects.reply(cast_hash, BotVoice.aliasAdded(result.project.project_handle, formatAlias(result.alias.kind, result.alias.value)));
+    } else if (result.status === 'not_found') {
+      await effects.reply(cast_hash, BotVoice.aliasNotFound(result.project.project_handle, formatAlias(result.kind, result.value)));
+    } else if (result.status === 'removed') {
+      await effects.reply(cast_hash, BotVoice.aliasRemoved(result.project.project_handle, formatAlias(result.kind, result.value)));
+    } else {
+      await effects.reply(cast_hash, BotVoice.aliasList(result.project.project_handle, result.aliases.map(a => formatAlias(a.kind, a.value))));
+    }
+    return;
+  }
+
+  // "@roadmapr limit @degen to 30 per hour" / "reset limits on ..." / "limits of ..."
+  const rateLimitCommand = parseRateLimitCommand(currentCastText);
+  if (rateLimitCommand) {
+    if (!effects.runCommand(`rate limit ${rateLimitCommand.type}`)) return;
+    const result = await runRateLimitCommand(rateLimitCommand, author_fid);
+    log.info(`Rate limit ${rateLimitCommand.type} by FID ${author_fid}: ${result.status}`);
+
+    await effects.logMention(cast_hash, author_fid, parent_hash || null, {
+      detected_projects: [rateLimitCommand.handle],
+      error: ['updated', 'reset', 'show'].includes(result.status) ? undefined : `Rate limit ${rateLimitCommand.type}: ${result.status}`
+    });
+
+    if (result.status === 'project_not_found') {
+      await effects.reply(cast_hash, BotVoice.projectNotFound([result.handle]));
+    } else if (result.status === 'forbidden') {
+      await effects.reply(cast_hash, BotVoice.rateLimitForbidden(result.project.project_handle));
+    } else {
+      await effects.reply(cast_hash, BotVoice.rateLimits(result.project.project_handle, result.hourly, result.userDaily, result.status !== 'show'));
     }
+    return;
   }
 
-  if (setupInfo.owner && pendingProjectHandle) {
-    console.log(`[Processor] Project setup reply detected: project=@${pendingProjectHandle}, owner=${setupInfo.owner}, token=${setupInfo.token || 'clanker'}`);
-    console.log(`[Processor] Creating project: @${pendingProjectHandle}`);
+  // "@roadmapr block @spammer on @degen" / "filter keyword ..." / "queue of ..." / "approve <id> on ..."
+  const moderationCommand = parseModerationCommand(currentCastText);
+  if (moderationCommand) {
+    if (!effects.runCommand(`moderation ${moderationCommand.type}`)) return;
+    const result = await runModerationCommand(moderationCommand, author_fid);
+    log.info(`Moderation ${moderationCommand.type} by FID ${author_fid}: ${result.status}`);
+
+    const ok = ['added', 'removed', 'rules', 'queue'].includes(result.status)
+      || (result.status === 'review' && ['approved', 'rejected'].includes(result.result.status));
+    await effects.logMention(cast_hash, author_fid, parent_hash || null, {
+      detected_projects: [moderationCommand.handle],
+      error: ok ? undefined : `Moderation ${moderationCommand.type}: ${result.status === 'review' ? result.result.status : result.status}`
+    });
 
-    // Handle "owner: me" / "im the owner" - use the replying user's FID
-    let ownerInput = setupInfo.owner;
-    if (ownerInput === 'me') {
-      ownerInput = String(author_fid);
-      console.log(`[Processor] Owner is "me" - using author FID: ${author_fid}`);
+    if (result.status === 'project_not_found') {
+      await effects.reply(cast_hash, BotVoice.projectNotFound([result.handle]));
+    } else if (result.status === 'forbidden') {
+      await effects.reply(cast_hash, BotVoice.moderationForbidden(result.project.project_handle));
+    } else if (result.status === 'user_not_found') {
+      await effects.reply(cast_hash, BotVoice.ownerNotFound(result.username));
+    } else if (result.status === 'exists') {
+      await effects.reply(cast_hash, BotVoice.moderationRuleExists(result.project.project_handle, result.rule));
+    } else if (result.status === 'added') {
+      await effects.reply(cast_hash, BotVoice.moderationRuleAdded(result.project.project_handle, result.rule));
+    } else if (result.status === 'not_found') {
+      await effects.reply(cast_hash, BotVoice.moderationRuleNotFound(result.project.project_handle, result.rule));
+    } else if (result.status === 'removed') {
+      await effects.reply(cast_hash, BotVoice.moderationRuleRemoved(result.project.project_handle, result.rule));
+    } else if (result.status === 'rules') {
+      await effects.reply(cast_hash, BotVoice.moderationRules(result.project.project_handle, result.rules));
+    } else if (result.status === 'queue') {
+      await effects.reply(cast_hash, BotVoice.moderationQueue(result.project.project_handle, result.items.map(item => ({
+        id: item.id.slice(0, MODERATION_ID_LENGTH),
+        title: item.feature.title,
+        reasons: item.reasons
+      }))));
+    } else if (result.result.status === 'not_found') {
+      await effects.reply(cast_hash, BotVoice.moderationItemNotFound(result.itemId, result.project.project_handle));
+    } else {
+      await replyToReview(cast_hash, result.result, effects);
     }
+    return;
+  }
 
-    // Parse owner (resolve @username or FID)
-    const parsedOwner = await parseOwner(ownerInput, BOT_FID);
-    if (!parsedOwner) {
-      await logBotMention(cast_hash, author_fid, parent_hash, {
-        error: `Owner not found: ${setupInfo.owner}`
+  // A moderator answering "approve" / "reject" to one of our held-for-review notices
+  if (parent_hash) {
+    const held = await getPendingModerationForNotice(parent_hash);
+    const decision = held.length > 0 ? parseReviewDecision(currentCastText) : null;
+    if (decision) {
+      if (!effects.runCommand('review')) return;
+      const result = await reviewHeldRequests(held, author_fid, decision);
+      log.info(`Moderation ${decision} reply by FID ${author_fid}: ${result.status}`);
+
+      await effects.logMention(cast_hash, author_fid, parent_hash, {
+        features_created: result.status === 'approved' ? result.outcomes.filter(o => o.action === 'created').length : 0,
+        features_merged: result.status === 'approved' ? result.outcomes.filter(o => o.action === 'merged').length : 0,
+        error: ['approved', 'rejected'].includes(result.status) ? undefined : `Moderation ${decision}: ${result.status}`
       });
-      await postReply(cast_hash, BotVoice.ownerNotFound(setupInfo.owner));
+      await replyToReview(cast_hash, result, effects);
       return;
     }
+  }
 
-    // Get bio from project's Farcaster profile
-    const bioResult = await getProjectBio(pendingProjectHandle);
-    console.log(`[Processor] Bio for @${pendingProjectHandle}: ${bioResult ? 'found' : 'not found'}`);
-
-    // Determine voting type and token address
-    const tokenInput = (setupInfo.token || 'clanker').toLowerCase();
-    const voting_type: 'score' | 'token' = tokenInput === 'clanker' ? 'token' : 'score';
-    const isClanker = tokenInput === 'clanker';
-    const token_address = isClanker ? undefined : setupInfo.token;
-
-    // Create project
-    try {
-      const project = await createProject({
-        name: pendingProjectHandle.charAt(0).toUpperCase() + pendingProjectHandle.slice(1),
-        project_handle: pendingProjectHandle,
-        owner_fid: parsedOwner.fid,
-        ...(bioResult && { bio: bioResult }),
-        voting_type,
-        ...(token_address && { token_address }),
-        created_by_bot: true
-      });
+  // The owner (or new owner) answering one of our "confirm?" / "accept?" prompts
+  if (parent_hash) {
+    const claim = await getPendingOwnershipClaim(parent_hash);
+    const answer = claim ? parseClaimAnswer(currentCastText) : null;
+    if (claim && answer) {
+      if (!effects.runCommand('ownership answer')) return;
+      const result = await answerOwnershipClaim(claim, author_fid, answer);
+      log.info(`Ownership ${claim.type} answer by FID ${author_fid}: ${result?.status ?? 'already resolved'}`);
+      if (result) {
+        await replyToOwnershipResult(effects, cast_hash, author_fid, parent_hash, result);
+        return;
+      }
+    }
+  }
 
-      console.log(`[Processor] Project created: ${project.id} (@${pendingProjectHandle})`);
+  // The requester answering one of our "same thing?" questions
+  if (parent_hash) {
+    const decision = await getPendingMergeDecision(parent_hash);
+    if (decision && decision.requester_fid === author_fid) {
+      const answer = parseConfirmation(currentCastText);
+      if (answer) {
+        if (!effects.runCommand('merge answer')) return;
+        log.info(`Merge confirmation answer: ${answer} (decision ${decision.id})`);
+        const outcome = await applyMergeDecision(decision, answer === 'yes' ? 'merge' : 'create', 'reply');
+
+        await effects.logMention(cast_hash, author_fid, parent_hash, {
+          features_created: outcome?.action === 'created' ? 1 : 0,
+          features_merged: outcome?.action === 'merged' ? 1 : 0
+        });
 
-      await logBotMention(cast_hash, author_fid, parent_hash, {
-        project_created: project.id,
-        project_handle: pendingProjectHandle,
-        owner_fid: parsedOwner.fid,
-        voting_type
-      });
+        if (outcome) {
+          const replyHash = await effects.reply(cast_hash, outcome.action === 'merged'
+            ? BotVoice.featureMerged(outcome.title, outcome.project)
+            : BotVoice.featureCreated(outcome.title, outcome.project));
+          await effects.linkActionsToReply([outcome.actionId], replyHash);
+          await effects.recordAnnouncement(replyHash, [outcome.featureId]);
+        }
+        return;
+      }
+    }
+  }
 
-      await postReply(cast_hash, BotVoice.projectCreated(project, parsedOwner.username));
+  // The requester answering one of our project setup questions
+  if (parent_hash) {
+    const setup = await findPendingSetup(parent_hash);
+    if (setup && setup.requester_fid === author_fid) {
+      if (!effects.runCommand('project setup')) return;
+      // Every step of the setup answers, in continueProjectSetup itself
+      await effects.countReply();
+      const outcome = await continueProjectSetup(setup, currentCastText, author_fid, cast_hash, BOT_FID);
+      log.info(`Project setup ${setup.id} (@${setup.project_handle}): ${outcome.status}`);
+
+      if (outcome.status === 'created') {
+        await effects.logMention(cast_hash, author_fid, parent_hash, {
+          project_created: outcome.project.id,
+          project_handle: setup.project_handle,
+          owner_fid: outcome.project.owner_fid ?? undefined,
+          voting_type: outcome.project.voting_type
+        });
+        return;
+      }
+
+      let error: string;
+      if (outcome.status === 'owner_not_found') {
+        error = `Owner not found: ${outcome.owner}`;
+      } else if (outcome.status === 'failed') {
+        error = outcome.error;
+      } else if (outcome.status === 'cancelled') {
+        error = 'Project setup cancelled';
+      } else {
+        error = `Awaiting project setup: ${outcome.step}`;
+      }
+      await effects.logMention(cast_hash, author_fid, parent_hash, {
+        detected_projects: [setup.project_handle],
+        error
+      });
       return;
-    } catch (err) {
-      console.error(`[Processor] Failed to create project:`, err);
-      await logBotMention(cast_hash, author_fid, parent_hash, {
-        error: `Project creation failed: ${(err as Error).message}`
+    }
+  }
+
+  // The requester telling us which project they meant
+  if (parent_hash) {
+    const clarification = await getPendingClarification(parent_hash);
+    if (clarification && clarification.requester_fid === author_fid) {
+      const answer = await parseClarificationAnswer(currentCastText, clarification);
+
+      if (answer?.type === 'cancel') {
+        await effects.resolveClarification(clarification.id, 'cancelled');
+        await effects.logMention(cast_hash, author_fid, parent_hash, {
+          error: 'Clarification cancelled'
+        });
+        await effects.reply(cast_hash, BotVoice.clarificationCancelled());
+        return;
+      }
+
+      if (answer?.type === 'projects') {
+        // Two quick replies to the same question: only the first one resumes
+        if (await effects.resolveClarification(clarification.id, 'resumed')) {
+          log.info(`Clarification ${clarification.id} resumed for ${answer.projects.map(p => p.project_handle).join(', ')}`);
+          await addFeaturesToProjects({
+            castHash: cast_hash,
+            authorFid: author_fid,
+            parentHash: parent_hash,
+            parentCast: clarifiedParentCast(clarification),
+            fullContext: clarification.context,
+            projects: answer.projects,
+            detectedProjects: answer.projects.map(p => p.project_handle)
+          }, effects);
+        }
+        return;
+      }
+
+      const candidates = await clarificationCandidates(clarification);
+      await effects.logMention(cast_hash, author_fid, parent_hash, {
+        error: 'Awaiting project clarification'
       });
-      await postReply(cast_hash, BotVoice.genericError('Failed to create project'));
+      await effects.reply(cast_hash, BotVoice.clarificationDidntCatch(candidates.map(p => p.project_handle)));
       return;
     }
   }
 
+  // Need parent cast to extract context - unless it's a question about a roadmap
+  if (!parent_hash) {
+    const allKnownProjects = (await getAllProjects()).map((p: { project_handle: string }) => p.project_handle);
+    const intent = await detectIntent(currentCastText, allKnownProjects, await loadAliasLookup(), channelId);
+    if (isQueryIntent(intent.intent)) {
+      await replyToQuery(effects, cast_hash, author_fid, null, intent as DetectedIntent & { intent: QueryIntent });
+      return;
+    }
+
+    await effects.logMention(cast_hash, author_fid, null, {
+      error: 'No parent cast'
+    });
+    await effects.reply(cast_hash, BotVoice.noParentCast());
+    return;
+  }
+
+  // Get parent cast
+  const parentCast = await getCast(parent_hash);
+  if (!parentCast) {
+    await effects.logMention(cast_hash, author_fid, parent_hash, {
+      error: 'Parent cast not found'
+    });
+    await effects.reply(cast_hash, BotVoice.parentCastNotFound());
+    return;
+  }
+
+  log.info(`Parent cast: ${parentCast.hash} by @${parentCast.author.username}`);
+
+  // Check if this is a reply to the bot - if so, get full conversation context
+  const { fullContext, contextCastCount } = await buildMentionContext({ currentCastText, parentCast, isReplyToBot: !!isReplyToBot });
+
+  log.info(`Context length: ${fullContext.length} chars (${contextCastCount} casts)`);
+
   // Use intent detection on the CURRENT cast text (the user's actual command)
   // Using fullContext would mix in old thread messages and confuse the intent
   const allKnownProjects = (await getAllProjects()).map((p: { project_handle: string }) => p.project_handle);
-  const intent = await detectIntent(currentCastText, allKnownProjects);
+  const intent = await detectIntent(currentCastText, allKnownProjects, await loadAliasLookup(), channelId);
 
-  console.log(`[Intent] Detected: ${intent.intent} (confidence: ${intent.confidence})`);
-  console.log(`[Intent] Target projects: ${intent.targetProjects.join(',') || 'none'}`);
-  console.log(`[Intent] New project name: ${intent.newProjectName || 'none'}`);
-  if (intent.reasoning) {
-    console.log(`[Intent] Reasoning: ${intent.reasoning}`);
+  log.info(`Intent detected: ${intent.intent} (confidence: ${intent.confidence})`, {
+    target_projects: intent.targetProjects,
+    new_project_name: intent.newProjectName || null,
+    reasoning: intent.reasoning || null
+  });
+
+  // Roadmap questions are answered directly - nothing is extracted or stored
+  if (isQueryIntent(intent.intent)) {
+    await replyToQuery(effects, cast_hash, author_fid, parent_hash, intent as DetectedIntent & { intent: QueryIntent });
+    return;
   }
 
   // Handle create_project intent
   if (intent.intent === 'create_project' && intent.newProjectName) {
-    let projectHandle = intent.newProjectName.toLowerCase();
-
     // If LLM returned "unknown", try to extract from conversation context
-    if (projectHandle === 'unknown' || projectHandle === '<project name>') {
-      const thread = await getCastThread(parent_hash);
-      const extractedHandle = extractProjectHandleFromThreadContext(thread);
-      if (extractedHandle) {
-        projectHandle = extractedHandle;
-        console.log(`[Processor] Extracted project handle from context: ${projectHandle}`);
-      }
-    }
+    const projectHandle = await resolveNewProjectHandle(intent.newProjectName, parent_hash, BOT_FID);
 
-    await logBotMention(cast_hash, author_fid, parent_hash, {
+    await effects.logMention(cast_hash, author_fid, parent_hash, {
       detected_projects: [projectHandle],
       error: 'Awaiting project setup'
     });
 
-    await postReply(cast_hash, BotVoice.newProjectIntentDetected(projectHandle, author_fid));
+    await effects.startProjectSetup({ projectHandle, requesterFid: author_fid, mentionCastHash: cast_hash });
     return;
   }
 
@@ -280,10 +689,16 @@ export async function processWebhook(webhookData: WebhookData) {
 
   // If no projects detected and confidence is low, ask for clarification
   if (detectedProjects.length === 0 && intent.confidence < 0.5) {
-    await logBotMention(cast_hash, author_fid, parent_hash, {
+    await effects.logMention(cast_hash, author_fid, parent_hash, {
       error: `Low confidence intent detection: ${intent.intent}`
     });
-    await postReply(cast_hash, BotVoice.noProjectDetected());
+    await effects.askClarification({
+      requesterFid: author_fid,
+      mentionCastHash: cast_hash,
+      parentCast,
+      context: fullContext,
+      candidates: []
+    });
     return;
   }
 
@@ -297,68 +712,162 @@ export async function processWebhook(webhookData: WebhookData) {
   }
 
   if (projects.length === 0) {
-    await logBotMention(cast_hash, author_fid, parent_hash, {
+    await effects.logMention(cast_hash, author_fid, parent_hash, {
       parent_cast_author_fid: parentCast.author.fid,
       parent_cast_text: parentCast.text,
       detected_projects: detectedProjects,
       error: 'Projects not found in database'
     });
-    await postReply(cast_hash, BotVoice.projectNotFound(detectedProjects));
+    await effects.reply(cast_hash, BotVoice.projectNotFound(detectedProjects));
     return;
   }
 
   // If multiple projects detected, ask for clarification
   if (projects.length > 1) {
-    const projectList = projects.map(p => ({
-      handle: p.project_handle,
-      name: p.name
-    }));
-    await logBotMention(cast_hash, author_fid, parent_hash, {
+    await effects.logMention(cast_hash, author_fid, parent_hash, {
       parent_cast_author_fid: parentCast.author.fid,
       parent_cast_text: parentCast.text,
       detected_projects: detectedProjects,
       projects_found: projects.map(p => p.project_handle),
       error: 'Multiple projects detected'
     });
-    await postReply(cast_hash, BotVoice.multipleProjects(projectList));
+    await effects.askClarification({
+      requesterFid: author_fid,
+      mentionCastHash: cast_hash,
+      parentCast,
+      context: fullContext,
+      candidates: projects
+    });
     return;
   }
 
-  console.log(`[Processor] Found ${projects.length} project(s): ${projects.map(p => p.name).join(', ')}`);
+  await addFeaturesToProjects({
+    castHash: cast_hash,
+    authorFid: author_fid,
+    parentHash: parent_hash,
+    parentCast,
+    fullContext,
+    projects,
+    detectedProjects
+  }, effects);
+}
+
+/**
+ * Extract the features in `fullContext` and create or merge each one into every
+ * project in `projects`. `parentCast` is the cast being added; `parentHash` is what
+ * the mention replied to (the bot's question when resuming after a clarification).
+ */
+async function addFeaturesToProjects(params: {
+  castHash: string;
+  authorFid: number;
+  parentHash: string;
+  parentCast: Cast;
+  fullContext: string;
+  projects: Project[];
+  detectedProjects: string[];
+}, effects: MentionEffects) {
+  const { castHash, authorFid, parentHash, parentCast, fullContext, projects, detectedProjects } = params;
+
+  log.info(`Found ${projects.length} project(s): ${projects.map(p => p.name).join(', ')}`);
+
+  // Every project is checked before any is taken from, so a request stopped by one project's
+  // limit doesn't use up the others'
+  for (const project of projects) {
+    const denial = await checkProjectToken(project, authorFid);
+    if (!denial) continue;
+
+    log.info(`Rate limited: ${denial.scope} limit on @${project.project_handle}`);
+    await effects.logMention(castHash, authorFid, parentHash, {
+      detected_projects: detectedProjects,
+      error: `Rate limited (${denial.scope}): @${project.project_handle}`
+    });
+    const retryIn = formatWait(denial.retryAfterMs);
+    await effects.reply(castHash, denial.scope === 'project_user'
+      ? BotVoice.projectUserRateLimited(displayProjectName(project), denial.limit.capacity, retryIn)
+      : BotVoice.projectRateLimited(displayProjectName(project), retryIn));
+    return;
+  }
+  for (const project of projects) {
+    await takeProjectToken(project, authorFid);
+  }
 
   // Extract features using LLM
-  console.log('[Processor] Extracting features...');
+  log.info('Extracting features...');
   const extracted = await extractFeatures(fullContext);
 
   if (extracted.length === 0) {
-    await logBotMention(cast_hash, author_fid, parent_hash, {
+    await effects.logMention(castHash, authorFid, parentHash, {
       parent_cast_author_fid: parentCast.author.fid,
       parent_cast_text: parentCast.text,
       detected_projects: detectedProjects,
       features_created: 0
     });
-    await postReply(cast_hash, BotVoice.noFeatureExtracted());
+    await effects.reply(castHash, BotVoice.noFeatureExtracted());
     return;
   }
 
-  console.log(`[Processor] Extracted ${extracted.length} feature(s)`);
+  log.info(`Extracted ${extracted.length} feature(s)`);
 
   // Process each feature (limit to MAX_FEATURES_PER_CAST)
-  const results = {
-    created: [] as Array<{ id: string; title: string; project: string; subItems: number }>,
-    merged: [] as Array<{ id: string; title: string; project: string }>
+  const results: AddResults = { created: [], merged: [] };
+  // A retried job picks up what an earlier attempt stored before it failed
+  const earlier = await loadEarlierAttempt(castHash);
+  // Gray-zone matches, asked about once the summary reply is out
+  const confirmations: Array<{ request: FeatureRequest; candidate: SimilarityMatch }> = [];
+  // Requests held back by moderation, announced after the summary reply
+  const held: Array<{ id: string; title: string }> = [];
+
+  const source: RequestSource = {
+    cast_hash: parentCast.hash,
+    author_fid: parentCast.author.fid,
+    text: parentCast.text
   };
 
   const featuresToProcess = extracted.slice(0, MAX_FEATURES_PER_CAST);
-  console.log(`[Processor] Processing ${featuresToProcess.length} feature(s) (max: ${MAX_FEATURES_PER_CAST})`);
+  log.info(`Processing ${featuresToProcess.length} feature(s) (max: ${MAX_FEATURES_PER_CAST})`);
 
   for (const feature of featuresToProcess) {
     for (const project of projects) {
-      console.log(`[Processor] Processing feature "${feature.title}" for project ${project.name}`);
+      log.info(`Processing feature "${feature.title}" for project ${project.name}`);
+
+      const earlierHold = takeEarlier(earlier, earlier.held, item => item.project_id === project.id && sameTitle(item.feature.title, feature.title));
+      if (earlierHold) {
+        held.push({ id: earlierHold.id, title: earlierHold.feature.title });
+        continue;
+      }
+      const earlierAction = takeEarlier(earlier, earlier.actions, action => action.project_id === project.id && sameTitle(action.request.title, feature.title));
+      if (earlierAction) {
+        await addEarlierResult(results, earlierAction, project);
+        continue;
+      }
+
+      // Moderation runs before anything is stored
+      const verdict = await moderateRequest({ project, feature, source, requesterFid: authorFid });
+      const request: FeatureRequest = {
+        project,
+        feature: { ...feature, tags: [] },
+        source,
+        context: {
+          project_id: project.id,
+          requester_fid: authorFid,
+          mention_cast_hash: castHash
+        },
+        reasons: verdict.reasons,
+        similar: []
+      };
+      if (verdict.action === 'block') {
+        effects.dropRequest(request);
+        continue;
+      }
 
       // Auto-tag
-      const tags = await autoTag(feature.title, feature.description);
-      console.log(`[Processor] Auto-tagged with ${tags.length} tag(s)`);
+      request.feature.tags = await effects.tag(feature.title, feature.description);
+      log.info(`Auto-tagged with ${request.feature.tags.length} tag(s)`);
+
+      if (verdict.action === 'hold') {
+        held.push({ id: await effects.holdForReview(request), title: feature.title });
+        continue;
+      }
 
       // Similarity search
       const similar = await findSimilarFeatures(
@@ -366,85 +875,64 @@ export async function processWebhook(webhookData: WebhookData) {
         feature.title,
         feature.description
       );
-
-      // Check if should merge (similarity > threshold)
-      if (similar.length > 0 && similar[0].similarity > SIMILARITY_THRESHOLD) {
+      request.similar = similar;
+
+      // The extraction can word a request differently on a retry; the feature it created
+      // or merged into last time is then the best match
+      const touched = similar.length > 0
+        ? takeEarlier(earlier, earlier.actions, action => action.project_id === project.id && action.feature_id === similar[0].id)
+        : undefined;
+
+      if (touched) {
+        log.info(`Already stored by an earlier attempt: ${touched.type} ${touched.feature_id}`);
+        await addEarlierResult(results, touched, project);
+      } else if (similar.length > 0 && similar[0].confident) {
         // MERGE into existing feature
         const existingFeature = similar[0];
-        console.log(`[Processor] Merging into existing feature ${existingFeature.id} (similarity: ${existingFeature.similarity.toFixed(2)})`);
+        log.info(`Merging into existing feature ${existingFeature.id} (similarity: ${existingFeature.similarity.toFixed(2)})`);
 
-        await addFeatureSource(existingFeature.id, {
-          source_cast_hash: parent_hash,
-          source_cast_author_fid: parentCast.author.fid,
-          source_cast_text: parentCast.text
-        });
-
-        // Update description if new one is more detailed
-        if (feature.description.length > existingFeature.description.length * 0.5) {
-          const updated = `${existingFeature.description}\n\n---\n\nAdditional feedback:\n${feature.description}`;
-          await updateFeatureDescription(existingFeature.id, updated);
-        }
+        const actionId = await effects.mergeIntoFeature(request, existingFeature);
 
         results.merged.push({
           id: existingFeature.id,
           title: existingFeature.title,
-          project: project.name
+          project: displayProjectName(project),
+          actionId
         });
+      } else if (similar.length > 0) {
+        // Close but not sure: ask the requester before merging
+        log.info(`Gray-zone match ${similar[0].id} (similarity: ${similar[0].similarity.toFixed(2)})`);
+        confirmations.push({ request, candidate: similar[0] });
       } else {
         // CREATE new feature
-        console.log(`[Processor] Creating new feature`);
-
-        const featureId = await createFeature({
-          project_id: project.id,
-          title: feature.title,
-          description: feature.description,
-          submitter_fid: parentCast.author.fid,
-          source_cast_hash: parent_hash,
-          source_cast_author_fid: parentCast.author.fid,
-          tags: tags
-        });
-
-        // Store embedding for similarity matching
-        await storeFeatureEmbedding(featureId, feature.title, feature.description);
+        log.info(`Creating new feature`);
 
-        // Add source
-        await addFeatureSource(featureId, {
-          source_cast_hash: parent_hash,
-          source_cast_author_fid: parentCast.author.fid,
-          source_cast_text: parentCast.text
-        });
-
-        // Create sub-items if present
-        if (feature.subItems && feature.subItems.length > 0) {
-          console.log(`[Processor] Creating ${feature.subItems.length} sub-item(s)`);
-          for (const sub of feature.subItems) {
-            const subFeatureId = await createFeature({
-              project_id: project.id,
-              title: sub.title,
-              description: sub.description,
-              submitter_fid: parentCast.author.fid,
-              parent_feature_id: featureId,
-              is_sub_item: true
-            });
-            // Store embedding for sub-item
-            await storeFeatureEmbedding(subFeatureId, sub.title, sub.description);
-          }
-        }
+        const { featureId, actionId } = await effects.createFeature(request);
 
         results.created.push({
           id: featureId,
           title: feature.title,
-          project: project.name,
-          subItems: feature.subItems?.length || 0
+          project: displayProjectName(project),
+          subItems: feature.subItems?.length || 0,
+          actionId
         });
       }
     }
   }
 
-  console.log(`[Processor] Created: ${results.created.length}, Merged: ${results.merged.length}`);
+  // Stored last time but not extracted again: still announced, so undo covers them
+  for (const action of earlier.actions.filter(action => !earlier.used.has(action.id))) {
+    const project = projects.find(p => p.id === action.project_id);
+    if (project) await addEarlierResult(results, action, project);
+  }
+  for (const item of earlier.held.filter(item => !earlier.used.has(item.id))) {
+    held.push({ id: item.id, title: item.feature.title });
+  }
+
+  log.info(`Created: ${results.created.length}, Merged: ${results.merged.length}`);
 
   // Log to database
-  await logBotMention(cast_hash, author_fid, parent_hash, {
+  await effects.logMention(castHash, authorFid, parentHash, {
     parent_cast_author_fid: parentCast.author.fid,
     parent_cast_text: parentCast.text,
     detected_projects: detectedProjects,
@@ -453,181 +941,184 @@ export async function processWebhook(webhookData: WebhookData) {
   });
 
   // Reply to cast
-  await postReply(cast_hash, formatReply(results));
+  if (results.created.length > 0 || results.merged.length > 0) {
+    const replyHash = await effects.reply(castHash, formatReply(results));
+    // Replying "@roadmapr undo" to this reply reverts everything in it
+    await effects.linkActionsToReply(
+      [...results.created, ...results.merged].map(r => r.actionId),
+      replyHash
+    );
+    await effects.recordAnnouncement(replyHash, [...results.created, ...results.merged].map(r => r.id));
+  }
+
+  if (held.length > 0) {
+    // Moderators reply "approve" / "reject" to this notice
+    const noticeHash = await effects.reply(castHash, BotVoice.heldForReview(held.map(h => h.title)));
+    await effects.linkModerationNotice(held.map(h => h.id), noticeHash);
+  }
+
+  for (const { request, candidate } of confirmations) {
+    await effects.askMergeConfirmation(request, candidate);
+  }
 
   // Post standalone cast (if features were created)
   if (results.created.length > 0) {
     const firstCreated = results.created[0];
     const author = await getUser(parentCast.author.fid);
-    await postStandaloneCast(
+    const announcementHash = await effects.cast(
       formatStandaloneCast(firstCreated, parentCast, author),
-      parent_hash
+      parentCast.hash
     );
+    await effects.recordAnnouncement(announcementHash, [firstCreated.id]);
   }
 
-  console.log(`[Processor] Done processing ${cast_hash}`);
+  log.info(`Done processing ${castHash}`);
 }
 
-function formatReply(results: { created: Array<{ title: string; subItems: number; project: string }>; merged: Array<{ title: string; project: string }> }): string {
-  const { created, merged } = results;
-
-  // All created, no merged
-  if (created.length > 0 && merged.length === 0) {
-    const first = created[0];
-    if (created.length === 1) {
-      return BotVoice.featureCreated(first.title, first.project);
-    }
-    // Multiple features
-    let text = `${celebrate()}\n\n✅ Added ${created.length} features!\n`;
-    created.forEach((f, i) => {
-      text += `${i + 1}. ${f.title}`;
-      if (f.subItems > 0) text += ` (+${f.subItems} options)`;
-      text += `\n`;
-    });
-    text += `\nKeep 'em coming! 🎯`;
-    return text;
-  }
-
-  // All merged, no created
-  if (merged.length > 0 && created.length === 0) {
-    return BotVoice.featureMerged(merged[0].title, `${merged[0].project}`);
-  }
+interface AddResults {
+  created: Array<{ id: string; title: string; project: string; subItems: number; actionId: string }>;
+  merged: Array<{ id: string; title: string; project: string; actionId: string }>;
+}
 
-  // Mixed
-  let text = `${celebrate()}\n\n`;
-  if (created.length > 0) {
-    text += `✅ Created: ${created[0].title}\n`;
-  }
-  if (merged.length > 0) {
-    text += `🔗 Merged: ${merged[0].title}\n`;
-  }
-  text += `\nVote at roadmapr.xyz`;
-  return text;
+/**
+ * What an earlier attempt at the mention stored before it failed: journal actions not
+ * announced yet and requests held without a notice. The mention is only logged once
+ * everything is stored, so a retried job gets here again and must not redo them.
+ */
+interface EarlierAttempt {
+  actions: BotAction[];
+  held: ModerationItem[];
+  // Ids already matched to a request in this attempt
+  used: Set<string>;
 }
 
-function celebrate(): string {
-  const celebrations = [
-    "🎉 BOOM!",
-    "✨ BAM!",
-    "🚀 TO THE MOON!",
-    "💥 POW!",
-    "🤖 ROBOT SAYS: SUCCESS!",
-  ];
-  return celebrations[Math.floor(Math.random() * celebrations.length)];
+async function loadEarlierAttempt(castHash: string): Promise<EarlierAttempt> {
+  const [actions, held] = await Promise.all([getActionsForMention(castHash), getModerationForMention(castHash)]);
+  return {
+    actions: actions.filter(action => action.status === 'applied' && !action.reply_cast_hash),
+    held: held.filter(item => !item.notice_cast_hash),
+    used: new Set()
+  };
 }
 
-function formatStandaloneCast(
-  feature: { title: string; id: string },
-  parentCast: { author: { username: string } },
-  author: { username: string } | null
-): string {
-  const username = author?.username || parentCast.author.username;
-  const intros = [
-    "🚨 NEW FEATURE ALERT!",
-    "📋 HOT NEW REQUEST!",
-    "✨ FRESH SUGGESTION!",
-    "🎯 NEW FEATURE DROP!",
-  ];
-  const intro = intros[Math.floor(Math.random() * intros.length)];
-
-  return `${intro}\n\n` +
-    `"${feature.title}"\n\n` +
-    `👤 Suggested by @${username}\n` +
-    `🗳️ Vote: roadmapr.xyz/features/${feature.id}\n\n` +
-    `Make your voice heard! 📢`;
+function takeEarlier<T extends { id: string }>(
+  earlier: EarlierAttempt,
+  items: T[],
+  matches: (item: T) => boolean
+): T | undefined {
+  const item = items.find(item => !earlier.used.has(item.id) && matches(item));
+  if (item) earlier.used.add(item.id);
+  return item;
 }
 
-/**
- * Check if a cast is authored by the bot (by FID or username)
- */
-async function isReplyToBotCast(castHash: string, botFid: number, botUsername?: string): Promise<boolean> {
-  const cast = await getCast(castHash);
-  if (!cast?.author) return false;
-  return cast.author.fid === botFid ||
-    (botUsername != null && cast.author.username?.toLowerCase() === botUsername.toLowerCase());
+function sameTitle(a: string, b: string): boolean {
+  const normalize = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  return normalize(a) === normalize(b);
 }
 
-/**
- * Get the text content of a cast
- */
-async function getCastText(castHash: string): Promise<string> {
-  const cast = await getCast(castHash);
-  return cast?.text || '';
+async function addEarlierResult(results: AddResults, action: BotAction, project: Project) {
+  const name = displayProjectName(project);
+  if (action.type === 'create') {
+    results.created.push({
+      id: action.feature_id,
+      title: action.request.title,
+      project: name,
+      subItems: action.request.subItems?.length || 0,
+      actionId: action.id
+    });
+  } else {
+    const feature = await getFeatureById(action.feature_id);
+    results.merged.push({ id: action.feature_id, title: feature?.title ?? action.request.title, project: name, actionId: action.id });
+  }
 }
 
 /**
- * Extract project handle from a bot message (e.g. "NEW PROJECT ALERT! @castoors!")
- * Used when the user replies directly to the bot's message
+ * Answer a review in `castHash`; approved requests are announced there, so votes and undo work on the reply.
+ * The admin dashboard uses it to answer in the thread of the bot's "held for review" notice.
  */
-function extractProjectHandleFromBotMessage(botText: string): string | null {
-  if (!botText.includes('NEW PROJECT ALERT!') && !botText.includes('NEW PROJECT ALERT')) {
-    return null;
-  }
-  // Extract the @handle from "NEW PROJECT ALERT! @castoors!"
-  // Skip @roadmapr and common non-project mentions
-  const mentions = botText.match(/@(\w+)/g) || [];
-  for (const mention of mentions) {
-    const handle = mention.slice(1).toLowerCase();
-    if (handle !== 'roadmapr' && handle !== 'unknown' && handle.length > 1) {
-      console.log(`[Processor] Extracted project handle "${handle}" from bot message`);
-      return handle;
-    }
+export async function replyToReview(castHash: string, result: ReviewResult, effects: MentionEffects = liveEffects) {
+  if (result.status === 'forbidden') {
+    await effects.reply(castHash, BotVoice.moderationForbidden());
+  } else if (result.status === 'already_reviewed' || result.status === 'not_found') {
+    await effects.reply(castHash, BotVoice.moderationAlreadyReviewed());
+  } else if (result.status === 'rejected') {
+    await effects.reply(castHash, BotVoice.moderationRejected(result.items.map(item => item.feature.title)));
+  } else {
+    const replyHash = await effects.reply(castHash, BotVoice.moderationApproved(result.outcomes));
+    await effects.linkActionsToReply(result.outcomes.map(o => o.actionId), replyHash);
+    await effects.recordAnnouncement(replyHash, result.outcomes.map(o => o.featureId));
   }
-  return null;
 }
 
-/**
- * Extract project handle from thread context (looks for "NEW PROJECT ALERT! @handle")
- */
-function extractProjectHandleFromThreadContext(thread: Array<{ text: string }>): string | null {
-  // First, try to find the original user request with project name
-  // Look for patterns like "create project called X", "new project X", etc.
-  for (const cast of thread) {
-    const text = cast.text.toLowerCase();
-
-    // Skip bot's own "NEW PROJECT ALERT!" messages
-    if (text.includes('new project alert!') || text.includes('let\'s get this set up')) {
-      continue;
-    }
+async function replyToQuery(
+  effects: MentionEffects,
+  castHash: string,
+  authorFid: number,
+  parentHash: string | null,
+  intent: DetectedIntent & { intent: QueryIntent }
+) {
+  log.info(`Answering ${intent.intent} query`);
+  await effects.logMention(castHash, authorFid, parentHash, {
+    detected_projects: intent.targetProjects
+  });
+  await effects.reply(castHash, await answerQuery(intent, authorFid));
+}
 
-    // Look for project creation patterns (both "create project X" and "create X project")
-    const patterns = [
-      /create(?:\s+a)?(?:\s+new)?\s+project\s+(?:called\s+|named\s+)?[@]?(\w+)/i,
-      /create\s+(?:a\s+|the\s+)?[@]?(\w+)\s+project\b/i,
-      /new\s+project\s+(?:called\s+|named\s+)?[@]?(\w+)/i,
-      /make\s+(?:a\s+)?project\s+(?:called\s+|named\s+)?[@]?(\w+)/i,
-      /make\s+(?:a\s+|the\s+)?[@]?(\w+)\s+project\b/i,
-      /add\s+project\s+(?:called\s+|named\s+)?[@]?(\w+)/i,
-      /set\s*up\s+(?:a\s+)?project\s+(?:called\s+|named\s+)?[@]?(\w+)/i,
-      /set\s*up\s+(?:a\s+|the\s+)?[@]?(\w+)\s+project\b/i,
-      /deploy\s+project\s+[@]?(\w+)/i,
-      /deploy\s+(?:a\s+|the\s+)?[@]?(\w+)\s+project\b/i,
-    ];
-    const stopwords = new Set(['a', 'an', 'the', 'my', 'our', 'this', 'that', 'new', 'project', 'board', 'alert']);
-
-    for (const pattern of patterns) {
-      const match = cast.text.match(pattern);
-      if (match) {
-        const handle = match[1].toLowerCase().replace(/[^a-z0-9_-]/g, '');
-        if (handle && handle !== 'roadmapr' && !stopwords.has(handle)) {
-          console.log(`[Processor] Extracted project handle "${handle}" from conversation context`);
-          return handle;
-        }
-      }
-    }
-  }
+async function replyToOwnershipResult(
+  effects: MentionEffects,
+  castHash: string,
+  authorFid: number,
+  parentHash: string | null,
+  result: OwnershipResult
+) {
+  const handle = result.status === 'project_not_found' ? result.handle
+    : result.status === 'user_not_found' ? undefined
+    : result.project.project_handle;
+  const success = ['verified', 'transfer_requested', 'transferred', 'declined'].includes(result.status);
+
+  await effects.logMention(castHash, authorFid, parentHash, {
+    ...(handle && { detected_projects: [handle] }),
+    error: success ? undefined : `Ownership: ${result.status}`
+  });
 
-  // Fallback: look through the thread for the "NEW PROJECT ALERT!" message
-  // (but skip if it says @unknown)
-  for (const cast of thread) {
-    if (cast.text.includes('NEW PROJECT ALERT!') && !cast.text.includes('@unknown')) {
-      // Extract the @handle from the message
-      const match = cast.text.match(/@(\w+)/);
-      if (match) {
-        return match[1].toLowerCase();
-      }
+  switch (result.status) {
+    case 'project_not_found':
+      await effects.reply(castHash, BotVoice.projectNotFound([result.handle]));
+      break;
+    case 'user_not_found':
+      await effects.reply(castHash, BotVoice.ownerNotFound(result.username));
+      break;
+    case 'already_verified':
+      await effects.reply(castHash, BotVoice.projectAlreadyVerified(result.project.project_handle));
+      break;
+    case 'not_verified':
+      await effects.reply(castHash, BotVoice.ownershipNotVerified(result.project.project_handle));
+      break;
+    case 'forbidden':
+      await effects.reply(castHash, BotVoice.ownershipForbidden(result.project.project_handle));
+      break;
+    case 'not_asked':
+      await effects.reply(castHash, BotVoice.ownershipNotAsked(result.project.project_handle));
+      break;
+    case 'verified': {
+      const owner = await getUser(result.ownerFid);
+      await effects.reply(castHash, BotVoice.projectVerified(result.project.project_handle, owner?.username || String(result.ownerFid)));
+      break;
+    }
+    case 'transfer_requested':
+      // The request itself was the reply
+      await effects.countReply();
+      break;
+    case 'transferred': {
+      const owner = await getUser(result.ownerFid);
+      await effects.reply(castHash, BotVoice.transferAccepted(result.project.project_handle, owner?.username || String(result.ownerFid)));
+      break;
     }
+    case 'declined':
+      await effects.reply(castHash, BotVoice.ownershipDeclined(result.project.project_handle));
+      break;
+    case 'stale':
+      await effects.reply(castHash, BotVoice.ownershipStale(result.project.project_handle));
+      break;
   }
-
-  return null;
 }
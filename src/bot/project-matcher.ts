@@ -0,0 +1,105 @@
+/**
+ * Multi-pattern matcher (Aho-Corasick): finds every pattern in a text in one pass,
+ * however many patterns there are. Patterns are plain strings, matched
+ * case-insensitively, so names like "c++" or "degen (beta)" need no escaping.
+ *
+ * A match only counts on word boundaries: the character before it can't be a word
+ * character, and if the pattern ends in one, neither can the character after it
+ * ("base" doesn't match "database" or "basement").
+ */
+export interface MatchPattern<T> {
+  text: string;
+  value: T;
+}
+
+export interface PatternMatcher<T> {
+  // Values of all matched patterns, in order of first appearance, without duplicates
+  find(text: string): T[];
+  // Every match with where it is, in code points of the text, in order of where it ends
+  locate(text: string): Array<PatternMatch<T>>;
+  size: number;
+}
+
+export interface PatternMatch<T> {
+  start: number;
+  end: number;
+  value: T;
+}
+
+interface Node {
+  next: Map<string, number>;
+  fail: number;
+  // Patterns ending here, including those reached through fail links
+  outputs: number[];
+}
+
+const WORD_CHAR = /\w/;
+
+export function compileMatcher<T>(patterns: Array<MatchPattern<T>>): PatternMatcher<T> {
+  const texts = patterns.map(p => p.text.toLowerCase());
+  const lengths = texts.map(text => [...text].length);
+  const nodes: Node[] = [{ next: new Map(), fail: 0, outputs: [] }];
+
+  // Trie of all patterns
+  texts.forEach((text, index) => {
+    if (!text) return;
+    let state = 0;
+    for (const char of text) {
+      let child = nodes[state].next.get(char);
+      if (child === undefined) {
+        child = nodes.length;
+        nodes.push({ next: new Map(), fail: 0, outputs: [] });
+        nodes[state].next.set(char, child);
+      }
+      state = child;
+    }
+    nodes[state].outputs.push(index);
+  });
+
+  // Fail links, breadth first
+  const queue: number[] = [...nodes[0].next.values()];
+  for (let i = 0; i < queue.length; i++) {
+    const state = queue[i];
+    for (const [char, child] of nodes[state].next) {
+      let fail = nodes[state].fail;
+      while (fail !== 0 && !nodes[fail].next.has(char)) {
+        fail = nodes[fail].fail;
+      }
+      const target = nodes[fail].next.get(char);
+      nodes[child].fail = target !== undefined && target !== child ? target : 0;
+      nodes[child].outputs.push(...nodes[nodes[child].fail].outputs);
+      queue.push(child);
+    }
+  }
+
+  // Iterate code points, as the trie was built from them
+  const locate = (input: string): Array<PatternMatch<T>> => {
+    const chars = [...input.toLowerCase()];
+    const found: Array<PatternMatch<T>> = [];
+    let state = 0;
+
+    for (let end = 0; end < chars.length; end++) {
+      const char = chars[end];
+      while (state !== 0 && !nodes[state].next.has(char)) {
+        state = nodes[state].fail;
+      }
+      state = nodes[state].next.get(char) ?? 0;
+
+      for (const index of nodes[state].outputs) {
+        const before = chars[end - lengths[index]];
+        const after = chars[end + 1];
+        if (before !== undefined && WORD_CHAR.test(before)) continue;
+        if (after !== undefined && WORD_CHAR.test(after) && WORD_CHAR.test(chars[end])) continue;
+        found.push({ start: end + 1 - lengths[index], end: end + 1, value: patterns[index].value });
+      }
+    }
+
+    return found;
+  };
+
+  return {
+    size: patterns.length,
+    locate,
+    find: input => [...new Set(locate(input).map(match => match.value))]
+  };
+}
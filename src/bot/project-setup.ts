@@ -0,0 +1,226 @@
+import { BotVoice } from './voice.js';
+import { requestVerification } from './ownership.js';
+import { parseProjectSetupReply, parseOwner, getProjectBio } from './helpers.js';
+import { postReply, getCast } from '../neynar/client.js';
+import { createProject, type Project } from '../db/projects.js';
+import {
+  createProjectSetup,
+  getPendingProjectSetup,
+  updateProjectSetup,
+  finishProjectSetup,
+  type PendingProjectSetup,
+  type ProjectSetupFields,
+  type ProjectSetupStep
+} from '../db/project-setups.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('project-setup');
+
+// How long a setup conversation stays open
+const PROJECT_SETUP_TTL_MS = parseInt(process.env.PROJECT_SETUP_TTL_MS || '604800000');
+// How many casts up the thread to look for the setup a reply belongs to
+const PROJECT_SETUP_THREAD_DEPTH = 3;
+
+export type ProjectSetupOutcome =
+  | { status: 'cancelled' }
+  | { status: 'asked'; step: ProjectSetupStep }
+  | { status: 'owner_not_found'; owner: string }
+  | { status: 'created'; project: Project; ownerUsername: string }
+  | { status: 'failed'; error: string };
+
+/**
+ * Ask for the new project's details and remember the conversation
+ */
+export async function startProjectSetup(params: {
+  projectHandle: string;
+  requesterFid: number;
+  mentionCastHash: string;
+}): Promise<PendingProjectSetup> {
+  const promptHash = await postReply(
+    params.mentionCastHash,
+    BotVoice.newProjectIntentDetected(params.projectHandle, params.requesterFid)
+  );
+
+  const setup = await createProjectSetup({
+    project_handle: params.projectHandle,
+    requester_fid: params.requesterFid,
+    mention_cast_hash: params.mentionCastHash,
+    prompt_cast_hash: promptHash,
+    expires_at: new Date(Date.now() + PROJECT_SETUP_TTL_MS).toISOString()
+  });
+
+  log.info(`Started setup ${setup.id} for @${params.projectHandle}`);
+  return setup;
+}
+
+/**
+ * The pending setup a reply belongs to: the cast it answers, or one of that cast's parents
+ */
+export async function findPendingSetup(parentHash: string): Promise<PendingProjectSetup | null> {
+  let hash: string | undefined = parentHash;
+  for (let depth = 0; hash && depth < PROJECT_SETUP_THREAD_DEPTH; depth++) {
+    const setup = await getPendingProjectSetup(hash);
+    if (setup) return setup;
+    hash = (await getCast(hash))?.parent_hash;
+  }
+  return null;
+}
+
+/**
+ * "cancel", "stop", "never mind" (mentions and punctuation around it are ignored)
+ */
+export function isCancelCommand(text: string): boolean {
+  const command = text.replace(/@\w+/g, ' ').replace(/[!.]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+  return /^(?:cancel|stop|abort|never ?mind|nvm)(?: (?:it|this|that|setup))?$/.test(command);
+}
+
+/**
+ * Read the voting setup from a reply: a token address or "clanker" means token voting,
+ * "none" / "score" / "skip" means score voting
+ */
+export function parseTokenChoice(text: string): Pick<ProjectSetupFields, 'voting_type' | 'token_address'> | null {
+  const address = text.match(/0x[a-fA-F0-9]{40}/);
+  if (address) {
+    return { voting_type: 'token', token_address: address[0] };
+  }
+  if (/\bclanker\b/i.test(text)) {
+    return { voting_type: 'token', token_address: null };
+  }
+  if (/\b(?:no(?:ne)?(?:\s+token)?|score|skip|later)\b/i.test(text)) {
+    return { voting_type: 'score', token_address: null };
+  }
+  return null;
+}
+
+/**
+ * Apply a reply to the setup: take whatever answers it contains (several steps at once
+ * is fine), then ask for the next missing one or create the project
+ */
+export async function continueProjectSetup(
+  setup: PendingProjectSetup,
+  text: string,
+  authorFid: number,
+  castHash: string,
+  botFid: number
+): Promise<ProjectSetupOutcome> {
+  const handle = setup.project_handle;
+
+  if (isCancelCommand(text)) {
+    if (await finishProjectSetup(setup.id, 'cancelled')) {
+      await postReply(castHash, BotVoice.projectSetupCancelled(handle));
+    }
+    log.info(`Setup ${setup.id} cancelled`);
+    return { status: 'cancelled' };
+  }
+
+  const fields: ProjectSetupFields = { ...setup.fields };
+  // Keep other mentions: "@peth" can be the owner
+  const answer = text.replace(/@roadmapr\b/gi, ' ').trim();
+  const parsed = parseProjectSetupReply(answer);
+  let understood = false;
+
+  if (fields.owner_fid === undefined) {
+    // A bare "@username" or FID answers the owner question (but a bare "clanker" is the token)
+    const bare = setup.step === 'owner' && !parseTokenChoice(answer) ? answer.match(/^@?(\w+)$/)?.[1] : undefined;
+    let ownerInput = parsed.owner || bare;
+    if (ownerInput) {
+      if (ownerInput === 'me') ownerInput = String(authorFid);
+      const owner = await parseOwner(ownerInput, botFid);
+      if (!owner) {
+        await postReply(castHash, BotVoice.ownerNotFound(ownerInput));
+        return { status: 'owner_not_found', owner: ownerInput };
+      }
+      fields.owner_fid = owner.fid;
+      fields.owner_username = owner.username;
+      understood = true;
+    }
+  }
+
+  if (fields.voting_type === undefined) {
+    const token = parseTokenChoice(answer);
+    if (token) {
+      Object.assign(fields, token);
+      understood = true;
+    }
+  }
+
+  // Anything else sent at the bio step is the description
+  if (fields.bio === undefined && setup.step === 'bio' && !understood && answer) {
+    fields.bio = /^skip$/i.test(answer) ? '' : answer;
+    understood = true;
+  }
+
+  // The first prompt says the requester is assumed to be the owner if they don't say
+  if (understood && fields.owner_fid === undefined) {
+    const owner = await parseOwner(String(authorFid), botFid);
+    fields.owner_fid = authorFid;
+    fields.owner_username = owner?.username || String(authorFid);
+  }
+
+  if (!understood) {
+    await postReply(castHash, BotVoice.projectSetupDidntCatch(handle, setup.step));
+    return { status: 'asked', step: setup.step };
+  }
+
+  const next = await nextStep(handle, fields);
+  if (next) {
+    const promptHash = await postReply(castHash, next === 'token'
+      ? BotVoice.projectSetupAskToken(handle)
+      : BotVoice.projectSetupAskBio(handle));
+    await updateProjectSetup(setup.id, { step: next, fields, prompt_cast_hash: promptHash ?? setup.prompt_cast_hash });
+    log.info(`Setup ${setup.id}: asking for ${next}`);
+    return { status: 'asked', step: next };
+  }
+
+  await updateProjectSetup(setup.id, { step: setup.step, fields, prompt_cast_hash: setup.prompt_cast_hash });
+  return completeSetup(setup, fields, castHash);
+}
+
+/**
+ * The first unanswered step. Bios come from the project's Farcaster profile when it has one.
+ */
+async function nextStep(handle: string, fields: ProjectSetupFields): Promise<ProjectSetupStep | null> {
+  if (fields.owner_fid === undefined) return 'owner';
+  if (fields.voting_type === undefined) return 'token';
+  if (fields.bio === undefined) {
+    const bio = await getProjectBio(handle);
+    log.info(`Bio for @${handle}: ${bio ? 'found' : 'not found'}`);
+    if (!bio) return 'bio';
+    fields.bio = bio;
+  }
+  return null;
+}
+
+async function completeSetup(
+  setup: PendingProjectSetup,
+  fields: ProjectSetupFields,
+  castHash: string
+): Promise<ProjectSetupOutcome> {
+  // Two answers racing each other can't both create the project
+  if (!(await finishProjectSetup(setup.id, 'completed'))) {
+    return { status: 'failed', error: 'Setup already finished' };
+  }
+
+  const handle = setup.project_handle;
+  try {
+    const project = await createProject({
+      name: handle.charAt(0).toUpperCase() + handle.slice(1),
+      project_handle: handle,
+      owner_fid: fields.owner_fid!,
+      ...(fields.bio && { bio: fields.bio }),
+      voting_type: fields.voting_type,
+      ...(fields.token_address && { token_address: fields.token_address }),
+      created_by_bot: true
+    });
+
+    log.info(`Project created: ${project.id} (@${handle})`);
+    const replyHash = await postReply(castHash, BotVoice.projectCreated(project, fields.owner_username || String(fields.owner_fid)));
+    // The owner named in setup still has to confirm it from their own account
+    await requestVerification(project, setup.requester_fid, replyHash);
+    return { status: 'created', project, ownerUsername: fields.owner_username || String(fields.owner_fid) };
+  } catch (err) {
+    log.error(`Failed to create project`, err);
+    await postReply(castHash, BotVoice.genericError('Failed to create project'));
+    return { status: 'failed', error: `Project creation failed: ${(err as Error).message}` };
+  }
+}
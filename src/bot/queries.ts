@@ -0,0 +1,136 @@
+import { BotVoice } from './voice.js';
+import { findSimilarFeatures } from './similarity.js';
+import { statusLabel } from './lifecycle.js';
+import { displayProjectName } from './helpers.js';
+import type { DetectedIntent, QueryIntent } from './intent.js';
+import {
+  getFeatureById,
+  listTopFeatures,
+  listNewestFeatures,
+  searchFeaturesByTitle,
+  listFeaturesBySubmitter,
+  type Feature
+} from '../db/features.js';
+import { getProjectByHandle, getProjectById, type Project } from '../db/projects.js';
+
+// Farcaster's limit for a regular cast, in bytes
+const MAX_CAST_BYTES = parseInt(process.env.MAX_CAST_BYTES || '320');
+const QUERY_RESULT_LIMIT = 5;
+const MAX_LISTED_TITLE_LENGTH = 40;
+
+export function featureLink(featureId: string): string {
+  return `roadmapr.xyz/features/${featureId}`;
+}
+
+function shorten(title: string, max = MAX_LISTED_TITLE_LENGTH): string {
+  return title.length > max ? `${title.slice(0, max - 1).trimEnd()}…` : title;
+}
+
+function formatWeight(weight: number): string {
+  return Number.isInteger(weight) ? String(weight) : weight.toFixed(1);
+}
+
+/**
+ * Join a header and as many lines as fit in one cast; a footer says how many were left out
+ */
+export function fitToCast(header: string, lines: string[], limit = MAX_CAST_BYTES): string {
+  let text = header;
+  for (let i = 0; i < lines.length; i++) {
+    const next = `${text}\n${lines[i]}`;
+    if (Buffer.byteLength(next) > limit) {
+      const more = `\n+${lines.length - i} more`;
+      return Buffer.byteLength(text + more) <= limit ? text + more : text;
+    }
+    text = next;
+  }
+  return text;
+}
+
+function listLines(features: Feature[], withWeight: boolean): string[] {
+  return features.map((f, i) =>
+    `${i + 1}. ${shorten(f.title)}${withWeight ? ` (${formatWeight(f.total_weight)})` : ''} ${featureLink(f.id)}`
+  );
+}
+
+/**
+ * The feature a status question is about: title match first, then similarity
+ */
+async function findNamedFeature(project: Project, name: string): Promise<Feature | null> {
+  const byTitle = await searchFeaturesByTitle(project.id, name, 1);
+  if (byTitle.length > 0) return byTitle[0];
+
+  const similar = await findSimilarFeatures(project.id, name, name);
+  return similar.length > 0 ? getFeatureById(similar[0].id) : null;
+}
+
+/**
+ * Answer a read-only roadmap question with a reply that fits in one cast
+ */
+export async function answerQuery(
+  intent: DetectedIntent & { intent: QueryIntent },
+  requesterFid: number
+): Promise<string> {
+  const projects: Project[] = [];
+  for (const handle of intent.targetProjects) {
+    const project = await getProjectByHandle(handle);
+    if (project) projects.push(project);
+  }
+
+  if (intent.intent === 'my_features') {
+    const projectIds = new Set(projects.map(p => p.id));
+    // Over-fetch when filtering to the mentioned projects
+    const submitted = (await listFeaturesBySubmitter(requesterFid, projectIds.size > 0 ? 50 : QUERY_RESULT_LIMIT))
+      .filter(f => projectIds.size === 0 || projectIds.has(f.project_id))
+      .slice(0, QUERY_RESULT_LIMIT);
+
+    if (submitted.length === 0) {
+      return BotVoice.noSubmissions();
+    }
+
+    const names = new Map<string, string>();
+    for (const f of submitted) {
+      if (!names.has(f.project_id)) {
+        names.set(f.project_id, (await getProjectById(f.project_id))?.name || '?');
+      }
+    }
+    return fitToCast(
+      '📝 Your requests:',
+      submitted.map((f, i) => `${i + 1}. ${shorten(f.title)} (${names.get(f.project_id)}, ${statusLabel(f.status)}) ${featureLink(f.id)}`)
+    );
+  }
+
+  if (projects.length === 0) {
+    return intent.targetProjects.length > 0
+      ? BotVoice.projectNotFound(intent.targetProjects)
+      : BotVoice.noProjectDetected();
+  }
+  if (projects.length > 1) {
+    return BotVoice.multipleProjects(projects.map(p => ({ handle: p.project_handle, name: p.name })));
+  }
+
+  const project = projects[0];
+
+  if (intent.intent === 'feature_status') {
+    const feature = await findNamedFeature(project, intent.featureName || '');
+    if (!feature) {
+      return BotVoice.featureNotFound(intent.featureName || '', displayProjectName(project));
+    }
+    return fitToCast(
+      `📋 "${shorten(feature.title, 80)}" on ${displayProjectName(project)}`,
+      [`${statusLabel(feature.status)} · ${formatWeight(feature.total_weight)} votes`, featureLink(feature.id)]
+    );
+  }
+
+  const features = intent.intent === 'top_features'
+    ? await listTopFeatures(project.id, QUERY_RESULT_LIMIT)
+    : await listNewestFeatures(project.id, QUERY_RESULT_LIMIT);
+
+  if (features.length === 0) {
+    return BotVoice.noFeaturesYet(displayProjectName(project), project.project_handle);
+  }
+
+  return fitToCast(
+    intent.intent === 'top_features' ? `🔥 Top on ${displayProjectName(project)}:` : `🆕 Newest on ${displayProjectName(project)}:`,
+    listLines(features, intent.intent === 'top_features')
+  );
+}
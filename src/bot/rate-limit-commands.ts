@@ -0,0 +1,90 @@
+import { effectiveProjectLimits } from '../ratelimit/index.js';
+import {
+  getProjectByHandle,
+  getProjectRole,
+  setProjectRateLimits,
+  type Project,
+  type ProjectRateLimits
+} from '../db/projects.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('rate-limit');
+
+export type RateLimitCommand =
+  | { type: 'set'; limit: keyof ProjectRateLimits; value: number; handle: string }
+  | { type: 'reset'; handle: string }
+  | { type: 'show'; handle: string };
+
+export type RateLimitCommandResult =
+  | { status: 'project_not_found'; handle: string }
+  | { status: 'forbidden'; project: Project }
+  | { status: 'updated' | 'reset' | 'show'; project: Project; hourly: number; userDaily: number | null };
+
+// Larger limits are clamped to this
+const MAX_LIMIT = 1000;
+
+/**
+ * "limit @project to 30 per hour", "limit @project to 5 per user per day",
+ * "reset limits on @project", "limits of @project"
+ */
+export function parseRateLimitCommand(text: string): RateLimitCommand | null {
+  const command = text.replace(/@roadmapr\b/gi, ' ').replace(/[!.?]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+
+  const hourly = command.match(/^(?:set )?limit (?:of |for |on )?@?(\w+) (?:to )?(\d+)(?: requests?)? ?(?:per|a|\/) ?hour$/);
+  if (hourly) {
+    return { type: 'set', limit: 'rate_limit_hourly', value: Math.min(parseInt(hourly[2]), MAX_LIMIT), handle: hourly[1] };
+  }
+  const perUser = command.match(/^(?:set )?limit (?:of |for |on )?@?(\w+) (?:to )?(\d+)(?: requests?)? ?(?:per|a|\/) ?(?:user|person) ?(?:per|a|\/) ?day$/);
+  if (perUser) {
+    return { type: 'set', limit: 'user_rate_limit_daily', value: Math.min(parseInt(perUser[2]), MAX_LIMIT), handle: perUser[1] };
+  }
+
+  const reset = command.match(/^(?:reset|remove|clear) (?:rate )?limits (?:of|for|on|from) @?(\w+)$/);
+  if (reset) {
+    return { type: 'reset', handle: reset[1] };
+  }
+
+  const show = command.match(/^(?:show |list )?(?:rate )?limits (?:of|for|on) @?(\w+)$/);
+  if (show) {
+    return { type: 'show', handle: show[1] };
+  }
+
+  return null;
+}
+
+/**
+ * Run a rate limit command sent by `fid`. Anyone can see a project's limits;
+ * only its owner can change them.
+ */
+export async function runRateLimitCommand(command: RateLimitCommand, fid: number): Promise<RateLimitCommandResult> {
+  const project = await getProjectByHandle(command.handle);
+  if (!project) {
+    return { status: 'project_not_found', handle: command.handle };
+  }
+
+  if (command.type === 'show') {
+    return { status: 'show', project, ...effectiveProjectLimits(project) };
+  }
+
+  if ((await getProjectRole(project, fid)) !== 'owner') {
+    return { status: 'forbidden', project };
+  }
+
+  const limits: ProjectRateLimits = command.type === 'reset'
+    ? { rate_limit_hourly: null, user_rate_limit_daily: null }
+    : {
+        rate_limit_hourly: project.rate_limit_hourly,
+        user_rate_limit_daily: project.user_rate_limit_daily,
+        [command.limit]: command.value
+      };
+
+  await setProjectRateLimits(project.id, limits);
+  log.info(`FID ${fid} set limits on @${project.project_handle}: ${JSON.stringify(limits)}`);
+
+  const updated = { ...project, ...limits };
+  return {
+    status: command.type === 'reset' ? 'reset' : 'updated',
+    project: updated,
+    ...effectiveProjectLimits(updated)
+  };
+}
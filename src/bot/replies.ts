@@ -0,0 +1,76 @@
+import { BotVoice } from './voice.js';
+
+/**
+ * The summary reply to a mention that created or merged features
+ */
+export function formatReply(results: { created: Array<{ title: string; subItems: number; project: string }>; merged: Array<{ title: string; project: string }> }): string {
+  const { created, merged } = results;
+
+  // All created, no merged
+  if (created.length > 0 && merged.length === 0) {
+    const first = created[0];
+    if (created.length === 1) {
+      return BotVoice.featureCreated(first.title, first.project);
+    }
+    // Multiple features
+    let text = `${celebrate()}\n\n✅ Added ${created.length} features!\n`;
+    created.forEach((f, i) => {
+      text += `${i + 1}. ${f.title}`;
+      if (f.subItems > 0) text += ` (+${f.subItems} options)`;
+      text += `\n`;
+    });
+    text += `\nKeep 'em coming! 🎯`;
+    return text;
+  }
+
+  // All merged, no created
+  if (merged.length > 0 && created.length === 0) {
+    return BotVoice.featureMerged(merged[0].title, `${merged[0].project}`);
+  }
+
+  // Mixed
+  let text = `${celebrate()}\n\n`;
+  if (created.length > 0) {
+    text += `✅ Created: ${created[0].title}\n`;
+  }
+  if (merged.length > 0) {
+    text += `🔗 Merged: ${merged[0].title}\n`;
+  }
+  text += `\nVote at roadmapr.xyz`;
+  return text;
+}
+
+function celebrate(): string {
+  const celebrations = [
+    "🎉 BOOM!",
+    "✨ BAM!",
+    "🚀 TO THE MOON!",
+    "💥 POW!",
+    "🤖 ROBOT SAYS: SUCCESS!",
+  ];
+  return celebrations[Math.floor(Math.random() * celebrations.length)];
+}
+
+/**
+ * The standalone cast announcing a newly created feature
+ */
+export function formatStandaloneCast(
+  feature: { title: string; id: string },
+  parentCast: { author: { username: string } },
+  author: { username: string } | null
+): string {
+  const username = author?.username || parentCast.author.username;
+  const intros = [
+    "🚨 NEW FEATURE ALERT!",
+    "📋 HOT NEW REQUEST!",
+    "✨ FRESH SUGGESTION!",
+    "🎯 NEW FEATURE DROP!",
+  ];
+  const intro = intros[Math.floor(Math.random() * intros.length)];
+
+  return `${intro}\n\n` +
+    `"${feature.title}"\n\n` +
+    `👤 Suggested by @${username}\n` +
+    `🗳️ Like or reply +1 to vote: roadmapr.xyz/features/${feature.id}\n\n` +
+    `Make your voice heard! 📢`;
+}
@@ -1,5 +1,6 @@
 import type { Cast } from '../neynar/client.js';
 import { getAllProjects } from '../db/projects.js';
+import { loadAliasLookup, findProjectReferences } from './aliases.js';
 
 // Re-export for use in other modules
 export { getAllProjects };
@@ -7,9 +8,9 @@ export { getAllProjects };
 export async function detectProjects(text: string, cast: Cast): Promise<string[]> {
   const detectedHandles = new Set<string>();
 
-  // Get all existing project handles for matching
-  const allProjects = await getAllProjects();
-  const projectHandles = new Set(allProjects.map(p => p.project_handle.toLowerCase()));
+  // Project handles plus their aliases (old handles, channels, cashtags, names)
+  const lookup = await loadAliasLookup();
+  const projectHandles = lookup.handles;
 
   // Count mentions to handle multiple occurrences (e.g., @roadmapr for @roadmapr)
   const mentions = text.match(/@(\w+)/g) || [];
@@ -34,12 +35,12 @@ export async function detectProjects(text: string, cast: Cast): Promise<string[]
       // Only add roadmapr as a project if mentioned multiple times
       // or if it's an existing project in the database
       if (mentionCount > 1 && projectHandles.has(handle)) {
-        detectedHandles.add(handle);
+        detectedHandles.add(projectHandles.get(handle)!);
       }
     } else if (handle.length > 2) {
-      // Only add if it's a known project
+      // Only add if it's a known project (or one of its old handles)
       if (projectHandles.has(handle)) {
-        detectedHandles.add(handle);
+        detectedHandles.add(projectHandles.get(handle)!);
       }
     }
   }
@@ -59,7 +60,7 @@ export async function detectProjects(text: string, cast: Cast): Promise<string[]
       if (handle === 'roadmapr' && projectHandles.has(handle)) {
         detectedHandles.add(handle);
       } else if (projectHandles.has(handle)) {
-        detectedHandles.add(handle);
+        detectedHandles.add(projectHandles.get(handle)!);
       }
     }
   }
@@ -67,36 +68,17 @@ export async function detectProjects(text: string, cast: Cast): Promise<string[]
   // Method 3: Channel context (if cast is in a project's channel)
   if (cast.channel?.id) {
     const channelId = cast.channel.id.toLowerCase();
-    if (projectHandles.has(channelId)) {
-      detectedHandles.add(channelId);
+    if (lookup.channels.has(channelId)) {
+      detectedHandles.add(lookup.channels.get(channelId)!);
     }
   }
 
-  // Method 4: Look for project names mentioned (not just handles)
-  // Enhanced to catch variations like "base", "Base", "for base", "for Base", etc.
-  const lowerText = text.toLowerCase();
-  for (const project of allProjects) {
-    const projectName = project.name.toLowerCase();
-    const projectHandle = project.project_handle.toLowerCase();
-
-    // Check for project name or handle with word boundaries
-    const namePatterns = [
-      `\\b${projectName}\\b`,  // exact word match
-      `\\b${projectHandle}\\b`, // exact handle match
-      `for\\s+${projectName}\\b`,
-      `for\\s+${projectHandle}\\b`,
-      `on\\s+${projectName}\\b`,
-      `on\\s+${projectHandle}\\b`,
-      `about\\s+${projectName}\\b`,
-      `about\\s+${projectHandle}\\b`
-    ];
-
-    for (const pattern of namePatterns) {
-      if (lowerText.match(new RegExp(pattern, 'i')) && projectName.length > 2) {
-        detectedHandles.add(project.project_handle);
-        break; // Found this project, no need to check other patterns
-      }
-    }
+  // Method 4: Project names, name aliases, "$DEGEN" cashtags and "/degen" channel
+  // references, all found in one pass by the precompiled matcher
+  for (const reference of findProjectReferences(text, lookup)) {
+    // Every mention of the bot contains the word "roadmapr"; Methods 1-2 decide that one
+    if (reference.handle === 'roadmapr') continue;
+    detectedHandles.add(reference.handle);
   }
 
   return Array.from(detectedHandles);
@@ -104,8 +86,8 @@ export async function detectProjects(text: string, cast: Cast): Promise<string[]
 
 // Detect if someone is trying to mention a project that doesn't exist yet
 export async function detectNewProjects(text: string): Promise<string[]> {
-  const allProjects = await getAllProjects();
-  const projectHandles = new Set(allProjects.map(p => p.project_handle.toLowerCase()));
+  // An old handle of an existing project isn't a new project
+  const projectHandles = (await loadAliasLookup()).handles;
 
   const newHandles: string[] = [];
 
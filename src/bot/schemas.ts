@@ -0,0 +1,181 @@
+import type { ValidationResult } from '../llm/index.js';
+import type { ExtractedFeature } from './extractor.js';
+import type { DetectedIntent } from './intent.js';
+import type { ModerationClassification } from './moderation.js';
+
+export const MAX_TITLE_LENGTH = 100;
+
+const INTENTS: DetectedIntent['intent'][] = [
+  'create_project',
+  'add_feature',
+  'top_features',
+  'new_features',
+  'feature_status',
+  'my_features',
+  'unknown',
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkTitleAndDescription(item: unknown, path: string, errors: string[]): { title: string; description: string } | null {
+  if (!isObject(item)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const title = typeof item.title === 'string' ? item.title.trim() : null;
+  const description = typeof item.description === 'string' ? item.description.trim() : null;
+
+  if (title === null) {
+    errors.push(`${path}.title must be a string`);
+  } else if (title.length === 0) {
+    errors.push(`${path}.title must not be empty`);
+  } else if (title.length > MAX_TITLE_LENGTH) {
+    errors.push(`${path}.title must be at most ${MAX_TITLE_LENGTH} characters (got ${title.length})`);
+  }
+
+  if (description === null) {
+    errors.push(`${path}.description must be a string`);
+  } else if (description.length === 0) {
+    errors.push(`${path}.description must not be empty`);
+  }
+
+  if (!title || !description || title.length > MAX_TITLE_LENGTH) {
+    return null;
+  }
+  return { title, description };
+}
+
+/**
+ * Validate LLM output for extractFeatures: an array of { title, description, subItems? }
+ */
+export function validateExtractedFeatures(data: unknown): ValidationResult<ExtractedFeature[]> {
+  if (!Array.isArray(data)) {
+    return { ok: false, errors: ['Response must be a JSON array of features'] };
+  }
+
+  const errors: string[] = [];
+  const features: ExtractedFeature[] = [];
+
+  data.forEach((item, i) => {
+    const base = checkTitleAndDescription(item, `[${i}]`, errors);
+    const rawSubItems = isObject(item) ? item.subItems : undefined;
+
+    const subItems: ExtractedFeature['subItems'] = [];
+    if (rawSubItems !== undefined && rawSubItems !== null) {
+      if (!Array.isArray(rawSubItems)) {
+        errors.push(`[${i}].subItems must be an array`);
+      } else {
+        rawSubItems.forEach((sub, j) => {
+          const parsed = checkTitleAndDescription(sub, `[${i}].subItems[${j}]`, errors);
+          if (parsed) subItems.push(parsed);
+        });
+      }
+    }
+
+    if (base) {
+      features.push(subItems.length > 0 ? { ...base, subItems } : base);
+    }
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: features };
+}
+
+/**
+ * Validate LLM output for detectIntent
+ */
+export function validateDetectedIntent(data: unknown): ValidationResult<DetectedIntent> {
+  if (!isObject(data)) {
+    return { ok: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+
+  const intent = data.intent as DetectedIntent['intent'];
+  if (!INTENTS.includes(intent)) {
+    errors.push(`intent must be one of ${INTENTS.map(i => `"${i}"`).join(', ')}`);
+  }
+
+  let targetProjects: string[] = [];
+  if (data.targetProjects !== undefined) {
+    if (!Array.isArray(data.targetProjects) || !data.targetProjects.every(p => typeof p === 'string')) {
+      errors.push('targetProjects must be an array of strings');
+    } else {
+      targetProjects = data.targetProjects
+        .map(p => (p as string).trim().replace(/^@/, '').toLowerCase())
+        .filter(Boolean);
+    }
+  }
+
+  const newProjectName = data.newProjectName;
+  if (newProjectName !== undefined && newProjectName !== null && typeof newProjectName !== 'string') {
+    errors.push('newProjectName must be a string');
+  }
+  if (intent === 'create_project' && (typeof newProjectName !== 'string' || !newProjectName.trim())) {
+    errors.push('newProjectName is required for create_project');
+  }
+
+  const featureName = data.featureName;
+  if (featureName !== undefined && featureName !== null && typeof featureName !== 'string') {
+    errors.push('featureName must be a string');
+  }
+  if (intent === 'feature_status' && (typeof featureName !== 'string' || !featureName.trim())) {
+    errors.push('featureName is required for feature_status');
+  }
+
+  const confidence = data.confidence;
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+    errors.push('confidence must be a number between 0 and 1');
+  }
+
+  if (data.reasoning !== undefined && typeof data.reasoning !== 'string') {
+    errors.push('reasoning must be a string');
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      intent,
+      targetProjects,
+      ...(typeof newProjectName === 'string' && newProjectName.trim() && { newProjectName: newProjectName.trim() }),
+      ...(typeof featureName === 'string' && featureName.trim() && { featureName: featureName.trim() }),
+      confidence: confidence as number,
+      ...(typeof data.reasoning === 'string' && { reasoning: data.reasoning }),
+    },
+  };
+}
+
+const MODERATION_CATEGORIES: ModerationClassification['category'][] = ['ok', 'toxic', 'spam', 'joke'];
+
+/**
+ * Validate LLM output for the moderation classifier
+ */
+export function validateModerationClassification(data: unknown): ValidationResult<ModerationClassification> {
+  if (!isObject(data)) {
+    return { ok: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+
+  const category = data.category as ModerationClassification['category'];
+  if (!MODERATION_CATEGORIES.includes(category)) {
+    errors.push(`category must be one of ${MODERATION_CATEGORIES.map(c => `"${c}"`).join(', ')}`);
+  }
+
+  const confidence = data.confidence;
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+    errors.push('confidence must be a number between 0 and 1');
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, value: { category, confidence: confidence as number } };
+}
@@ -1,134 +1,203 @@
-import { supabase } from '../db/client.js';
-
-interface SimilarFeature {
-  id: string;
-  title: string;
-  description: string;
-  similarity: number;
+import { getRepository, type SimilarFeature } from '../db/repository.js';
+import { getFeatureById } from '../db/features.js';
+import {
+  embed,
+  embedWith,
+  embeddingModelId,
+  getPrimaryEmbeddingLink,
+  LOCAL_EMBEDDING_LINK,
+  type ChainLink
+} from '../llm/index.js';
+import { enqueueJob } from '../queue/index.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('similarity');
+
+const SIMILARITY_THRESHOLD = parseFloat(process.env.SIMILARITY_THRESHOLD || '0.85');
+// Hashed n-gram vectors score lower than neural embeddings for the same pair of texts
+const LOCAL_SIMILARITY_THRESHOLD = parseFloat(process.env.LOCAL_SIMILARITY_THRESHOLD || '0.75');
+// Matches between the confirm and merge thresholds are "gray zone": the requester is asked first
+const SIMILARITY_CONFIRM_THRESHOLD = parseFloat(process.env.SIMILARITY_CONFIRM_THRESHOLD || '0.75');
+const LOCAL_SIMILARITY_CONFIRM_THRESHOLD = parseFloat(process.env.LOCAL_SIMILARITY_CONFIRM_THRESHOLD || '0.6');
+const LOCAL_MODEL_ID = embeddingModelId(LOCAL_EMBEDDING_LINK);
+// A feature created while the primary embedding provider was down gets its vector this much later
+const EMBEDDING_RETRY_DELAY_MS = parseInt(process.env.EMBEDDING_RETRY_DELAY_MS || '600000');
+
+export const EMBEDDING_JOB = 'feature-embedding';
+
+export interface SimilarityThresholds {
+  merge: number;
+  confirm: number;
 }
 
-// GLM API configuration
-const GLM_API_URL = 'https://open.bigmodel.cn/api/paas/v4/';
-
-async function callGLMAPI(endpoint: string, body: any) {
-  const response = await fetch(`${GLM_API_URL}${endpoint}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${process.env.GLM_API_KEY}`,
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`GLM API error: ${response.status} ${error}`);
-  }
+export interface SimilarityMatch extends SimilarFeature {
+  // Above the merge threshold; otherwise the match is in the gray zone and needs confirmation
+  confident: boolean;
+}
 
-  return response.json();
+/**
+ * Cosine similarity thresholds for vectors from `modelId`
+ */
+export function getSimilarityThresholds(modelId: string): SimilarityThresholds {
+  const merge = modelId === LOCAL_MODEL_ID ? LOCAL_SIMILARITY_THRESHOLD : SIMILARITY_THRESHOLD;
+  const confirm = modelId === LOCAL_MODEL_ID ? LOCAL_SIMILARITY_CONFIRM_THRESHOLD : SIMILARITY_CONFIRM_THRESHOLD;
+  return { merge, confirm: Math.min(confirm, merge) };
 }
 
 /**
- * Find features similar to the given title and description using vector search
+ * Find features similar to the given title and description using vector search.
+ * Returns everything above the confirm threshold, best first.
  */
 export async function findSimilarFeatures(
   projectId: string,
   title: string,
   description: string
-): Promise<SimilarFeature[]> {
+): Promise<SimilarityMatch[]> {
   try {
     // Generate embedding for the query
     const queryText = `${title}. ${description}`;
-    const embedding = await generateEmbedding(queryText);
-
-    console.log(`[Similarity] Generated embedding for: "${title.slice(0, 50)}..."`);
-
-    // Use pgvector similarity search via RPC
-    const { data, error } = await supabase.rpc('match_features', {
-      query_embedding: embedding,
-      match_threshold: parseFloat(process.env.SIMILARITY_THRESHOLD || '0.85'),
-      match_count: 5,
-      project_filter: projectId
-    });
-
-    if (error) {
-      console.error('[Similarity] Vector search error:', error);
-      return [];
-    }
-
-    const results = (data || []) as SimilarFeature[];
-    console.log(`[Similarity] Found ${results.length} similar feature(s)`);
-
-    return results;
+    const { embedding, model } = await generateEmbedding(queryText);
+
+    log.debug(`Generated ${model} embedding for: "${title.slice(0, 50)}..."`);
+
+    // Vectors from different models live in different spaces, so only compare like with like
+    const thresholds = getSimilarityThresholds(model);
+    const repo = await getRepository();
+    const results = await repo.features.matchSimilar(
+      projectId,
+      model,
+      embedding,
+      thresholds.confirm,
+      5
+    );
+    log.info(`Found ${results.length} similar feature(s)`);
+
+    return results.map(result => ({ ...result, confident: result.similarity > thresholds.merge }));
   } catch (err) {
-    console.error('[Similarity] Error:', err);
+    log.error('Similarity search failed', err);
     return [];
   }
 }
 
 /**
- * Generate an embedding vector for the given text using GLM
+ * Generate an embedding vector for the given text via the embedding provider chain,
+ * along with the id of the model that produced it
  */
-async function generateEmbedding(text: string): Promise<number[]> {
+async function generateEmbedding(text: string): Promise<{ embedding: number[]; model: string }> {
   try {
-    const response = await callGLMAPI('embeddings', {
-      model: 'embedding-3',
-      input: text.trim(),
-      encoding_format: 'float',
-    }) as { data: Array<{ embedding: number[] }> };
-
-    // GLM returns 1024 dimensions
-    return response.data[0].embedding;
+    const { embedding, provider, model } = await embed(text);
+    return { embedding, model: embeddingModelId({ provider, model }) };
   } catch (err) {
-    console.error('[Similarity] Embedding generation error:', err);
+    log.error('Embedding generation error', err);
     throw err;
   }
 }
 
 /**
- * Store an embedding for a newly created feature
- * This should be called after creating a feature to enable similarity matching
+ * Store embeddings for a newly created feature
+ * This should be called after creating a feature to enable similarity matching.
+ * A local hashed vector is always stored too, so duplicates are still caught
+ * while the remote embedding provider is down.
  */
 export async function storeFeatureEmbedding(
   featureId: string,
   title: string,
   description: string
 ): Promise<void> {
+  const text = `${title}. ${description}`;
+  const repo = await getRepository();
+  let primaryModel: string | null = null;
+
   try {
-    const text = `${title}. ${description}`;
-    const embedding = await generateEmbedding(text);
+    const { embedding, model } = await generateEmbedding(text);
+    primaryModel = model;
+
+    log.debug(`Storing ${model} embedding for feature ${featureId}`);
+    await repo.features.storeEmbedding(featureId, model, embedding);
+  } catch (err) {
+    log.error('Error storing embedding', err);
+  }
 
-    console.log(`[Similarity] Storing embedding for feature ${featureId}`);
+  // The chain fell back (or failed): fetch the primary vector once the provider is back
+  const primaryLink = getPrimaryEmbeddingLink();
+  if (primaryLink && embeddingModelId(primaryLink) !== primaryModel) {
+    await scheduleEmbedding(featureId, embeddingModelId(primaryLink));
+  }
 
-    const { error } = await supabase
-      .from('features')
-      .update({ embedding })
-      .eq('id', featureId);
+  if (primaryModel === LOCAL_MODEL_ID) return;
 
-    if (error) {
-      console.error('[Similarity] Failed to store embedding:', error);
-    }
+  try {
+    const embedding = await embedWith(LOCAL_EMBEDDING_LINK, text);
+    await repo.features.storeEmbedding(featureId, LOCAL_MODEL_ID, embedding);
   } catch (err) {
-    console.error('[Similarity] Error storing embedding:', err);
+    log.error('Error storing local embedding', err);
+  }
+}
+
+async function scheduleEmbedding(featureId: string, model: string) {
+  try {
+    await enqueueJob({
+      type: EMBEDDING_JOB,
+      payload: { feature_id: featureId, model },
+      dedupe_key: `feature-embedding:${featureId}:${model}`,
+      run_at: new Date(Date.now() + EMBEDDING_RETRY_DELAY_MS)
+    });
+  } catch (err) {
+    log.error('Failed to schedule embedding', err);
   }
 }
 
 /**
- * Batch store embeddings for multiple features
- * Useful for backfilling existing features
+ * Job handler: store the `model` vector a feature missed at creation. Throws while the
+ * provider is still down, so the queue retries with backoff.
  */
-export async function batchStoreEmbeddings(
-  features: Array<{ id: string; title: string; description: string }>
-): Promise<void> {
-  console.log(`[Similarity] Batch storing embeddings for ${features.length} features`);
+export async function handleEmbeddingJob(payload: { feature_id: string; model: string }): Promise<void> {
+  const link = getPrimaryEmbeddingLink();
+  // The embedding chain changed since; the backfill covers the new model
+  if (!link || embeddingModelId(link) !== payload.model) return;
+
+  const feature = await getFeatureById(payload.feature_id);
+  if (!feature) return;
+
+  const embedding = await embedWith(link, `${feature.title}. ${feature.description}`);
+  const repo = await getRepository();
+  await repo.features.storeEmbedding(feature.id, payload.model, embedding);
+  log.info(`Stored ${payload.model} embedding for feature ${feature.id}`);
+}
 
-  for (const feature of features) {
-    await storeFeatureEmbedding(feature.id, feature.title, feature.description);
-    // Small delay to avoid rate limits
-    await sleep(200);
+/**
+ * Store a `link` vector for every feature that has none: local vectors for features created
+ * before they were kept, primary ones missed while the provider was down. A feature the
+ * provider fails on is skipped and counted; run it again to retry those.
+ */
+export async function backfillEmbeddings(link: ChainLink): Promise<{ stored: number; failed: number }> {
+  const model = embeddingModelId(link);
+  const repo = await getRepository();
+  let stored = 0;
+  let failed = 0;
+  let afterId: string | null = null;
+
+  for (;;) {
+    const features = await repo.features.listMissingEmbedding(model, afterId, 100);
+    if (features.length === 0) break;
+
+    for (const feature of features) {
+      try {
+        const embedding = await embedWith(link, `${feature.title}. ${feature.description}`);
+        await repo.features.storeEmbedding(feature.id, model, embedding);
+        stored++;
+      } catch (err) {
+        log.warn(`No ${model} embedding for feature ${feature.id}`, err);
+        failed++;
+      }
+      // Small delay to avoid rate limits
+      if (model !== LOCAL_MODEL_ID) await sleep(200);
+    }
+    afterId = features[features.length - 1].id;
   }
 
-  console.log('[Similarity] Batch embedding storage complete');
+  log.info(`Backfilled ${stored} ${model} embedding(s), ${failed} failed`);
+  return { stored, failed };
 }
 
 function sleep(ms: number): Promise<void> {
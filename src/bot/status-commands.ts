@@ -0,0 +1,78 @@
+import { canTransition, type FeatureStatus } from './lifecycle.js';
+import { scheduleStatusNotifications } from './notifications.js';
+import {
+  getFeatureById,
+  updateFeatureStatus,
+  recordStatusChange,
+  type Feature
+} from '../db/features.js';
+import { getProjectById, hasProjectRole } from '../db/projects.js';
+import { getAnnouncedFeatureIds } from '../db/announcements.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('status');
+
+export type StatusCommandResult =
+  | { status: 'no_feature' }
+  | { status: 'ambiguous'; titles: string[] }
+  | { status: 'forbidden' }
+  | { status: 'unchanged'; feature: Feature }
+  | { status: 'invalid'; feature: Feature; to: FeatureStatus }
+  | { status: 'changed'; feature: Feature; from: string; to: FeatureStatus };
+
+/**
+ * Apply "@roadmapr mark <status>" sent as a reply to a feature's announcement cast.
+ * Only project owners and admins may change status, and only along the lifecycle.
+ */
+export async function applyStatusCommand(
+  announcementHash: string,
+  fid: number,
+  to: FeatureStatus,
+  commandCastHash: string
+): Promise<StatusCommandResult> {
+  const features: Feature[] = [];
+  for (const id of await getAnnouncedFeatureIds(announcementHash)) {
+    const feature = await getFeatureById(id);
+    if (feature) features.push(feature);
+  }
+
+  if (features.length === 0) {
+    return { status: 'no_feature' };
+  }
+  if (features.length > 1) {
+    return { status: 'ambiguous', titles: features.map(f => f.title) };
+  }
+
+  const feature = features[0];
+  const project = await getProjectById(feature.project_id);
+  if (!project || !(await hasProjectRole(project, fid, 'admin'))) {
+    return { status: 'forbidden' };
+  }
+
+  if (feature.status === to) {
+    return { status: 'unchanged', feature };
+  }
+  if (!canTransition(feature.status, to)) {
+    return { status: 'invalid', feature, to };
+  }
+
+  // Conditional on the status we checked, so two admins can't skip a step between them
+  if (!(await updateFeatureStatus(feature.id, feature.status, to))) {
+    const current = await getFeatureById(feature.id);
+    return current?.status === to
+      ? { status: 'unchanged', feature: current }
+      : { status: 'invalid', feature: current || feature, to };
+  }
+
+  const change = await recordStatusChange({
+    feature_id: feature.id,
+    from_status: feature.status,
+    to_status: to,
+    changed_by_fid: fid,
+    cast_hash: commandCastHash
+  });
+  await scheduleStatusNotifications(change);
+
+  log.info(`${feature.id}: ${feature.status} -> ${to} by FID ${fid}`);
+  return { status: 'changed', feature, from: feature.status, to };
+}
@@ -0,0 +1,121 @@
+import { additionalFeedback, insertFeature } from './feature-actions.js';
+import {
+  getFeatureById,
+  updateFeatureDescription,
+  removeFeatureSource,
+  deleteFeature
+} from '../db/features.js';
+import { getProjectById, hasProjectRole } from '../db/projects.js';
+import {
+  getActionsForReply,
+  getActionsForFeature,
+  getActionsForMention,
+  markActionReverted,
+  type BotAction
+} from '../db/actions.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('undo');
+
+export type UndoResult =
+  | { status: 'nothing' }
+  | { status: 'forbidden' }
+  // A created feature can't be removed once other requests were merged into it
+  | { status: 'blocked'; title: string }
+  | { status: 'undone'; reverted: Array<{ type: BotAction['type']; title: string }> };
+
+/**
+ * "@roadmapr undo" (mentions and punctuation around it are ignored)
+ */
+export function isUndoCommand(text: string): boolean {
+  const command = text.replace(/@\w+/g, ' ').replace(/[!.?]/g, ' ').trim().toLowerCase();
+  return /^(?:undo|unmerge|revert)(?:\s+(?:that|this|it))?$/.test(command);
+}
+
+/**
+ * Revert everything the bot announced in `replyCastHash`.
+ * Only the original requester or the project's owner, admins and moderators may undo.
+ */
+export async function undoActionsForReply(replyCastHash: string, fid: number): Promise<UndoResult> {
+  const actions = await getActionsForReply(replyCastHash);
+  if (actions.length === 0) {
+    return { status: 'nothing' };
+  }
+
+  for (const action of actions) {
+    if (action.requester_fid === fid) continue;
+    const project = await getProjectById(action.project_id);
+    if (!project || !(await hasProjectRole(project, fid, 'moderator'))) {
+      return { status: 'forbidden' };
+    }
+  }
+
+  return revertActions(actions, fid);
+}
+
+/**
+ * Revert everything still applied from one mention, for the admin dashboard
+ * (the API key stands in for the project roles)
+ */
+export async function undoActionsForMention(mentionCastHash: string): Promise<UndoResult> {
+  const actions = (await getActionsForMention(mentionCastHash)).filter(action => action.status === 'applied');
+  if (actions.length === 0) {
+    return { status: 'nothing' };
+  }
+  return revertActions(actions, null);
+}
+
+async function revertActions(actions: BotAction[], fid: number | null): Promise<UndoResult> {
+  for (const action of actions) {
+    if (action.type !== 'create') continue;
+    const mergedSince = (await getActionsForFeature(action.feature_id))
+      .filter(other => other.id !== action.id && other.type === 'merge');
+    if (mergedSince.length > 0) {
+      return { status: 'blocked', title: action.request.title };
+    }
+  }
+
+  const reverted: Array<{ type: BotAction['type']; title: string }> = [];
+  // Newest first, so later changes come off before the ones they built on
+  for (const action of [...actions].reverse()) {
+    // Skip anything another undo got to first
+    if (!(await markActionReverted(action.id, fid))) continue;
+
+    if (action.type === 'create') {
+      await revertCreate(action);
+    } else {
+      await revertMerge(action);
+    }
+    reverted.push({ type: action.type, title: action.request.title });
+  }
+
+  return reverted.length > 0 ? { status: 'undone', reverted } : { status: 'nothing' };
+}
+
+async function revertCreate(action: BotAction) {
+  await deleteFeature(action.feature_id);
+  log.info(`Deleted feature ${action.feature_id}`);
+}
+
+/**
+ * Take the request back out of the feature it was merged into and make it standalone
+ */
+async function revertMerge(action: BotAction) {
+  const feature = await getFeatureById(action.feature_id);
+  if (feature) {
+    const appended = additionalFeedback(action.request.description);
+    if (feature.description === action.after.description) {
+      await updateFeatureDescription(feature.id, action.before?.description ?? feature.description);
+    } else if (feature.description.includes(appended)) {
+      // Edited since (e.g. another merge): only remove our block
+      await updateFeatureDescription(feature.id, feature.description.replace(appended, ''));
+    }
+  }
+
+  if (action.after.source_id) {
+    await removeFeatureSource(action.after.source_id);
+  }
+
+  const { featureId } = await insertFeature(action.project_id, action.request, action.source);
+  log.info(`Unmerged from ${action.feature_id} into new feature ${featureId}`);
+}
@@ -4,36 +4,22 @@
  * Tone: Playful, dramatic, helpful, slightly chaotic
  */
 
-// OpenAI API for dynamic responses
-async function callOpenAI(prompt: string): Promise<string | null> {
-  if (!process.env.OPENAI_API_KEY) {
-    return null;
-  }
+import { statusLabel } from './lifecycle.js';
+import { chat } from '../llm/index.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('voice');
 
+// LLM for dynamic responses (null if no provider is available)
+async function callLLM(prompt: string): Promise<string | null> {
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.8,
-        max_tokens: 300,
-      }),
+    const { content } = await chat('voice', [{ role: 'user', content: prompt }], {
+      temperature: 0.8,
+      maxTokens: 300,
     });
-
-    if (!response.ok) {
-      console.error('[Voice] OpenAI error:', response.status);
-      return null;
-    }
-
-    const data = await response.json() as { choices: Array<{ message: { content: string } }> };
-    return data.choices[0]?.message?.content || null;
+    return content || null;
   } catch (err) {
-    console.error('[Voice] OpenAI fetch error:', err);
+    log.error('LLM error', err);
     return null;
   }
 }
@@ -79,14 +65,14 @@ LENGTH: Under 150 words, keep it punchy
 
 Generate the response now:`;
 
-  const llmResponse = await callOpenAI(prompt);
+  const llmResponse = await callLLM(prompt);
   if (llmResponse) {
-    console.log('[Voice] Using LLM-generated response');
+    log.debug('Using LLM-generated response');
     return llmResponse.trim();
   }
 
   // Fallback to template
-  console.log('[Voice] LLM unavailable, using template');
+  log.info('LLM unavailable, using template');
   return fallbackTemplate();
 }
 
@@ -160,6 +146,130 @@ export const BotVoice = {
     `Your voice has been ADDED to the chorus! 🗣️\n\n` +
     `Democracy in ACTION!`,
 
+  // Gray-zone duplicate check
+  confirmMerge: (title: string, existingTitle: string, project: string) =>
+    `🤔 HMMMM... DÉJÀ VU?\n\n` +
+    `"${title}" looks a LOT like "${existingTitle}" on ${project}!\n\n` +
+    `Same thing? Reply "yes" to merge them or "no" to add it as new!`,
+
+  mergeDecisionTimedOut: (title: string, existingTitle: string, merged: boolean) =>
+    `⏰ TICK TOCK... NO ANSWER!\n\n` +
+    (merged
+      ? `I merged "${title}" into "${existingTitle}" for you!`
+      : `I added "${title}" as its own feature!`) +
+    `\n\nDemocracy waits for NO ONE! 🤖`,
+
+  // Roadmap questions
+  noFeaturesYet: (project: string, handle: string) =>
+    `🦗 CRICKETS...\n\n` +
+    `${project} has no features yet!\n` +
+    `Be the first: reply to a cast with "@roadmapr for @${handle}"`,
+
+  featureNotFound: (name: string, project: string) =>
+    `🤔 HMMMM...\n\n` +
+    `I can't find "${name}" on ${project}!\n` +
+    `Check the spelling or browse roadmapr.xyz`,
+
+  noSubmissions: () =>
+    `📭 NOTHING YET!\n\n` +
+    `You haven't submitted any features.\n` +
+    `Reply to a cast with "@roadmapr for @project" to start!`,
+
+  // Undo
+  undone: (items: Array<{ type: 'create' | 'merge'; title: string }>) =>
+    `⏪ REWIND ACTIVATED!\n\n` +
+    items.map(item => item.type === 'merge'
+      ? `🔓 Unmerged "${item.title}" - it's its own feature now!`
+      : `🗑️ Removed "${item.title}"`
+    ).join('\n') +
+    `\n\nLike it never happened! 🤖`,
+
+  undoNothing: () =>
+    `🤔 HMMMM...\n\n` +
+    `Nothing to undo here!\n` +
+    `Reply "undo" to the message where I added or merged something.`,
+
+  undoForbidden: () =>
+    `🚫 NICE TRY, HUMAN!\n\n` +
+    `Only the person who asked or the project's owner, admins and moderators can undo that!`,
+
+  undoBlocked: (title: string) =>
+    `😰 UHHH...\n\n` +
+    `Other requests were merged into "${title}" since then, so I can't remove it!\n` +
+    `Ask the project owner to sort it out on roadmapr.xyz`,
+
+  // Status changes
+  statusChanged: (title: string, status: string) =>
+    `📣 STATUS UPDATE!\n\n` +
+    `"${title}" is now ${statusLabel(status)}!`,
+
+  statusUnchanged: (title: string, status: string) =>
+    `😅 ALREADY ON IT!\n\n` +
+    `"${title}" is already ${statusLabel(status)}.`,
+
+  statusInvalidTransition: (title: string, from: string, to: string, allowed: string[]) =>
+    `🚧 CAN'T SKIP AHEAD!\n\n` +
+    `"${title}" is ${statusLabel(from)}, so it can't go to ${statusLabel(to)}.\n` +
+    (allowed.length > 0
+      ? `Try: ${allowed.map(statusLabel).join(', ')}`
+      : `It can't change status from here.`),
+
+  statusForbidden: () =>
+    `🚫 NICE TRY, HUMAN!\n\n` +
+    `Only the project owner or its admins can change a feature's status!`,
+
+  statusAmbiguous: (titles: string[]) =>
+    `🤔 WHICH ONE?!\n\n` +
+    `That message covers ${titles.length} features:\n` +
+    titles.map(t => `• ${t}`).join('\n') +
+    `\n\nReply "mark ..." to the cast for just one of them!`,
+
+  statusNoFeature: () =>
+    `🤔 HMMMM...\n\n` +
+    `I don't know which feature that is!\n` +
+    `Reply "mark shipped" (or planned, in progress, declined) to the cast where I announced it.`,
+
+  // Status notifications
+  statusNotification: (title: string, project: string, status: string) =>
+    `📣 YOU ASKED, THEY LISTENED!\n\n` +
+    `"${title}" on ${project} is now ${statusLabel(status)}!\n` +
+    `Thanks for the idea, you visionary! 🤖`,
+
+  statusNotificationBatch: (title: string, project: string, status: string, usernames: string[]) =>
+    `📣 STATUS UPDATE!\n\n` +
+    `"${title}" on ${project} is now ${statusLabel(status)}!\n\n` +
+    `Heads up ${usernames.map(u => `@${u}`).join(' ')} 🎯`,
+
+  following: (titles: string[]) =>
+    `🔔 YOU'RE ON THE LIST!\n\n` +
+    titles.map(t => `• ${t}`).join('\n') +
+    `\n\nI'll ping you when ${titles.length === 1 ? 'it moves' : 'they move'}!`,
+
+  unfollowed: (titles: string[]) =>
+    `🔕 GOT IT!\n\n` +
+    `No more updates about:\n` +
+    titles.map(t => `• ${t}`).join('\n'),
+
+  followNothing: () =>
+    `🤔 HMMMM...\n\n` +
+    `I don't know which feature that is!\n` +
+    `Reply "follow" to the cast where I announced it.`,
+
+  // Votes
+  voteCounted: (results: Array<{ title: string; total: number }>) =>
+    `🗳️ VOTE COUNTED!\n\n` +
+    results.map(r => `• ${r.title} (${Math.round(r.total * 100) / 100} votes)`).join('\n') +
+    `\n\nDemocracy, baby! 🤖`,
+
+  voteAlreadyCounted: () =>
+    `😅 ALREADY GOT YOU!\n\n` +
+    `One vote per person - yours is already in!`,
+
+  voteNothing: () =>
+    `🤔 HMMMM...\n\n` +
+    `I don't know which feature that is!\n` +
+    `Reply "+1" (or like) the cast where I announced it.`,
+
   // Error/clarification messages
   noParentCast: () =>
     `${confused()}\n\n` +
@@ -171,12 +281,22 @@ export const BotVoice = {
     `💥 BOOM! Feature added!\n\n` +
     `Or reply to me if I ask for more info!`,
 
-  rateLimited: () =>
+  rateLimited: (perDay: number, retryIn: string) =>
     `😱 SLOW DOWN THERE, SPEED DEMON!\n\n` +
-    `You've hit your daily limit (20 features/day).\n` +
-    `Come back TOMORROW for more feature-adding fun!\n\n` +
+    `You've hit your limit (${perDay} requests/day).\n` +
+    `Try again in ${retryIn} for more feature-adding fun!\n\n` +
     `🌙 Goodbye for now!`,
 
+  projectRateLimited: (projectName: string, retryIn: string) =>
+    `🚦 WHOA, TRAFFIC JAM!\n\n` +
+    `${projectName} is getting a LOT of requests right now.\n` +
+    `Try again in ${retryIn} and I'll add yours!`,
+
+  projectUserRateLimited: (projectName: string, perDay: number, retryIn: string) =>
+    `😱 EASY THERE!\n\n` +
+    `${projectName} takes ${perDay} requests/day per person, and you've used them all.\n` +
+    `Try again in ${retryIn}!`,
+
   lowNeynarScore: () =>
     `🤖 BEEP BOOP!\n\n` +
     `My spam sensors are TINGLING!\n` +
@@ -191,7 +311,7 @@ export const BotVoice = {
     `• "@roadmapr for base" - with @handle\n` +
     `• "@roadmapr for Base" - with project name\n` +
     `• "@roadmapr @base" - just tag it!\n\n` +
-    `What project needs this feature? TELL ME!`,
+    `Or just reply here with the @handle and I'll pick it right back up!`,
 
   multipleProjects: (projects: Array<{handle: string, name: string}>) => {
     const list = projects.map(p => `• @${p.handle} (${p.name})`).join('\n');
@@ -199,7 +319,7 @@ export const BotVoice = {
       `${confused()}\n\n` +
       `🤖 WHOOPS! Too many projects detected!\n\n` +
       `Which one do you mean?\n\n${list}\n\n` +
-      `Reply with the project name and I'll get right on it!`
+      `Reply with the @handle - or "both" to add it to all of them!`
     );
   },
 
@@ -226,14 +346,14 @@ export const BotVoice = {
     `🆕 NEW PROJECT ALERT! @${projectHandle}!\n\n` +
     `Let's get this set up! Reply with:\n\n` +
     `• Owner (@username or FID - I'll assume @${requesterFid} if you don't specify)\n` +
-    `• Token type ("clanker" for token voting, anything else for score voting)\n\n` +
+    `• Token (an address or "clanker" for token voting, "none" for score voting)\n\n` +
     `Example:\n` +
     `"Owner: @${requesterFid}, Token: clanker"\n\n` +
     `Or just:\n` +
     `"Owner: me, Token: clanker"\n\n` +
     `I'll use the bio from @${projectHandle}'s Farcaster profile! 📝\n` +
     `(If @${projectHandle} has no bio, I'll ask for a description)\n\n` +
-    `Let's make it happen! 💪`,
+    `Reply "cancel" to stop. Let's make it happen! 💪`,
 
   noFeatureExtracted: () =>
     `${confused()}\n\n` +
@@ -260,6 +380,257 @@ export const BotVoice = {
     `Try again with a valid @username or FID!\n\n` +
     `🤖 Confused robot needs help!`,
 
+  projectSetupAskToken: (projectHandle: string) =>
+    `🪙 NEXT UP: VOTING!\n\n` +
+    `How should votes on @${projectHandle} be weighted?\n\n` +
+    `• A token address (0x...) - weight by holdings\n` +
+    `• "clanker" - token voting, token comes later\n` +
+    `• "none" - weight by Neynar score\n\n` +
+    `Reply "cancel" to stop.`,
+
+  projectSetupAskBio: (projectHandle: string) =>
+    `📝 ALMOST THERE!\n\n` +
+    `@${projectHandle} has no bio on Farcaster.\n` +
+    `Reply with a short description of the project (or "skip").`,
+
+  projectSetupDidntCatch: (projectHandle: string, step: string) =>
+    `🤔 HMMMM...\n\n` +
+    `I didn't catch that for @${projectHandle}!\n` +
+    (step === 'owner'
+      ? `Who owns it? Reply with an @username, FID or "me".`
+      : step === 'token'
+        ? `Reply with a token address, "clanker" or "none".`
+        : `Reply with a short description (or "skip").`) +
+    `\n\nOr reply "cancel" to stop.`,
+
+  projectSetupCancelled: (projectHandle: string) =>
+    `🛑 SETUP CANCELLED!\n\n` +
+    `Forgot all about @${projectHandle}.\n` +
+    `Mention me again whenever you're ready! 🤖`,
+
+  clarificationDidntCatch: (candidates: string[]) =>
+    `🤔 HMMMM...\n\n` +
+    `Still not sure which project you mean!\n` +
+    (candidates.length > 1
+      ? `Reply with ${candidates.map(h => `@${h}`).join(' or ')} - or "both" for all of them.`
+      : `Reply with the project's @handle.`) +
+    `\n\nOr reply "cancel" to drop it.`,
+
+  clarificationCancelled: () =>
+    `🛑 DROPPED!\n\n` +
+    `Nothing was added.\n` +
+    `Mention me again whenever you're ready! 🤖`,
+
+  // Ownership
+  projectVerified: (projectHandle: string, ownerUsername: string) =>
+    `${celebrate()}\n\n` +
+    `✅ VERIFIED!\n\n` +
+    `@${projectHandle} is officially run by @${ownerUsername}.\n` +
+    `Status commands are unlocked! 🔓`,
+
+  projectAlreadyVerified: (projectHandle: string) =>
+    `😎 ALREADY ON IT!\n\n` +
+    `@${projectHandle} is already verified!`,
+
+  ownershipForbidden: (projectHandle: string) =>
+    `🚫 NICE TRY, HUMAN!\n\n` +
+    `Only the owner of @${projectHandle} (or the @${projectHandle} account itself) can do that!`,
+
+  ownershipNotAsked: (projectHandle: string) =>
+    `🙅 NOT YOUR CALL!\n\n` +
+    `That question about @${projectHandle} was for someone else!`,
+
+  ownershipNotVerified: (projectHandle: string) =>
+    `🔒 NOT SO FAST!\n\n` +
+    `@${projectHandle} isn't verified yet.\n` +
+    `The owner needs to "@roadmapr verify @${projectHandle}" first!`,
+
+  transferRequested: (projectHandle: string, newOwnerUsername: string) =>
+    `🤝 HANDOVER INCOMING!\n\n` +
+    `@${newOwnerUsername}, you're being handed @${projectHandle}!\n\n` +
+    `Reply "accept" to take it over or "decline" to pass.`,
+
+  transferAccepted: (projectHandle: string, newOwnerUsername: string) =>
+    `${celebrate()}\n\n` +
+    `🔑 NEW OWNER!\n\n` +
+    `@${projectHandle} now belongs to @${newOwnerUsername}. Treat it well! 🫡`,
+
+  ownershipDeclined: (projectHandle: string) =>
+    `👌 NO WORRIES!\n\n` +
+    `Nothing changes for @${projectHandle}.`,
+
+  ownershipStale: (projectHandle: string) =>
+    `🤔 HMMMM...\n\n` +
+    `@${projectHandle} changed hands since that was asked.\n` +
+    `Nothing happened - the current owner can start a new transfer!`,
+
+  // Project admins
+  adminForbidden: (projectHandle: string) =>
+    `🚫 NICE TRY, HUMAN!\n\n` +
+    `Only the owner of @${projectHandle} can manage its admins!`,
+
+  adminAdded: (projectHandle: string, username: string, role: string, previousRole: string | null) =>
+    `🛡️ ${previousRole ? 'ROLE CHANGED' : 'NEW TEAM MEMBER'}!\n\n` +
+    `@${username} is now ${role === 'admin' ? 'an admin' : 'a moderator'} of @${projectHandle}` +
+    `${previousRole ? ` (was ${previousRole})` : ''}! 🤝`,
+
+  adminUnchanged: (projectHandle: string, username: string, role: string) =>
+    `😎 ALREADY ON IT!\n\n` +
+    `@${username} is already ${role === 'admin' ? 'an admin' : 'a moderator'} of @${projectHandle}!`,
+
+  adminRemoved: (projectHandle: string, username: string) =>
+    `👋 SEE YA!\n\n` +
+    `@${username} is no longer on the @${projectHandle} team.`,
+
+  adminNotFound: (projectHandle: string, username: string) =>
+    `🤔 HMMMM...\n\n` +
+    `@${username} isn't an admin of @${projectHandle}!`,
+
+  adminIsOwner: (projectHandle: string, username: string) =>
+    `👑 THAT'S THE BOSS!\n\n` +
+    `@${username} owns @${projectHandle}.\n` +
+    `To hand it over: "@roadmapr transfer @${projectHandle} to @someone"`,
+
+  adminList: (projectHandle: string, admins: Array<{ username: string; role: string }>) =>
+    `🛡️ TEAM @${projectHandle.toUpperCase()}:\n\n` +
+    admins.map(a => `• @${a.username} (${a.role})`).join('\n'),
+
+  // Project aliases
+  rateLimitForbidden: (projectHandle: string) =>
+    `🚫 NICE TRY, HUMAN!\n\n` +
+    `Only the owner of @${projectHandle} can change its limits!`,
+
+  rateLimits: (projectHandle: string, hourly: number, userDaily: number | null, changed: boolean) =>
+    `🚦 ${changed ? 'LIMITS UPDATED' : 'LIMITS'} FOR @${projectHandle.toUpperCase()}\n\n` +
+    `• Whole project: ${hourly > 0 ? `${hourly} requests/hour` : 'no limit'}\n` +
+    `• Per person: ${userDaily ? `${userDaily} requests/day` : 'no limit'}` +
+    (changed ? `\n\nChange it with "limit @${projectHandle} to 30 per hour" or "... 5 per user per day".` : ''),
+
+  aliasForbidden: (projectHandle: string) =>
+    `🚫 NICE TRY, HUMAN!\n\n` +
+    `Only the owner of @${projectHandle} can change its aliases!`,
+
+  aliasAdded: (projectHandle: string, alias: string) =>
+    `🏷️ GOT IT!\n\n` +
+    `${alias} now points to @${projectHandle}!`,
+
+  aliasExists: (projectHandle: string, alias: string) =>
+    `😎 ALREADY ON IT!\n\n` +
+    `${alias} already points to @${projectHandle}!`,
+
+  aliasTaken: (alias: string, otherHandle: string) =>
+    `⚔️ ALIAS CLASH!\n\n` +
+    `${alias} already belongs to @${otherHandle}.\n` +
+    `Pick something only your project answers to!`,
+
+  aliasInvalid: (alias: string) =>
+    `🤔 HMMMM...\n\n` +
+    `${alias} doesn't look like a valid alias.\n` +
+    `Try "$TICKER", "/channel", "@oldhandle" or a name (3+ characters).`,
+
+  aliasRemoved: (projectHandle: string, alias: string) =>
+    `🧹 CLEANED UP!\n\n` +
+    `${alias} no longer points to @${projectHandle}.`,
+
+  aliasNotFound: (projectHandle: string, alias: string) =>
+    `🤔 HMMMM...\n\n` +
+    `${alias} isn't an alias of @${projectHandle}!`,
+
+  aliasList: (projectHandle: string, aliases: string[]) =>
+    aliases.length === 0
+      ? `🏷️ @${projectHandle} has no aliases yet!\n\nThe owner can add one: "@roadmapr add alias $TICKER to @${projectHandle}"`
+      : `🏷️ @${projectHandle} ALSO ANSWERS TO:\n\n` + aliases.map(a => `• ${a}`).join('\n'),
+
+  // Moderation
+  heldForReview: (titles: string[]) =>
+    `🛡️ HOLD UP!\n\n` +
+    (titles.length === 1
+      ? `"${titles[0]}" needs a quick look from a moderator before it goes live.`
+      : `These need a quick look from a moderator before they go live:\n` + titles.map(t => `• ${t}`).join('\n')) +
+    `\n\nMods: reply "approve" or "reject" to this cast!`,
+
+  moderationApproved: (outcomes: Array<{ action: 'merged' | 'created'; title: string; project: string }>) =>
+    `✅ APPROVED!\n\n` +
+    outcomes.map(o => o.action === 'merged'
+      ? `• Merged into "${o.title}" on ${o.project}`
+      : `• Added "${o.title}" to ${o.project}`).join('\n') +
+    `\n\nReply "undo" to take it back!`,
+
+  moderationRejected: (titles: string[]) =>
+    `🗑️ REJECTED!\n\n` +
+    titles.map(t => `• ${t}`).join('\n') +
+    `\n\nIt won't show up anywhere.`,
+
+  moderationAlreadyReviewed: () =>
+    `😎 ALREADY HANDLED!\n\n` +
+    `Another moderator got there first!`,
+
+  moderationItemNotFound: (id: string, projectHandle: string) =>
+    `🤔 HMMMM...\n\n` +
+    `Nothing waiting with id ${id} on @${projectHandle}!\n` +
+    `Check "queue of @${projectHandle}"`,
+
+  moderationForbidden: (projectHandle?: string) =>
+    `🚫 NICE TRY, HUMAN!\n\n` +
+    `Only the ${projectHandle ? `moderators of @${projectHandle}` : `project's moderators`} can do that!`,
+
+  moderationQueue: (projectHandle: string, items: Array<{ id: string; title: string; reasons: string[] }>) =>
+    items.length === 0
+      ? `🧹 ALL CLEAR!\n\nNothing waiting for review on @${projectHandle}!`
+      : `🛡️ WAITING FOR REVIEW ON @${projectHandle.toUpperCase()}\n\n` +
+        items.map(i => `• ${i.id} "${i.title}" (${i.reasons.join(', ')})`).join('\n') +
+        `\n\nReply "approve <id> on @${projectHandle}" or "reject ..."`,
+
+  moderationRules: (projectHandle: string, rules: Array<{ kind: string; value: string }>) =>
+    rules.length === 0
+      ? `🛡️ @${projectHandle} has no moderation rules yet!\n\nAdmins can add one: "@roadmapr filter keyword airdrop on @${projectHandle}"`
+      : `🛡️ MODERATION RULES FOR @${projectHandle.toUpperCase()}\n\n` +
+        rules.map(r => r.kind === 'fid' ? `• blocked: @${r.value}` : `• ${r.kind}: ${r.value}`).join('\n'),
+
+  moderationRuleAdded: (projectHandle: string, rule: { kind: string; value: string }) =>
+    rule.kind === 'fid'
+      ? `🔇 BLOCKED!\n\nI'll ignore requests from @${rule.value} on @${projectHandle}.`
+      : `🛡️ GOT IT!\n\nRequests for @${projectHandle} mentioning ${rule.value} will wait for a moderator.`,
+
+  moderationRuleExists: (projectHandle: string, rule: { kind: string; value: string }) =>
+    `😎 ALREADY ON IT!\n\n` +
+    (rule.kind === 'fid' ? `@${rule.value} is already blocked` : `${rule.value} is already filtered`) +
+    ` on @${projectHandle}!`,
+
+  moderationRuleRemoved: (projectHandle: string, rule: { kind: string; value: string }) =>
+    `👋 DONE!\n\n` +
+    (rule.kind === 'fid' ? `@${rule.value} is unblocked` : `${rule.value} is no longer filtered`) +
+    ` on @${projectHandle}.`,
+
+  moderationRuleNotFound: (projectHandle: string, rule: { kind: string; value: string }) =>
+    `🤔 HMMMM...\n\n` +
+    (rule.kind === 'fid' ? `@${rule.value} isn't blocked` : `${rule.value} isn't filtered`) +
+    ` on @${projectHandle}!`,
+
+  featureHidden: (title: string, hidden: boolean) =>
+    hidden
+      ? `🙈 HIDDEN!\n\n"${title}" is off the board. Reply "unhide" to bring it back.`
+      : `👀 BACK!\n\n"${title}" is on the board again!`,
+
+  featureHiddenUnchanged: (title: string, hidden: boolean) =>
+    `😎 ALREADY ON IT!\n\n` +
+    `"${title}" is already ${hidden ? 'hidden' : 'visible'}!`,
+
+  featureHiddenForbidden: () =>
+    `🚫 NICE TRY, HUMAN!\n\n` +
+    `Only the project's moderators can hide features!`,
+
+  featureHiddenAmbiguous: (titles: string[]) =>
+    `🤔 WHICH ONE?!\n\n` +
+    `That message covers ${titles.length} features:\n` +
+    titles.map(t => `• ${t}`).join('\n') +
+    `\n\nReply "hide" to the cast for just one of them!`,
+
+  featureHiddenNoFeature: () =>
+    `🤔 HMMMM...\n\n` +
+    `I don't know which feature that is!\n` +
+    `Reply "hide" to the cast where I announced it.`,
+
   couldNotDetermineProject: () =>
     `😰 OOPSIE!\n\n` +
     `I can't figure out WHICH PROJECT you're setting up!\n\n` +
@@ -278,6 +649,7 @@ export const BotVoice = {
     `Voting: ${project.voting_type === 'token' ? '🪙 Token' : '⭐ Score'}\n\n` +
     `Start adding features! Just reply to a cast with:\n` +
     `"@roadmapr for @${project.project_handle}"\n\n` +
+    `⚠️ Unverified until @${ownerUsername} (or @${project.project_handle}) replies "confirm" to this cast.\n\n` +
     `Let's goooo! 🚀`,
 
   parentCastNotFound: () =>
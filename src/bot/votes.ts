@@ -0,0 +1,146 @@
+import { getNeynarScore } from '../neynar/client.js';
+import { getTokenWeight } from '../token/index.js';
+import { getFeatureById, type Feature } from '../db/features.js';
+import { getProjectById, type Project } from '../db/projects.js';
+import { getAnnouncedFeatureIds } from '../db/announcements.js';
+import {
+  getVote,
+  recordVote,
+  removeLikeVote,
+  type VoteSource
+} from '../db/votes.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('votes');
+
+export const REACTION_JOB = 'reaction';
+
+export interface VoteResult {
+  featureId: string;
+  title: string;
+  counted: boolean;
+  total: number;
+}
+
+// Neynar reaction webhook (reaction.created / reaction.deleted)
+export interface ReactionEvent {
+  type: string;
+  data: {
+    reaction_type: number | string;
+    user: { fid: number };
+    cast: { hash: string };
+  };
+}
+
+/**
+ * "+1", "👍", "upvote" or "vote" (mentions and punctuation around it are ignored)
+ */
+export function isVoteCommand(text: string): boolean {
+  const command = text.replace(/@\w+/g, ' ').replace(/[!.]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+  return /^(?:\+1|👍(?:🏻|🏼|🏽|🏾|🏿)?|upvote|vote)(?: (?:this|it))?$/u.test(command);
+}
+
+/**
+ * How much a fid's vote counts on the project. "score" projects use the voter's
+ * Neynar score, "token" projects their balance of the project token.
+ */
+export async function voteWeight(project: Project, fid: number): Promise<number> {
+  if (project.voting_type === 'token') {
+    // No token set yet: one per voter until the owner adds it
+    if (!project.token_address) return 1;
+    try {
+      return await getTokenWeight(project.token_address, fid);
+    } catch (err) {
+      // The vote still counts, as one, rather than failing the voter's mention
+      log.warn(`Token weight unavailable for FID ${fid} on @${project.project_handle}, counting 1`, err);
+      return 1;
+    }
+  }
+  return getNeynarScore(fid);
+}
+
+/**
+ * Vote for every feature announced in `announcementHash`. A "+1" reply replaces an
+ * earlier like (so un-liking doesn't take it back); a like never replaces anything.
+ */
+export async function voteOnAnnouncement(
+  announcementHash: string,
+  fid: number,
+  source: VoteSource,
+  castHash: string
+): Promise<VoteResult[]> {
+  const results: VoteResult[] = [];
+
+  for (const feature of await announcedFeatures(announcementHash)) {
+    const notCounted = { featureId: feature.id, title: feature.title, counted: false, total: feature.total_weight };
+    // Saves looking up the weight; recordVote() checks again, in the same transaction as the write
+    const existing = await getVote(feature.id, fid);
+    if (existing && (existing.source === 'reply' || source === 'like')) {
+      results.push(notCounted);
+      continue;
+    }
+
+    const project = await getProjectById(feature.project_id);
+    if (!project) continue;
+
+    const weight = await voteWeight(project, fid);
+    const change = await recordVote({
+      feature_id: feature.id,
+      fid,
+      weight,
+      source,
+      cast_hash: castHash
+    });
+    if (!change) {
+      results.push(notCounted);
+      continue;
+    }
+    log.info(`FID ${fid} voted for ${feature.id} by ${source} (total: ${change.total})`);
+    results.push({ featureId: feature.id, title: feature.title, counted: change.previousWeight === null, total: change.total });
+  }
+
+  return results;
+}
+
+/**
+ * Un-liking an announcement takes back votes that came from that like
+ */
+export async function removeLikeVotes(announcementHash: string, fid: number): Promise<number> {
+  let removed = 0;
+
+  for (const feature of await announcedFeatures(announcementHash)) {
+    const total = await removeLikeVote(feature.id, fid);
+    if (total === null) continue;
+
+    log.info(`FID ${fid} removed their vote for ${feature.id} (total: ${total})`);
+    removed++;
+  }
+
+  return removed;
+}
+
+/**
+ * Job handler for reaction webhooks: likes on announcement casts are votes.
+ * Recasts and reactions to other casts are ignored.
+ */
+export async function handleReactionEvent(event: ReactionEvent): Promise<void> {
+  const { reaction_type, user, cast } = event.data || {};
+  if ((reaction_type !== 1 && reaction_type !== 'like') || !user?.fid || !cast?.hash) {
+    return;
+  }
+
+  if (event.type === 'reaction.created') {
+    await voteOnAnnouncement(cast.hash, user.fid, 'like', cast.hash);
+  } else if (event.type === 'reaction.deleted') {
+    await removeLikeVotes(cast.hash, user.fid);
+  }
+}
+
+async function announcedFeatures(announcementHash: string): Promise<Feature[]> {
+  const features: Feature[] = [];
+  for (const id of await getAnnouncedFeatureIds(announcementHash)) {
+    const feature = await getFeatureById(id);
+    if (feature) features.push(feature);
+  }
+  return features;
+}
@@ -0,0 +1,34 @@
+import { getRepository, type BotAction, type CreateBotActionParams } from './repository.js';
+
+export type { BotAction } from './repository.js';
+
+export async function recordBotAction(params: CreateBotActionParams): Promise<BotAction> {
+  const repo = await getRepository();
+  return repo.actions.create(params);
+}
+
+export async function linkActionsToReply(actionIds: string[], replyCastHash: string | null) {
+  if (!replyCastHash || actionIds.length === 0) return;
+  const repo = await getRepository();
+  await repo.actions.setReplyCast(actionIds, replyCastHash);
+}
+
+export async function getActionsForReply(replyCastHash: string): Promise<BotAction[]> {
+  const repo = await getRepository();
+  return repo.actions.getByReplyCast(replyCastHash);
+}
+
+export async function getActionsForFeature(featureId: string): Promise<BotAction[]> {
+  const repo = await getRepository();
+  return repo.actions.getByFeature(featureId);
+}
+
+export async function getActionsForMention(mentionCastHash: string): Promise<BotAction[]> {
+  const repo = await getRepository();
+  return repo.actions.listByMention(mentionCastHash);
+}
+
+export async function markActionReverted(actionId: string, revertedByFid: number | null): Promise<boolean> {
+  const repo = await getRepository();
+  return repo.actions.markReverted(actionId, revertedByFid);
+}
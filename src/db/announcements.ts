@@ -0,0 +1,15 @@
+import { getRepository } from './repository.js';
+
+/**
+ * Remember which features a bot cast announced, so replies to it can be matched back
+ */
+export async function recordAnnouncement(castHash: string | null, featureIds: string[]) {
+  if (!castHash || featureIds.length === 0) return;
+  const repo = await getRepository();
+  await repo.announcements.record(castHash, featureIds);
+}
+
+export async function getAnnouncedFeatureIds(castHash: string): Promise<string[]> {
+  const repo = await getRepository();
+  return repo.announcements.getFeatureIds(castHash);
+}
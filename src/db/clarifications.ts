@@ -0,0 +1,22 @@
+import {
+  getRepository,
+  type CreateClarificationParams,
+  type PendingClarification,
+} from './repository.js';
+
+export type { PendingClarification } from './repository.js';
+
+export async function createClarification(params: CreateClarificationParams): Promise<PendingClarification> {
+  const repo = await getRepository();
+  return repo.clarifications.create(params);
+}
+
+export async function getPendingClarification(promptCastHash: string): Promise<PendingClarification | null> {
+  const repo = await getRepository();
+  return repo.clarifications.getPendingByPromptCast(promptCastHash);
+}
+
+export async function resolveClarification(id: string, status: 'resumed' | 'cancelled'): Promise<boolean> {
+  const repo = await getRepository();
+  return repo.clarifications.resolve(id, status);
+}
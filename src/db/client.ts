@@ -1,10 +1,45 @@
 import { createClient } from '@supabase/supabase-js';
+import { intercept } from '../replay/intercept.js';
 
 if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
   throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_KEY');
 }
 
+interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// Route PostgREST requests through the I/O boundary so the replay harness can record them
+async function interceptedFetch(input: Parameters<typeof fetch>[0], init?: RequestInit): Promise<Response> {
+  const url = new URL(input instanceof Request ? input.url : input.toString());
+  const method = init?.method || 'GET';
+  const body = typeof init?.body === 'string' ? init.body : null;
+
+  const recorded = await intercept<RecordedResponse>(
+    'supabase',
+    `${method} ${url.pathname}${url.search}`,
+    [body],
+    async () => {
+      const response = await fetch(input, init);
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+      return { status: response.status, headers, body: await response.text() };
+    }
+  );
+
+  const hasBody = recorded.status !== 204 && recorded.status !== 304;
+  return new Response(hasBody ? recorded.body : null, {
+    status: recorded.status,
+    headers: recorded.headers,
+  });
+}
+
 export const supabase = createClient(
   process.env.SUPABASE_URL,
-  process.env.SUPABASE_SERVICE_KEY // Use service key to bypass RLS
+  process.env.SUPABASE_SERVICE_KEY, // Use service key to bypass RLS
+  { global: { fetch: interceptedFetch } }
 );
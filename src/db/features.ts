@@ -1,98 +1,135 @@
-import { supabase } from './client.js';
+import {
+  getRepository,
+  type CreateFeatureParams,
+  type Feature,
+  type FeatureChanges,
+  type FeatureCount,
+  type FeatureListFilter,
+  type FeatureSource,
+  type FeatureSourceRow,
+  type FeatureStatusChange,
+  type Tag,
+} from './repository.js';
 
-interface CreateFeatureParams {
-  project_id: string;
-  title: string;
-  description: string;
-  submitter_fid: number;
-  source_cast_hash?: string;
-  source_cast_author_fid?: number;
-  parent_feature_id?: string;
-  is_sub_item?: boolean;
-  tags?: string[];
-}
+export type { Feature, FeatureChanges, FeatureCount, FeatureListFilter, FeatureSourceRow, FeatureStatusChange } from './repository.js';
 
 export async function createFeature(params: CreateFeatureParams): Promise<string> {
-  const { data, error } = await supabase
-    .from('features')
-    .insert({
-      project_id: params.project_id,
-      title: params.title,
-      description: params.description,
-      submitter_fid: params.submitter_fid,
-      source_cast_hash: params.source_cast_hash || null,
-      source_cast_author_fid: params.source_cast_author_fid || null,
-      parent_feature_id: params.parent_feature_id || null,
-      is_sub_item: params.is_sub_item || false,
-      status: 'open',
-      total_weight: 0,
-    })
-    .select('id')
-    .single();
-
-  if (error) {
-    throw new Error(`Failed to create feature: ${error.message}`);
-  }
-
-  // Add tags if provided
-  if (params.tags && params.tags.length > 0) {
-    const tagInserts = params.tags.map(tagId => ({
-      feature_id: data.id,
-      tag_id: tagId
-    }));
-
-    await supabase.from('feature_tags').insert(tagInserts);
-  }
-
-  return data.id;
-}
-
-export async function addFeatureSource(
-  featureId: string,
-  source: {
-    source_cast_hash: string;
-    source_cast_author_fid?: number;
-    source_cast_text?: string;
-  }
-) {
-  const { error } = await supabase
-    .from('feature_sources')
-    .insert({
-      feature_id: featureId,
-      source_cast_hash: source.source_cast_hash,
-      source_cast_author_fid: source.source_cast_author_fid || null,
-      source_cast_text: source.source_cast_text || null,
-    });
-
-  if (error) {
-    console.error('Failed to add feature source:', error);
-  }
+  const repo = await getRepository();
+  return repo.features.create(params);
+}
+
+export async function addFeatureSource(featureId: string, source: FeatureSource): Promise<string | null> {
+  const repo = await getRepository();
+  return repo.features.addSource(featureId, source);
+}
+
+export async function removeFeatureSource(sourceId: string) {
+  const repo = await getRepository();
+  await repo.features.removeSource(sourceId);
+}
+
+export async function getFeatureSources(featureId: string): Promise<FeatureSourceRow[]> {
+  const repo = await getRepository();
+  return repo.features.listSources(featureId);
+}
+
+export async function deleteFeature(featureId: string) {
+  const repo = await getRepository();
+  await repo.features.delete(featureId);
 }
 
 export async function updateFeatureDescription(featureId: string, newDescription: string) {
-  const { error } = await supabase
-    .from('features')
-    .update({
-      description: newDescription,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', featureId);
-
-  if (error) {
-    console.error('Failed to update feature description:', error);
-  }
-}
-
-export async function getFeatureById(featureId: string) {
-  const { data, error } = await supabase
-    .from('features')
-    .select('*')
-    .eq('id', featureId)
-    .single();
-
-  if (error) {
-    return null;
-  }
-
-  return data;
+  const repo = await getRepository();
+  await repo.features.updateDescription(featureId, newDescription);
+}
+
+export async function getFeatureById(featureId: string): Promise<Feature | null> {
+  const repo = await getRepository();
+  return repo.features.getById(featureId);
+}
+
+export async function listFeatures(filter: FeatureListFilter): Promise<Feature[]> {
+  const repo = await getRepository();
+  return repo.features.list(filter);
+}
+
+export async function updateFeature(featureId: string, changes: FeatureChanges): Promise<Feature | null> {
+  const repo = await getRepository();
+  return repo.features.update(featureId, changes);
+}
+
+export async function getFeatureTags(featureId: string): Promise<Tag[]> {
+  const repo = await getRepository();
+  return repo.features.listTags(featureId);
+}
+
+export async function setFeatureTags(featureId: string, tagIds: string[]) {
+  const repo = await getRepository();
+  await repo.features.setTags(featureId, tagIds);
+}
+
+/**
+ * Fold `sourceId` into `targetId` (see FeatureRepository.mergeInto) and add the source's
+ * weight to the target's, less the votes of fids who voted on both (they keep the target's)
+ */
+export async function mergeFeatures(sourceId: string, targetId: string): Promise<number> {
+  const repo = await getRepository();
+  const source = await repo.features.getById(sourceId);
+  const targetVoters = new Set((await repo.votes.list(targetId)).map(vote => vote.fid));
+  const dropped = (await repo.votes.list(sourceId))
+    .filter(vote => targetVoters.has(vote.fid))
+    .reduce((sum, vote) => sum + Number(vote.weight), 0);
+
+  await repo.features.mergeInto(sourceId, targetId);
+  return repo.votes.addToTotal(targetId, (source?.total_weight ?? 0) - dropped);
+}
+
+export async function listTopFeatures(projectId: string, limit: number): Promise<Feature[]> {
+  const repo = await getRepository();
+  return repo.features.listTop(projectId, limit);
+}
+
+export async function listNewestFeatures(projectId: string, limit: number): Promise<Feature[]> {
+  const repo = await getRepository();
+  return repo.features.listNewest(projectId, limit);
+}
+
+export async function searchFeaturesByTitle(projectId: string, query: string, limit: number): Promise<Feature[]> {
+  const repo = await getRepository();
+  return repo.features.searchByTitle(projectId, query, limit);
+}
+
+export async function listFeaturesBySubmitter(fid: number, limit: number): Promise<Feature[]> {
+  const repo = await getRepository();
+  return repo.features.listBySubmitter(fid, limit);
+}
+
+export async function countFeaturesByStatus(): Promise<FeatureCount[]> {
+  const repo = await getRepository();
+  return repo.features.countByStatus();
+}
+
+export async function updateFeatureStatus(featureId: string, from: string, to: string): Promise<boolean> {
+  const repo = await getRepository();
+  return repo.features.updateStatus(featureId, from, to);
+}
+
+export async function setFeatureHidden(featureId: string, hidden: boolean): Promise<boolean> {
+  const repo = await getRepository();
+  return repo.features.setHidden(featureId, hidden);
+}
+
+export async function recordStatusChange(change: Omit<FeatureStatusChange, 'id' | 'created_at'>): Promise<FeatureStatusChange> {
+  const repo = await getRepository();
+  return repo.statusHistory.record(change);
+}
+
+export async function getStatusChange(id: string): Promise<FeatureStatusChange | null> {
+  const repo = await getRepository();
+  return repo.statusHistory.getById(id);
+}
+
+export async function getStatusHistory(featureId: string): Promise<FeatureStatusChange[]> {
+  const repo = await getRepository();
+  return repo.statusHistory.listForFeature(featureId);
 }
@@ -0,0 +1,32 @@
+import {
+  getRepository,
+  type CreateMergeDecisionParams,
+  type MergeDecision,
+  type MergeDecisionStatus,
+} from './repository.js';
+
+export type { MergeDecision, PendingFeature } from './repository.js';
+
+export async function createMergeDecision(params: CreateMergeDecisionParams): Promise<MergeDecision> {
+  const repo = await getRepository();
+  return repo.mergeDecisions.create(params);
+}
+
+export async function getMergeDecision(id: string): Promise<MergeDecision | null> {
+  const repo = await getRepository();
+  return repo.mergeDecisions.getById(id);
+}
+
+export async function getPendingMergeDecision(questionCastHash: string): Promise<MergeDecision | null> {
+  const repo = await getRepository();
+  return repo.mergeDecisions.getPendingByQuestionCast(questionCastHash);
+}
+
+export async function resolveMergeDecision(
+  id: string,
+  status: Exclude<MergeDecisionStatus, 'pending'>,
+  resolvedBy: 'reply' | 'timeout'
+): Promise<boolean> {
+  const repo = await getRepository();
+  return repo.mergeDecisions.resolve(id, status, resolvedBy);
+}
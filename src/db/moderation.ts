@@ -0,0 +1,66 @@
+import {
+  getRepository,
+  type CreateModerationItemParams,
+  type CreateModerationRuleParams,
+  type ModerationItem,
+  type ModerationItemStatus,
+  type ModerationRule,
+  type ModerationRuleKind,
+} from './repository.js';
+
+export type { ModerationItem, ModerationRule, ModerationRuleKind } from './repository.js';
+
+export async function getModerationRules(projectId: string | null): Promise<ModerationRule[]> {
+  const repo = await getRepository();
+  return repo.moderation.listRules(projectId);
+}
+
+export async function addModerationRule(params: CreateModerationRuleParams): Promise<ModerationRule | null> {
+  const repo = await getRepository();
+  return repo.moderation.addRule(params);
+}
+
+export async function removeModerationRule(projectId: string | null, kind: ModerationRuleKind, value: string): Promise<boolean> {
+  const repo = await getRepository();
+  return repo.moderation.removeRule(projectId, kind, value);
+}
+
+export async function queueForModeration(params: CreateModerationItemParams): Promise<ModerationItem> {
+  const repo = await getRepository();
+  return repo.moderation.enqueue(params);
+}
+
+export async function getModerationItem(id: string): Promise<ModerationItem | null> {
+  const repo = await getRepository();
+  return repo.moderation.getItem(id);
+}
+
+export async function listPendingModeration(projectId: string | null, limit: number): Promise<ModerationItem[]> {
+  const repo = await getRepository();
+  return repo.moderation.listPending(projectId, limit);
+}
+
+export async function getPendingModerationForNotice(castHash: string): Promise<ModerationItem[]> {
+  const repo = await getRepository();
+  return repo.moderation.getPendingByNoticeCast(castHash);
+}
+
+export async function getModerationForMention(castHash: string): Promise<ModerationItem[]> {
+  const repo = await getRepository();
+  return repo.moderation.listByMention(castHash);
+}
+
+export async function linkModerationNotice(ids: string[], castHash: string | null) {
+  if (!castHash || ids.length === 0) return;
+  const repo = await getRepository();
+  await repo.moderation.setNoticeCast(ids, castHash);
+}
+
+export async function reviewModerationItem(
+  id: string,
+  status: Exclude<ModerationItemStatus, 'pending'>,
+  reviewerFid: number | null
+): Promise<boolean> {
+  const repo = await getRepository();
+  return repo.moderation.review(id, status, reviewerFid);
+}
@@ -0,0 +1,39 @@
+import { getRepository } from './repository.js';
+
+export async function followFeature(featureId: string, fid: number): Promise<boolean> {
+  const repo = await getRepository();
+  return repo.notifications.follow(featureId, fid);
+}
+
+export async function unfollowFeature(featureId: string, fid: number): Promise<boolean> {
+  const repo = await getRepository();
+  return repo.notifications.unfollow(featureId, fid);
+}
+
+export async function getFeatureFollowers(featureId: string): Promise<number[]> {
+  const repo = await getRepository();
+  return repo.notifications.listFollowers(featureId);
+}
+
+export async function getNotifiedFids(statusChangeId: string): Promise<number[]> {
+  const repo = await getRepository();
+  return repo.notifications.listRecipients(statusChangeId);
+}
+
+/**
+ * Reserve a recipient before sending. Returns null if they were already claimed,
+ * so a retried job skips them instead of notifying twice.
+ */
+export async function claimNotification(
+  statusChangeId: string,
+  recipientFid: number,
+  replyToCastHash: string | null
+): Promise<string | null> {
+  const repo = await getRepository();
+  return repo.notifications.claim(statusChangeId, recipientFid, replyToCastHash);
+}
+
+export async function markNotificationsSent(ids: string[], sentCastHash: string | null) {
+  const repo = await getRepository();
+  await repo.notifications.markSent(ids, sentCastHash);
+}
@@ -0,0 +1,22 @@
+import {
+  getRepository,
+  type CreateOwnershipClaimParams,
+  type OwnershipClaim,
+} from './repository.js';
+
+export type { OwnershipClaim } from './repository.js';
+
+export async function createOwnershipClaim(params: CreateOwnershipClaimParams): Promise<OwnershipClaim> {
+  const repo = await getRepository();
+  return repo.ownershipClaims.create(params);
+}
+
+export async function getPendingOwnershipClaim(promptCastHash: string): Promise<OwnershipClaim | null> {
+  const repo = await getRepository();
+  return repo.ownershipClaims.getPendingByPromptCast(promptCastHash);
+}
+
+export async function resolveOwnershipClaim(id: string, status: 'confirmed' | 'declined'): Promise<boolean> {
+  const repo = await getRepository();
+  return repo.ownershipClaims.resolve(id, status);
+}
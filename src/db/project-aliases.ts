@@ -0,0 +1,35 @@
+import {
+  getRepository,
+  type CreateProjectAliasParams,
+  type ProjectAlias,
+  type ProjectAliasKind,
+} from './repository.js';
+import { getProjectIndex, invalidateProjectIndex } from './project-index.js';
+
+export type { ProjectAlias, ProjectAliasKind } from './repository.js';
+
+/**
+ * All aliases, from the cached project index (see project-index.ts)
+ */
+export async function getAllProjectAliases(): Promise<ProjectAlias[]> {
+  return (await getProjectIndex()).aliases;
+}
+
+export async function getProjectAliases(projectId: string): Promise<ProjectAlias[]> {
+  const repo = await getRepository();
+  return repo.projectAliases.listForProject(projectId);
+}
+
+export async function addProjectAlias(params: CreateProjectAliasParams): Promise<ProjectAlias | null> {
+  const repo = await getRepository();
+  const alias = await repo.projectAliases.add(params);
+  if (alias) invalidateProjectIndex();
+  return alias;
+}
+
+export async function removeProjectAlias(projectId: string, kind: ProjectAliasKind, value: string): Promise<boolean> {
+  const repo = await getRepository();
+  const removed = await repo.projectAliases.remove(projectId, kind, value);
+  if (removed) invalidateProjectIndex();
+  return removed;
+}
@@ -0,0 +1,49 @@
+import { getRepository, type Project, type ProjectAlias } from './repository.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('db');
+
+// How long the in-memory copy of all projects and aliases is trusted before it's reloaded
+const PROJECT_INDEX_TTL_MS = parseInt(process.env.PROJECT_INDEX_TTL_MS || '60000');
+
+/**
+ * Every project and alias, loaded once and shared by the router, intent detection
+ * and the processor. Treat it as read-only: a new object is built on every reload.
+ */
+export interface ProjectIndex {
+  projects: Project[];
+  aliases: ProjectAlias[];
+  loadedAt: number;
+}
+
+let cached: { index: Promise<ProjectIndex>; expiresAt: number } | null = null;
+
+export async function getProjectIndex(): Promise<ProjectIndex> {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.index;
+  }
+
+  const index = loadProjectIndex();
+  const entry = { index, expiresAt: Date.now() + PROJECT_INDEX_TTL_MS };
+  cached = entry;
+  // Don't keep serving a failed load
+  index.catch(() => {
+    if (cached === entry) cached = null;
+  });
+  return index;
+}
+
+/**
+ * Drop the cached index; the next read reloads it. Called whenever this process
+ * changes projects or aliases (other processes catch up within the TTL).
+ */
+export function invalidateProjectIndex() {
+  cached = null;
+}
+
+async function loadProjectIndex(): Promise<ProjectIndex> {
+  const repo = await getRepository();
+  const [projects, aliases] = await Promise.all([repo.projects.getAll(), repo.projectAliases.listAll()]);
+  log.info(`Loaded project index: ${projects.length} project(s), ${aliases.length} alias(es)`);
+  return { projects, aliases, loadedAt: Date.now() };
+}
@@ -0,0 +1,35 @@
+import {
+  getRepository,
+  type CreateProjectSetupParams,
+  type PendingProjectSetup,
+} from './repository.js';
+
+export type { PendingProjectSetup, ProjectSetupFields, ProjectSetupStep } from './repository.js';
+
+export async function createProjectSetup(params: CreateProjectSetupParams): Promise<PendingProjectSetup> {
+  const repo = await getRepository();
+  return repo.projectSetups.create(params);
+}
+
+export async function getPendingProjectSetup(castHash: string): Promise<PendingProjectSetup | null> {
+  const repo = await getRepository();
+  return repo.projectSetups.getPendingByCast(castHash);
+}
+
+export async function listPendingProjectSetups(limit: number): Promise<PendingProjectSetup[]> {
+  const repo = await getRepository();
+  return repo.projectSetups.listPending(limit);
+}
+
+export async function updateProjectSetup(
+  id: string,
+  changes: Pick<PendingProjectSetup, 'step' | 'fields' | 'prompt_cast_hash'>
+) {
+  const repo = await getRepository();
+  await repo.projectSetups.update(id, changes);
+}
+
+export async function finishProjectSetup(id: string, status: 'completed' | 'cancelled'): Promise<boolean> {
+  const repo = await getRepository();
+  return repo.projectSetups.finish(id, status);
+}
@@ -1,91 +1,101 @@
-import { supabase } from './client.js';
-
-export interface Project {
-  id: string;
-  name: string;
-  project_handle: string;
-  voting_type: 'score' | 'token';
-  token_address: string | null;
-  owner_fid: number | null;
-}
+import {
+  getRepository,
+  type CreateProjectParams,
+  type Project,
+  type ProjectAdmin,
+  type ProjectChanges,
+  type ProjectRateLimits,
+  type ProjectRole
+} from './repository.js';
+import { getProjectIndex, invalidateProjectIndex } from './project-index.js';
 
-export async function getProjectByHandle(handle: string): Promise<Project | null> {
-  const { data, error } = await supabase
-    .from('projects')
-    .select('id, name, project_handle, voting_type, token_address, owner_fid')
-    .eq('project_handle', handle.toLowerCase())
-    .single();
+export type { Project, ProjectAdmin, ProjectChanges, ProjectRateLimits, ProjectRole } from './repository.js';
 
-  if (error || !data) {
-    return null;
-  }
+const ROLE_RANK: Record<ProjectRole, number> = { moderator: 1, admin: 2, owner: 3 };
 
-  return data as Project;
+export async function getProjectByHandle(handle: string): Promise<Project | null> {
+  const repo = await getRepository();
+  return repo.projects.getByHandle(handle);
 }
 
 export async function getProjectById(id: string): Promise<Project | null> {
-  const { data, error } = await supabase
-    .from('projects')
-    .select('id, name, project_handle, voting_type, token_address, owner_fid')
-    .eq('id', id)
-    .single();
+  const repo = await getRepository();
+  return repo.projects.getById(id);
+}
+
+export async function createProject(params: CreateProjectParams): Promise<Project> {
+  const repo = await getRepository();
+  const project = await repo.projects.create(params);
+  invalidateProjectIndex();
+  return project;
+}
 
-  if (error || !data) {
-    return null;
-  }
+/**
+ * All projects, from the cached project index (see project-index.ts)
+ */
+export async function getAllProjects(): Promise<Project[]> {
+  return (await getProjectIndex()).projects;
+}
 
-  return data as Project;
+export async function verifyProject(projectId: string, ownerFid: number) {
+  const repo = await getRepository();
+  await repo.projects.verify(projectId, ownerFid);
+  invalidateProjectIndex();
 }
 
-export async function createProject(params: {
-  name: string;
-  project_handle: string;
-  owner_fid: number;
-  bio?: string;
-  voting_type?: 'score' | 'token';
-  token_address?: string;
-  created_by_bot?: boolean;
-}): Promise<Project> {
-  const { data, error } = await supabase
-    .from('projects')
-    .insert({
-      name: params.name,
-      project_handle: params.project_handle.toLowerCase(),
-      owner_fid: params.owner_fid,
-      creator_fid: params.owner_fid,
-      bio: params.bio || null,
-      voting_type: params.voting_type || 'score',
-      token_address: params.token_address || null,
-      created_by_bot: params.created_by_bot ?? true,
-      is_verified: false,
-    })
-    .select('id, name, project_handle, voting_type, token_address, owner_fid')
-    .single();
-
-  if (error) {
-    throw new Error(`Failed to create project: ${error.message}`);
-  }
-
-  // Add owner as admin
-  await supabase.from('project_admins').insert({
-    project_id: data.id,
-    fid: params.owner_fid,
-    role: 'owner',
-  });
-
-  return data as Project;
+export async function transferProjectOwner(projectId: string, fromFid: number, toFid: number): Promise<boolean> {
+  const repo = await getRepository();
+  const transferred = await repo.projects.transferOwner(projectId, fromFid, toFid);
+  if (transferred) invalidateProjectIndex();
+  return transferred;
 }
 
-export async function getAllProjects(): Promise<Project[]> {
-  const { data, error } = await supabase
-    .from('projects')
-    .select('id, name, project_handle, voting_type, token_address, owner_fid')
-    .order('name');
+export async function setProjectRateLimits(projectId: string, limits: ProjectRateLimits) {
+  const repo = await getRepository();
+  await repo.projects.setRateLimits(projectId, limits);
+  invalidateProjectIndex();
+}
 
-  if (error) {
-    console.error('[DB] Failed to get projects:', error.message);
-    return [];
-  }
+export async function updateProject(projectId: string, changes: ProjectChanges): Promise<Project | null> {
+  const repo = await getRepository();
+  const project = await repo.projects.update(projectId, changes);
+  invalidateProjectIndex();
+  return project;
+}
+
+/**
+ * The fid's role on the project. Nobody has one until the project is verified:
+ * until then the owner is just whoever was named.
+ */
+export async function getProjectRole(project: Project, fid: number): Promise<ProjectRole | null> {
+  if (!project.is_verified) return null;
+  if (project.owner_fid === fid) return 'owner';
+
+  const repo = await getRepository();
+  const role = await repo.projects.getAdminRole(project.id, fid);
+  // A stale "owner" row left from before a transfer counts for nothing
+  return role === 'owner' ? null : role;
+}
+
+/**
+ * Whether the fid holds `role` or a higher one (owner > admin > moderator)
+ */
+export async function hasProjectRole(project: Project, fid: number, role: ProjectRole): Promise<boolean> {
+  const actual = await getProjectRole(project, fid);
+  return actual !== null && ROLE_RANK[actual] >= ROLE_RANK[role];
+}
+
+export async function listProjectAdmins(projectId: string): Promise<ProjectAdmin[]> {
+  const repo = await getRepository();
+  return repo.projects.listAdmins(projectId);
+}
+
+export async function setProjectAdminRole(projectId: string, fid: number, role: Exclude<ProjectRole, 'owner'>, actorFid: number) {
+  const repo = await getRepository();
+  await repo.projects.setAdminRole(projectId, fid, role, actorFid);
+}
 
-  return (data || []) as Project[];
+export async function removeProjectAdmin(projectId: string, fid: number, actorFid: number): Promise<boolean> {
+  const repo = await getRepository();
+  return repo.projects.removeAdmin(projectId, fid, actorFid);
 }
@@ -0,0 +1,689 @@
+import type { BucketLimit, TakeResult } from '../ratelimit/bucket.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('db');
+
+export interface Project {
+  id: string;
+  name: string;
+  project_handle: string;
+  voting_type: 'score' | 'token';
+  token_address: string | null;
+  owner_fid: number | null;
+  // Set once the owner (or the project's own Farcaster account) confirmed
+  is_verified: boolean;
+  // Per-project overrides of the default rate limits (null: use the default)
+  rate_limit_hourly: number | null;
+  user_rate_limit_daily: number | null;
+}
+
+// What the admin API may change on a project (ownership only changes hands through the bot)
+export type ProjectChanges = Partial<Pick<Project, 'name' | 'voting_type' | 'token_address'>>;
+
+export interface ProjectRateLimits {
+  rate_limit_hourly: number | null;
+  user_rate_limit_daily: number | null;
+}
+
+export interface CreateProjectParams {
+  name: string;
+  project_handle: string;
+  owner_fid: number;
+  bio?: string;
+  voting_type?: 'score' | 'token';
+  token_address?: string;
+  created_by_bot?: boolean;
+}
+
+// Highest first: owners do everything, admins manage features, moderators clean up
+export type ProjectRole = 'owner' | 'admin' | 'moderator';
+
+export interface ProjectAdmin {
+  project_id: string;
+  fid: number;
+  role: ProjectRole;
+  created_at: string;
+}
+
+// One row per change to project_admins; role is null when the fid was removed
+export interface ProjectAdminChange {
+  id: string;
+  project_id: string;
+  fid: number;
+  role: ProjectRole | null;
+  previous_role: ProjectRole | null;
+  actor_fid: number;
+  created_at: string;
+}
+
+export interface Feature {
+  id: string;
+  project_id: string;
+  title: string;
+  description: string;
+  submitter_fid: number;
+  source_cast_hash: string | null;
+  source_cast_author_fid: number | null;
+  parent_feature_id: string | null;
+  is_sub_item: boolean;
+  status: string;
+  // Hidden by a project moderator: kept, but left out of every list, search and match
+  is_hidden: boolean;
+  total_weight: number;
+  created_at: string;
+  updated_at: string | null;
+}
+
+// What the admin API may change on a feature (status goes through the lifecycle commands)
+export type FeatureChanges = Partial<Pick<Feature, 'title' | 'description' | 'is_hidden'>>;
+
+export interface FeatureListFilter {
+  project_id: string;
+  status?: string;
+  // Hidden features are left out unless asked for
+  include_hidden?: boolean;
+  limit: number;
+  offset?: number;
+}
+
+// Visible top-level features of a project in one status
+export interface FeatureCount {
+  project_id: string;
+  status: string;
+  count: number;
+}
+
+export interface CreateFeatureParams {
+  project_id: string;
+  title: string;
+  description: string;
+  submitter_fid: number;
+  source_cast_hash?: string;
+  source_cast_author_fid?: number;
+  parent_feature_id?: string;
+  is_sub_item?: boolean;
+  tags?: string[];
+}
+
+export interface FeatureSource {
+  source_cast_hash: string;
+  source_cast_author_fid?: number;
+  source_cast_text?: string;
+}
+
+export interface FeatureSourceRow {
+  id: string;
+  feature_id: string;
+  source_cast_hash: string;
+  source_cast_author_fid: number | null;
+  source_cast_text: string | null;
+  created_at: string;
+}
+
+export interface SimilarFeature {
+  id: string;
+  title: string;
+  description: string;
+  similarity: number;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  type: 'predefined' | 'custom';
+}
+
+export interface BotMentionRow {
+  cast_hash: string;
+  mention_author_fid: number;
+  parent_cast_hash: string | null;
+  parent_cast_author_fid: number | null;
+  parent_cast_text: string | null;
+  detected_projects: string[] | null;
+  features_created: number;
+  features_merged: number;
+  error_message: string | null;
+}
+
+export interface BotMention extends BotMentionRow {
+  id: string;
+  created_at: string;
+}
+
+export interface BotMentionFilter {
+  // true: only mentions that logged an error, false: only those that didn't,
+  // a string: error messages containing it (case-insensitive)
+  error?: boolean | string;
+  fid?: number;
+  // Paging: only mentions logged before this timestamp
+  before?: string;
+  limit: number;
+}
+
+// A request the bot extracted but hasn't stored yet, kept while it waits on a decision
+export interface PendingFeature {
+  title: string;
+  description: string;
+  subItems?: { title: string; description: string }[];
+  tags: string[];
+}
+
+export type MergeDecisionStatus = 'pending' | 'merged' | 'created';
+
+export interface MergeDecision {
+  id: string;
+  project_id: string;
+  candidate_feature_id: string;
+  similarity: number;
+  requester_fid: number;
+  mention_cast_hash: string;
+  // The bot's "same thing?" reply; answers are replies to this cast
+  question_cast_hash: string | null;
+  feature: PendingFeature;
+  source_cast_hash: string;
+  source_cast_author_fid: number | null;
+  source_cast_text: string | null;
+  status: MergeDecisionStatus;
+  resolved_by: 'reply' | 'timeout' | null;
+  expires_at: string;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export interface CreateMergeDecisionParams {
+  project_id: string;
+  candidate_feature_id: string;
+  similarity: number;
+  requester_fid: number;
+  mention_cast_hash: string;
+  question_cast_hash: string | null;
+  feature: PendingFeature;
+  source_cast_hash: string;
+  source_cast_author_fid?: number;
+  source_cast_text?: string;
+  expires_at: string;
+}
+
+// fid: requests from that account are dropped; keyword / domain: matching requests are held for review
+export type ModerationRuleKind = 'fid' | 'keyword' | 'domain';
+
+export interface ModerationRule {
+  id: string;
+  // Null for rules that apply to every project
+  project_id: string | null;
+  kind: ModerationRuleKind;
+  value: string;
+  created_by_fid: number | null;
+  created_at: string;
+}
+
+export type CreateModerationRuleParams = Omit<ModerationRule, 'id' | 'created_at'>;
+
+export type ModerationItemStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * A request held back by moderation. Nothing is stored as a feature until a
+ * project moderator approves it.
+ */
+export interface ModerationItem {
+  id: string;
+  project_id: string;
+  requester_fid: number;
+  mention_cast_hash: string;
+  // The bot reply that said the request was held; "approve" / "reject" are replies to it
+  notice_cast_hash: string | null;
+  feature: PendingFeature;
+  source_cast_hash: string;
+  source_cast_author_fid: number;
+  source_cast_text: string;
+  // Why it was held, e.g. "keyword: airdrop", "classifier: spam"
+  reasons: string[];
+  status: ModerationItemStatus;
+  reviewed_by_fid: number | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+export type CreateModerationItemParams = Omit<
+  ModerationItem,
+  'id' | 'notice_cast_hash' | 'status' | 'reviewed_by_fid' | 'created_at' | 'reviewed_at'
+>;
+
+export type OwnershipClaimType = 'verify' | 'transfer';
+
+/**
+ * A pending ownership change waiting for someone to confirm from their own account.
+ * verify: to_fid (or the project's own account) confirms, and the project is verified.
+ * transfer: the current owner (from_fid) asked, to_fid accepts.
+ */
+export interface OwnershipClaim {
+  id: string;
+  project_id: string;
+  type: OwnershipClaimType;
+  from_fid: number | null;
+  to_fid: number;
+  requested_by_fid: number;
+  // The bot's "please confirm" cast; answers are replies to it
+  prompt_cast_hash: string | null;
+  status: 'pending' | 'confirmed' | 'declined';
+  expires_at: string;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export type CreateOwnershipClaimParams = Pick<
+  OwnershipClaim,
+  'project_id' | 'type' | 'from_fid' | 'to_fid' | 'requested_by_fid' | 'prompt_cast_hash' | 'expires_at'
+>;
+
+/**
+ * A feature request that stopped at "which project?". Everything needed to pick up
+ * where it left off is kept, so a reply naming the project(s) resumes it.
+ */
+export interface PendingClarification {
+  id: string;
+  requester_fid: number;
+  mention_cast_hash: string;
+  // The bot's question; answers are replies to it
+  prompt_cast_hash: string | null;
+  parent_cast_hash: string;
+  parent_cast_author_fid: number;
+  parent_cast_author_username: string;
+  parent_cast_text: string;
+  // Text the features are extracted from
+  context: string;
+  // Projects the bot couldn't choose between; empty when it found none
+  candidate_project_ids: string[];
+  status: 'pending' | 'resumed' | 'cancelled';
+  expires_at: string;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export type CreateClarificationParams = Omit<PendingClarification, 'id' | 'status' | 'created_at' | 'resolved_at'>;
+
+// handle: "@oldname", channel: "/degen", cashtag: "$DEGEN", name: "degen.tips"
+export type ProjectAliasKind = 'handle' | 'channel' | 'cashtag' | 'name';
+
+/**
+ * Another way people refer to a project. `value` is stored lowercased without its
+ * @ / $ prefix, and is unique per kind across all projects.
+ */
+export interface ProjectAlias {
+  id: string;
+  project_id: string;
+  kind: ProjectAliasKind;
+  value: string;
+  created_by_fid: number;
+  created_at: string;
+}
+
+export type CreateProjectAliasParams = Pick<ProjectAlias, 'project_id' | 'kind' | 'value' | 'created_by_fid'>;
+
+export type ProjectSetupStep = 'owner' | 'token' | 'bio';
+
+// Answers collected so far; a field is set once its step is done
+export interface ProjectSetupFields {
+  owner_fid?: number;
+  owner_username?: string;
+  voting_type?: 'score' | 'token';
+  token_address?: string | null;
+  // Empty when the requester skipped it
+  bio?: string;
+}
+
+export interface PendingProjectSetup {
+  id: string;
+  project_handle: string;
+  requester_fid: number;
+  mention_cast_hash: string;
+  // The bot's latest question; answers are replies to it
+  prompt_cast_hash: string | null;
+  step: ProjectSetupStep;
+  fields: ProjectSetupFields;
+  status: 'pending' | 'completed' | 'cancelled';
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateProjectSetupParams {
+  project_handle: string;
+  requester_fid: number;
+  mention_cast_hash: string;
+  prompt_cast_hash: string | null;
+  expires_at: string;
+}
+
+export interface FeatureStatusChange {
+  id: string;
+  feature_id: string;
+  from_status: string;
+  to_status: string;
+  changed_by_fid: number;
+  // The command cast that made the change
+  cast_hash: string | null;
+  created_at: string;
+}
+
+// One person told about one status change; claimed before sending so nobody is told twice
+export interface StatusNotification {
+  id: string;
+  status_change_id: string;
+  recipient_fid: number;
+  // The source cast the notice replied to; null when they were tagged in a standalone cast
+  reply_to_cast_hash: string | null;
+  sent_cast_hash: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+// "+1" reply or a like on one of the bot's announcement casts
+export type VoteSource = 'reply' | 'like';
+
+export interface Vote {
+  feature_id: string;
+  fid: number;
+  weight: number;
+  source: VoteSource;
+  // The "+1" reply, or the announcement cast that was liked
+  cast_hash: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VoteChange {
+  // Null for the fid's first vote on the feature
+  previousWeight: number | null;
+  total: number;
+}
+
+export type BotActionType = 'create' | 'merge';
+
+/**
+ * Journal entry for a change the bot made to a feature, so it can be undone.
+ * create: after = { feature_id, sub_feature_ids, source_id }
+ * merge: before = { description }, after = { description, source_id }
+ */
+export interface BotAction {
+  id: string;
+  type: BotActionType;
+  project_id: string;
+  feature_id: string;
+  requester_fid: number;
+  mention_cast_hash: string;
+  // The bot reply announcing the change; "undo" is a reply to this cast
+  reply_cast_hash: string | null;
+  request: PendingFeature;
+  source: { cast_hash: string; author_fid: number; text: string };
+  before: Record<string, any> | null;
+  after: Record<string, any>;
+  status: 'applied' | 'reverted';
+  reverted_by_fid: number | null;
+  reverted_at: string | null;
+  created_at: string;
+}
+
+export type CreateBotActionParams = Pick<
+  BotAction,
+  'type' | 'project_id' | 'feature_id' | 'requester_fid' | 'mention_cast_hash' | 'request' | 'source' | 'before' | 'after'
+>;
+
+export interface ProjectRepository {
+  getByHandle(handle: string): Promise<Project | null>;
+  getById(id: string): Promise<Project | null>;
+  getAll(): Promise<Project[]>;
+  // The fid's role in project_admins, or null if they aren't an admin
+  getAdminRole(projectId: string, fid: number): Promise<ProjectRole | null>;
+  // Owner first, then by when they were added
+  listAdmins(projectId: string): Promise<ProjectAdmin[]>;
+  // Adds the fid or changes their role (never the owner's row); logged with `actorFid`
+  setAdminRole(projectId: string, fid: number, role: Exclude<ProjectRole, 'owner'>, actorFid: number): Promise<void>;
+  // False if the fid isn't an admin (the owner can't be removed); logged with `actorFid`
+  removeAdmin(projectId: string, fid: number, actorFid: number): Promise<boolean>;
+  // Newest first
+  listAdminChanges(projectId: string, limit: number): Promise<ProjectAdminChange[]>;
+  // Also adds the owner to project_admins
+  create(params: CreateProjectParams): Promise<Project>;
+  // Makes `ownerFid` the verified owner (and the only "owner" in project_admins), logged as their change
+  verify(id: string, ownerFid: number): Promise<void>;
+  // Only if `fromFid` is still the owner; false otherwise
+  transferOwner(id: string, fromFid: number, toFid: number): Promise<boolean>;
+  setRateLimits(id: string, limits: ProjectRateLimits): Promise<void>;
+  // Null if there's no such project
+  update(id: string, changes: ProjectChanges): Promise<Project | null>;
+}
+
+export interface ModerationRepository {
+  // `projectId` null: the global rules only
+  listRules(projectId: string | null): Promise<ModerationRule[]>;
+  // Null if the same rule already exists
+  addRule(params: CreateModerationRuleParams): Promise<ModerationRule | null>;
+  removeRule(projectId: string | null, kind: ModerationRuleKind, value: string): Promise<boolean>;
+  enqueue(params: CreateModerationItemParams): Promise<ModerationItem>;
+  getItem(id: string): Promise<ModerationItem | null>;
+  // Oldest first; `projectId` null: every project's
+  listPending(projectId: string | null, limit: number): Promise<ModerationItem[]>;
+  getPendingByNoticeCast(castHash: string): Promise<ModerationItem[]>;
+  // Everything held from one mention, whatever its status, oldest first
+  listByMention(castHash: string): Promise<ModerationItem[]>;
+  setNoticeCast(ids: string[], castHash: string): Promise<void>;
+  // Moves a pending item to `status`; false if someone else reviewed it first.
+  // `reviewerFid` is null when reviewed from the admin dashboard.
+  review(id: string, status: Exclude<ModerationItemStatus, 'pending'>, reviewerFid: number | null): Promise<boolean>;
+}
+
+export interface OwnershipClaimRepository {
+  create(params: CreateOwnershipClaimParams): Promise<OwnershipClaim>;
+  // Unexpired pending claim asked in `castHash`
+  getPendingByPromptCast(castHash: string): Promise<OwnershipClaim | null>;
+  // Moves a pending claim to `status`; false if it was already resolved
+  resolve(id: string, status: 'confirmed' | 'declined'): Promise<boolean>;
+}
+
+export interface ProjectAliasRepository {
+  listAll(): Promise<ProjectAlias[]>;
+  listForProject(projectId: string): Promise<ProjectAlias[]>;
+  // Null if the kind/value pair is already taken
+  add(params: CreateProjectAliasParams): Promise<ProjectAlias | null>;
+  remove(projectId: string, kind: ProjectAliasKind, value: string): Promise<boolean>;
+}
+
+export interface FeatureRepository {
+  create(params: CreateFeatureParams): Promise<string>;
+  getById(id: string): Promise<Feature | null>;
+  // Any level, hidden ones only if asked for; newest first
+  list(filter: FeatureListFilter): Promise<Feature[]>;
+  updateDescription(id: string, description: string): Promise<void>;
+  // Null if there's no such feature
+  update(id: string, changes: FeatureChanges): Promise<Feature | null>;
+  listTags(id: string): Promise<Tag[]>;
+  // Replaces the feature's tags
+  setTags(id: string, tagIds: string[]): Promise<void>;
+  // Moves sources, votes, followers, tags, announcements and sub-items of `sourceId` to
+  // `targetId`, then deletes `sourceId`. A fid who voted on both keeps their vote on the target.
+  mergeInto(sourceId: string, targetId: string): Promise<void>;
+  // Returns the feature_sources row id
+  addSource(featureId: string, source: FeatureSource): Promise<string | null>;
+  removeSource(sourceId: string): Promise<void>;
+  // Oldest first
+  listSources(featureId: string): Promise<FeatureSourceRow[]>;
+  // Deletes the feature with its sub-items and everything attached to them
+  delete(id: string): Promise<void>;
+  // Top-level features only (no sub-items)
+  listTop(projectId: string, limit: number): Promise<Feature[]>;
+  listNewest(projectId: string, limit: number): Promise<Feature[]>;
+  // Case-insensitive substring match on the title, highest weight first
+  searchByTitle(projectId: string, query: string, limit: number): Promise<Feature[]>;
+  listBySubmitter(fid: number, limit: number): Promise<Feature[]>;
+  // Every project's top-level, visible features counted by status
+  countByStatus(): Promise<FeatureCount[]>;
+  // Only updates if the status is still `from`; false if it changed in the meantime
+  updateStatus(id: string, from: string, to: string): Promise<boolean>;
+  // False if the feature was already in that state
+  setHidden(id: string, hidden: boolean): Promise<boolean>;
+  // One vector per feature per embedding model (e.g. "glm/embedding-3", "hashed/ngram-1024")
+  storeEmbedding(id: string, model: string, embedding: number[]): Promise<void>;
+  // Features (sub-items included) with no `model` vector yet, by id, starting after `afterId`
+  listMissingEmbedding(model: string, afterId: string | null, limit: number): Promise<Array<Pick<Feature, 'id' | 'title' | 'description'>>>;
+  // Features in the project whose `model` vector has cosine similarity above `threshold`, best first
+  matchSimilar(projectId: string, model: string, embedding: number[], threshold: number, count: number): Promise<SimilarFeature[]>;
+}
+
+export interface MergeDecisionRepository {
+  create(params: CreateMergeDecisionParams): Promise<MergeDecision>;
+  getById(id: string): Promise<MergeDecision | null>;
+  getPendingByQuestionCast(castHash: string): Promise<MergeDecision | null>;
+  // Moves a pending decision to `status`; false if something else resolved it first
+  resolve(id: string, status: Exclude<MergeDecisionStatus, 'pending'>, resolvedBy: 'reply' | 'timeout'): Promise<boolean>;
+}
+
+export interface ProjectSetupRepository {
+  create(params: CreateProjectSetupParams): Promise<PendingProjectSetup>;
+  // Unexpired pending setup whose prompt or original mention is `castHash`
+  getPendingByCast(castHash: string): Promise<PendingProjectSetup | null>;
+  // Unexpired pending setups, newest first
+  listPending(limit: number): Promise<PendingProjectSetup[]>;
+  update(id: string, changes: Pick<PendingProjectSetup, 'step' | 'fields' | 'prompt_cast_hash'>): Promise<void>;
+  // Moves a pending setup to `status`; false if it was already finished
+  finish(id: string, status: 'completed' | 'cancelled'): Promise<boolean>;
+}
+
+export interface ClarificationRepository {
+  create(params: CreateClarificationParams): Promise<PendingClarification>;
+  // Unexpired pending clarification asked in `castHash`
+  getPendingByPromptCast(castHash: string): Promise<PendingClarification | null>;
+  // Moves a pending clarification to `status`; false if it was already resolved
+  resolve(id: string, status: 'resumed' | 'cancelled'): Promise<boolean>;
+}
+
+export interface StatusHistoryRepository {
+  record(change: Omit<FeatureStatusChange, 'id' | 'created_at'>): Promise<FeatureStatusChange>;
+  getById(id: string): Promise<FeatureStatusChange | null>;
+  // Oldest first
+  listForFeature(featureId: string): Promise<FeatureStatusChange[]>;
+}
+
+// Bot casts (replies and standalone casts) that announced features
+export interface AnnouncementRepository {
+  record(castHash: string, featureIds: string[]): Promise<void>;
+  getFeatureIds(castHash: string): Promise<string[]>;
+}
+
+export interface NotificationRepository {
+  // False if the fid was already (or wasn't) following
+  follow(featureId: string, fid: number): Promise<boolean>;
+  unfollow(featureId: string, fid: number): Promise<boolean>;
+  listFollowers(featureId: string): Promise<number[]>;
+  // Fids already claimed for the status change
+  listRecipients(statusChangeId: string): Promise<number[]>;
+  // Returns the notification id, or null if the recipient was already claimed
+  claim(statusChangeId: string, recipientFid: number, replyToCastHash: string | null): Promise<string | null>;
+  markSent(ids: string[], sentCastHash: string | null): Promise<void>;
+}
+
+export interface VoteRepository {
+  get(featureId: string, fid: number): Promise<Vote | null>;
+  list(featureId: string): Promise<Vote[]>;
+  // One vote per fid per feature: records a first vote, or a "reply" replacing a "like", and
+  // moves features.total_weight by the change in the same transaction (the column also counts
+  // votes cast on the website, so it is never recomputed). Null when the existing vote stays.
+  record(vote: Omit<Vote, 'created_at' | 'updated_at'>): Promise<VoteChange | null>;
+  // Removes the fid's vote if it came from a like and takes its weight off the total, in one
+  // transaction; returns the new total, null when there was no such vote
+  removeLike(featureId: string, fid: number): Promise<number | null>;
+  // Adds `delta` to features.total_weight and returns the new total, e.g. when features merge
+  addToTotal(featureId: string, delta: number): Promise<number>;
+}
+
+export interface BotActionRepository {
+  create(params: CreateBotActionParams): Promise<BotAction>;
+  setReplyCast(ids: string[], replyCastHash: string): Promise<void>;
+  // Applied actions announced by the given bot reply, oldest first
+  getByReplyCast(replyCastHash: string): Promise<BotAction[]>;
+  // Applied actions that touched the feature, oldest first
+  getByFeature(featureId: string): Promise<BotAction[]>;
+  // Every action taken for the mention, reverted ones included, oldest first
+  listByMention(mentionCastHash: string): Promise<BotAction[]>;
+  // False if the action was already reverted. `revertedByFid` is null when undone from the admin dashboard.
+  markReverted(id: string, revertedByFid: number | null): Promise<boolean>;
+}
+
+export interface TagRepository {
+  getByName(name: string): Promise<Tag | null>;
+  create(name: string, type: 'predefined' | 'custom'): Promise<Tag>;
+  getPredefined(): Promise<Tag[]>;
+  getById(id: string): Promise<Tag | null>;
+  // Ordered by name
+  listAll(): Promise<Tag[]>;
+  // Null if another tag already has the name
+  rename(id: string, name: string): Promise<Tag | null>;
+  // Also takes it off every feature
+  delete(id: string): Promise<boolean>;
+}
+
+export interface BotMentionRepository {
+  exists(castHash: string): Promise<boolean>;
+  insert(row: BotMentionRow): Promise<void>;
+  list(filter: BotMentionFilter): Promise<BotMention[]>;
+  // Every time the cast was logged (it's logged again when reprocessed), oldest first
+  listByCast(castHash: string): Promise<BotMention[]>;
+}
+
+export interface RateLimitRepository {
+  // Refills the bucket and takes `cost` tokens if it has them, atomically (see src/ratelimit/bucket.ts)
+  take(key: string, limit: BucketLimit, cost: number): Promise<TakeResult>;
+  // What take() would answer, leaving the bucket as it is
+  peek(key: string, limit: BucketLimit, cost: number): Promise<TakeResult>;
+}
+
+/**
+ * Storage backend used by everything under src/db.
+ * Implementations: Supabase (default) and embedded SQLite (DB_BACKEND=sqlite).
+ */
+export interface Repository {
+  projects: ProjectRepository;
+  features: FeatureRepository;
+  mergeDecisions: MergeDecisionRepository;
+  projectSetups: ProjectSetupRepository;
+  clarifications: ClarificationRepository;
+  ownershipClaims: OwnershipClaimRepository;
+  projectAliases: ProjectAliasRepository;
+  moderation: ModerationRepository;
+  actions: BotActionRepository;
+  statusHistory: StatusHistoryRepository;
+  announcements: AnnouncementRepository;
+  notifications: NotificationRepository;
+  votes: VoteRepository;
+  tags: TagRepository;
+  mentions: BotMentionRepository;
+  rateLimits: RateLimitRepository;
+}
+
+// "supabase" (default) or "sqlite"; SQLITE_PATH=":memory:" keeps everything in memory
+const DB_BACKEND = process.env.DB_BACKEND || 'supabase';
+const SQLITE_PATH = process.env.SQLITE_PATH || './data/roadmapr.sqlite';
+
+let repositoryPromise: Promise<Repository> | null = null;
+
+/**
+ * Get the configured repository (created once per process)
+ */
+export function getRepository(): Promise<Repository> {
+  if (!repositoryPromise) {
+    repositoryPromise = createRepository();
+  }
+  return repositoryPromise;
+}
+
+async function createRepository(): Promise<Repository> {
+  // Imported lazily so the SQLite backend works without Supabase credentials
+  if (DB_BACKEND === 'sqlite') {
+    const { createSqliteRepository } = await import('./sqlite-repository.js');
+    log.info(`Using SQLite backend at ${SQLITE_PATH}`);
+    return createSqliteRepository(SQLITE_PATH);
+  }
+
+  const { createSupabaseRepository } = await import('./supabase-repository.js');
+  return createSupabaseRepository();
+}
@@ -0,0 +1,1539 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+import { takeTokens } from '../ratelimit/bucket.js';
+import type {
+  BotAction,
+  BotMention,
+  Feature,
+  FeatureCount,
+  FeatureSourceRow,
+  FeatureStatusChange,
+  MergeDecision,
+  ModerationItem,
+  ModerationRule,
+  OwnershipClaim,
+  PendingClarification,
+  PendingProjectSetup,
+  Project,
+  ProjectAdmin,
+  ProjectAlias,
+  ProjectAdminChange,
+  ProjectRole,
+  Repository,
+  SimilarFeature,
+  Tag,
+  Vote,
+} from './repository.js';
+
+// Mirrors the Supabase tables the bot uses. Embeddings are stored as JSON text and
+// compared in-process instead of through the pgvector match_feature_embeddings RPC.
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS projects (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  project_handle TEXT NOT NULL UNIQUE,
+  owner_fid INTEGER,
+  creator_fid INTEGER,
+  bio TEXT,
+  voting_type TEXT NOT NULL DEFAULT 'score',
+  token_address TEXT,
+  created_by_bot INTEGER NOT NULL DEFAULT 0,
+  is_verified INTEGER NOT NULL DEFAULT 0,
+  rate_limit_hourly INTEGER,
+  user_rate_limit_daily INTEGER,
+  created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS project_admins (
+  project_id TEXT NOT NULL,
+  fid INTEGER NOT NULL,
+  role TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (project_id, fid)
+);
+
+CREATE TABLE IF NOT EXISTS project_admin_changes (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  fid INTEGER NOT NULL,
+  role TEXT,
+  previous_role TEXT,
+  actor_fid INTEGER NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS features (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  submitter_fid INTEGER NOT NULL,
+  source_cast_hash TEXT,
+  source_cast_author_fid INTEGER,
+  parent_feature_id TEXT,
+  is_sub_item INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'open',
+  is_hidden INTEGER NOT NULL DEFAULT 0,
+  total_weight REAL NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT
+);
+CREATE INDEX IF NOT EXISTS features_project_idx ON features (project_id);
+
+CREATE TABLE IF NOT EXISTS feature_embeddings (
+  feature_id TEXT NOT NULL,
+  model TEXT NOT NULL,
+  embedding TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (feature_id, model)
+);
+
+CREATE TABLE IF NOT EXISTS feature_sources (
+  id TEXT PRIMARY KEY,
+  feature_id TEXT NOT NULL,
+  source_cast_hash TEXT NOT NULL,
+  source_cast_author_fid INTEGER,
+  source_cast_text TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS merge_decisions (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  candidate_feature_id TEXT NOT NULL,
+  similarity REAL NOT NULL,
+  requester_fid INTEGER NOT NULL,
+  mention_cast_hash TEXT NOT NULL,
+  question_cast_hash TEXT,
+  feature TEXT NOT NULL,
+  source_cast_hash TEXT NOT NULL,
+  source_cast_author_fid INTEGER,
+  source_cast_text TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  resolved_by TEXT,
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  resolved_at TEXT
+);
+CREATE INDEX IF NOT EXISTS merge_decisions_question_idx ON merge_decisions (question_cast_hash);
+
+CREATE TABLE IF NOT EXISTS project_ownership_claims (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  from_fid INTEGER,
+  to_fid INTEGER NOT NULL,
+  requested_by_fid INTEGER NOT NULL,
+  prompt_cast_hash TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  resolved_at TEXT
+);
+CREATE INDEX IF NOT EXISTS project_ownership_claims_prompt_idx ON project_ownership_claims (prompt_cast_hash);
+
+CREATE TABLE IF NOT EXISTS project_aliases (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  value TEXT NOT NULL,
+  created_by_fid INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  UNIQUE (kind, value)
+);
+
+CREATE TABLE IF NOT EXISTS pending_project_setups (
+  id TEXT PRIMARY KEY,
+  project_handle TEXT NOT NULL,
+  requester_fid INTEGER NOT NULL,
+  mention_cast_hash TEXT NOT NULL,
+  prompt_cast_hash TEXT,
+  step TEXT NOT NULL DEFAULT 'owner',
+  fields TEXT NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending',
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS pending_project_setups_prompt_idx ON pending_project_setups (prompt_cast_hash);
+CREATE INDEX IF NOT EXISTS pending_project_setups_mention_idx ON pending_project_setups (mention_cast_hash);
+
+CREATE TABLE IF NOT EXISTS pending_clarifications (
+  id TEXT PRIMARY KEY,
+  requester_fid INTEGER NOT NULL,
+  mention_cast_hash TEXT NOT NULL,
+  prompt_cast_hash TEXT,
+  parent_cast_hash TEXT NOT NULL,
+  parent_cast_author_fid INTEGER NOT NULL,
+  parent_cast_author_username TEXT NOT NULL,
+  parent_cast_text TEXT NOT NULL,
+  context TEXT NOT NULL,
+  candidate_project_ids TEXT NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'pending',
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  resolved_at TEXT
+);
+CREATE INDEX IF NOT EXISTS pending_clarifications_prompt_idx ON pending_clarifications (prompt_cast_hash);
+
+CREATE TABLE IF NOT EXISTS moderation_rules (
+  id TEXT PRIMARY KEY,
+  project_id TEXT,
+  kind TEXT NOT NULL,
+  value TEXT NOT NULL,
+  created_by_fid INTEGER,
+  created_at TEXT NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS moderation_rules_unique_idx ON moderation_rules (COALESCE(project_id, ''), kind, value);
+
+CREATE TABLE IF NOT EXISTS moderation_queue (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  requester_fid INTEGER NOT NULL,
+  mention_cast_hash TEXT NOT NULL,
+  notice_cast_hash TEXT,
+  feature TEXT NOT NULL,
+  source_cast_hash TEXT NOT NULL,
+  source_cast_author_fid INTEGER NOT NULL,
+  source_cast_text TEXT NOT NULL,
+  reasons TEXT NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'pending',
+  reviewed_by_fid INTEGER,
+  created_at TEXT NOT NULL,
+  reviewed_at TEXT
+);
+CREATE INDEX IF NOT EXISTS moderation_queue_project_idx ON moderation_queue (project_id, status, created_at);
+CREATE INDEX IF NOT EXISTS moderation_queue_notice_idx ON moderation_queue (notice_cast_hash);
+
+CREATE TABLE IF NOT EXISTS feature_status_history (
+  id TEXT PRIMARY KEY,
+  feature_id TEXT NOT NULL,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  changed_by_fid INTEGER NOT NULL,
+  cast_hash TEXT,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS feature_status_history_feature_idx ON feature_status_history (feature_id, created_at);
+
+CREATE TABLE IF NOT EXISTS feature_announcements (
+  cast_hash TEXT NOT NULL,
+  feature_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (cast_hash, feature_id)
+);
+
+CREATE TABLE IF NOT EXISTS feature_followers (
+  feature_id TEXT NOT NULL,
+  fid INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (feature_id, fid)
+);
+
+CREATE TABLE IF NOT EXISTS status_notifications (
+  id TEXT PRIMARY KEY,
+  status_change_id TEXT NOT NULL,
+  recipient_fid INTEGER NOT NULL,
+  reply_to_cast_hash TEXT,
+  sent_cast_hash TEXT,
+  created_at TEXT NOT NULL,
+  sent_at TEXT,
+  UNIQUE (status_change_id, recipient_fid)
+);
+
+CREATE TABLE IF NOT EXISTS feature_votes (
+  feature_id TEXT NOT NULL,
+  fid INTEGER NOT NULL,
+  weight REAL NOT NULL,
+  source TEXT NOT NULL,
+  cast_hash TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (feature_id, fid)
+);
+
+CREATE TABLE IF NOT EXISTS bot_actions (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  feature_id TEXT NOT NULL,
+  requester_fid INTEGER NOT NULL,
+  mention_cast_hash TEXT NOT NULL,
+  reply_cast_hash TEXT,
+  request TEXT NOT NULL,
+  source TEXT NOT NULL,
+  before TEXT,
+  after TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'applied',
+  reverted_by_fid INTEGER,
+  reverted_at TEXT,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS bot_actions_reply_idx ON bot_actions (reply_cast_hash);
+CREATE INDEX IF NOT EXISTS bot_actions_feature_idx ON bot_actions (feature_id);
+
+CREATE TABLE IF NOT EXISTS tags (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  type TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS feature_tags (
+  feature_id TEXT NOT NULL,
+  tag_id TEXT NOT NULL,
+  PRIMARY KEY (feature_id, tag_id)
+);
+
+CREATE TABLE IF NOT EXISTS bot_mentions (
+  id TEXT PRIMARY KEY,
+  cast_hash TEXT NOT NULL,
+  mention_author_fid INTEGER NOT NULL,
+  parent_cast_hash TEXT,
+  parent_cast_author_fid INTEGER,
+  parent_cast_text TEXT,
+  detected_projects TEXT,
+  features_created INTEGER NOT NULL DEFAULT 0,
+  features_merged INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS bot_mentions_cast_hash_idx ON bot_mentions (cast_hash);
+CREATE INDEX IF NOT EXISTS bot_mentions_author_idx ON bot_mentions (mention_author_fid, created_at);
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens REAL NOT NULL,
+  updated_at TEXT NOT NULL
+);
+`;
+
+// Columns added to existing tables after their CREATE TABLE first shipped
+const ADDED_COLUMNS: Array<{ table: string; column: string; type: string }> = [
+  { table: 'projects', column: 'rate_limit_hourly', type: 'INTEGER' },
+  { table: 'projects', column: 'user_rate_limit_daily', type: 'INTEGER' },
+  { table: 'features', column: 'is_hidden', type: 'INTEGER NOT NULL DEFAULT 0' },
+];
+
+/**
+ * Bring a database file created by an older version up to SCHEMA
+ * (CREATE TABLE IF NOT EXISTS leaves existing tables alone)
+ */
+function addMissingColumns(db: Database) {
+  for (const { table, column, type } of ADDED_COLUMNS) {
+    const columns = db.exec(`PRAGMA table_info(${table})`)[0]?.values.map(row => row[1]) ?? [];
+    if (!columns.includes(column)) {
+      db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+    }
+  }
+}
+
+export type SqlParams = SqlValue[];
+
+// sql.js keeps the database in memory and can only write it out whole, so writes are
+// flushed together this long after the first one (and when the process exits)
+const FLUSH_DELAY_MS = parseInt(process.env.SQLITE_FLUSH_MS || '200');
+
+/**
+ * Thin helpers over a sql.js database. Writes are flushed to disk (unless the path is
+ * ":memory:") within FLUSH_DELAY_MS; a crash can lose the writes of that last moment.
+ */
+export interface SqliteDb {
+  all<T>(sql: string, params?: SqlParams): T[];
+  get<T>(sql: string, params?: SqlParams): T | null;
+  // Returns the number of rows changed
+  run(sql: string, params?: SqlParams): number;
+  // Runs `fn` (synchronous, like every call here) between BEGIN and COMMIT, rolling back if
+  // it throws. Nested calls join the outer transaction.
+  transaction<T>(fn: () => T): T;
+}
+
+export async function openSqliteDb(filePath: string): Promise<SqliteDb> {
+  const SQL = await initSqlJs();
+  const inMemory = filePath === ':memory:';
+
+  let db: Database;
+  if (!inMemory && existsSync(filePath)) {
+    db = new SQL.Database(readFileSync(filePath));
+  } else {
+    if (!inMemory) mkdirSync(path.dirname(filePath), { recursive: true });
+    db = new SQL.Database();
+  }
+  db.exec(SCHEMA);
+  addMissingColumns(db);
+
+  function save() {
+    if (inMemory) return;
+    const tmpPath = `${filePath}.tmp`;
+    writeFileSync(tmpPath, db.export());
+    renameSync(tmpPath, filePath);
+  }
+  save();
+
+  let flushTimer: NodeJS.Timeout | null = null;
+  function flush() {
+    if (!flushTimer) return;
+    clearTimeout(flushTimer);
+    flushTimer = null;
+    save();
+  }
+  function scheduleFlush() {
+    if (inMemory || flushTimer) return;
+    flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+    flushTimer.unref();
+  }
+  if (!inMemory) process.on('exit', flush);
+
+  let transactionDepth = 0;
+
+  function all<T>(sql: string, params: SqlParams = []): T[] {
+    const stmt = db.prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: T[] = [];
+      while (stmt.step()) {
+        rows.push(stmt.getAsObject() as T);
+      }
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  return {
+    all,
+    get<T>(sql: string, params?: SqlParams): T | null {
+      return all<T>(sql, params)[0] ?? null;
+    },
+    run(sql, params = []) {
+      db.run(sql, params);
+      const changes = db.getRowsModified();
+      scheduleFlush();
+      return changes;
+    },
+    transaction(fn) {
+      if (transactionDepth > 0) return fn();
+
+      db.exec('BEGIN');
+      transactionDepth++;
+      try {
+        const result = fn();
+        db.exec('COMMIT');
+        return result;
+      } catch (err) {
+        db.exec('ROLLBACK');
+        throw err;
+      } finally {
+        transactionDepth--;
+      }
+    },
+  };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+const PROJECT_COLUMNS = 'id, name, project_handle, voting_type, token_address, owner_fid, is_verified, rate_limit_hourly, user_rate_limit_daily';
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function toFeature(row: Record<string, any>): Feature {
+  return { ...row, is_sub_item: !!row.is_sub_item, is_hidden: !!row.is_hidden } as Feature;
+}
+
+function toBotMention(row: Record<string, any>): BotMention {
+  return { ...row, detected_projects: row.detected_projects ? JSON.parse(row.detected_projects) : null } as BotMention;
+}
+
+function toModerationItem(row: Record<string, any>): ModerationItem {
+  return { ...row, feature: JSON.parse(row.feature), reasons: JSON.parse(row.reasons) } as ModerationItem;
+}
+
+function toBotAction(row: Record<string, any>): BotAction {
+  return {
+    ...row,
+    request: JSON.parse(row.request),
+    source: JSON.parse(row.source),
+    before: row.before ? JSON.parse(row.before) : null,
+    after: JSON.parse(row.after),
+  } as BotAction;
+}
+
+function toProject(row: Record<string, any>): Project {
+  return { ...row, is_verified: !!row.is_verified } as Project;
+}
+
+function toMergeDecision(row: Record<string, any>): MergeDecision {
+  return { ...row, feature: JSON.parse(row.feature) } as MergeDecision;
+}
+
+function toProjectSetup(row: Record<string, any>): PendingProjectSetup {
+  return { ...row, fields: JSON.parse(row.fields) } as PendingProjectSetup;
+}
+
+function toClarification(row: Record<string, any>): PendingClarification {
+  return { ...row, candidate_project_ids: JSON.parse(row.candidate_project_ids) } as PendingClarification;
+}
+
+export async function createSqliteRepository(filePath: string): Promise<Repository> {
+  const db = await openSqliteDb(filePath);
+
+  function logAdminChange(projectId: string, fid: number, role: ProjectRole | null, previousRole: ProjectRole | null, actorFid: number) {
+    db.run(
+      `INSERT INTO project_admin_changes (id, project_id, fid, role, previous_role, actor_fid, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [crypto.randomUUID(), projectId, fid, role, previousRole, actorFid, now()]
+    );
+  }
+
+  function getAdminRole(projectId: string, fid: number): ProjectRole | null {
+    const row = db.get<{ role: ProjectRole }>('SELECT role FROM project_admins WHERE project_id = ? AND fid = ?', [projectId, fid]);
+    return row?.role || null;
+  }
+
+  // Returns the new total
+  function addToTotal(featureId: string, delta: number): number {
+    db.run('UPDATE features SET total_weight = total_weight + ?, updated_at = ? WHERE id = ?', [delta, now(), featureId]);
+    const row = db.get<{ total_weight: number }>('SELECT total_weight FROM features WHERE id = ?', [featureId]);
+    return row?.total_weight || 0;
+  }
+
+  // The owner is the only "owner" row in project_admins
+  function setOwnerAdmin(projectId: string, ownerFid: number) {
+    db.transaction(() => {
+      const previousOwners = db.all<{ fid: number }>(
+        "SELECT fid FROM project_admins WHERE project_id = ? AND role = 'owner' AND fid != ?",
+        [projectId, ownerFid]
+      );
+      db.run("DELETE FROM project_admins WHERE project_id = ? AND role = 'owner' AND fid != ?", [projectId, ownerFid]);
+      for (const { fid } of previousOwners) {
+        logAdminChange(projectId, fid, null, 'owner', ownerFid);
+      }
+
+      const previousRole = getAdminRole(projectId, ownerFid);
+      if (previousRole === 'owner') return;
+      db.run(
+        `INSERT INTO project_admins (project_id, fid, role, created_at) VALUES (?, ?, 'owner', ?)
+         ON CONFLICT (project_id, fid) DO UPDATE SET role = 'owner'`,
+        [projectId, ownerFid, now()]
+      );
+      logAdminChange(projectId, ownerFid, 'owner', previousRole, ownerFid);
+    });
+  }
+
+  return {
+    projects: {
+      async getByHandle(handle) {
+        const row = db.get<Record<string, any>>(`SELECT ${PROJECT_COLUMNS} FROM projects WHERE project_handle = ?`, [handle.toLowerCase()]);
+        return row ? toProject(row) : null;
+      },
+
+      async getById(id) {
+        const row = db.get<Record<string, any>>(`SELECT ${PROJECT_COLUMNS} FROM projects WHERE id = ?`, [id]);
+        return row ? toProject(row) : null;
+      },
+
+      async getAll() {
+        return db.all<Record<string, any>>(`SELECT ${PROJECT_COLUMNS} FROM projects ORDER BY name`).map(toProject);
+      },
+
+      async getAdminRole(projectId, fid) {
+        return getAdminRole(projectId, fid);
+      },
+
+      async listAdmins(projectId) {
+        return db.all<ProjectAdmin>(
+          `SELECT project_id, fid, role, created_at FROM project_admins WHERE project_id = ?
+           ORDER BY role = 'owner' DESC, created_at, fid`,
+          [projectId]
+        );
+      },
+
+      async setAdminRole(projectId, fid, role, actorFid) {
+        return db.transaction(() => {
+          const previousRole = getAdminRole(projectId, fid);
+          if (previousRole === role || previousRole === 'owner') return;
+
+          db.run(
+            `INSERT INTO project_admins (project_id, fid, role, created_at) VALUES (?, ?, ?, ?)
+             ON CONFLICT (project_id, fid) DO UPDATE SET role = excluded.role`,
+            [projectId, fid, role, now()]
+          );
+          logAdminChange(projectId, fid, role, previousRole, actorFid);
+        });
+      },
+
+      async removeAdmin(projectId, fid, actorFid) {
+        return db.transaction(() => {
+          const previousRole = getAdminRole(projectId, fid);
+          if (!previousRole || previousRole === 'owner') return false;
+
+          if (db.run('DELETE FROM project_admins WHERE project_id = ? AND fid = ? AND role != ?', [projectId, fid, 'owner']) === 0) {
+            return false;
+          }
+          logAdminChange(projectId, fid, null, previousRole, actorFid);
+          return true;
+        });
+      },
+
+      async listAdminChanges(projectId, limit) {
+        return db.all<ProjectAdminChange>(
+          'SELECT * FROM project_admin_changes WHERE project_id = ? ORDER BY created_at DESC LIMIT ?',
+          [projectId, limit]
+        );
+      },
+
+      async create(params) {
+        return db.transaction(() => {
+          const id = crypto.randomUUID();
+          try {
+            db.run(
+              `INSERT INTO projects (id, name, project_handle, owner_fid, creator_fid, bio, voting_type, token_address, created_by_bot, is_verified, created_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?)`,
+              [
+                id,
+                params.name,
+                params.project_handle.toLowerCase(),
+                params.owner_fid,
+                params.owner_fid,
+                params.bio || null,
+                params.voting_type || 'score',
+                params.token_address || null,
+                (params.created_by_bot ?? true) ? 1 : 0,
+                now(),
+              ]
+            );
+          } catch (err) {
+            throw new Error(`Failed to create project: ${(err as Error).message}`);
+          }
+
+          // Add owner as admin
+          db.run(
+            'INSERT OR IGNORE INTO project_admins (project_id, fid, role, created_at) VALUES (?, ?, ?, ?)',
+            [id, params.owner_fid, 'owner', now()]
+          );
+
+          return toProject(db.get<Record<string, any>>(`SELECT ${PROJECT_COLUMNS} FROM projects WHERE id = ?`, [id])!);
+        });
+      },
+
+      async verify(id, ownerFid) {
+        return db.transaction(() => {
+          db.run('UPDATE projects SET owner_fid = ?, is_verified = 1 WHERE id = ?', [ownerFid, id]);
+          setOwnerAdmin(id, ownerFid);
+        });
+      },
+
+      async transferOwner(id, fromFid, toFid) {
+        return db.transaction(() => {
+          const changes = db.run('UPDATE projects SET owner_fid = ? WHERE id = ? AND owner_fid = ?', [toFid, id, fromFid]);
+          if (changes === 0) return false;
+          setOwnerAdmin(id, toFid);
+          return true;
+        });
+      },
+
+      async setRateLimits(id, limits) {
+        db.run(
+          'UPDATE projects SET rate_limit_hourly = ?, user_rate_limit_daily = ? WHERE id = ?',
+          [limits.rate_limit_hourly, limits.user_rate_limit_daily, id]
+        );
+      },
+
+      async update(id, changes) {
+        const columns = Object.keys(changes) as Array<keyof typeof changes>;
+        if (columns.length > 0) {
+          db.run(
+            `UPDATE projects SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+            [...columns.map(column => changes[column] ?? null), id]
+          );
+        }
+        const row = db.get<Record<string, any>>(`SELECT ${PROJECT_COLUMNS} FROM projects WHERE id = ?`, [id]);
+        return row ? toProject(row) : null;
+      },
+    },
+
+    ownershipClaims: {
+      async create(params) {
+        const id = crypto.randomUUID();
+        db.run(
+          `INSERT INTO project_ownership_claims (id, project_id, type, from_fid, to_fid, requested_by_fid, prompt_cast_hash, status, expires_at, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)`,
+          [
+            id,
+            params.project_id,
+            params.type,
+            params.from_fid,
+            params.to_fid,
+            params.requested_by_fid,
+            params.prompt_cast_hash,
+            params.expires_at,
+            now(),
+          ]
+        );
+        return db.get<OwnershipClaim>('SELECT * FROM project_ownership_claims WHERE id = ?', [id])!;
+      },
+
+      async getPendingByPromptCast(castHash) {
+        return db.get<OwnershipClaim>(
+          `SELECT * FROM project_ownership_claims
+           WHERE prompt_cast_hash = ? AND status = 'pending' AND expires_at > ?
+           ORDER BY created_at DESC LIMIT 1`,
+          [castHash, now()]
+        );
+      },
+
+      async resolve(id, status) {
+        const changes = db.run(
+          "UPDATE project_ownership_claims SET status = ?, resolved_at = ? WHERE id = ? AND status = 'pending'",
+          [status, now(), id]
+        );
+        return changes > 0;
+      },
+    },
+
+    projectAliases: {
+      async listAll() {
+        return db.all<ProjectAlias>('SELECT * FROM project_aliases ORDER BY created_at');
+      },
+
+      async listForProject(projectId) {
+        return db.all<ProjectAlias>('SELECT * FROM project_aliases WHERE project_id = ? ORDER BY kind, created_at', [projectId]);
+      },
+
+      async add(params) {
+        const id = crypto.randomUUID();
+        const inserted = db.run(
+          `INSERT OR IGNORE INTO project_aliases (id, project_id, kind, value, created_by_fid, created_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [id, params.project_id, params.kind, params.value, params.created_by_fid, now()]
+        );
+        return inserted > 0 ? db.get<ProjectAlias>('SELECT * FROM project_aliases WHERE id = ?', [id]) : null;
+      },
+
+      async remove(projectId, kind, value) {
+        const changes = db.run(
+          'DELETE FROM project_aliases WHERE project_id = ? AND kind = ? AND value = ?',
+          [projectId, kind, value]
+        );
+        return changes > 0;
+      },
+    },
+
+    moderation: {
+      async listRules(projectId) {
+        return projectId
+          ? db.all<ModerationRule>('SELECT * FROM moderation_rules WHERE project_id = ? ORDER BY kind, created_at', [projectId])
+          : db.all<ModerationRule>('SELECT * FROM moderation_rules WHERE project_id IS NULL ORDER BY kind, created_at');
+      },
+
+      async addRule(params) {
+        const id = crypto.randomUUID();
+        const inserted = db.run(
+          `INSERT OR IGNORE INTO moderation_rules (id, project_id, kind, value, created_by_fid, created_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [id, params.project_id, params.kind, params.value, params.created_by_fid, now()]
+        );
+        return inserted > 0 ? db.get<ModerationRule>('SELECT * FROM moderation_rules WHERE id = ?', [id]) : null;
+      },
+
+      async removeRule(projectId, kind, value) {
+        const changes = db.run(
+          "DELETE FROM moderation_rules WHERE COALESCE(project_id, '') = ? AND kind = ? AND value = ?",
+          [projectId ?? '', kind, value]
+        );
+        return changes > 0;
+      },
+
+      async enqueue(params) {
+        const id = crypto.randomUUID();
+        db.run(
+          `INSERT INTO moderation_queue (id, project_id, requester_fid, mention_cast_hash, feature, source_cast_hash, source_cast_author_fid, source_cast_text, reasons, status, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?)`,
+          [
+            id,
+            params.project_id,
+            params.requester_fid,
+            params.mention_cast_hash,
+            JSON.stringify(params.feature),
+            params.source_cast_hash,
+            params.source_cast_author_fid,
+            params.source_cast_text,
+            JSON.stringify(params.reasons),
+            now(),
+          ]
+        );
+        return toModerationItem(db.get<Record<string, any>>('SELECT * FROM moderation_queue WHERE id = ?', [id])!);
+      },
+
+      async getItem(id) {
+        const row = db.get<Record<string, any>>('SELECT * FROM moderation_queue WHERE id = ?', [id]);
+        return row ? toModerationItem(row) : null;
+      },
+
+      async listPending(projectId, limit) {
+        const rows = projectId
+          ? db.all<Record<string, any>>(
+            "SELECT * FROM moderation_queue WHERE project_id = ? AND status = 'pending' ORDER BY created_at LIMIT ?",
+            [projectId, limit]
+          )
+          : db.all<Record<string, any>>(
+            "SELECT * FROM moderation_queue WHERE status = 'pending' ORDER BY created_at LIMIT ?",
+            [limit]
+          );
+        return rows.map(toModerationItem);
+      },
+
+      async getPendingByNoticeCast(castHash) {
+        return db.all<Record<string, any>>(
+          "SELECT * FROM moderation_queue WHERE notice_cast_hash = ? AND status = 'pending' ORDER BY created_at",
+          [castHash]
+        ).map(toModerationItem);
+      },
+
+      async listByMention(castHash) {
+        return db.all<Record<string, any>>(
+          'SELECT * FROM moderation_queue WHERE mention_cast_hash = ? ORDER BY created_at',
+          [castHash]
+        ).map(toModerationItem);
+      },
+
+      async setNoticeCast(ids, castHash) {
+        for (const id of ids) {
+          db.run('UPDATE moderation_queue SET notice_cast_hash = ? WHERE id = ?', [castHash, id]);
+        }
+      },
+
+      async review(id, status, reviewerFid) {
+        const changes = db.run(
+          "UPDATE moderation_queue SET status = ?, reviewed_by_fid = ?, reviewed_at = ? WHERE id = ? AND status = 'pending'",
+          [status, reviewerFid, now(), id]
+        );
+        return changes > 0;
+      },
+    },
+
+    features: {
+      async create(params) {
+        return db.transaction(() => {
+          const id = crypto.randomUUID();
+          try {
+            db.run(
+              `INSERT INTO features (id, project_id, title, description, submitter_fid, source_cast_hash, source_cast_author_fid, parent_feature_id, is_sub_item, status, total_weight, created_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'open', 0, ?)`,
+              [
+                id,
+                params.project_id,
+                params.title,
+                params.description,
+                params.submitter_fid,
+                params.source_cast_hash || null,
+                params.source_cast_author_fid || null,
+                params.parent_feature_id || null,
+                params.is_sub_item ? 1 : 0,
+                now(),
+              ]
+            );
+          } catch (err) {
+            throw new Error(`Failed to create feature: ${(err as Error).message}`);
+          }
+
+          for (const tagId of params.tags || []) {
+            db.run('INSERT OR IGNORE INTO feature_tags (feature_id, tag_id) VALUES (?, ?)', [id, tagId]);
+          }
+
+          return id;
+        });
+      },
+
+      async getById(id) {
+        const row = db.get<Record<string, any>>('SELECT * FROM features WHERE id = ?', [id]);
+        return row ? toFeature(row) : null;
+      },
+
+      async list(filter) {
+        const conditions = ['project_id = ?'];
+        const params: SqlParams = [filter.project_id];
+        if (filter.status) {
+          conditions.push('status = ?');
+          params.push(filter.status);
+        }
+        if (!filter.include_hidden) {
+          conditions.push('is_hidden = 0');
+        }
+        return db.all<Record<string, any>>(
+          `SELECT * FROM features WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+          [...params, filter.limit, filter.offset || 0]
+        ).map(toFeature);
+      },
+
+      async updateDescription(id, description) {
+        db.run('UPDATE features SET description = ?, updated_at = ? WHERE id = ?', [description, now(), id]);
+      },
+
+      async update(id, changes) {
+        const columns = Object.keys(changes) as Array<keyof typeof changes>;
+        if (columns.length > 0) {
+          db.run(
+            `UPDATE features SET ${columns.map(column => `${column} = ?`).join(', ')}, updated_at = ? WHERE id = ?`,
+            [...columns.map(column => typeof changes[column] === 'boolean' ? (changes[column] ? 1 : 0) : changes[column] ?? null), now(), id]
+          );
+        }
+        const row = db.get<Record<string, any>>('SELECT * FROM features WHERE id = ?', [id]);
+        return row ? toFeature(row) : null;
+      },
+
+      async listTags(id) {
+        return db.all<Tag>(
+          'SELECT t.id, t.name, t.type FROM tags t JOIN feature_tags ft ON ft.tag_id = t.id WHERE ft.feature_id = ? ORDER BY t.name',
+          [id]
+        );
+      },
+
+      async setTags(id, tagIds) {
+        return db.transaction(() => {
+          db.run('DELETE FROM feature_tags WHERE feature_id = ?', [id]);
+          for (const tagId of tagIds) {
+            db.run('INSERT OR IGNORE INTO feature_tags (feature_id, tag_id) VALUES (?, ?)', [id, tagId]);
+          }
+        });
+      },
+
+      async mergeInto(sourceId, targetId) {
+        return db.transaction(() => {
+          db.run('UPDATE feature_sources SET feature_id = ? WHERE feature_id = ?', [targetId, sourceId]);
+          db.run('UPDATE features SET parent_feature_id = ? WHERE parent_feature_id = ?', [targetId, sourceId]);
+          // Rows the target already has stay behind and go with the source
+          for (const table of ['feature_votes', 'feature_followers', 'feature_tags', 'feature_announcements']) {
+            db.run(`UPDATE OR IGNORE ${table} SET feature_id = ? WHERE feature_id = ?`, [targetId, sourceId]);
+          }
+          for (const table of ['feature_tags', 'feature_embeddings', 'feature_status_history', 'feature_announcements', 'feature_followers', 'feature_votes']) {
+            db.run(`DELETE FROM ${table} WHERE feature_id = ?`, [sourceId]);
+          }
+          db.run('DELETE FROM features WHERE id = ?', [sourceId]);
+        });
+      },
+
+      async addSource(featureId, source) {
+        const id = crypto.randomUUID();
+        db.run(
+          `INSERT INTO feature_sources (id, feature_id, source_cast_hash, source_cast_author_fid, source_cast_text, created_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            id,
+            featureId,
+            source.source_cast_hash,
+            source.source_cast_author_fid || null,
+            source.source_cast_text || null,
+            now(),
+          ]
+        );
+        return id;
+      },
+
+      async removeSource(sourceId) {
+        db.run('DELETE FROM feature_sources WHERE id = ?', [sourceId]);
+      },
+
+      async listSources(featureId) {
+        return db.all<FeatureSourceRow>(
+          'SELECT * FROM feature_sources WHERE feature_id = ? ORDER BY created_at',
+          [featureId]
+        );
+      },
+
+      async delete(id) {
+        return db.transaction(() => {
+          const ids = [id, ...db.all<{ id: string }>('SELECT id FROM features WHERE parent_feature_id = ?', [id]).map(row => row.id)];
+          const placeholders = ids.map(() => '?').join(', ');
+          for (const table of [
+            'feature_sources',
+            'feature_tags',
+            'feature_embeddings',
+            'feature_status_history',
+            'feature_announcements',
+            'feature_followers',
+            'feature_votes',
+          ]) {
+            db.run(`DELETE FROM ${table} WHERE feature_id IN (${placeholders})`, ids);
+          }
+          db.run(`DELETE FROM features WHERE id IN (${placeholders})`, ids);
+        });
+      },
+
+      async listTop(projectId, limit) {
+        return db.all<Record<string, any>>(
+          'SELECT * FROM features WHERE project_id = ? AND is_sub_item = 0 AND is_hidden = 0 ORDER BY total_weight DESC, created_at DESC LIMIT ?',
+          [projectId, limit]
+        ).map(toFeature);
+      },
+
+      async listNewest(projectId, limit) {
+        return db.all<Record<string, any>>(
+          'SELECT * FROM features WHERE project_id = ? AND is_sub_item = 0 AND is_hidden = 0 ORDER BY created_at DESC LIMIT ?',
+          [projectId, limit]
+        ).map(toFeature);
+      },
+
+      async searchByTitle(projectId, query, limit) {
+        const pattern = `%${query.toLowerCase().replace(/[\\%_]/g, c => `\\${c}`)}%`;
+        return db.all<Record<string, any>>(
+          "SELECT * FROM features WHERE project_id = ? AND is_hidden = 0 AND LOWER(title) LIKE ? ESCAPE '\\' ORDER BY total_weight DESC LIMIT ?",
+          [projectId, pattern, limit]
+        ).map(toFeature);
+      },
+
+      async listBySubmitter(fid, limit) {
+        return db.all<Record<string, any>>(
+          'SELECT * FROM features WHERE submitter_fid = ? AND is_sub_item = 0 AND is_hidden = 0 ORDER BY created_at DESC LIMIT ?',
+          [fid, limit]
+        ).map(toFeature);
+      },
+
+      async countByStatus() {
+        return db.all<FeatureCount>(
+          'SELECT project_id, status, COUNT(*) AS count FROM features WHERE is_sub_item = 0 AND is_hidden = 0 GROUP BY project_id, status'
+        );
+      },
+
+      async updateStatus(id, from, to) {
+        const changes = db.run(
+          'UPDATE features SET status = ?, updated_at = ? WHERE id = ? AND status = ?',
+          [to, now(), id, from]
+        );
+        return changes > 0;
+      },
+
+      async setHidden(id, hidden) {
+        const changes = db.run(
+          'UPDATE features SET is_hidden = ?, updated_at = ? WHERE id = ? AND is_hidden = ?',
+          [hidden ? 1 : 0, now(), id, hidden ? 0 : 1]
+        );
+        return changes > 0;
+      },
+
+      async storeEmbedding(id, model, embedding) {
+        db.run(
+          `INSERT INTO feature_embeddings (feature_id, model, embedding, updated_at) VALUES (?, ?, ?, ?)
+           ON CONFLICT (feature_id, model) DO UPDATE SET embedding = excluded.embedding, updated_at = excluded.updated_at`,
+          [id, model, JSON.stringify(embedding), now()]
+        );
+      },
+
+      async listMissingEmbedding(model, afterId, limit) {
+        return db.all<Pick<Feature, 'id' | 'title' | 'description'>>(
+          `SELECT f.id, f.title, f.description FROM features f
+           WHERE f.id > ? AND NOT EXISTS (SELECT 1 FROM feature_embeddings e WHERE e.feature_id = f.id AND e.model = ?)
+           ORDER BY f.id LIMIT ?`,
+          [afterId ?? '', model, limit]
+        );
+      },
+
+      async matchSimilar(projectId, model, embedding, threshold, count) {
+        const rows = db.all<{ id: string; title: string; description: string; embedding: string }>(
+          `SELECT f.id, f.title, f.description, e.embedding
+           FROM features f JOIN feature_embeddings e ON e.feature_id = f.id
+           WHERE f.project_id = ? AND f.is_hidden = 0 AND e.model = ?`,
+          [projectId, model]
+        );
+
+        const matches: SimilarFeature[] = [];
+        for (const row of rows) {
+          const similarity = cosineSimilarity(embedding, JSON.parse(row.embedding));
+          if (similarity > threshold) {
+            matches.push({ id: row.id, title: row.title, description: row.description, similarity });
+          }
+        }
+
+        return matches
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, count);
+      },
+    },
+
+    mergeDecisions: {
+      async create(params) {
+        const id = crypto.randomUUID();
+        db.run(
+          `INSERT INTO merge_decisions (id, project_id, candidate_feature_id, similarity, requester_fid, mention_cast_hash, question_cast_hash, feature, source_cast_hash, source_cast_author_fid, source_cast_text, status, expires_at, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)`,
+          [
+            id,
+            params.project_id,
+            params.candidate_feature_id,
+            params.similarity,
+            params.requester_fid,
+            params.mention_cast_hash,
+            params.question_cast_hash,
+            JSON.stringify(params.feature),
+            params.source_cast_hash,
+            params.source_cast_author_fid || null,
+            params.source_cast_text || null,
+            params.expires_at,
+            now(),
+          ]
+        );
+        return toMergeDecision(db.get<Record<string, any>>('SELECT * FROM merge_decisions WHERE id = ?', [id])!);
+      },
+
+      async getById(id) {
+        const row = db.get<Record<string, any>>('SELECT * FROM merge_decisions WHERE id = ?', [id]);
+        return row ? toMergeDecision(row) : null;
+      },
+
+      async getPendingByQuestionCast(castHash) {
+        const row = db.get<Record<string, any>>(
+          "SELECT * FROM merge_decisions WHERE question_cast_hash = ? AND status = 'pending'",
+          [castHash]
+        );
+        return row ? toMergeDecision(row) : null;
+      },
+
+      async resolve(id, status, resolvedBy) {
+        const changes = db.run(
+          "UPDATE merge_decisions SET status = ?, resolved_by = ?, resolved_at = ? WHERE id = ? AND status = 'pending'",
+          [status, resolvedBy, now(), id]
+        );
+        return changes > 0;
+      },
+    },
+
+    projectSetups: {
+      async create(params) {
+        const id = crypto.randomUUID();
+        const timestamp = now();
+        db.run(
+          `INSERT INTO pending_project_setups (id, project_handle, requester_fid, mention_cast_hash, prompt_cast_hash, step, fields, status, expires_at, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, 'owner', '{}', 'pending', ?, ?, ?)`,
+          [
+            id,
+            params.project_handle.toLowerCase(),
+            params.requester_fid,
+            params.mention_cast_hash,
+            params.prompt_cast_hash,
+            params.expires_at,
+            timestamp,
+            timestamp,
+          ]
+        );
+        return toProjectSetup(db.get<Record<string, any>>('SELECT * FROM pending_project_setups WHERE id = ?', [id])!);
+      },
+
+      async getPendingByCast(castHash) {
+        const row = db.get<Record<string, any>>(
+          `SELECT * FROM pending_project_setups
+           WHERE (prompt_cast_hash = ? OR mention_cast_hash = ?) AND status = 'pending' AND expires_at > ?
+           ORDER BY created_at DESC LIMIT 1`,
+          [castHash, castHash, now()]
+        );
+        return row ? toProjectSetup(row) : null;
+      },
+
+      async listPending(limit) {
+        return db.all<Record<string, any>>(
+          "SELECT * FROM pending_project_setups WHERE status = 'pending' AND expires_at > ? ORDER BY created_at DESC LIMIT ?",
+          [now(), limit]
+        ).map(toProjectSetup);
+      },
+
+      async update(id, changes) {
+        db.run(
+          'UPDATE pending_project_setups SET step = ?, fields = ?, prompt_cast_hash = ?, updated_at = ? WHERE id = ?',
+          [changes.step, JSON.stringify(changes.fields), changes.prompt_cast_hash, now(), id]
+        );
+      },
+
+      async finish(id, status) {
+        const changes = db.run(
+          "UPDATE pending_project_setups SET status = ?, updated_at = ? WHERE id = ? AND status = 'pending'",
+          [status, now(), id]
+        );
+        return changes > 0;
+      },
+    },
+
+    clarifications: {
+      async create(params) {
+        const id = crypto.randomUUID();
+        db.run(
+          `INSERT INTO pending_clarifications (id, requester_fid, mention_cast_hash, prompt_cast_hash, parent_cast_hash, parent_cast_author_fid, parent_cast_author_username, parent_cast_text, context, candidate_project_ids, status, expires_at, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)`,
+          [
+            id,
+            params.requester_fid,
+            params.mention_cast_hash,
+            params.prompt_cast_hash,
+            params.parent_cast_hash,
+            params.parent_cast_author_fid,
+            params.parent_cast_author_username,
+            params.parent_cast_text,
+            params.context,
+            JSON.stringify(params.candidate_project_ids),
+            params.expires_at,
+            now(),
+          ]
+        );
+        return toClarification(db.get<Record<string, any>>('SELECT * FROM pending_clarifications WHERE id = ?', [id])!);
+      },
+
+      async getPendingByPromptCast(castHash) {
+        const row = db.get<Record<string, any>>(
+          `SELECT * FROM pending_clarifications
+           WHERE prompt_cast_hash = ? AND status = 'pending' AND expires_at > ?
+           ORDER BY created_at DESC LIMIT 1`,
+          [castHash, now()]
+        );
+        return row ? toClarification(row) : null;
+      },
+
+      async resolve(id, status) {
+        const changes = db.run(
+          "UPDATE pending_clarifications SET status = ?, resolved_at = ? WHERE id = ? AND status = 'pending'",
+          [status, now(), id]
+        );
+        return changes > 0;
+      },
+    },
+
+    statusHistory: {
+      async record(change) {
+        const row: FeatureStatusChange = { id: crypto.randomUUID(), ...change, created_at: now() };
+        db.run(
+          `INSERT INTO feature_status_history (id, feature_id, from_status, to_status, changed_by_fid, cast_hash, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [row.id, row.feature_id, row.from_status, row.to_status, row.changed_by_fid, row.cast_hash, row.created_at]
+        );
+        return row;
+      },
+
+      async getById(id) {
+        return db.get<FeatureStatusChange>('SELECT * FROM feature_status_history WHERE id = ?', [id]);
+      },
+
+      async listForFeature(featureId) {
+        return db.all<FeatureStatusChange>(
+          'SELECT * FROM feature_status_history WHERE feature_id = ? ORDER BY created_at',
+          [featureId]
+        );
+      },
+    },
+
+    announcements: {
+      async record(castHash, featureIds) {
+        for (const featureId of featureIds) {
+          db.run(
+            'INSERT OR IGNORE INTO feature_announcements (cast_hash, feature_id, created_at) VALUES (?, ?, ?)',
+            [castHash, featureId, now()]
+          );
+        }
+      },
+
+      async getFeatureIds(castHash) {
+        return db.all<{ feature_id: string }>(
+          'SELECT feature_id FROM feature_announcements WHERE cast_hash = ? ORDER BY created_at',
+          [castHash]
+        ).map(row => row.feature_id);
+      },
+    },
+
+    notifications: {
+      async follow(featureId, fid) {
+        return db.run(
+          'INSERT OR IGNORE INTO feature_followers (feature_id, fid, created_at) VALUES (?, ?, ?)',
+          [featureId, fid, now()]
+        ) > 0;
+      },
+
+      async unfollow(featureId, fid) {
+        return db.run('DELETE FROM feature_followers WHERE feature_id = ? AND fid = ?', [featureId, fid]) > 0;
+      },
+
+      async listFollowers(featureId) {
+        return db.all<{ fid: number }>(
+          'SELECT fid FROM feature_followers WHERE feature_id = ? ORDER BY created_at',
+          [featureId]
+        ).map(row => row.fid);
+      },
+
+      async listRecipients(statusChangeId) {
+        return db.all<{ recipient_fid: number }>(
+          'SELECT recipient_fid FROM status_notifications WHERE status_change_id = ?',
+          [statusChangeId]
+        ).map(row => row.recipient_fid);
+      },
+
+      async claim(statusChangeId, recipientFid, replyToCastHash) {
+        const id = crypto.randomUUID();
+        const inserted = db.run(
+          `INSERT OR IGNORE INTO status_notifications (id, status_change_id, recipient_fid, reply_to_cast_hash, created_at)
+           VALUES (?, ?, ?, ?, ?)`,
+          [id, statusChangeId, recipientFid, replyToCastHash, now()]
+        );
+        return inserted > 0 ? id : null;
+      },
+
+      async markSent(ids, sentCastHash) {
+        for (const id of ids) {
+          db.run(
+            'UPDATE status_notifications SET sent_cast_hash = ?, sent_at = ? WHERE id = ?',
+            [sentCastHash, now(), id]
+          );
+        }
+      },
+    },
+
+    votes: {
+      async get(featureId, fid) {
+        return db.get<Vote>('SELECT * FROM feature_votes WHERE feature_id = ? AND fid = ?', [featureId, fid]);
+      },
+
+      async list(featureId) {
+        return db.all<Vote>('SELECT * FROM feature_votes WHERE feature_id = ? ORDER BY created_at', [featureId]);
+      },
+
+      async record(vote) {
+        return db.transaction(() => {
+          const existing = db.get<Vote>('SELECT * FROM feature_votes WHERE feature_id = ? AND fid = ?', [vote.feature_id, vote.fid]);
+          if (existing && (existing.source === 'reply' || vote.source === 'like')) {
+            return null;
+          }
+
+          const timestamp = now();
+          db.run(
+            `INSERT INTO feature_votes (feature_id, fid, weight, source, cast_hash, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT (feature_id, fid) DO UPDATE SET
+               weight = excluded.weight, source = excluded.source, cast_hash = excluded.cast_hash, updated_at = excluded.updated_at`,
+            [vote.feature_id, vote.fid, vote.weight, vote.source, vote.cast_hash, timestamp, timestamp]
+          );
+          const previousWeight = existing?.weight ?? null;
+          return { previousWeight, total: addToTotal(vote.feature_id, vote.weight - (previousWeight ?? 0)) };
+        });
+      },
+
+      async removeLike(featureId, fid) {
+        return db.transaction(() => {
+          const existing = db.get<Vote>("SELECT * FROM feature_votes WHERE feature_id = ? AND fid = ? AND source = 'like'", [featureId, fid]);
+          if (!existing) return null;
+          db.run('DELETE FROM feature_votes WHERE feature_id = ? AND fid = ?', [featureId, fid]);
+          return addToTotal(featureId, -existing.weight);
+        });
+      },
+
+      async addToTotal(featureId, delta) {
+        return addToTotal(featureId, delta);
+      },
+    },
+
+    actions: {
+      async create(params) {
+        const id = crypto.randomUUID();
+        db.run(
+          `INSERT INTO bot_actions (id, type, project_id, feature_id, requester_fid, mention_cast_hash, request, source, before, after, status, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'applied', ?)`,
+          [
+            id,
+            params.type,
+            params.project_id,
+            params.feature_id,
+            params.requester_fid,
+            params.mention_cast_hash,
+            JSON.stringify(params.request),
+            JSON.stringify(params.source),
+            params.before ? JSON.stringify(params.before) : null,
+            JSON.stringify(params.after),
+            now(),
+          ]
+        );
+        return toBotAction(db.get<Record<string, any>>('SELECT * FROM bot_actions WHERE id = ?', [id])!);
+      },
+
+      async setReplyCast(ids, replyCastHash) {
+        for (const id of ids) {
+          db.run('UPDATE bot_actions SET reply_cast_hash = ? WHERE id = ?', [replyCastHash, id]);
+        }
+      },
+
+      async getByReplyCast(replyCastHash) {
+        return db.all<Record<string, any>>(
+          "SELECT * FROM bot_actions WHERE reply_cast_hash = ? AND status = 'applied' ORDER BY created_at",
+          [replyCastHash]
+        ).map(toBotAction);
+      },
+
+      async getByFeature(featureId) {
+        return db.all<Record<string, any>>(
+          "SELECT * FROM bot_actions WHERE feature_id = ? AND status = 'applied' ORDER BY created_at",
+          [featureId]
+        ).map(toBotAction);
+      },
+
+      async listByMention(mentionCastHash) {
+        return db.all<Record<string, any>>(
+          'SELECT * FROM bot_actions WHERE mention_cast_hash = ? ORDER BY created_at',
+          [mentionCastHash]
+        ).map(toBotAction);
+      },
+
+      async markReverted(id, revertedByFid) {
+        const changes = db.run(
+          "UPDATE bot_actions SET status = 'reverted', reverted_by_fid = ?, reverted_at = ? WHERE id = ? AND status = 'applied'",
+          [revertedByFid, now(), id]
+        );
+        return changes > 0;
+      },
+    },
+
+    tags: {
+      async getByName(name) {
+        return db.get<Tag>('SELECT id, name, type FROM tags WHERE name = ?', [name.toLowerCase()]);
+      },
+
+      async create(name, type) {
+        const id = crypto.randomUUID();
+        try {
+          db.run('INSERT INTO tags (id, name, type) VALUES (?, ?, ?)', [id, name.toLowerCase(), type]);
+        } catch (err) {
+          throw new Error(`Failed to create tag: ${(err as Error).message}`);
+        }
+        return { id, name: name.toLowerCase(), type };
+      },
+
+      async getPredefined() {
+        return db.all<Tag>("SELECT id, name, type FROM tags WHERE type = 'predefined' ORDER BY name");
+      },
+
+      async getById(id) {
+        return db.get<Tag>('SELECT id, name, type FROM tags WHERE id = ?', [id]);
+      },
+
+      async listAll() {
+        return db.all<Tag>('SELECT id, name, type FROM tags ORDER BY name');
+      },
+
+      async rename(id, name) {
+        if (db.get('SELECT id FROM tags WHERE name = ? AND id != ?', [name.toLowerCase(), id])) {
+          return null;
+        }
+        db.run('UPDATE tags SET name = ? WHERE id = ?', [name.toLowerCase(), id]);
+        return db.get<Tag>('SELECT id, name, type FROM tags WHERE id = ?', [id]);
+      },
+
+      async delete(id) {
+        return db.transaction(() => {
+          db.run('DELETE FROM feature_tags WHERE tag_id = ?', [id]);
+          return db.run('DELETE FROM tags WHERE id = ?', [id]) > 0;
+        });
+      },
+    },
+
+    mentions: {
+      async exists(castHash) {
+        return !!db.get('SELECT id FROM bot_mentions WHERE cast_hash = ?', [castHash]);
+      },
+
+      async insert(row) {
+        db.run(
+          `INSERT INTO bot_mentions (id, cast_hash, mention_author_fid, parent_cast_hash, parent_cast_author_fid, parent_cast_text, detected_projects, features_created, features_merged, error_message, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            crypto.randomUUID(),
+            row.cast_hash,
+            row.mention_author_fid,
+            row.parent_cast_hash,
+            row.parent_cast_author_fid,
+            row.parent_cast_text,
+            row.detected_projects ? JSON.stringify(row.detected_projects) : null,
+            row.features_created,
+            row.features_merged,
+            row.error_message,
+            now(),
+          ]
+        );
+      },
+
+      async list(filter) {
+        const conditions: string[] = [];
+        const params: SqlParams = [];
+        if (filter.error === true) {
+          conditions.push('error_message IS NOT NULL');
+        } else if (filter.error === false) {
+          conditions.push('error_message IS NULL');
+        } else if (typeof filter.error === 'string') {
+          conditions.push("LOWER(error_message) LIKE ? ESCAPE '\\'");
+          params.push(`%${filter.error.toLowerCase().replace(/[\\%_]/g, c => `\\${c}`)}%`);
+        }
+        if (filter.fid !== undefined) {
+          conditions.push('mention_author_fid = ?');
+          params.push(filter.fid);
+        }
+        if (filter.before) {
+          conditions.push('created_at < ?');
+          params.push(filter.before);
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        return db.all<Record<string, any>>(
+          `SELECT * FROM bot_mentions ${where} ORDER BY created_at DESC LIMIT ?`,
+          [...params, filter.limit]
+        ).map(toBotMention);
+      },
+
+      async listByCast(castHash) {
+        return db.all<Record<string, any>>(
+          'SELECT * FROM bot_mentions WHERE cast_hash = ? ORDER BY created_at',
+          [castHash]
+        ).map(toBotMention);
+      },
+    },
+
+    rateLimits: {
+      // sql.js runs synchronously, so the read and the write can't interleave with another take
+      async take(key, limit, cost) {
+        return db.transaction(() => {
+          const row = db.get<{ tokens: number; updated_at: string }>(
+            'SELECT tokens, updated_at FROM rate_limit_buckets WHERE key = ?',
+            [key]
+          );
+          const { state, result } = takeTokens(
+            row ? { tokens: row.tokens, updated_at: Date.parse(row.updated_at) } : null,
+            limit,
+            cost,
+            Date.now()
+          );
+          db.run(
+            `INSERT INTO rate_limit_buckets (key, tokens, updated_at) VALUES (?, ?, ?)
+             ON CONFLICT (key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at`,
+            [key, state.tokens, new Date(state.updated_at).toISOString()]
+          );
+          return result;
+        });
+      },
+
+      async peek(key, limit, cost) {
+        const row = db.get<{ tokens: number; updated_at: string }>(
+          'SELECT tokens, updated_at FROM rate_limit_buckets WHERE key = ?',
+          [key]
+        );
+        return takeTokens(
+          row ? { tokens: row.tokens, updated_at: Date.parse(row.updated_at) } : null,
+          limit,
+          cost,
+          Date.now()
+        ).result;
+      },
+    },
+  };
+}
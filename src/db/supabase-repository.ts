@@ -0,0 +1,1757 @@
+import { supabase } from './client.js';
+import { takeTokens } from '../ratelimit/bucket.js';
+import type {
+  BotAction,
+  BotMention,
+  Feature,
+  FeatureCount,
+  FeatureSourceRow,
+  FeatureStatusChange,
+  MergeDecision,
+  ModerationItem,
+  ModerationRule,
+  OwnershipClaim,
+  PendingClarification,
+  PendingProjectSetup,
+  Project,
+  ProjectAdmin,
+  ProjectAlias,
+  ProjectAdminChange,
+  ProjectRole,
+  Repository,
+  SimilarFeature,
+  Tag,
+  Vote,
+} from './repository.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('db');
+
+const PROJECT_COLUMNS = 'id, name, project_handle, voting_type, token_address, owner_fid, is_verified, rate_limit_hourly, user_rate_limit_daily';
+
+async function logAdminChange(projectId: string, fid: number, role: ProjectRole | null, previousRole: ProjectRole | null, actorFid: number) {
+  const { error } = await supabase
+    .from('project_admin_changes')
+    .insert({ project_id: projectId, fid, role, previous_role: previousRole, actor_fid: actorFid });
+
+  if (error) {
+    log.error('Failed to log project admin change', error);
+  }
+}
+
+async function getAdminRole(projectId: string, fid: number): Promise<ProjectRole | null> {
+  const { data } = await supabase
+    .from('project_admins')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('fid', fid)
+    .maybeSingle();
+
+  return (data?.role as ProjectRole) || null;
+}
+
+// The owner is the only "owner" row in project_admins
+async function setOwnerAdmin(projectId: string, ownerFid: number) {
+  const { data: removed } = await supabase
+    .from('project_admins')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('role', 'owner')
+    .neq('fid', ownerFid)
+    .select('fid');
+
+  for (const { fid } of removed || []) {
+    await logAdminChange(projectId, fid, null, 'owner', ownerFid);
+  }
+
+  const previousRole = await getAdminRole(projectId, ownerFid);
+  if (previousRole === 'owner') return;
+
+  const { error } = await supabase
+    .from('project_admins')
+    .upsert({ project_id: projectId, fid: ownerFid, role: 'owner' }, { onConflict: 'project_id,fid' });
+
+  if (error) {
+    log.error('Failed to update project owner admin row', error);
+    return;
+  }
+  await logAdminChange(projectId, ownerFid, 'owner', previousRole, ownerFid);
+}
+
+export function createSupabaseRepository(): Repository {
+  return {
+    projects: {
+      async getByHandle(handle) {
+        const { data, error } = await supabase
+          .from('projects')
+          .select(PROJECT_COLUMNS)
+          .eq('project_handle', handle.toLowerCase())
+          .single();
+
+        if (error || !data) {
+          return null;
+        }
+
+        return data as Project;
+      },
+
+      async getById(id) {
+        const { data, error } = await supabase
+          .from('projects')
+          .select(PROJECT_COLUMNS)
+          .eq('id', id)
+          .single();
+
+        if (error || !data) {
+          return null;
+        }
+
+        return data as Project;
+      },
+
+      async getAll() {
+        const { data, error } = await supabase
+          .from('projects')
+          .select(PROJECT_COLUMNS)
+          .order('name');
+
+        if (error) {
+          log.error('Failed to get projects', error);
+          return [];
+        }
+
+        return (data || []) as Project[];
+      },
+
+      async getAdminRole(projectId, fid) {
+        return getAdminRole(projectId, fid);
+      },
+
+      async listAdmins(projectId) {
+        const { data, error } = await supabase
+          .from('project_admins')
+          .select('project_id, fid, role, created_at')
+          .eq('project_id', projectId)
+          .order('created_at', { ascending: true });
+
+        if (error) {
+          throw new Error(`Failed to list project admins: ${error.message}`);
+        }
+
+        const admins = (data || []) as ProjectAdmin[];
+        return [...admins.filter(a => a.role === 'owner'), ...admins.filter(a => a.role !== 'owner')];
+      },
+
+      async setAdminRole(projectId, fid, role, actorFid) {
+        const previousRole = await getAdminRole(projectId, fid);
+        if (previousRole === role || previousRole === 'owner') return;
+
+        const { error } = await supabase
+          .from('project_admins')
+          .upsert({ project_id: projectId, fid, role }, { onConflict: 'project_id,fid' });
+
+        if (error) {
+          throw new Error(`Failed to set project admin: ${error.message}`);
+        }
+        await logAdminChange(projectId, fid, role, previousRole, actorFid);
+      },
+
+      async removeAdmin(projectId, fid, actorFid) {
+        const { data, error } = await supabase
+          .from('project_admins')
+          .delete()
+          .eq('project_id', projectId)
+          .eq('fid', fid)
+          .neq('role', 'owner')
+          .select('role');
+
+        if (error) {
+          throw new Error(`Failed to remove project admin: ${error.message}`);
+        }
+        if (!data || data.length === 0) {
+          return false;
+        }
+
+        await logAdminChange(projectId, fid, null, data[0].role as ProjectRole, actorFid);
+        return true;
+      },
+
+      async listAdminChanges(projectId, limit) {
+        const { data, error } = await supabase
+          .from('project_admin_changes')
+          .select('*')
+          .eq('project_id', projectId)
+          .order('created_at', { ascending: false })
+          .limit(limit);
+
+        if (error) {
+          throw new Error(`Failed to list project admin changes: ${error.message}`);
+        }
+        return (data || []) as ProjectAdminChange[];
+      },
+
+      async create(params) {
+        const { data, error } = await supabase
+          .from('projects')
+          .insert({
+            name: params.name,
+            project_handle: params.project_handle.toLowerCase(),
+            owner_fid: params.owner_fid,
+            creator_fid: params.owner_fid,
+            bio: params.bio || null,
+            voting_type: params.voting_type || 'score',
+            token_address: params.token_address || null,
+            created_by_bot: params.created_by_bot ?? true,
+            is_verified: false,
+          })
+          .select(PROJECT_COLUMNS)
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to create project: ${error.message}`);
+        }
+
+        // Add owner as admin
+        await supabase.from('project_admins').insert({
+          project_id: data.id,
+          fid: params.owner_fid,
+          role: 'owner',
+        });
+
+        return data as Project;
+      },
+
+      async verify(id, ownerFid) {
+        const { error } = await supabase
+          .from('projects')
+          .update({ owner_fid: ownerFid, is_verified: true })
+          .eq('id', id);
+
+        if (error) {
+          throw new Error(`Failed to verify project: ${error.message}`);
+        }
+
+        await setOwnerAdmin(id, ownerFid);
+      },
+
+      async transferOwner(id, fromFid, toFid) {
+        const { data, error } = await supabase
+          .from('projects')
+          .update({ owner_fid: toFid })
+          .eq('id', id)
+          .eq('owner_fid', fromFid)
+          .select('id');
+
+        if (error) {
+          throw new Error(`Failed to transfer project: ${error.message}`);
+        }
+        if ((data || []).length === 0) {
+          return false;
+        }
+
+        await setOwnerAdmin(id, toFid);
+        return true;
+      },
+
+      async setRateLimits(id, limits) {
+        const { error } = await supabase
+          .from('projects')
+          .update(limits)
+          .eq('id', id);
+
+        if (error) {
+          throw new Error(`Failed to update rate limits: ${error.message}`);
+        }
+      },
+
+      async update(id, changes) {
+        const { data, error } = await supabase
+          .from('projects')
+          .update(changes)
+          .eq('id', id)
+          .select(PROJECT_COLUMNS)
+          .maybeSingle();
+
+        if (error) {
+          throw new Error(`Failed to update project: ${error.message}`);
+        }
+
+        return data as Project | null;
+      },
+    },
+
+    ownershipClaims: {
+      async create(params) {
+        const { data, error } = await supabase
+          .from('project_ownership_claims')
+          .insert({ ...params, status: 'pending' })
+          .select('*')
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to create ownership claim: ${error.message}`);
+        }
+
+        return data as OwnershipClaim;
+      },
+
+      async getPendingByPromptCast(castHash) {
+        const { data, error } = await supabase
+          .from('project_ownership_claims')
+          .select('*')
+          .eq('prompt_cast_hash', castHash)
+          .eq('status', 'pending')
+          .gt('expires_at', new Date().toISOString())
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (error || !data) {
+          return null;
+        }
+
+        return data as OwnershipClaim;
+      },
+
+      async resolve(id, status) {
+        const { data, error } = await supabase
+          .from('project_ownership_claims')
+          .update({ status, resolved_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('status', 'pending')
+          .select('id');
+
+        if (error) {
+          log.error('Failed to resolve ownership claim', error);
+          return false;
+        }
+
+        return (data || []).length > 0;
+      },
+    },
+
+    projectAliases: {
+      async listAll() {
+        const { data, error } = await supabase
+          .from('project_aliases')
+          .select('*')
+          .order('created_at', { ascending: true });
+
+        if (error) {
+          throw new Error(`Failed to list project aliases: ${error.message}`);
+        }
+        return (data || []) as ProjectAlias[];
+      },
+
+      async listForProject(projectId) {
+        const { data, error } = await supabase
+          .from('project_aliases')
+          .select('*')
+          .eq('project_id', projectId)
+          .order('kind', { ascending: true })
+          .order('created_at', { ascending: true });
+
+        if (error) {
+          throw new Error(`Failed to list project aliases: ${error.message}`);
+        }
+        return (data || []) as ProjectAlias[];
+      },
+
+      async add(params) {
+        // The unique (kind, value) constraint is what rejects collisions
+        const { data, error } = await supabase
+          .from('project_aliases')
+          .upsert(params, { onConflict: 'kind,value', ignoreDuplicates: true })
+          .select('*');
+
+        if (error) {
+          throw new Error(`Failed to add project alias: ${error.message}`);
+        }
+        return data && data.length > 0 ? (data[0] as ProjectAlias) : null;
+      },
+
+      async remove(projectId, kind, value) {
+        const { data, error } = await supabase
+          .from('project_aliases')
+          .delete()
+          .eq('project_id', projectId)
+          .eq('kind', kind)
+          .eq('value', value)
+          .select('id');
+
+        if (error) {
+          throw new Error(`Failed to remove project alias: ${error.message}`);
+        }
+        return (data || []).length > 0;
+      },
+    },
+
+    moderation: {
+      async listRules(projectId) {
+        const query = supabase.from('moderation_rules').select('*');
+        const { data, error } = await (projectId ? query.eq('project_id', projectId) : query.is('project_id', null))
+          .order('kind', { ascending: true })
+          .order('created_at', { ascending: true });
+
+        if (error) {
+          throw new Error(`Failed to list moderation rules: ${error.message}`);
+        }
+        return (data || []) as ModerationRule[];
+      },
+
+      async addRule(params) {
+        // unique nulls not distinct (project_id, kind, value) rejects duplicates, global ones included
+        const { data, error } = await supabase
+          .from('moderation_rules')
+          .upsert(params, { onConflict: 'project_id,kind,value', ignoreDuplicates: true })
+          .select('*');
+
+        if (error) {
+          throw new Error(`Failed to add moderation rule: ${error.message}`);
+        }
+        return data && data.length > 0 ? (data[0] as ModerationRule) : null;
+      },
+
+      async removeRule(projectId, kind, value) {
+        const query = supabase.from('moderation_rules').delete();
+        const { data, error } = await (projectId ? query.eq('project_id', projectId) : query.is('project_id', null))
+          .eq('kind', kind)
+          .eq('value', value)
+          .select('id');
+
+        if (error) {
+          throw new Error(`Failed to remove moderation rule: ${error.message}`);
+        }
+        return (data || []).length > 0;
+      },
+
+      async enqueue(params) {
+        const { data, error } = await supabase
+          .from('moderation_queue')
+          .insert({ ...params, status: 'pending' })
+          .select('*')
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to queue request for moderation: ${error.message}`);
+        }
+        return data as ModerationItem;
+      },
+
+      async getItem(id) {
+        const { data, error } = await supabase
+          .from('moderation_queue')
+          .select('*')
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error || !data) {
+          return null;
+        }
+        return data as ModerationItem;
+      },
+
+      async listPending(projectId, limit) {
+        let query = supabase
+          .from('moderation_queue')
+          .select('*')
+          .eq('status', 'pending');
+        if (projectId) {
+          query = query.eq('project_id', projectId);
+        }
+        const { data, error } = await query
+          .order('created_at', { ascending: true })
+          .limit(limit);
+
+        if (error) {
+          throw new Error(`Failed to list moderation queue: ${error.message}`);
+        }
+        return (data || []) as ModerationItem[];
+      },
+
+      async getPendingByNoticeCast(castHash) {
+        const { data, error } = await supabase
+          .from('moderation_queue')
+          .select('*')
+          .eq('notice_cast_hash', castHash)
+          .eq('status', 'pending')
+          .order('created_at', { ascending: true });
+
+        if (error) {
+          throw new Error(`Failed to look up moderation queue: ${error.message}`);
+        }
+        return (data || []) as ModerationItem[];
+      },
+
+      async listByMention(castHash) {
+        const { data, error } = await supabase
+          .from('moderation_queue')
+          .select('*')
+          .eq('mention_cast_hash', castHash)
+          .order('created_at', { ascending: true });
+
+        if (error) {
+          throw new Error(`Failed to look up moderation queue: ${error.message}`);
+        }
+        return (data || []) as ModerationItem[];
+      },
+
+      async setNoticeCast(ids, castHash) {
+        if (ids.length === 0) return;
+        const { error } = await supabase
+          .from('moderation_queue')
+          .update({ notice_cast_hash: castHash })
+          .in('id', ids);
+
+        if (error) {
+          log.error('Failed to link moderation notice', error);
+        }
+      },
+
+      async review(id, status, reviewerFid) {
+        // Conditional update so two moderators can't both act on the same request
+        const { data, error } = await supabase
+          .from('moderation_queue')
+          .update({
+            status,
+            reviewed_by_fid: reviewerFid,
+            reviewed_at: new Date().toISOString()
+          })
+          .eq('id', id)
+          .eq('status', 'pending')
+          .select('id');
+
+        if (error) {
+          throw new Error(`Failed to review moderation item: ${error.message}`);
+        }
+        return (data || []).length > 0;
+      },
+    },
+
+    features: {
+      async create(params) {
+        const { data, error } = await supabase
+          .from('features')
+          .insert({
+            project_id: params.project_id,
+            title: params.title,
+            description: params.description,
+            submitter_fid: params.submitter_fid,
+            source_cast_hash: params.source_cast_hash || null,
+            source_cast_author_fid: params.source_cast_author_fid || null,
+            parent_feature_id: params.parent_feature_id || null,
+            is_sub_item: params.is_sub_item || false,
+            status: 'open',
+            total_weight: 0,
+          })
+          .select('id')
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to create feature: ${error.message}`);
+        }
+
+        // Add tags if provided
+        if (params.tags && params.tags.length > 0) {
+          const tagInserts = params.tags.map(tagId => ({
+            feature_id: data.id,
+            tag_id: tagId
+          }));
+
+          await supabase.from('feature_tags').insert(tagInserts);
+        }
+
+        return data.id;
+      },
+
+      async getById(id) {
+        const { data, error } = await supabase
+          .from('features')
+          .select('*')
+          .eq('id', id)
+          .single();
+
+        if (error) {
+          return null;
+        }
+
+        return data as Feature;
+      },
+
+      async list(filter) {
+        let query = supabase
+          .from('features')
+          .select('*')
+          .eq('project_id', filter.project_id);
+        if (filter.status) {
+          query = query.eq('status', filter.status);
+        }
+        if (!filter.include_hidden) {
+          query = query.eq('is_hidden', false);
+        }
+        const offset = filter.offset || 0;
+        const { data, error } = await query
+          .order('created_at', { ascending: false })
+          .range(offset, offset + filter.limit - 1);
+
+        if (error) {
+          throw new Error(`Failed to list features: ${error.message}`);
+        }
+
+        return (data || []) as Feature[];
+      },
+
+      async update(id, changes) {
+        const { data, error } = await supabase
+          .from('features')
+          .update({
+            ...changes,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', id)
+          .select('*')
+          .maybeSingle();
+
+        if (error) {
+          throw new Error(`Failed to update feature: ${error.message}`);
+        }
+
+        return data as Feature | null;
+      },
+
+      async listTags(id) {
+        const { data, error } = await supabase
+          .from('feature_tags')
+          .select('tags(id, name, type)')
+          .eq('feature_id', id);
+
+        if (error) {
+          throw new Error(`Failed to list feature tags: ${error.message}`);
+        }
+
+        return (data || [])
+          .map(row => row.tags as unknown as Tag)
+          .filter(Boolean)
+          .sort((a, b) => a.name.localeCompare(b.name));
+      },
+
+      async setTags(id, tagIds) {
+        const { error } = await supabase
+          .from('feature_tags')
+          .delete()
+          .eq('feature_id', id);
+
+        if (error) {
+          throw new Error(`Failed to clear feature tags: ${error.message}`);
+        }
+
+        if (tagIds.length > 0) {
+          const { error: insertError } = await supabase
+            .from('feature_tags')
+            .insert(tagIds.map(tagId => ({ feature_id: id, tag_id: tagId })));
+
+          if (insertError) {
+            throw new Error(`Failed to set feature tags: ${insertError.message}`);
+          }
+        }
+      },
+
+      async mergeInto(sourceId, targetId) {
+        for (const [table, column] of [['feature_sources', 'feature_id'], ['features', 'parent_feature_id']]) {
+          const { error } = await supabase
+            .from(table)
+            .update({ [column]: targetId })
+            .eq(column, sourceId);
+
+          if (error) {
+            throw new Error(`Failed to move ${table}: ${error.message}`);
+          }
+        }
+
+        // Copy what the target doesn't have yet; the source's rows go with it below
+        for (const [table, key] of [
+          ['feature_votes', 'fid'],
+          ['feature_followers', 'fid'],
+          ['feature_tags', 'tag_id'],
+          ['feature_announcements', 'cast_hash'],
+        ]) {
+          const { data, error } = await supabase
+            .from(table)
+            .select('*')
+            .eq('feature_id', sourceId);
+
+          if (error) {
+            throw new Error(`Failed to read ${table}: ${error.message}`);
+          }
+          if (!data || data.length === 0) continue;
+
+          const { error: copyError } = await supabase
+            .from(table)
+            .upsert(data.map(row => ({ ...row, feature_id: targetId })), {
+              onConflict: `feature_id,${key}`,
+              ignoreDuplicates: true
+            });
+
+          if (copyError) {
+            throw new Error(`Failed to copy ${table}: ${copyError.message}`);
+          }
+        }
+
+        for (const table of ['feature_tags', 'feature_embeddings', 'feature_status_history', 'feature_announcements', 'feature_followers', 'feature_votes']) {
+          await supabase.from(table).delete().eq('feature_id', sourceId);
+        }
+
+        const { error } = await supabase
+          .from('features')
+          .delete()
+          .eq('id', sourceId);
+
+        if (error) {
+          throw new Error(`Failed to delete merged feature: ${error.message}`);
+        }
+      },
+
+      async updateDescription(id, description) {
+        const { error } = await supabase
+          .from('features')
+          .update({
+            description,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', id);
+
+        if (error) {
+          log.error('Failed to update feature description', error);
+        }
+      },
+
+      async addSource(featureId, source) {
+        const { data, error } = await supabase
+          .from('feature_sources')
+          .insert({
+            feature_id: featureId,
+            source_cast_hash: source.source_cast_hash,
+            source_cast_author_fid: source.source_cast_author_fid || null,
+            source_cast_text: source.source_cast_text || null,
+          })
+          .select('id')
+          .single();
+
+        if (error) {
+          log.error('Failed to add feature source', error);
+          return null;
+        }
+
+        return data.id;
+      },
+
+      async removeSource(sourceId) {
+        const { error } = await supabase
+          .from('feature_sources')
+          .delete()
+          .eq('id', sourceId);
+
+        if (error) {
+          log.error('Failed to remove feature source', error);
+        }
+      },
+
+      async listSources(featureId) {
+        const { data, error } = await supabase
+          .from('feature_sources')
+          .select('*')
+          .eq('feature_id', featureId)
+          .order('created_at');
+
+        if (error) {
+          log.error('Failed to list feature sources', error);
+          return [];
+        }
+
+        return (data || []) as FeatureSourceRow[];
+      },
+
+      async delete(id) {
+        const { data: subItems } = await supabase
+          .from('features')
+          .select('id')
+          .eq('parent_feature_id', id);
+
+        const ids = [id, ...(subItems || []).map(row => row.id as string)];
+        for (const table of ['feature_sources', 'feature_tags', 'feature_embeddings']) {
+          await supabase.from(table).delete().in('feature_id', ids);
+        }
+
+        const { error } = await supabase
+          .from('features')
+          .delete()
+          .in('id', ids);
+
+        if (error) {
+          throw new Error(`Failed to delete feature: ${error.message}`);
+        }
+      },
+
+      async listTop(projectId, limit) {
+        const { data, error } = await supabase
+          .from('features')
+          .select('*')
+          .eq('project_id', projectId)
+          .eq('is_sub_item', false)
+          .eq('is_hidden', false)
+          .order('total_weight', { ascending: false })
+          .order('created_at', { ascending: false })
+          .limit(limit);
+
+        if (error) {
+          log.error('Failed to list top features', error);
+          return [];
+        }
+
+        return (data || []) as Feature[];
+      },
+
+      async listNewest(projectId, limit) {
+        const { data, error } = await supabase
+          .from('features')
+          .select('*')
+          .eq('project_id', projectId)
+          .eq('is_sub_item', false)
+          .eq('is_hidden', false)
+          .order('created_at', { ascending: false })
+          .limit(limit);
+
+        if (error) {
+          log.error('Failed to list newest features', error);
+          return [];
+        }
+
+        return (data || []) as Feature[];
+      },
+
+      async searchByTitle(projectId, query, limit) {
+        // Escape LIKE wildcards in user text
+        const pattern = `%${query.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+        const { data, error } = await supabase
+          .from('features')
+          .select('*')
+          .eq('project_id', projectId)
+          .eq('is_hidden', false)
+          .ilike('title', pattern)
+          .order('total_weight', { ascending: false })
+          .limit(limit);
+
+        if (error) {
+          log.error('Failed to search features', error);
+          return [];
+        }
+
+        return (data || []) as Feature[];
+      },
+
+      async listBySubmitter(fid, limit) {
+        const { data, error } = await supabase
+          .from('features')
+          .select('*')
+          .eq('submitter_fid', fid)
+          .eq('is_sub_item', false)
+          .eq('is_hidden', false)
+          .order('created_at', { ascending: false })
+          .limit(limit);
+
+        if (error) {
+          log.error('Failed to list submitted features', error);
+          return [];
+        }
+
+        return (data || []) as Feature[];
+      },
+
+      async countByStatus() {
+        // PostgREST has no GROUP BY here; page through the two columns and count them
+        const counts = new Map<string, FeatureCount>();
+        const pageSize = 1000;
+        for (let offset = 0; ; offset += pageSize) {
+          const { data, error } = await supabase
+            .from('features')
+            .select('project_id, status')
+            .eq('is_sub_item', false)
+            .eq('is_hidden', false)
+            .order('id')
+            .range(offset, offset + pageSize - 1);
+
+          if (error) {
+            throw new Error(`Failed to count features: ${error.message}`);
+          }
+          for (const row of data || []) {
+            const key = `${row.project_id}:${row.status}`;
+            const count = counts.get(key) ?? { project_id: row.project_id, status: row.status, count: 0 };
+            count.count++;
+            counts.set(key, count);
+          }
+          if (!data || data.length < pageSize) break;
+        }
+        return [...counts.values()];
+      },
+
+      async updateStatus(id, from, to) {
+        const { data, error } = await supabase
+          .from('features')
+          .update({
+            status: to,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', id)
+          .eq('status', from)
+          .select('id');
+
+        if (error) {
+          log.error('Failed to update feature status', error);
+          return false;
+        }
+
+        return (data || []).length > 0;
+      },
+
+      async setHidden(id, hidden) {
+        const { data, error } = await supabase
+          .from('features')
+          .update({
+            is_hidden: hidden,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', id)
+          .eq('is_hidden', !hidden)
+          .select('id');
+
+        if (error) {
+          throw new Error(`Failed to update feature visibility: ${error.message}`);
+        }
+
+        return (data || []).length > 0;
+      },
+
+      async storeEmbedding(id, model, embedding) {
+        const { error } = await supabase
+          .from('feature_embeddings')
+          .upsert({
+            feature_id: id,
+            model,
+            embedding,
+            updated_at: new Date().toISOString()
+          }, { onConflict: 'feature_id,model' });
+
+        if (error) {
+          log.error('Failed to store embedding', error);
+        }
+      },
+
+      async listMissingEmbedding(model, afterId, limit) {
+        const { data, error } = await supabase.rpc('features_missing_embedding', {
+          model_filter: model,
+          after_id: afterId,
+          max_count: limit
+        });
+
+        if (error) {
+          throw new Error(`Failed to list features missing embeddings: ${error.message}`);
+        }
+
+        return (data || []) as Array<Pick<Feature, 'id' | 'title' | 'description'>>;
+      },
+
+      async matchSimilar(projectId, model, embedding, threshold, count) {
+        // pgvector similarity search via RPC, restricted to vectors from the same model
+        const { data, error } = await supabase.rpc('match_feature_embeddings', {
+          query_embedding: embedding,
+          model_filter: model,
+          match_threshold: threshold,
+          match_count: count,
+          project_filter: projectId
+        });
+
+        if (error) {
+          log.error('Vector search error', error);
+          return [];
+        }
+
+        return (data || []) as SimilarFeature[];
+      },
+    },
+
+    mergeDecisions: {
+      async create(params) {
+        const { data, error } = await supabase
+          .from('merge_decisions')
+          .insert({
+            project_id: params.project_id,
+            candidate_feature_id: params.candidate_feature_id,
+            similarity: params.similarity,
+            requester_fid: params.requester_fid,
+            mention_cast_hash: params.mention_cast_hash,
+            question_cast_hash: params.question_cast_hash,
+            feature: params.feature,
+            source_cast_hash: params.source_cast_hash,
+            source_cast_author_fid: params.source_cast_author_fid || null,
+            source_cast_text: params.source_cast_text || null,
+            status: 'pending',
+            expires_at: params.expires_at,
+          })
+          .select('*')
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to create merge decision: ${error.message}`);
+        }
+
+        return data as MergeDecision;
+      },
+
+      async getById(id) {
+        const { data, error } = await supabase
+          .from('merge_decisions')
+          .select('*')
+          .eq('id', id)
+          .single();
+
+        if (error || !data) {
+          return null;
+        }
+
+        return data as MergeDecision;
+      },
+
+      async getPendingByQuestionCast(castHash) {
+        const { data, error } = await supabase
+          .from('merge_decisions')
+          .select('*')
+          .eq('question_cast_hash', castHash)
+          .eq('status', 'pending')
+          .maybeSingle();
+
+        if (error || !data) {
+          return null;
+        }
+
+        return data as MergeDecision;
+      },
+
+      async resolve(id, status, resolvedBy) {
+        // Conditional update so a reply and the timeout can't both apply
+        const { data, error } = await supabase
+          .from('merge_decisions')
+          .update({
+            status,
+            resolved_by: resolvedBy,
+            resolved_at: new Date().toISOString()
+          })
+          .eq('id', id)
+          .eq('status', 'pending')
+          .select('id');
+
+        if (error) {
+          log.error('Failed to resolve merge decision', error);
+          return false;
+        }
+
+        return (data || []).length > 0;
+      },
+    },
+
+    projectSetups: {
+      async create(params) {
+        const { data, error } = await supabase
+          .from('pending_project_setups')
+          .insert({
+            project_handle: params.project_handle.toLowerCase(),
+            requester_fid: params.requester_fid,
+            mention_cast_hash: params.mention_cast_hash,
+            prompt_cast_hash: params.prompt_cast_hash,
+            step: 'owner',
+            fields: {},
+            status: 'pending',
+            expires_at: params.expires_at,
+          })
+          .select('*')
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to create project setup: ${error.message}`);
+        }
+
+        return data as PendingProjectSetup;
+      },
+
+      async getPendingByCast(castHash) {
+        const { data, error } = await supabase
+          .from('pending_project_setups')
+          .select('*')
+          .or(`prompt_cast_hash.eq.${castHash},mention_cast_hash.eq.${castHash}`)
+          .eq('status', 'pending')
+          .gt('expires_at', new Date().toISOString())
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (error || !data) {
+          return null;
+        }
+
+        return data as PendingProjectSetup;
+      },
+
+      async listPending(limit) {
+        const { data, error } = await supabase
+          .from('pending_project_setups')
+          .select('*')
+          .eq('status', 'pending')
+          .gt('expires_at', new Date().toISOString())
+          .order('created_at', { ascending: false })
+          .limit(limit);
+
+        if (error) {
+          throw new Error(`Failed to list project setups: ${error.message}`);
+        }
+        return (data || []) as PendingProjectSetup[];
+      },
+
+      async update(id, changes) {
+        const { error } = await supabase
+          .from('pending_project_setups')
+          .update({ ...changes, updated_at: new Date().toISOString() })
+          .eq('id', id);
+
+        if (error) {
+          throw new Error(`Failed to update project setup: ${error.message}`);
+        }
+      },
+
+      async finish(id, status) {
+        const { data, error } = await supabase
+          .from('pending_project_setups')
+          .update({ status, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('status', 'pending')
+          .select('id');
+
+        if (error) {
+          log.error('Failed to finish project setup', error);
+          return false;
+        }
+
+        return (data || []).length > 0;
+      },
+    },
+
+    clarifications: {
+      async create(params) {
+        const { data, error } = await supabase
+          .from('pending_clarifications')
+          .insert({ ...params, status: 'pending' })
+          .select('*')
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to create clarification: ${error.message}`);
+        }
+
+        return data as PendingClarification;
+      },
+
+      async getPendingByPromptCast(castHash) {
+        const { data, error } = await supabase
+          .from('pending_clarifications')
+          .select('*')
+          .eq('prompt_cast_hash', castHash)
+          .eq('status', 'pending')
+          .gt('expires_at', new Date().toISOString())
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (error || !data) {
+          return null;
+        }
+
+        return data as PendingClarification;
+      },
+
+      async resolve(id, status) {
+        const { data, error } = await supabase
+          .from('pending_clarifications')
+          .update({ status, resolved_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('status', 'pending')
+          .select('id');
+
+        if (error) {
+          log.error('Failed to resolve clarification', error);
+          return false;
+        }
+
+        return (data || []).length > 0;
+      },
+    },
+
+    statusHistory: {
+      async record(change) {
+        const { data, error } = await supabase
+          .from('feature_status_history')
+          .insert(change)
+          .select()
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to record status change: ${error.message}`);
+        }
+
+        return data as FeatureStatusChange;
+      },
+
+      async getById(id) {
+        const { data, error } = await supabase
+          .from('feature_status_history')
+          .select('*')
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error || !data) {
+          return null;
+        }
+
+        return data as FeatureStatusChange;
+      },
+
+      async listForFeature(featureId) {
+        const { data, error } = await supabase
+          .from('feature_status_history')
+          .select('*')
+          .eq('feature_id', featureId)
+          .order('created_at');
+
+        if (error) {
+          log.error('Failed to get status history', error);
+          return [];
+        }
+
+        return (data || []) as FeatureStatusChange[];
+      },
+    },
+
+    announcements: {
+      async record(castHash, featureIds) {
+        if (featureIds.length === 0) return;
+
+        const { error } = await supabase
+          .from('feature_announcements')
+          .upsert(
+            featureIds.map(featureId => ({ cast_hash: castHash, feature_id: featureId })),
+            { onConflict: 'cast_hash,feature_id' }
+          );
+
+        if (error) {
+          log.error('Failed to record announcement', error);
+        }
+      },
+
+      async getFeatureIds(castHash) {
+        const { data, error } = await supabase
+          .from('feature_announcements')
+          .select('feature_id')
+          .eq('cast_hash', castHash)
+          .order('created_at');
+
+        if (error) {
+          log.error('Failed to get announced features', error);
+          return [];
+        }
+
+        return (data || []).map(row => row.feature_id as string);
+      },
+    },
+
+    notifications: {
+      async follow(featureId, fid) {
+        const { data, error } = await supabase
+          .from('feature_followers')
+          .upsert({ feature_id: featureId, fid }, { onConflict: 'feature_id,fid', ignoreDuplicates: true })
+          .select('fid');
+
+        if (error) {
+          log.error('Failed to follow feature', error);
+          return false;
+        }
+
+        return (data || []).length > 0;
+      },
+
+      async unfollow(featureId, fid) {
+        const { data, error } = await supabase
+          .from('feature_followers')
+          .delete()
+          .eq('feature_id', featureId)
+          .eq('fid', fid)
+          .select('fid');
+
+        if (error) {
+          log.error('Failed to unfollow feature', error);
+          return false;
+        }
+
+        return (data || []).length > 0;
+      },
+
+      async listFollowers(featureId) {
+        const { data, error } = await supabase
+          .from('feature_followers')
+          .select('fid')
+          .eq('feature_id', featureId)
+          .order('created_at');
+
+        if (error) {
+          log.error('Failed to list followers', error);
+          return [];
+        }
+
+        return (data || []).map(row => row.fid as number);
+      },
+
+      async listRecipients(statusChangeId) {
+        const { data, error } = await supabase
+          .from('status_notifications')
+          .select('recipient_fid')
+          .eq('status_change_id', statusChangeId);
+
+        if (error) {
+          throw new Error(`Failed to list notified fids: ${error.message}`);
+        }
+
+        return (data || []).map(row => row.recipient_fid as number);
+      },
+
+      async claim(statusChangeId, recipientFid, replyToCastHash) {
+        // The unique (status_change_id, recipient_fid) constraint makes this the dedupe point
+        const { data, error } = await supabase
+          .from('status_notifications')
+          .upsert(
+            { status_change_id: statusChangeId, recipient_fid: recipientFid, reply_to_cast_hash: replyToCastHash },
+            { onConflict: 'status_change_id,recipient_fid', ignoreDuplicates: true }
+          )
+          .select('id');
+
+        if (error) {
+          throw new Error(`Failed to claim notification: ${error.message}`);
+        }
+
+        return data && data.length > 0 ? (data[0].id as string) : null;
+      },
+
+      async markSent(ids, sentCastHash) {
+        if (ids.length === 0) return;
+
+        const { error } = await supabase
+          .from('status_notifications')
+          .update({ sent_cast_hash: sentCastHash, sent_at: new Date().toISOString() })
+          .in('id', ids);
+
+        if (error) {
+          log.error('Failed to mark notifications sent', error);
+        }
+      },
+    },
+
+    votes: {
+      async get(featureId, fid) {
+        const { data, error } = await supabase
+          .from('feature_votes')
+          .select('*')
+          .eq('feature_id', featureId)
+          .eq('fid', fid)
+          .maybeSingle();
+
+        if (error || !data) {
+          return null;
+        }
+
+        return data as Vote;
+      },
+
+      async list(featureId) {
+        const { data, error } = await supabase
+          .from('feature_votes')
+          .select('*')
+          .eq('feature_id', featureId)
+          .order('created_at', { ascending: true });
+
+        if (error) {
+          throw new Error(`Failed to list votes: ${error.message}`);
+        }
+
+        return (data || []) as Vote[];
+      },
+
+      async record(vote) {
+        // One call, so a like and a "+1" arriving together can't both count as the first vote
+        const { data, error } = await supabase.rpc('record_feature_vote', {
+          target_feature_id: vote.feature_id,
+          voter_fid: vote.fid,
+          vote_weight: vote.weight,
+          vote_source: vote.source,
+          vote_cast_hash: vote.cast_hash
+        });
+
+        if (error) {
+          throw new Error(`Failed to record vote: ${error.message}`);
+        }
+
+        const row = Array.isArray(data) ? data[0] : data;
+        if (!row) return null;
+        return {
+          previousWeight: row.previous_weight === null ? null : Number(row.previous_weight),
+          total: Number(row.total_weight ?? 0)
+        };
+      },
+
+      async removeLike(featureId, fid) {
+        const { data, error } = await supabase.rpc('remove_feature_like_vote', {
+          target_feature_id: featureId,
+          voter_fid: fid
+        });
+
+        if (error) {
+          throw new Error(`Failed to remove vote: ${error.message}`);
+        }
+
+        return data === null || data === undefined ? null : Number(data);
+      },
+
+      async addToTotal(featureId, delta) {
+        // In the database, so concurrent votes (and the website's) don't overwrite each other
+        const { data, error } = await supabase.rpc('add_feature_weight', {
+          target_feature_id: featureId,
+          weight_delta: delta
+        });
+
+        if (error) {
+          throw new Error(`Failed to update total weight: ${error.message}`);
+        }
+
+        return Number(data ?? 0);
+      },
+    },
+
+    actions: {
+      async create(params) {
+        const { data, error } = await supabase
+          .from('bot_actions')
+          .insert({
+            ...params,
+            status: 'applied',
+          })
+          .select('*')
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to record bot action: ${error.message}`);
+        }
+
+        return data as BotAction;
+      },
+
+      async setReplyCast(ids, replyCastHash) {
+        if (ids.length === 0) return;
+
+        const { error } = await supabase
+          .from('bot_actions')
+          .update({ reply_cast_hash: replyCastHash })
+          .in('id', ids);
+
+        if (error) {
+          log.error('Failed to link bot actions to reply', error);
+        }
+      },
+
+      async getByReplyCast(replyCastHash) {
+        const { data, error } = await supabase
+          .from('bot_actions')
+          .select('*')
+          .eq('reply_cast_hash', replyCastHash)
+          .eq('status', 'applied')
+          .order('created_at');
+
+        if (error) {
+          log.error('Failed to get bot actions', error);
+          return [];
+        }
+
+        return (data || []) as BotAction[];
+      },
+
+      async getByFeature(featureId) {
+        const { data, error } = await supabase
+          .from('bot_actions')
+          .select('*')
+          .eq('feature_id', featureId)
+          .eq('status', 'applied')
+          .order('created_at');
+
+        if (error) {
+          log.error('Failed to get bot actions', error);
+          return [];
+        }
+
+        return (data || []) as BotAction[];
+      },
+
+      async listByMention(mentionCastHash) {
+        const { data, error } = await supabase
+          .from('bot_actions')
+          .select('*')
+          .eq('mention_cast_hash', mentionCastHash)
+          .order('created_at');
+
+        if (error) {
+          throw new Error(`Failed to get bot actions: ${error.message}`);
+        }
+
+        return (data || []) as BotAction[];
+      },
+
+      async markReverted(id, revertedByFid) {
+        const { data, error } = await supabase
+          .from('bot_actions')
+          .update({
+            status: 'reverted',
+            reverted_by_fid: revertedByFid,
+            reverted_at: new Date().toISOString()
+          })
+          .eq('id', id)
+          .eq('status', 'applied')
+          .select('id');
+
+        if (error) {
+          log.error('Failed to mark bot action reverted', error);
+          return false;
+        }
+
+        return (data || []).length > 0;
+      },
+    },
+
+    tags: {
+      async getByName(name) {
+        const { data, error } = await supabase
+          .from('tags')
+          .select('id, name, type')
+          .eq('name', name.toLowerCase())
+          .single();
+
+        if (error || !data) {
+          return null;
+        }
+
+        return data as Tag;
+      },
+
+      async create(name, type) {
+        const { data, error } = await supabase
+          .from('tags')
+          .insert({
+            name: name.toLowerCase(),
+            type,
+          })
+          .select('id, name, type')
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to create tag: ${error.message}`);
+        }
+
+        return data as Tag;
+      },
+
+      async getPredefined() {
+        const { data, error } = await supabase
+          .from('tags')
+          .select('id, name, type')
+          .eq('type', 'predefined')
+          .order('name');
+
+        if (error) {
+          log.error('Failed to get tags', error);
+          return [];
+        }
+
+        return (data || []) as Tag[];
+      },
+
+      async getById(id) {
+        const { data, error } = await supabase
+          .from('tags')
+          .select('id, name, type')
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error) {
+          throw new Error(`Failed to get tag: ${error.message}`);
+        }
+
+        return data as Tag | null;
+      },
+
+      async listAll() {
+        const { data, error } = await supabase
+          .from('tags')
+          .select('id, name, type')
+          .order('name');
+
+        if (error) {
+          throw new Error(`Failed to list tags: ${error.message}`);
+        }
+
+        return (data || []) as Tag[];
+      },
+
+      async rename(id, name) {
+        const { data, error } = await supabase
+          .from('tags')
+          .update({ name: name.toLowerCase() })
+          .eq('id', id)
+          .select('id, name, type')
+          .maybeSingle();
+
+        // Unique violation: another tag has the name
+        if (error?.code === '23505') {
+          return null;
+        }
+        if (error) {
+          throw new Error(`Failed to rename tag: ${error.message}`);
+        }
+
+        return data as Tag | null;
+      },
+
+      async delete(id) {
+        await supabase.from('feature_tags').delete().eq('tag_id', id);
+
+        const { data, error } = await supabase
+          .from('tags')
+          .delete()
+          .eq('id', id)
+          .select('id');
+
+        if (error) {
+          throw new Error(`Failed to delete tag: ${error.message}`);
+        }
+
+        return (data || []).length > 0;
+      },
+    },
+
+    mentions: {
+      async exists(castHash) {
+        // A reprocessed cast has more than one row
+        const { data } = await supabase
+          .from('bot_mentions')
+          .select('id')
+          .eq('cast_hash', castHash)
+          .limit(1);
+
+        return (data || []).length > 0;
+      },
+
+      async insert(row) {
+        const { error } = await supabase
+          .from('bot_mentions')
+          .insert(row);
+
+        if (error) {
+          log.error('Failed to log bot mention', error);
+        }
+      },
+
+      async list(filter) {
+        let query = supabase
+          .from('bot_mentions')
+          .select('*');
+        if (filter.error === true) {
+          query = query.not('error_message', 'is', null);
+        } else if (filter.error === false) {
+          query = query.is('error_message', null);
+        } else if (typeof filter.error === 'string') {
+          query = query.ilike('error_message', `%${filter.error.replace(/[\\%_]/g, c => `\\${c}`)}%`);
+        }
+        if (filter.fid !== undefined) {
+          query = query.eq('mention_author_fid', filter.fid);
+        }
+        if (filter.before) {
+          query = query.lt('created_at', filter.before);
+        }
+        const { data, error } = await query
+          .order('created_at', { ascending: false })
+          .limit(filter.limit);
+
+        if (error) {
+          throw new Error(`Failed to list bot mentions: ${error.message}`);
+        }
+
+        return (data || []) as BotMention[];
+      },
+
+      async listByCast(castHash) {
+        const { data, error } = await supabase
+          .from('bot_mentions')
+          .select('*')
+          .eq('cast_hash', castHash)
+          .order('created_at');
+
+        if (error) {
+          throw new Error(`Failed to get bot mentions: ${error.message}`);
+        }
+
+        return (data || []) as BotMention[];
+      },
+    },
+
+    rateLimits: {
+      async take(key, limit, cost) {
+        const { data, error } = await supabase.rpc('take_rate_limit_tokens', {
+          bucket_key: key,
+          bucket_capacity: limit.capacity,
+          bucket_window_ms: limit.windowMs,
+          token_cost: cost
+        });
+
+        if (error) {
+          throw new Error(`Failed to take rate limit tokens: ${error.message}`);
+        }
+
+        const row = Array.isArray(data) ? data[0] : data;
+        return {
+          allowed: !!row?.allowed,
+          remaining: Number(row?.remaining ?? 0),
+          retryAfterMs: Number(row?.retry_after_ms ?? 0)
+        };
+      },
+
+      async peek(key, limit, cost) {
+        const { data, error } = await supabase
+          .from('rate_limit_buckets')
+          .select('tokens, updated_at')
+          .eq('key', key)
+          .maybeSingle();
+
+        if (error) {
+          throw new Error(`Failed to read rate limit bucket: ${error.message}`);
+        }
+
+        return takeTokens(
+          data ? { tokens: Number(data.tokens), updated_at: Date.parse(data.updated_at) } : null,
+          limit,
+          cost,
+          Date.now()
+        ).result;
+      },
+    },
+  };
+}
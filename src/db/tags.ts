@@ -1,40 +1,15 @@
-import { supabase } from './client.js';
+import { getRepository, type Tag } from './repository.js';
 
-export interface Tag {
-  id: string;
-  name: string;
-  type: 'predefined' | 'custom';
-}
+export type { Tag } from './repository.js';
 
 export async function getTagByName(name: string): Promise<Tag | null> {
-  const { data, error } = await supabase
-    .from('tags')
-    .select('id, name, type')
-    .eq('name', name.toLowerCase())
-    .single();
-
-  if (error || !data) {
-    return null;
-  }
-
-  return data as Tag;
+  const repo = await getRepository();
+  return repo.tags.getByName(name);
 }
 
 export async function createTag(name: string, type: 'predefined' | 'custom' = 'custom'): Promise<Tag> {
-  const { data, error } = await supabase
-    .from('tags')
-    .insert({
-      name: name.toLowerCase(),
-      type,
-    })
-    .select('id, name, type')
-    .single();
-
-  if (error) {
-    throw new Error(`Failed to create tag: ${error.message}`);
-  }
-
-  return data as Tag;
+  const repo = await getRepository();
+  return repo.tags.create(name, type);
 }
 
 export async function getOrCreateTag(name: string): Promise<Tag> {
@@ -45,17 +20,27 @@ export async function getOrCreateTag(name: string): Promise<Tag> {
   return createTag(name, 'custom');
 }
 
-export async function getAllPredefinedTags(): Promise<Tag[]> {
-  const { data, error } = await supabase
-    .from('tags')
-    .select('id, name, type')
-    .eq('type', 'predefined')
-    .order('name');
-
-  if (error) {
-    console.error('Failed to get tags:', error);
-    return [];
-  }
+export async function getTagById(id: string): Promise<Tag | null> {
+  const repo = await getRepository();
+  return repo.tags.getById(id);
+}
 
-  return (data || []) as Tag[];
+export async function listTags(): Promise<Tag[]> {
+  const repo = await getRepository();
+  return repo.tags.listAll();
+}
+
+export async function renameTag(id: string, name: string): Promise<Tag | null> {
+  const repo = await getRepository();
+  return repo.tags.rename(id, name);
+}
+
+export async function deleteTag(id: string): Promise<boolean> {
+  const repo = await getRepository();
+  return repo.tags.delete(id);
+}
+
+export async function getAllPredefinedTags(): Promise<Tag[]> {
+  const repo = await getRepository();
+  return repo.tags.getPredefined();
 }
@@ -0,0 +1,25 @@
+import { getRepository, type Vote, type VoteChange } from './repository.js';
+
+export type { Vote, VoteChange, VoteSource } from './repository.js';
+
+export async function getVote(featureId: string, fid: number): Promise<Vote | null> {
+  const repo = await getRepository();
+  return repo.votes.get(featureId, fid);
+}
+
+/**
+ * Record a fid's first vote on a feature, or a "+1" reply replacing their like, and move the
+ * feature's total weight by the change. Null when their existing vote stays as it is.
+ */
+export async function recordVote(vote: Omit<Vote, 'created_at' | 'updated_at'>): Promise<VoteChange | null> {
+  const repo = await getRepository();
+  return repo.votes.record(vote);
+}
+
+/**
+ * Take back the fid's vote if it came from a like; returns the new total, null if there was none
+ */
+export async function removeLikeVote(featureId: string, fid: number): Promise<number | null> {
+  const repo = await getRepository();
+  return repo.votes.removeLike(featureId, fid);
+}
@@ -1,12 +1,20 @@
 import 'dotenv/config';
 import express from 'express';
 import crypto from 'crypto';
-import { processWebhook } from './bot/processor.js';
+import { processWebhook, REPROCESS_JOB } from './bot/processor.js';
+import { MERGE_DECISION_TIMEOUT_JOB, handleMergeDecisionTimeout } from './bot/merge-confirmation.js';
+import { STATUS_NOTIFY_JOB, handleStatusNotifications } from './bot/notifications.js';
+import { REACTION_JOB, handleReactionEvent } from './bot/votes.js';
+import { EMBEDDING_JOB, handleEmbeddingJob } from './bot/similarity.js';
+import { enqueueJob, registerJobHandler, startQueue } from './queue/index.js';
+import { createAdminApi, getApiKeys, requireApiKey } from './admin/index.js';
+import { createLogger, withLogContext } from './log/index.js';
+
+const log = createLogger('server');
 
 // Log startup
-console.log('[Startup] Initializing Roadmapr Bot...');
-console.log('[Startup] Node.js version:', process.version);
-console.log('[Startup] Environment variables loaded:', {
+log.info('Initializing Roadmapr Bot', {
+  node_version: process.version,
   SUPABASE_URL: !!process.env.SUPABASE_URL,
   SUPABASE_SERVICE_KEY: !!process.env.SUPABASE_SERVICE_KEY,
   NEYNAR_API_KEY: !!process.env.NEYNAR_API_KEY,
@@ -15,8 +23,46 @@ console.log('[Startup] Environment variables loaded:', {
 });
 
 const app = express();
+
+// Every log line written while handling a request carries its id; callers can pass their own
+app.use((req, res, next) => {
+  const requestId = req.get('x-request-id')?.slice(0, 100) || crypto.randomUUID();
+  res.setHeader('X-Request-Id', requestId);
+  withLogContext({ correlation_id: requestId }, next);
+});
+
+// Admin REST API: parses its own bodies and answers with its own error format.
+// Off unless ADMIN_API_KEYS holds at least one key.
+const adminEnabled = getApiKeys().length > 0;
+if (adminEnabled) {
+  app.use('/admin', createAdminApi());
+} else {
+  log.info('Admin API disabled (no ADMIN_API_KEYS)');
+}
+
 app.use(express.json());
 
+// Mentions are processed by the job queue so they survive restarts and get retried on failure
+registerJobHandler('webhook', async (payload) => {
+  await processWebhook(payload);
+});
+
+registerJobHandler(REPROCESS_JOB, async (payload) => {
+  await processWebhook(payload, { reprocess: true });
+});
+
+// Unanswered "same thing?" questions fall back to MERGE_CONFIRM_DEFAULT
+registerJobHandler(MERGE_DECISION_TIMEOUT_JOB, handleMergeDecisionTimeout);
+
+// Tell requesters and followers when a feature is planned or shipped
+registerJobHandler(STATUS_NOTIFY_JOB, handleStatusNotifications);
+
+// Likes on announcement casts count as votes
+registerJobHandler(REACTION_JOB, handleReactionEvent);
+
+// Primary embeddings for features created while the embedding provider was down
+registerJobHandler(EMBEDDING_JOB, handleEmbeddingJob);
+
 // Validate Neynar webhook signature
 function validateWebhook(signature: string | undefined, body: unknown): boolean {
   if (!signature || !process.env.WEBHOOK_SECRET) {
@@ -47,72 +93,131 @@ app.post('/webhook/mention', async (req, res) => {
 
     // Validate signature in production
     if (process.env.NODE_ENV === 'production' && !validateWebhook(signature, req.body)) {
-      console.error('Invalid webhook signature');
+      log.error('Invalid webhook signature');
       return res.status(401).json({ error: 'Invalid signature' });
     }
 
     // Log incoming webhook
-    console.log('Received webhook:', JSON.stringify(req.body, null, 2));
+    log.debug('Received webhook', { body: req.body });
+
+    // Persist the job and respond immediately - the worker pool processes it
+    const castHash = req.body?.data?.hash || req.body?.hash || req.body?.cast_hash;
+    const job = await enqueueJob({
+      type: 'webhook',
+      payload: req.body,
+      dedupe_key: castHash ? `webhook:${castHash}` : undefined
+    });
+    // The worker logs under the job id, so keep it next to this request's id
+    log.info(job ? 'Queued webhook' : 'Webhook already queued', { cast_hash: castHash, job_id: job?.id });
 
-    // Process asynchronously (respond immediately)
-    processWebhook(req.body).catch(err => {
-      console.error('Webhook processing error:', err);
+    res.json({ success: true, queued: !!job });
+  } catch (err) {
+    log.error('Webhook error', err);
+    res.status(500).json({ error: 'Processing failed' });
+  }
+});
+
+// Neynar webhook endpoint for reactions (likes on the bot's announcement casts)
+app.post('/webhook/reaction', async (req, res) => {
+  try {
+    const signature = req.headers['x-neynar-signature'] as string;
+
+    if (process.env.NODE_ENV === 'production' && !validateWebhook(signature, req.body)) {
+      log.error('Invalid webhook signature');
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
+
+    const { type, data } = req.body || {};
+    if (type !== 'reaction.created' && type !== 'reaction.deleted') {
+      return res.json({ success: true, queued: false });
+    }
+
+    // Neynar may deliver the same event more than once; like -> unlike -> like differ by timestamp
+    const job = await enqueueJob({
+      type: REACTION_JOB,
+      payload: req.body,
+      dedupe_key: `reaction:${type}:${data?.user?.fid}:${data?.cast?.hash}:${data?.timestamp || data?.event_timestamp || ''}`
     });
 
-    res.json({ success: true });
+    res.json({ success: true, queued: !!job });
   } catch (err) {
-    console.error('Webhook error:', err);
+    log.error('Reaction webhook error', err);
     res.status(500).json({ error: 'Processing failed' });
   }
 });
 
-// Manual trigger endpoint (for testing)
-app.post('/trigger', async (req, res) => {
+// Manual trigger endpoint (for testing). It runs the full pipeline, so it needs an admin API key
+// with mentions:write; with "dry_run": true it returns the plan (projects, features, merges and
+// reply texts) without writing or posting anything.
+app.post('/trigger', requireApiKey('mentions:write'), async (req, res) => {
   try {
-    const { cast_hash, parent_hash, author_fid } = req.body;
+    const { cast_hash, parent_hash, author_fid, dry_run } = req.body;
 
     if (!cast_hash) {
       return res.status(400).json({ error: 'cast_hash required' });
     }
 
-    const result = await processWebhook({
+    const webhook = {
       data: {
         hash: cast_hash,
         author: { fid: author_fid || 1 },
         parent_hash: parent_hash
       }
-    });
+    };
+
+    if (dry_run === true || req.query.dry_run === '1') {
+      const plan = await processWebhook(webhook, { dryRun: true });
+      return res.json({ success: true, plan });
+    }
+
+    const result = await processWebhook(webhook);
 
     res.json({ success: true, result });
   } catch (err) {
-    console.error('Trigger error:', err);
+    log.error('Trigger error', err);
     res.status(500).json({ error: 'Processing failed' });
   }
 });
 
 const PORT = process.env.PORT || 3000;
 
+const queuePromise = startQueue();
+
 const server = app.listen(PORT, () => {
-  console.log(`[Startup] ✅ Roadmapr Bot listening on port ${PORT}`);
-  console.log('[Startup] Endpoints:');
-  console.log(`  GET  /health - Health check`);
-  console.log(`  POST /webhook/mention - Neynar webhook`);
-  console.log(`  POST /trigger - Manual trigger (testing)`);
+  const endpoints = [
+    'GET  /health - Health check',
+    'POST /webhook/mention - Neynar webhook',
+    'POST /webhook/reaction - Neynar reaction webhook',
+    'POST /trigger - Manual trigger (testing; admin API key, "dry_run": true for a plan)'
+  ];
+  if (adminEnabled) {
+    endpoints.push('*    /admin/* - Admin API (spec at /admin/openapi.json)', 'GET  /admin/dashboard/ - Admin dashboard');
+  }
+  log.info(`Roadmapr Bot listening on port ${PORT}`, { endpoints });
 });
 
 // Handle server errors
 server.on('error', (err: any) => {
-  console.error('[Startup] ❌ Server error:', err);
+  log.error('Server error', err);
   process.exit(1);
 });
 
+// Let in-flight jobs finish before exiting; anything unfinished is picked up again after restart
+process.on('SIGTERM', async () => {
+  log.info('SIGTERM received, draining job queue...');
+  server.close();
+  const pool = await queuePromise;
+  await pool.stop();
+  process.exit(0);
+});
+
 // Log unhandled errors
 process.on('uncaughtException', (err) => {
-  console.error('[Startup] ❌ Uncaught exception:', err);
+  log.error('Uncaught exception', err);
   process.exit(1);
 });
 
 process.on('unhandledRejection', (err) => {
-  console.error('[Startup] ❌ Unhandled rejection:', err);
+  log.error('Unhandled rejection', err);
   process.exit(1);
 });
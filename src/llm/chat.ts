@@ -0,0 +1,233 @@
+import {
+  getChatProvider,
+  getEmbeddingProvider,
+  type ChatMessage,
+  type ChatOptions,
+} from './providers.js';
+import { parseJsonResponse } from './json.js';
+import { intercept } from '../replay/intercept.js';
+import { takeLlmTokens } from '../ratelimit/index.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('llm');
+
+export type LLMTask = 'intent' | 'extract' | 'tag' | 'voice' | 'moderate';
+
+export interface ChainLink {
+  provider: string;
+  model: string;
+}
+
+export interface ChatResult {
+  content: string;
+  provider: string;
+  model: string;
+}
+
+export interface JsonResult extends ChatResult {
+  data: unknown;
+}
+
+const LLM_TIMEOUT_MS = parseInt(process.env.LLM_TIMEOUT_MS || '30000');
+
+// Default fallback chains ("provider:model", first configured provider wins)
+const DEFAULT_CHAINS: Record<LLMTask, string> = {
+  intent: 'openai:gpt-4o-mini,glm:glm-4.7,glm:glm-4.6,glm:glm-4.5,glm:glm-4.5-air',
+  extract: 'openai:gpt-4o-mini,glm:glm-4.7',
+  tag: 'glm:glm-4-flash',
+  voice: 'openai:gpt-4o-mini',
+  moderate: 'openai:gpt-4o-mini,glm:glm-4-flash',
+};
+const DEFAULT_EMBEDDING_CHAIN = 'glm:embedding-3,hashed:ngram-1024';
+
+// Local vectors stored alongside the primary ones so similarity search keeps working in an outage
+export const LOCAL_EMBEDDING_LINK: ChainLink = { provider: 'hashed', model: 'ngram-1024' };
+
+/**
+ * Identifier stored with each vector; only vectors with the same id are comparable
+ */
+export function embeddingModelId(link: ChainLink): string {
+  return `${link.provider}/${link.model}`;
+}
+
+/**
+ * Parse a chain like "openai:gpt-4o-mini,local:llama3:8b" (split on the first colon only)
+ */
+export function parseChain(spec: string): ChainLink[] {
+  return spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const idx = entry.indexOf(':');
+      return idx === -1
+        ? { provider: entry, model: '' }
+        : { provider: entry.slice(0, idx), model: entry.slice(idx + 1) };
+    });
+}
+
+/**
+ * Resolve the fallback chain for a task.
+ * LLM_CHAIN_<TASK> overrides the default; LOCAL_LLM_MODEL appends the local server as a last resort.
+ */
+export function getChain(task: LLMTask): ChainLink[] {
+  const chain = parseChain(process.env[`LLM_CHAIN_${task.toUpperCase()}`] || DEFAULT_CHAINS[task]);
+  if (process.env.LOCAL_LLM_MODEL && !chain.some(link => link.provider === 'local')) {
+    chain.push({ provider: 'local', model: process.env.LOCAL_LLM_MODEL });
+  }
+  return chain;
+}
+
+export function getEmbeddingChain(): ChainLink[] {
+  const chain = parseChain(process.env.LLM_CHAIN_EMBEDDING || DEFAULT_EMBEDDING_CHAIN);
+  if (process.env.LOCAL_EMBEDDING_MODEL && !chain.some(link => link.provider === 'local')) {
+    // Before the hashed fallback, which never fails
+    const hashedIdx = chain.findIndex(link => link.provider === 'hashed');
+    const localLink = { provider: 'local', model: process.env.LOCAL_EMBEDDING_MODEL };
+    chain.splice(hashedIdx === -1 ? chain.length : hashedIdx, 0, localLink);
+  }
+  return chain;
+}
+
+/**
+ * The embedding model new vectors should come from: the first configured link of the chain
+ */
+export function getPrimaryEmbeddingLink(): ChainLink | null {
+  return getEmbeddingChain().find(link => getEmbeddingProvider(link.provider)?.isConfigured()) ?? null;
+}
+
+/**
+ * Rough token count of a request (about 4 characters per token, plus the reply allowance),
+ * charged against the global LLM budget before the call
+ */
+function estimateTokens(messages: ChatMessage[], options: ChatOptions): number {
+  const chars = messages.reduce((sum, m) => sum + m.content.length, 0);
+  return Math.ceil(chars / 4) + (options.maxTokens ?? 500);
+}
+
+function getTimeout(task: LLMTask | 'embedding'): number {
+  return parseInt(process.env[`LLM_TIMEOUT_MS_${task.toUpperCase()}`] || '') || LLM_TIMEOUT_MS;
+}
+
+/**
+ * Run a chat completion through the task's fallback chain.
+ * `accept` lets callers reject a response (e.g. unparseable JSON) and move on to the next link.
+ * Throws if every configured provider fails.
+ */
+export async function chat(
+  task: LLMTask,
+  messages: ChatMessage[],
+  options: ChatOptions = {},
+  accept?: (content: string) => void
+): Promise<ChatResult> {
+  return intercept('llm', 'chat', [task, messages, options], async () => {
+    const errors: string[] = [];
+    // Over budget, only the local server (which costs nothing) is still tried
+    const overBudget = !!(await takeLlmTokens(estimateTokens(messages, options)));
+
+    for (const link of getChain(task)) {
+      const provider = getChatProvider(link.provider);
+      if (!provider) {
+        errors.push(`${link.provider}: unknown provider`);
+        continue;
+      }
+      if (!provider.isConfigured()) {
+        continue;
+      }
+      if (overBudget && link.provider !== 'local') {
+        errors.push(`${link.provider}/${link.model}: LLM budget exhausted`);
+        continue;
+      }
+
+      try {
+        log.debug(`${task}: trying ${link.provider}/${link.model}...`);
+        const content = await provider.chat(link.model, messages, {
+          timeoutMs: getTimeout(task),
+          ...options,
+        });
+        accept?.(content);
+        return { content, provider: link.provider, model: link.model };
+      } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        log.error(`${task}: ${link.provider}/${link.model} failed: ${errorMsg}`);
+        errors.push(`${link.provider}/${link.model}: ${errorMsg}`);
+      }
+    }
+
+    throw new Error(`All LLM providers failed for ${task}${errors.length ? `: ${errors.join('; ')}` : ' (none configured)'}`);
+  });
+}
+
+/**
+ * Run a chat completion on one specific provider/model (no fallback)
+ */
+export async function chatWith(
+  task: LLMTask,
+  link: ChainLink,
+  messages: ChatMessage[],
+  options: ChatOptions = {}
+): Promise<string> {
+  return intercept('llm', 'chatWith', [task, link, messages, options], async () => {
+    const provider = getChatProvider(link.provider);
+    if (!provider || !provider.isConfigured()) {
+      throw new Error(`Provider ${link.provider} is not available`);
+    }
+    if (link.provider !== 'local' && await takeLlmTokens(estimateTokens(messages, options))) {
+      throw new Error(`LLM budget exhausted, not calling ${link.provider}/${link.model}`);
+    }
+    return provider.chat(link.model, messages, {
+      timeoutMs: getTimeout(task),
+      ...options,
+    });
+  });
+}
+
+/**
+ * Single-prompt chat that expects JSON back; unparseable output falls through to the next provider
+ */
+export async function chatJSON(task: LLMTask, prompt: string, options: ChatOptions = {}): Promise<JsonResult> {
+  const result = await chat(task, [{ role: 'user', content: prompt }], options, content => {
+    parseJsonResponse(content);
+  });
+  return { ...result, data: parseJsonResponse(result.content) };
+}
+
+/**
+ * Generate an embedding with one specific provider/model (no fallback)
+ */
+export async function embedWith(link: ChainLink, text: string): Promise<number[]> {
+  return intercept('llm', 'embedWith', [link, text], async () => {
+    const provider = getEmbeddingProvider(link.provider);
+    if (!provider || !provider.isConfigured()) {
+      throw new Error(`Embedding provider ${link.provider} is not available`);
+    }
+    return provider.embed(link.model, text, { timeoutMs: getTimeout('embedding') });
+  });
+}
+
+/**
+ * Generate an embedding through the embedding fallback chain
+ */
+export async function embed(text: string): Promise<{ embedding: number[]; provider: string; model: string }> {
+  return intercept('llm', 'embed', [text], async () => {
+    const errors: string[] = [];
+
+    for (const link of getEmbeddingChain()) {
+      const provider = getEmbeddingProvider(link.provider);
+      if (!provider || !provider.isConfigured()) {
+        continue;
+      }
+
+      try {
+        const embedding = await provider.embed(link.model, text, { timeoutMs: getTimeout('embedding') });
+        return { embedding, provider: link.provider, model: link.model };
+      } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        log.error(`embedding: ${link.provider}/${link.model} failed: ${errorMsg}`);
+        errors.push(`${link.provider}/${link.model}: ${errorMsg}`);
+      }
+    }
+
+    throw new Error(`All embedding providers failed${errors.length ? `: ${errors.join('; ')}` : ' (none configured)'}`);
+  });
+}
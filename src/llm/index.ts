@@ -0,0 +1,35 @@
+export {
+  registerChatProvider,
+  registerEmbeddingProvider,
+  createOpenAICompatibleProvider,
+  type ChatMessage,
+  type ChatOptions,
+  type ChatProvider,
+  type EmbeddingProvider,
+} from './providers.js';
+export { parseJsonResponse } from './json.js';
+export { hashedEmbedding } from './local-embedding.js';
+export {
+  chat,
+  chatWith,
+  chatJSON,
+  embed,
+  embedWith,
+  embeddingModelId,
+  LOCAL_EMBEDDING_LINK,
+  getChain,
+  getEmbeddingChain,
+  getPrimaryEmbeddingLink,
+  parseChain,
+  type LLMTask,
+  type ChainLink,
+  type ChatResult,
+  type JsonResult,
+} from './chat.js';
+export {
+  chatStructured,
+  getStructuredOutputStats,
+  StructuredOutputError,
+  type Validator,
+  type ValidationResult,
+} from './structured.js';
@@ -0,0 +1,25 @@
+/**
+ * Parse JSON from an LLM response, tolerating markdown code fences
+ * (```json ... ```) and prose around the payload.
+ * Throws if no valid JSON can be found.
+ */
+export function parseJsonResponse(content: string): unknown {
+  let jsonText = content.trim();
+
+  const fenced = jsonText.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    jsonText = fenced[1].trim();
+  }
+
+  try {
+    return JSON.parse(jsonText);
+  } catch (err) {
+    // Fall back to the outermost [...] or {...} span (e.g. "Here you go: [...]")
+    const start = jsonText.search(/[[{]/);
+    const end = Math.max(jsonText.lastIndexOf(']'), jsonText.lastIndexOf('}'));
+    if (start >= 0 && end > start) {
+      return JSON.parse(jsonText.slice(start, end + 1));
+    }
+    throw err;
+  }
+}
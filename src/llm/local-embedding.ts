@@ -0,0 +1,81 @@
+import type { EmbeddingProvider } from './providers.js';
+
+// Same width as GLM embedding-3 so both fit the same vector columns
+const DIMENSIONS = 1024;
+
+// Words that carry no meaning for duplicate detection. Without a corpus there is no real
+// IDF, so dropping these (and weighting n-gram kinds) stands in for it and keeps vectors stable.
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'for', 'with', 'at', 'by', 'from',
+  'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'as',
+  'i', 'we', 'you', 'they', 'he', 'she', 'me', 'us', 'my', 'our', 'your', 'their',
+  'can', 'could', 'should', 'would', 'will', 'do', 'does', 'did', 'so', 'if', 'then', 'than',
+  'there', 'here', 'when', 'what', 'which', 'who', 'how', 'also', 'just', 'please', 'some', 'any',
+]);
+
+const WORD_WEIGHT = 1.0;
+const BIGRAM_WEIGHT = 0.7;
+const TRIGRAM_WEIGHT = 0.3;
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 1 && !STOPWORDS.has(w));
+}
+
+/**
+ * Feature-hashed n-gram vector: word unigrams, word bigrams and character trigrams,
+ * sublinear term frequency, L2-normalised. Deterministic and needs no network.
+ */
+export function hashedEmbedding(text: string, dimensions = DIMENSIONS): number[] {
+  const counts = new Map<string, { count: number; weight: number }>();
+  const add = (feature: string, weight: number) => {
+    const entry = counts.get(feature) || { count: 0, weight };
+    entry.count++;
+    counts.set(feature, entry);
+  };
+
+  const words = tokenize(text);
+  words.forEach((word, i) => {
+    add(`w:${word}`, WORD_WEIGHT);
+    if (i > 0) add(`b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+
+    const padded = ` ${word} `;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [feature, { count, weight }] of counts) {
+    const h = hash(feature);
+    // Sign bit from a second hash keeps collisions from only ever adding up
+    const sign = hash(`~${feature}`) & 1 ? 1 : -1;
+    vector[h % dimensions] += sign * weight * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+export function createHashedEmbeddingProvider(): EmbeddingProvider {
+  return {
+    name: 'hashed',
+    isConfigured: () => true,
+    async embed(_model, text) {
+      return hashedEmbedding(text);
+    },
+  };
+}
@@ -0,0 +1,138 @@
+import { createHashedEmbeddingProvider } from './local-embedding.js';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+}
+
+export interface ChatProvider {
+  name: string;
+  // Unconfigured providers (e.g. missing API key) are skipped in fallback chains
+  isConfigured(): boolean;
+  chat(model: string, messages: ChatMessage[], options: ChatOptions): Promise<string>;
+}
+
+export interface EmbeddingProvider {
+  name: string;
+  isConfigured(): boolean;
+  embed(model: string, text: string, options: { timeoutMs?: number }): Promise<number[]>;
+}
+
+/**
+ * Provider for any API that speaks the OpenAI chat/completions + embeddings format
+ * (OpenAI, GLM, llama.cpp server, Ollama, vLLM, a local mock...)
+ */
+export function createOpenAICompatibleProvider(params: {
+  name: string;
+  baseUrl: () => string | undefined;
+  apiKey: () => string | undefined;
+  requiresKey: boolean;
+}): ChatProvider & EmbeddingProvider {
+  async function post(endpoint: string, body: unknown, timeoutMs?: number) {
+    const baseUrl = params.baseUrl()!;
+    const apiKey = params.apiKey();
+    const url = `${baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`}${endpoint}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify(body),
+      ...(timeoutMs && { signal: AbortSignal.timeout(timeoutMs) }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${params.name} API error: ${response.status} ${error}`);
+    }
+
+    return response.json();
+  }
+
+  return {
+    name: params.name,
+
+    isConfigured() {
+      return !!params.baseUrl() && (!params.requiresKey || !!params.apiKey());
+    },
+
+    async chat(model, messages, options) {
+      const response = await post('chat/completions', {
+        model,
+        messages,
+        temperature: options.temperature,
+        ...(options.maxTokens && { max_tokens: options.maxTokens }),
+      }, options.timeoutMs) as { choices: Array<{ message: { content: string } }> };
+
+      return response.choices[0]?.message?.content || '';
+    },
+
+    async embed(model, text, options) {
+      const response = await post('embeddings', {
+        model,
+        input: text.trim(),
+        encoding_format: 'float',
+      }, options.timeoutMs) as { data: Array<{ embedding: number[] }> };
+
+      return response.data[0].embedding;
+    },
+  };
+}
+
+const chatProviders = new Map<string, ChatProvider>();
+const embeddingProviders = new Map<string, EmbeddingProvider>();
+
+export function registerChatProvider(provider: ChatProvider) {
+  chatProviders.set(provider.name, provider);
+}
+
+export function registerEmbeddingProvider(provider: EmbeddingProvider) {
+  embeddingProviders.set(provider.name, provider);
+}
+
+export function getChatProvider(name: string): ChatProvider | undefined {
+  return chatProviders.get(name);
+}
+
+export function getEmbeddingProvider(name: string): EmbeddingProvider | undefined {
+  return embeddingProviders.get(name);
+}
+
+// Built-in providers
+const openai = createOpenAICompatibleProvider({
+  name: 'openai',
+  baseUrl: () => 'https://api.openai.com/v1/',
+  apiKey: () => process.env.OPENAI_API_KEY,
+  requiresKey: true,
+});
+
+const glm = createOpenAICompatibleProvider({
+  name: 'glm',
+  baseUrl: () => 'https://open.bigmodel.cn/api/paas/v4/',
+  apiKey: () => process.env.GLM_API_KEY,
+  requiresKey: true,
+});
+
+// Local OpenAI-compatible server (llama.cpp, Ollama, a mock) - lets the bot run with no cloud keys
+const local = createOpenAICompatibleProvider({
+  name: 'local',
+  baseUrl: () => process.env.LOCAL_LLM_URL,
+  apiKey: () => process.env.LOCAL_LLM_API_KEY,
+  requiresKey: false,
+});
+
+for (const provider of [openai, glm, local]) {
+  registerChatProvider(provider);
+  registerEmbeddingProvider(provider);
+}
+
+// Offline n-gram embeddings - always available, last resort in the embedding chain
+registerEmbeddingProvider(createHashedEmbeddingProvider());
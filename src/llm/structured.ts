@@ -0,0 +1,116 @@
+import { chat, chatWith, type LLMTask } from './chat.js';
+import type { ChatOptions } from './providers.js';
+import { parseJsonResponse } from './json.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('llm');
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+export type Validator<T> = (data: unknown) => ValidationResult<T>;
+
+/**
+ * Thrown when a provider's output still fails validation after the repair retry
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly task: LLMTask,
+    public readonly provider: string,
+    public readonly model: string,
+    public readonly errors: string[],
+    public readonly raw: string
+  ) {
+    super(`Invalid ${task} output from ${provider}/${model}: ${errors.join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+interface OutputStats {
+  valid: number;
+  repaired: number;
+  rejected: number;
+}
+
+// Per provider/model/task counters of how often output needed repair or was rejected
+const stats = new Map<string, OutputStats>();
+
+function record(task: LLMTask, provider: string, model: string, outcome: keyof OutputStats) {
+  const key = `${task}:${provider}/${model}`;
+  const entry = stats.get(key) || { valid: 0, repaired: 0, rejected: 0 };
+  entry[outcome]++;
+  stats.set(key, entry);
+}
+
+export function getStructuredOutputStats(): Record<string, OutputStats> {
+  return Object.fromEntries(stats);
+}
+
+function validateContent<T>(content: string, validate: Validator<T>): ValidationResult<T> {
+  let data: unknown;
+  try {
+    data = parseJsonResponse(content);
+  } catch (err) {
+    return { ok: false, errors: [`Response is not valid JSON: ${err instanceof Error ? err.message : err}`] };
+  }
+  return validate(data);
+}
+
+/**
+ * Ask for JSON output matching a schema.
+ * Invalid output gets one repair retry on the same provider, with the validation errors fed back.
+ * Throws StructuredOutputError if the repaired output is still invalid.
+ */
+export async function chatStructured<T>(
+  task: LLMTask,
+  prompt: string,
+  validate: Validator<T>,
+  options: ChatOptions = {}
+): Promise<{ value: T; provider: string; model: string }> {
+  const first = await chat(task, [{ role: 'user', content: prompt }], options);
+  const firstResult = validateContent(first.content, validate);
+
+  if (firstResult.ok) {
+    record(task, first.provider, first.model, 'valid');
+    return { value: firstResult.value, provider: first.provider, model: first.model };
+  }
+
+  log.warn(`${task}: invalid output from ${first.provider}/${first.model}, attempting repair: ${firstResult.errors.join('; ')}`);
+
+  const repairPrompt =
+    `Your previous response did not match the required format:\n` +
+    firstResult.errors.map(e => `- ${e}`).join('\n') +
+    `\n\nReturn ONLY the corrected JSON, with no explanation.`;
+
+  let repairedContent = '';
+  try {
+    repairedContent = await chatWith(task, { provider: first.provider, model: first.model }, [
+      { role: 'user', content: prompt },
+      { role: 'assistant', content: first.content },
+      { role: 'user', content: repairPrompt },
+    ], options);
+  } catch (err) {
+    log.error(`${task}: repair call to ${first.provider}/${first.model} failed`, err);
+  }
+
+  const repairedResult = repairedContent
+    ? validateContent(repairedContent, validate)
+    : firstResult;
+
+  if (repairedResult.ok) {
+    record(task, first.provider, first.model, 'repaired');
+    return { value: repairedResult.value, provider: first.provider, model: first.model };
+  }
+
+  record(task, first.provider, first.model, 'rejected');
+  const error = new StructuredOutputError(
+    task,
+    first.provider,
+    first.model,
+    repairedResult.errors,
+    repairedContent || first.content
+  );
+  log.error(error.message, { stats: stats.get(`${task}:${first.provider}/${first.model}`) });
+  throw error;
+}
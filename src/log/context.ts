@@ -0,0 +1,38 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * Fields added to every log line written while handling one request, job or cast
+ */
+export interface LogContext {
+  correlation_id: string;
+  cast_hash?: string;
+  author_fid?: number;
+  job_id?: string;
+  job_type?: string;
+}
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+export function getLogContext(): LogContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Run `fn` with `fields` added to the current log context. Everything it awaits, however
+ * deep, logs with them. A correlation id is made up when neither `fields` nor an enclosing
+ * context has one, so a cast handled outside a request or job still gets its own.
+ */
+export function withLogContext<T>(fields: Partial<LogContext>, fn: () => T): T {
+  const current = storage.getStore();
+  const context: LogContext = {
+    ...current,
+    ...stripUndefined(fields),
+    correlation_id: fields.correlation_id ?? current?.correlation_id ?? randomUUID()
+  };
+  return storage.run(context, fn);
+}
+
+function stripUndefined(fields: Partial<LogContext>): Partial<LogContext> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
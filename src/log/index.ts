@@ -0,0 +1,89 @@
+import { getLogContext } from './context.js';
+import { redact, redactText } from './redact.js';
+
+export { getLogContext, withLogContext, type LogContext } from './context.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+export interface Logger {
+  // `detail` is an Error (logged as `err`), an object whose fields join the line, or any other value (logged as `detail`)
+  debug(message: string, detail?: unknown): void;
+  info(message: string, detail?: unknown): void;
+  warn(message: string, detail?: unknown): void;
+  error(message: string, detail?: unknown): void;
+}
+
+let levelConfig: { fallback: number; modules: Map<string, number> } | null = null;
+
+function parseLevel(value: string | undefined, variable: string): number | undefined {
+  if (!value) return undefined;
+  const level = LEVELS[value.trim().toLowerCase() as LogLevel];
+  if (level === undefined) {
+    process.stderr.write(`Ignoring unknown log level "${value}" in ${variable}\n`);
+  }
+  return level;
+}
+
+/**
+ * LOG_LEVEL sets the level for every module; LOG_LEVELS overrides it per module,
+ * e.g. "processor=debug,similarity=warn"
+ */
+function getLevelConfig() {
+  if (!levelConfig) {
+    const modules = new Map<string, number>();
+    for (const entry of (process.env.LOG_LEVELS || '').split(',')) {
+      const [module, value] = entry.split('=').map(part => part.trim());
+      const level = module ? parseLevel(value, 'LOG_LEVELS') : undefined;
+      if (level !== undefined) modules.set(module, level);
+    }
+    levelConfig = { fallback: parseLevel(process.env.LOG_LEVEL, 'LOG_LEVEL') ?? LEVELS.info, modules };
+  }
+  return levelConfig;
+}
+
+export function isLevelEnabled(module: string, level: LogLevel): boolean {
+  const config = getLevelConfig();
+  return LEVELS[level] >= (config.modules.get(module) ?? config.fallback);
+}
+
+function detailFields(detail: unknown): Record<string, unknown> {
+  if (detail === undefined) return {};
+  if (detail instanceof Error) return { err: detail };
+  if (detail !== null && typeof detail === 'object' && !Array.isArray(detail)) {
+    return detail as Record<string, unknown>;
+  }
+  return { detail };
+}
+
+function write(module: string, level: LogLevel, message: string, detail: unknown) {
+  if (!isLevelEnabled(module, level)) return;
+
+  const base = { time: new Date().toISOString(), level, module, msg: redactText(message) };
+  // Detail fields can't overwrite the base ones
+  const entry = {
+    ...base,
+    ...getLogContext(),
+    ...(redact(detailFields(detail)) as Record<string, unknown>),
+    ...base
+  };
+
+  // redact() copies with a depth limit, so a circular detail serializes too
+  const line = JSON.stringify(entry);
+  (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(line + '\n');
+}
+
+/**
+ * A logger writing one JSON object per line: time, level, module, msg, the current log
+ * context (correlation_id, cast_hash, author_fid, job) and any detail fields, with
+ * secrets redacted. Warnings and errors go to stderr.
+ */
+export function createLogger(module: string): Logger {
+  return {
+    debug: (message, detail) => write(module, 'debug', message, detail),
+    info: (message, detail) => write(module, 'info', message, detail),
+    warn: (message, detail) => write(module, 'warn', message, detail),
+    error: (message, detail) => write(module, 'error', message, detail)
+  };
+}
@@ -0,0 +1,74 @@
+const REDACTED = '[REDACTED]';
+
+// Field names whose values are never logged, wherever they appear in a logged object
+const SECRET_FIELD = /(?:api[_-]?keys?|secret|password|signer[_-]?uuid|authorization|cookie|service[_-]?key|private[_-]?key|access[_-]?token|auth[_-]?token)$/i;
+
+// Environment variables holding credentials; their values are scrubbed from any logged text
+const SECRET_ENV = /(?:_KEY|_KEYS|_SECRET|_TOKEN|_PASSWORD|_SIGNER_UUID)$/;
+// Shorter values are too likely to match ordinary text
+const MIN_SECRET_LENGTH = 8;
+
+// Credentials that show up in text without a field name: bearer headers and admin keys
+const SECRET_TEXT: RegExp[] = [
+  /\bBearer\s+[\w.~+/=-]+/gi,
+  /\brmk_[\w-]+/g
+];
+
+const MAX_DEPTH = 6;
+
+let secretValues: string[] | null = null;
+
+function getSecretValues(): string[] {
+  if (!secretValues) {
+    secretValues = Object.entries(process.env)
+      .filter(([name, value]) => SECRET_ENV.test(name) && value && value.length >= MIN_SECRET_LENGTH)
+      .map(([, value]) => value!)
+      // Longest first, so a secret containing another is replaced whole
+      .sort((a, b) => b.length - a.length);
+  }
+  return secretValues;
+}
+
+export function redactText(text: string): string {
+  let out = text;
+  for (const secret of getSecretValues()) {
+    if (out.includes(secret)) {
+      out = out.split(secret).join(REDACTED);
+    }
+  }
+  for (const pattern of SECRET_TEXT) {
+    out = out.replace(pattern, REDACTED);
+  }
+  return out;
+}
+
+/**
+ * Copy of `value` that is safe to log: secret fields are masked, errors become
+ * { message, stack }, and strings are scrubbed of known credentials.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactText(value);
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'bigint' ? value.toString() : value;
+  }
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+
+  if (value instanceof Error) {
+    // Plain own fields too (code, details, status), but not an HTTP client's request and config
+    const fields = Object.entries(value).filter(([, field]) => field === null || typeof field !== 'object');
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      ...(redact(Object.fromEntries(fields), depth + 1) as Record<string, unknown>),
+      ...(value.stack && { stack: redactText(value.stack) })
+    };
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  const out: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    out[key] = SECRET_FIELD.test(key) && field != null ? REDACTED : redact(field, depth + 1);
+  }
+  return out;
+}
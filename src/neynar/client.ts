@@ -1,4 +1,8 @@
 import { NeynarAPIClient, CastParamType } from '@neynar/nodejs-sdk';
+import { intercept } from '../replay/intercept.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('neynar');
 
 if (!process.env.NEYNAR_API_KEY) {
   throw new Error('Missing NEYNAR_API_KEY');
@@ -23,162 +27,197 @@ export interface Cast {
 }
 
 export async function getCast(hash: string): Promise<Cast | null> {
-  try {
-    const result = await client.lookUpCastByHashOrWarpcastUrl(
-      hash,
-      CastParamType.Hash,
-      {} // No options needed by default
-    );
-
-    if (!result?.cast) {
+  return intercept('neynar', 'getCast', [hash], async () => {
+    try {
+      const result = await client.lookUpCastByHashOrWarpcastUrl(
+        hash,
+        CastParamType.Hash,
+        {} // No options needed by default
+      );
+
+      if (!result?.cast) {
+        return null;
+      }
+
+      const cast = result.cast;
+      return {
+        hash: cast.hash,
+        text: cast.text,
+        author: {
+          fid: cast.author.fid,
+          username: cast.author.username,
+          display_name: cast.author.display_name || cast.author.username,
+          pfp_url: cast.author.pfp_url || '',
+        },
+        parent_hash: cast.parent_hash || undefined,
+        channel: cast.channel ? {
+          id: cast.channel.id,
+          name: cast.channel.name || cast.channel.id,
+        } : undefined,
+      };
+    } catch (err) {
+      log.error('Get cast error', err);
       return null;
     }
-
-    const cast = result.cast;
-    return {
-      hash: cast.hash,
-      text: cast.text,
-      author: {
-        fid: cast.author.fid,
-        username: cast.author.username,
-        display_name: cast.author.display_name || cast.author.username,
-        pfp_url: cast.author.pfp_url || '',
-      },
-      parent_hash: cast.parent_hash || undefined,
-      channel: cast.channel ? {
-        id: cast.channel.id,
-        name: cast.channel.name || cast.channel.id,
-      } : undefined,
-    };
-  } catch (err) {
-    console.error('Get cast error:', err);
-    return null;
-  }
+  });
 }
 
 export async function getCastThread(parentHash: string): Promise<Cast[]> {
-  try {
-    const result = await client.lookupCastConversation(
-      parentHash,
-      CastParamType.Hash,
-      { replyDepth: 2 }
-    );
-
-    // Extract replies from the conversation
-    const replies: Cast[] = [];
-
-    // The conversation structure varies - try to extract direct replies
-    // Different versions of the API return different structures
-    const conversation = (result as any)?.conversation;
-
-    if (conversation?.direct_replies) {
-      for (const reply of conversation.direct_replies) {
-        replies.push({
-          hash: reply.hash,
-          text: reply.text,
-          author: {
-            fid: reply.author.fid,
-            username: reply.author.username,
-            display_name: reply.author.display_name || reply.author.username,
-            pfp_url: reply.author.pfp_url || '',
-          },
-        });
-      }
-    } else if (conversation?.replies) {
-      for (const reply of conversation.replies) {
-        replies.push({
-          hash: reply.hash,
-          text: reply.text,
-          author: {
-            fid: reply.author.fid,
-            username: reply.author.username,
-            display_name: reply.author.display_name || reply.author.username,
-            pfp_url: reply.author.pfp_url || '',
-          },
-        });
+  return intercept('neynar', 'getCastThread', [parentHash], async () => {
+    try {
+      const result = await client.lookupCastConversation(
+        parentHash,
+        CastParamType.Hash,
+        { replyDepth: 2 }
+      );
+
+      // Extract replies from the conversation
+      const replies: Cast[] = [];
+
+      // The conversation structure varies - try to extract direct replies
+      // Different versions of the API return different structures
+      const conversation = (result as any)?.conversation;
+
+      if (conversation?.direct_replies) {
+        for (const reply of conversation.direct_replies) {
+          replies.push({
+            hash: reply.hash,
+            text: reply.text,
+            author: {
+              fid: reply.author.fid,
+              username: reply.author.username,
+              display_name: reply.author.display_name || reply.author.username,
+              pfp_url: reply.author.pfp_url || '',
+            },
+          });
+        }
+      } else if (conversation?.replies) {
+        for (const reply of conversation.replies) {
+          replies.push({
+            hash: reply.hash,
+            text: reply.text,
+            author: {
+              fid: reply.author.fid,
+              username: reply.author.username,
+              display_name: reply.author.display_name || reply.author.username,
+              pfp_url: reply.author.pfp_url || '',
+            },
+          });
+        }
       }
-    }
 
-    return replies;
-  } catch (err) {
-    console.error('Get thread error:', err);
-    return [];
-  }
+      return replies;
+    } catch (err) {
+      log.error('Get thread error', err);
+      return [];
+    }
+  });
 }
 
-export async function postReply(replyToHash: string, text: string) {
-  if (!process.env.NEYNAR_BOT_SIGNER_UUID) {
-    console.error('Missing NEYNAR_BOT_SIGNER_UUID');
-    return;
-  }
-
-  try {
-    await client.publishCast(
-      process.env.NEYNAR_BOT_SIGNER_UUID,
-      text,
-      { replyTo: replyToHash }
-    );
-    console.log('Posted reply:', text.slice(0, 50));
-  } catch (err) {
-    console.error('Post reply error:', err);
-  }
+/**
+ * Reply to a cast as the bot. Resolves to the hash of the posted reply (null if it wasn't posted)
+ * so follow-up replies to it can be matched back to the conversation.
+ */
+export async function postReply(replyToHash: string, text: string): Promise<string | null> {
+  return intercept('neynar', 'postReply', [replyToHash, text], async () => {
+    if (!process.env.NEYNAR_BOT_SIGNER_UUID) {
+      log.error('Missing NEYNAR_BOT_SIGNER_UUID');
+      return null;
+    }
+
+    try {
+      const cast = await client.publishCast(
+        process.env.NEYNAR_BOT_SIGNER_UUID,
+        text,
+        { replyTo: replyToHash }
+      );
+      log.info('Posted reply', { text: text.slice(0, 50) });
+      return cast.hash;
+    } catch (err) {
+      log.error('Post reply error', err);
+      return null;
+    }
+  });
 }
 
-export async function postStandaloneCast(text: string, embedHash?: string) {
-  if (!process.env.NEYNAR_BOT_SIGNER_UUID) {
-    console.error('Missing NEYNAR_BOT_SIGNER_UUID');
-    return;
-  }
+export async function postStandaloneCast(text: string, embedHash?: string): Promise<string | null> {
+  return intercept('neynar', 'postStandaloneCast', [text, embedHash], async () => {
+    if (!process.env.NEYNAR_BOT_SIGNER_UUID) {
+      log.error('Missing NEYNAR_BOT_SIGNER_UUID');
+      return null;
+    }
 
-  try {
-    const options: { embeds?: Array<{ castId?: { fid: number; hash: string } }> } = {};
+    try {
+      const options: { embeds?: Array<{ castId?: { fid: number; hash: string } }> } = {};
 
-    if (embedHash) {
-      // Need to extract fid from the cast or use a default
-      // For now, just use the hash - the API will fill in the rest
-      options.embeds = [{ castId: { fid: 0, hash: embedHash } }];
-    }
+      if (embedHash) {
+        // Need to extract fid from the cast or use a default
+        // For now, just use the hash - the API will fill in the rest
+        options.embeds = [{ castId: { fid: 0, hash: embedHash } }];
+      }
 
-    await client.publishCast(
-      process.env.NEYNAR_BOT_SIGNER_UUID,
-      text,
-      options
-    );
-    console.log('Posted cast:', text.slice(0, 50));
-  } catch (err) {
-    console.error('Post cast error:', err);
-  }
+      const cast = await client.publishCast(
+        process.env.NEYNAR_BOT_SIGNER_UUID,
+        text,
+        options
+      );
+      log.info('Posted cast', { text: text.slice(0, 50) });
+      return cast.hash;
+    } catch (err) {
+      log.error('Post cast error', err);
+      return null;
+    }
+  });
 }
 
 export async function getNeynarScore(fid: number): Promise<number> {
-  try {
-    const result = await client.fetchBulkUsers([fid]);
-    const user = result?.users?.[0];
-    return (user as any)?.experimental?.neynar_user_score || 0;
-  } catch (err) {
-    console.error('Get score error:', err);
-    return 0;
-  }
+  return intercept('neynar', 'getNeynarScore', [fid], async () => {
+    try {
+      const result = await client.fetchBulkUsers([fid]);
+      const user = result?.users?.[0];
+      return (user as any)?.experimental?.neynar_user_score || 0;
+    } catch (err) {
+      log.error('Get score error', err);
+      return 0;
+    }
+  });
 }
 
 export async function getUser(fid: number) {
-  try {
-    const result = await client.fetchBulkUsers([fid]);
-    const user = result?.users?.[0];
-    if (!user) return null;
-
-    return {
-      fid: user.fid,
-      username: user.username,
-      display_name: user.display_name || user.username,
-      pfp_url: user.pfp_url || '',
-      score: (user as any)?.experimental?.neynar_user_score || 0,
-      profile: user.profile,
-    };
-  } catch (err) {
-    console.error('Get user error:', err);
-    return null;
-  }
+  return intercept('neynar', 'getUser', [fid], async () => {
+    try {
+      const result = await client.fetchBulkUsers([fid]);
+      const user = result?.users?.[0];
+      if (!user) return null;
+
+      return {
+        fid: user.fid,
+        username: user.username,
+        display_name: user.display_name || user.username,
+        pfp_url: user.pfp_url || '',
+        score: (user as any)?.experimental?.neynar_user_score || 0,
+        profile: user.profile,
+      };
+    } catch (err) {
+      log.error('Get user error', err);
+      return null;
+    }
+  });
+}
+
+/**
+ * Ethereum addresses the user has verified on Farcaster
+ */
+export async function getVerifiedAddresses(fid: number): Promise<string[]> {
+  return intercept('neynar', 'getVerifiedAddresses', [fid], async () => {
+    try {
+      const result = await client.fetchBulkUsers([fid]);
+      return result?.users?.[0]?.verified_addresses?.eth_addresses || [];
+    } catch (err) {
+      log.error('Get verified addresses error', err);
+      return [];
+    }
+  });
 }
 
 /**
@@ -186,42 +225,44 @@ export async function getUser(fid: number) {
  * Uses Neynar's v2 API to search for users
  */
 export async function lookupUserByUsername(username: string) {
-  try {
-    // Use the v2 API to look up user by username
-    const response = await fetch(
-      `https://api.neynar.com/v2/farcaster/user/bulk?fids=${username}`,
-      {
-        headers: {
-          'api_key': process.env.NEYNAR_API_KEY || '',
-          'accept': 'application/json'
+  return intercept('neynar', 'lookupUserByUsername', [username], async () => {
+    try {
+      // Use the v2 API to look up user by username
+      const response = await fetch(
+        `https://api.neynar.com/v2/farcaster/user/bulk?fids=${username}`,
+        {
+          headers: {
+            'api_key': process.env.NEYNAR_API_KEY || '',
+            'accept': 'application/json'
+          }
         }
+      );
+
+      if (!response.ok) {
+        return null;
       }
-    );
 
-    if (!response.ok) {
-      return null;
-    }
+      const data = await response.json();
 
-    const data = await response.json();
+      // Try to find user by username in the response
+      const users = (data as any)?.users || [];
+      const user = users.find((u: any) => u.username.toLowerCase() === username.toLowerCase());
 
-    // Try to find user by username in the response
-    const users = (data as any)?.users || [];
-    const user = users.find((u: any) => u.username.toLowerCase() === username.toLowerCase());
+      if (!user) {
+        return null;
+      }
 
-    if (!user) {
+      return {
+        fid: user.fid,
+        username: user.username,
+        display_name: user.display_name || user.username,
+        pfp_url: user.pfp_url || '',
+        score: user.score || (user as any)?.experimental?.neynar_user_score || 0,
+        profile: user.profile,
+      };
+    } catch (err) {
+      log.error('Lookup user by username error', err);
       return null;
     }
-
-    return {
-      fid: user.fid,
-      username: user.username,
-      display_name: user.display_name || user.username,
-      pfp_url: user.pfp_url || '',
-      score: user.score || (user as any)?.experimental?.neynar_user_score || 0,
-      profile: user.profile,
-    };
-  } catch (err) {
-    console.error('Lookup user by username error:', err);
-    return null;
-  }
+  });
 }
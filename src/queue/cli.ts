@@ -0,0 +1,45 @@
+import 'dotenv/config';
+import { getJobStore } from './index.js';
+
+/**
+ * Inspect and requeue dead-lettered jobs
+ * Usage:
+ *   npm run queue -- dead-letters [limit]
+ *   npm run queue -- requeue <dead-letter-id>
+ */
+async function main() {
+  const [command, arg] = process.argv.slice(2);
+  const store = await getJobStore();
+
+  if (command === 'dead-letters') {
+    const deadLetters = await store.listDeadLetters(arg ? parseInt(arg) : 50);
+    if (deadLetters.length === 0) {
+      console.log('No dead-lettered jobs');
+      return;
+    }
+    for (const d of deadLetters) {
+      console.log(`${d.id}  ${d.failed_at}  ${d.type}  key=${d.dedupe_key || '-'}  attempts=${d.attempts}`);
+      console.log(`    ${d.last_error || '(no error recorded)'}`);
+    }
+    return;
+  }
+
+  if (command === 'requeue' && arg) {
+    const job = await store.requeueDeadLetter(arg);
+    if (!job) {
+      console.error(`Dead letter ${arg} not found (or its job is already queued)`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(`Requeued as job ${job.id}`);
+    return;
+  }
+
+  console.error('Usage: queue dead-letters [limit] | queue requeue <dead-letter-id>');
+  process.exitCode = 1;
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
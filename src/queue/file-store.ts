@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { DeadLetter, EnqueueParams, Job, JobStore } from './store.js';
+
+interface FileState {
+  jobs: Job[];
+  dead_letters: DeadLetter[];
+}
+
+/**
+ * Job store backed by a single JSON file on local disk.
+ * Meant for one bot process (self-hosting, local runs, offline tests) - no cross-process locking.
+ */
+export async function createFileJobStore(filePath: string): Promise<JobStore> {
+  const state = await loadState(filePath);
+
+  // Serialize writes so a slow write never overwrites a newer one. Changes made while a
+  // write is running share the next one, which snapshots the state when it starts.
+  let writeChain: Promise<void> = Promise.resolve();
+  let queuedWrite: Promise<void> | null = null;
+  function persist(): Promise<void> {
+    if (queuedWrite) return queuedWrite;
+    const write = writeChain.then(async () => {
+      queuedWrite = null;
+      const tmpPath = `${filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(state));
+      await fs.rename(tmpPath, filePath);
+    });
+    queuedWrite = write;
+    writeChain = write.catch(() => {});
+    return write;
+  }
+
+  function findJob(jobId: string): Job | undefined {
+    return state.jobs.find(j => j.id === jobId);
+  }
+
+  const store: JobStore = {
+    async enqueue(params: EnqueueParams) {
+      if (params.dedupe_key) {
+        const duplicate =
+          state.jobs.some(j => j.dedupe_key === params.dedupe_key) ||
+          state.dead_letters.some(d => d.dedupe_key === params.dedupe_key);
+        if (duplicate) {
+          return null;
+        }
+      }
+
+      const now = new Date().toISOString();
+      const job: Job = {
+        id: crypto.randomUUID(),
+        type: params.type,
+        dedupe_key: params.dedupe_key || null,
+        payload: params.payload,
+        status: 'pending',
+        attempts: 0,
+        max_attempts: params.max_attempts || 5,
+        run_at: (params.run_at || new Date()).toISOString(),
+        locked_until: null,
+        last_error: null,
+        created_at: now,
+        updated_at: now,
+      };
+      state.jobs.push(job);
+      await persist();
+      return job;
+    },
+
+    async claimNext(now: Date, lockUntil: Date) {
+      const due = state.jobs
+        .filter(j => j.status === 'pending' && new Date(j.run_at) <= now)
+        .sort((a, b) => a.run_at.localeCompare(b.run_at));
+
+      const job = due[0];
+      if (!job) {
+        return null;
+      }
+
+      job.status = 'running';
+      job.attempts += 1;
+      job.locked_until = lockUntil.toISOString();
+      job.updated_at = now.toISOString();
+      await persist();
+      return { ...job };
+    },
+
+    async complete(jobId: string) {
+      const job = findJob(jobId);
+      if (!job) return;
+
+      job.status = 'done';
+      job.locked_until = null;
+      job.updated_at = new Date().toISOString();
+      await persist();
+    },
+
+    async retry(jobId: string, error: string, runAt: Date) {
+      const job = findJob(jobId);
+      if (!job) return;
+
+      job.status = 'pending';
+      job.run_at = runAt.toISOString();
+      job.locked_until = null;
+      job.last_error = error;
+      job.updated_at = new Date().toISOString();
+      await persist();
+    },
+
+    async deadLetter(jobId: string, error: string) {
+      const job = findJob(jobId);
+      if (!job) return null;
+
+      const deadLetter: DeadLetter = {
+        id: crypto.randomUUID(),
+        job_id: job.id,
+        type: job.type,
+        dedupe_key: job.dedupe_key,
+        payload: job.payload,
+        attempts: job.attempts,
+        last_error: error,
+        failed_at: new Date().toISOString(),
+      };
+      state.jobs = state.jobs.filter(j => j.id !== jobId);
+      state.dead_letters.push(deadLetter);
+      await persist();
+      return deadLetter;
+    },
+
+    async releaseExpired(now: Date) {
+      let released = 0;
+      for (const job of state.jobs) {
+        if (job.status === 'running' && job.locked_until && new Date(job.locked_until) <= now) {
+          job.status = 'pending';
+          job.locked_until = null;
+          job.updated_at = now.toISOString();
+          released++;
+        }
+      }
+      if (released > 0) {
+        await persist();
+      }
+      return released;
+    },
+
+    async purgeDone(before: Date) {
+      const kept = state.jobs.filter(j => j.status !== 'done' || new Date(j.updated_at) >= before);
+      const purged = state.jobs.length - kept.length;
+      if (purged > 0) {
+        state.jobs = kept;
+        await persist();
+      }
+      return purged;
+    },
+
+    async listDeadLetters(limit = 50) {
+      return [...state.dead_letters]
+        .sort((a, b) => b.failed_at.localeCompare(a.failed_at))
+        .slice(0, limit);
+    },
+
+    async requeueDeadLetter(deadLetterId: string) {
+      const deadLetter = state.dead_letters.find(d => d.id === deadLetterId);
+      if (!deadLetter) return null;
+
+      state.dead_letters = state.dead_letters.filter(d => d.id !== deadLetterId);
+      return store.enqueue({
+        type: deadLetter.type,
+        payload: deadLetter.payload,
+        dedupe_key: deadLetter.dedupe_key || undefined,
+      });
+    },
+  };
+
+  return store;
+}
+
+async function loadState(filePath: string): Promise<FileState> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    const parsed = JSON.parse(raw) as Partial<FileState>;
+    return {
+      jobs: parsed.jobs || [],
+      dead_letters: parsed.dead_letters || [],
+    };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw err;
+    }
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    return { jobs: [], dead_letters: [] };
+  }
+}
@@ -0,0 +1,71 @@
+import type { EnqueueParams, Job, JobStore } from './store.js';
+import { startWorkerPool, type JobHandler, type WorkerPool } from './worker.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('queue');
+
+export type { Job, DeadLetter, JobStore, EnqueueParams } from './store.js';
+export type { JobHandler } from './worker.js';
+
+// "file" keeps the queue in a local JSON file, "supabase" uses the bot_jobs / bot_dead_letters tables.
+// Defaults to the file store when the SQLite backend is used so nothing needs Supabase.
+const JOB_STORE = process.env.JOB_STORE || (process.env.DB_BACKEND === 'sqlite' ? 'file' : 'supabase');
+const JOB_STORE_PATH = process.env.JOB_STORE_PATH || './data/jobs.json';
+const QUEUE_CONCURRENCY = parseInt(process.env.QUEUE_CONCURRENCY || '3');
+const QUEUE_MAX_ATTEMPTS = parseInt(process.env.QUEUE_MAX_ATTEMPTS || '5');
+const QUEUE_POLL_INTERVAL_MS = parseInt(process.env.QUEUE_POLL_INTERVAL_MS || '1000');
+const QUEUE_LOCK_TIMEOUT_MS = parseInt(process.env.QUEUE_LOCK_TIMEOUT_MS || '300000');
+// Done jobs (and their dedupe keys) are kept this long, a week by default, then deleted
+const QUEUE_DONE_RETENTION_MS = parseInt(process.env.QUEUE_DONE_RETENTION_MS || '604800000');
+const QUEUE_BASE_DELAY_MS = parseInt(process.env.QUEUE_BASE_DELAY_MS || '5000');
+const QUEUE_MAX_DELAY_MS = parseInt(process.env.QUEUE_MAX_DELAY_MS || '600000');
+
+const handlers = new Map<string, JobHandler>();
+let storePromise: Promise<JobStore> | null = null;
+
+/**
+ * Get the configured job store (created once per process)
+ */
+export function getJobStore(): Promise<JobStore> {
+  if (!storePromise) {
+    storePromise = createJobStore();
+  }
+  return storePromise;
+}
+
+async function createJobStore(): Promise<JobStore> {
+  // Imported lazily so the file store works without Supabase credentials
+  if (JOB_STORE === 'file') {
+    const { createFileJobStore } = await import('./file-store.js');
+    log.info(`Using file job store at ${JOB_STORE_PATH}`);
+    return createFileJobStore(JOB_STORE_PATH);
+  }
+
+  const { createSupabaseJobStore } = await import('./supabase-store.js');
+  log.info('Using Supabase job store');
+  return createSupabaseJobStore();
+}
+
+export function registerJobHandler(type: string, handler: JobHandler) {
+  handlers.set(type, handler);
+}
+
+export async function enqueueJob(params: EnqueueParams): Promise<Job | null> {
+  const store = await getJobStore();
+  return store.enqueue({
+    max_attempts: QUEUE_MAX_ATTEMPTS,
+    ...params,
+  });
+}
+
+export async function startQueue(): Promise<WorkerPool> {
+  const store = await getJobStore();
+  return startWorkerPool(store, handlers, {
+    concurrency: QUEUE_CONCURRENCY,
+    pollIntervalMs: QUEUE_POLL_INTERVAL_MS,
+    lockTimeoutMs: QUEUE_LOCK_TIMEOUT_MS,
+    doneRetentionMs: QUEUE_DONE_RETENTION_MS,
+    baseDelayMs: QUEUE_BASE_DELAY_MS,
+    maxDelayMs: QUEUE_MAX_DELAY_MS,
+  });
+}
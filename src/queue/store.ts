@@ -0,0 +1,59 @@
+export type JobStatus = 'pending' | 'running' | 'done';
+
+export interface Job {
+  id: string;
+  type: string;
+  dedupe_key: string | null;
+  payload: unknown;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_until: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DeadLetter {
+  id: string;
+  job_id: string;
+  type: string;
+  dedupe_key: string | null;
+  payload: unknown;
+  attempts: number;
+  last_error: string | null;
+  failed_at: string;
+}
+
+export interface EnqueueParams {
+  type: string;
+  payload: unknown;
+  dedupe_key?: string;
+  max_attempts?: number;
+  run_at?: Date;
+}
+
+/**
+ * Persistence for the job queue.
+ * Implementations must make claimNext() safe against two workers taking the same job.
+ */
+export interface JobStore {
+  // Returns null if a job with the same dedupe_key is already queued, dead-lettered or done
+  // (until the done job is purged)
+  enqueue(params: EnqueueParams): Promise<Job | null>;
+  // Atomically take the oldest due job and lock it until `lockUntil`
+  claimNext(now: Date, lockUntil: Date): Promise<Job | null>;
+  complete(jobId: string): Promise<void>;
+  // Put the job back to pending with a new run_at after a failed attempt
+  retry(jobId: string, error: string, runAt: Date): Promise<void>;
+  // Remove the job from the queue and record it in the dead-letter table
+  deadLetter(jobId: string, error: string): Promise<DeadLetter | null>;
+  // Release running jobs whose lock expired (worker crashed mid-job)
+  releaseExpired(now: Date): Promise<number>;
+  // Delete done jobs finished before `before`; their dedupe keys no longer block a new job
+  purgeDone(before: Date): Promise<number>;
+  listDeadLetters(limit?: number): Promise<DeadLetter[]>;
+  // Move a dead letter back into the queue with a fresh attempt budget
+  requeueDeadLetter(deadLetterId: string): Promise<Job | null>;
+}
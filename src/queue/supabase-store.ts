@@ -0,0 +1,234 @@
+import { supabase } from '../db/client.js';
+import type { DeadLetter, EnqueueParams, Job, JobStore } from './store.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('queue');
+
+const JOB_COLUMNS = 'id, type, dedupe_key, payload, status, attempts, max_attempts, run_at, locked_until, last_error, created_at, updated_at';
+
+/**
+ * Job store backed by the bot_jobs and bot_dead_letters tables.
+ * Claims use a conditional update (status = 'pending') so several bot instances can share the queue.
+ */
+export function createSupabaseJobStore(): JobStore {
+  async function getJob(jobId: string): Promise<Job | null> {
+    const { data, error } = await supabase
+      .from('bot_jobs')
+      .select(JOB_COLUMNS)
+      .eq('id', jobId)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return data as Job;
+  }
+
+  const store: JobStore = {
+    async enqueue(params: EnqueueParams) {
+      if (params.dedupe_key) {
+        const { data: deadLetter } = await supabase
+          .from('bot_dead_letters')
+          .select('id')
+          .eq('dedupe_key', params.dedupe_key)
+          .maybeSingle();
+
+        if (deadLetter) {
+          return null;
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('bot_jobs')
+        .insert({
+          type: params.type,
+          dedupe_key: params.dedupe_key || null,
+          payload: params.payload,
+          status: 'pending',
+          attempts: 0,
+          max_attempts: params.max_attempts || 5,
+          run_at: (params.run_at || new Date()).toISOString(),
+        })
+        .select(JOB_COLUMNS)
+        .single();
+
+      if (error) {
+        // Unique violation on dedupe_key - job already queued
+        if (error.code === '23505') {
+          return null;
+        }
+        throw new Error(`Failed to enqueue job: ${error.message}`);
+      }
+
+      return data as Job;
+    },
+
+    async claimNext(now: Date, lockUntil: Date) {
+      const { data: candidates, error } = await supabase
+        .from('bot_jobs')
+        .select('id, attempts')
+        .eq('status', 'pending')
+        .lte('run_at', now.toISOString())
+        .order('run_at')
+        .limit(5);
+
+      if (error) {
+        throw new Error(`Failed to fetch jobs: ${error.message}`);
+      }
+
+      for (const candidate of candidates || []) {
+        // Only succeeds if no other worker claimed it in the meantime
+        const { data: claimed } = await supabase
+          .from('bot_jobs')
+          .update({
+            status: 'running',
+            attempts: candidate.attempts + 1,
+            locked_until: lockUntil.toISOString(),
+            updated_at: now.toISOString(),
+          })
+          .eq('id', candidate.id)
+          .eq('status', 'pending')
+          .select(JOB_COLUMNS)
+          .maybeSingle();
+
+        if (claimed) {
+          return claimed as Job;
+        }
+      }
+
+      return null;
+    },
+
+    async complete(jobId: string) {
+      const { error } = await supabase
+        .from('bot_jobs')
+        .update({
+          status: 'done',
+          locked_until: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', jobId);
+
+      if (error) {
+        log.error('Failed to complete job', error);
+      }
+    },
+
+    async retry(jobId: string, errorMessage: string, runAt: Date) {
+      const { error } = await supabase
+        .from('bot_jobs')
+        .update({
+          status: 'pending',
+          run_at: runAt.toISOString(),
+          locked_until: null,
+          last_error: errorMessage,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', jobId);
+
+      if (error) {
+        log.error('Failed to reschedule job', error);
+      }
+    },
+
+    async deadLetter(jobId: string, errorMessage: string) {
+      const job = await getJob(jobId);
+      if (!job) return null;
+
+      const { data, error } = await supabase
+        .from('bot_dead_letters')
+        .insert({
+          job_id: job.id,
+          type: job.type,
+          dedupe_key: job.dedupe_key,
+          payload: job.payload,
+          attempts: job.attempts,
+          last_error: errorMessage,
+        })
+        .select('id, job_id, type, dedupe_key, payload, attempts, last_error, failed_at')
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to dead-letter job: ${error.message}`);
+      }
+
+      await supabase.from('bot_jobs').delete().eq('id', jobId);
+
+      return data as DeadLetter;
+    },
+
+    async releaseExpired(now: Date) {
+      const { data, error } = await supabase
+        .from('bot_jobs')
+        .update({
+          status: 'pending',
+          locked_until: null,
+          updated_at: now.toISOString(),
+        })
+        .eq('status', 'running')
+        .lte('locked_until', now.toISOString())
+        .select('id');
+
+      if (error) {
+        log.error('Failed to release expired jobs', error);
+        return 0;
+      }
+
+      return (data || []).length;
+    },
+
+    async purgeDone(before: Date) {
+      const { data, error } = await supabase
+        .from('bot_jobs')
+        .delete()
+        .eq('status', 'done')
+        .lt('updated_at', before.toISOString())
+        .select('id');
+
+      if (error) {
+        log.error('Failed to purge done jobs', error);
+        return 0;
+      }
+
+      return (data || []).length;
+    },
+
+    async listDeadLetters(limit = 50) {
+      const { data, error } = await supabase
+        .from('bot_dead_letters')
+        .select('id, job_id, type, dedupe_key, payload, attempts, last_error, failed_at')
+        .order('failed_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        log.error('Failed to list dead letters', error);
+        return [];
+      }
+
+      return (data || []) as DeadLetter[];
+    },
+
+    async requeueDeadLetter(deadLetterId: string) {
+      const { data: deadLetter, error } = await supabase
+        .from('bot_dead_letters')
+        .select('id, type, dedupe_key, payload')
+        .eq('id', deadLetterId)
+        .single();
+
+      if (error || !deadLetter) {
+        return null;
+      }
+
+      await supabase.from('bot_dead_letters').delete().eq('id', deadLetterId);
+
+      return store.enqueue({
+        type: deadLetter.type,
+        payload: deadLetter.payload,
+        dedupe_key: deadLetter.dedupe_key || undefined,
+      });
+    },
+  };
+
+  return store;
+}
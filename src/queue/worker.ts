@@ -0,0 +1,142 @@
+import type { Job, JobStore } from './store.js';
+import { createLogger, withLogContext } from '../log/index.js';
+
+const log = createLogger('queue');
+
+export type JobHandler = (payload: any, job: Job) => Promise<void>;
+
+export interface WorkerPoolOptions {
+  concurrency: number;
+  pollIntervalMs: number;
+  // How long a claimed job stays locked before another worker may pick it up again
+  lockTimeoutMs: number;
+  // How long a done job (and so its dedupe key) is kept before it is deleted
+  doneRetentionMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface WorkerPool {
+  stop(): Promise<void>;
+}
+
+/**
+ * Exponential backoff with jitter: base * 2^(attempt-1), capped at maxDelayMs
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const exponential = baseDelayMs * Math.pow(2, Math.max(0, attempt - 1));
+  const jitter = Math.random() * baseDelayMs;
+  return Math.min(maxDelayMs, exponential + jitter);
+}
+
+/**
+ * Start `concurrency` workers that poll the store and run the handler registered for each job type.
+ * A job that throws is retried with backoff until max_attempts, then moved to the dead-letter table.
+ */
+export function startWorkerPool(
+  store: JobStore,
+  handlers: Map<string, JobHandler>,
+  options: WorkerPoolOptions
+): WorkerPool {
+  let running = true;
+  const inFlight = new Set<Promise<void>>();
+  const timers = new Set<NodeJS.Timeout>();
+
+  async function runJob(job: Job) {
+    const handler = handlers.get(job.type);
+    if (!handler) {
+      log.error(`No handler for job type "${job.type}"`);
+      await store.deadLetter(job.id, `No handler for job type "${job.type}"`);
+      return;
+    }
+
+    try {
+      await handler(job.payload, job);
+      await store.complete(job.id);
+      log.info(`Job ${job.id} (${job.type}) done after ${job.attempts} attempt(s)`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+
+      if (job.attempts >= job.max_attempts) {
+        log.error(`Job ${job.id} (${job.type}) failed permanently: ${errorMsg}`);
+        await store.deadLetter(job.id, errorMsg);
+        return;
+      }
+
+      const delay = backoffDelay(job.attempts, options.baseDelayMs, options.maxDelayMs);
+      log.warn(`Job ${job.id} (${job.type}) attempt ${job.attempts}/${job.max_attempts} failed: ${errorMsg} - retrying in ${Math.round(delay / 1000)}s`);
+      await store.retry(job.id, errorMsg, new Date(Date.now() + delay));
+    }
+  }
+
+  async function tick(slot: number) {
+    if (!running) return;
+
+    let job: Job | null = null;
+    try {
+      const now = new Date();
+      job = await store.claimNext(now, new Date(now.getTime() + options.lockTimeoutMs));
+    } catch (err) {
+      log.error('Failed to claim job', err);
+    }
+
+    if (job) {
+      // A job's lines share its id across attempts, whichever worker runs them
+      const claimed = job;
+      const work = withLogContext(
+        { correlation_id: claimed.id, job_id: claimed.id, job_type: claimed.type },
+        () => runJob(claimed)
+      ).catch(err => {
+        log.error(`Worker ${slot} error`, err);
+      });
+      inFlight.add(work);
+      await work;
+      inFlight.delete(work);
+    }
+
+    if (!running) return;
+    // Pick up the next job straight away while there is work, otherwise wait for the poll interval
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      tick(slot);
+    }, job ? 0 : options.pollIntervalMs);
+    timers.add(timer);
+  }
+
+  // Jobs left "running" by a crashed process become claimable again once their lock expires,
+  // and done jobs are dropped once past the retention window so the queue doesn't keep growing
+  const releaseTimer = setInterval(() => {
+    store.releaseExpired(new Date())
+      .then(count => {
+        if (count > 0) log.info(`Released ${count} job(s) with expired locks`);
+      })
+      .catch(err => log.error('Failed to release expired jobs', err));
+
+    store.purgeDone(new Date(Date.now() - options.doneRetentionMs))
+      .then(count => {
+        if (count > 0) log.info(`Purged ${count} done job(s)`);
+      })
+      .catch(err => log.error('Failed to purge done jobs', err));
+  }, options.lockTimeoutMs);
+
+  store.releaseExpired(new Date())
+    .catch(err => log.error('Failed to release expired jobs', err))
+    .finally(() => {
+      for (let slot = 0; slot < options.concurrency; slot++) {
+        tick(slot);
+      }
+    });
+
+  log.info(`Worker pool started (concurrency: ${options.concurrency})`);
+
+  return {
+    async stop() {
+      running = false;
+      clearInterval(releaseTimer);
+      timers.forEach(t => clearTimeout(t));
+      timers.clear();
+      await Promise.all(inFlight);
+      log.info('Worker pool stopped');
+    },
+  };
+}
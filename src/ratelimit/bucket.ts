@@ -0,0 +1,53 @@
+/**
+ * Token bucket: holds up to `capacity` tokens and refills all of them evenly over
+ * `windowMs` ("20 per day" is capacity 20, window 24h). A new bucket starts full.
+ */
+export interface BucketLimit {
+  capacity: number;
+  windowMs: number;
+}
+
+export interface BucketState {
+  tokens: number;
+  updated_at: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  // Tokens left after this take (or before it, if it was denied)
+  remaining: number;
+  // How long until `cost` tokens are available again; 0 when allowed
+  retryAfterMs: number;
+}
+
+/**
+ * Take `cost` tokens if the bucket has them. A denied take leaves the bucket as it was
+ * (apart from refilling), so retrying early never pushes the retry time further out.
+ */
+export function takeTokens(
+  state: BucketState | null,
+  limit: BucketLimit,
+  cost: number,
+  now: number
+): { state: BucketState; result: TakeResult } {
+  const rate = limit.capacity / limit.windowMs;
+  const elapsed = state ? Math.max(0, now - state.updated_at) : 0;
+  const tokens = state ? Math.min(limit.capacity, state.tokens + elapsed * rate) : limit.capacity;
+
+  if (tokens >= cost) {
+    return {
+      state: { tokens: tokens - cost, updated_at: now },
+      result: { allowed: true, remaining: tokens - cost, retryAfterMs: 0 }
+    };
+  }
+
+  // More than the bucket can ever hold: the best we can say is "after a full window"
+  const retryAfterMs = cost > limit.capacity
+    ? limit.windowMs
+    : Math.ceil((cost - tokens) / rate);
+
+  return {
+    state: { tokens, updated_at: now },
+    result: { allowed: false, remaining: tokens, retryAfterMs }
+  };
+}
@@ -0,0 +1,163 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { BucketLimit, TakeResult } from './bucket.js';
+import type { BucketStore } from './store.js';
+import type { Project } from '../db/repository.js';
+import { createLogger } from '../log/index.js';
+
+export type { BucketLimit, TakeResult } from './bucket.js';
+export type { BucketStore } from './store.js';
+
+const log = createLogger('rate-limit');
+
+// "database" keeps buckets in the repository (shared by every bot process), "memory" in this process only
+const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE || 'database';
+// Set any of these to 0 to turn that limit off
+const RATE_LIMIT_PER_USER_DAILY = parseInt(process.env.RATE_LIMIT_PER_USER_DAILY || '20');
+const RATE_LIMIT_PER_PROJECT_HOURLY = parseInt(process.env.RATE_LIMIT_PER_PROJECT_HOURLY || '60');
+const RATE_LIMIT_LLM_TOKENS_HOURLY = parseInt(process.env.RATE_LIMIT_LLM_TOKENS_HOURLY || '2000000');
+const RATE_LIMIT_REPLIES_PER_THREAD_HOURLY = parseInt(process.env.RATE_LIMIT_REPLIES_PER_THREAD_HOURLY || '10');
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type RateLimitScope = 'user' | 'project' | 'project_user' | 'llm' | 'thread';
+
+export interface RateLimitDenial {
+  scope: RateLimitScope;
+  limit: BucketLimit;
+  retryAfterMs: number;
+}
+
+let storePromise: Promise<BucketStore> | null = null;
+
+/**
+ * Get the configured bucket store (created once per process)
+ */
+export function getBucketStore(): Promise<BucketStore> {
+  if (!storePromise) {
+    storePromise = createBucketStore();
+  }
+  return storePromise;
+}
+
+async function createBucketStore(): Promise<BucketStore> {
+  if (RATE_LIMIT_STORE === 'memory') {
+    const { createMemoryBucketStore } = await import('./memory-store.js');
+    log.info('Using in-memory buckets');
+    return createMemoryBucketStore();
+  }
+
+  const { getRepository } = await import('../db/repository.js');
+  const repo = await getRepository();
+  log.info('Using database buckets');
+  return {
+    take: (key, limit, cost) => repo.rateLimits.take(key, limit, cost),
+    peek: (key, limit, cost) => repo.rateLimits.peek(key, limit, cost)
+  };
+}
+
+// Set while running withoutSpending()
+const notSpending = new AsyncLocalStorage<true>();
+
+/**
+ * Run `fn` with every limit checked but no tokens taken, however deep the take: dry runs
+ * answer as the real run would, without using up the budgets they'd be checking
+ */
+export function withoutSpending<T>(fn: () => Promise<T>): Promise<T> {
+  return notSpending.run(true, fn);
+}
+
+/**
+ * Take from one bucket, or only check that it could be taken from when `spend` is false.
+ * A store that can't be reached lets the request through: a database hiccup shouldn't
+ * silence the bot.
+ */
+async function take(
+  scope: RateLimitScope,
+  key: string,
+  limit: BucketLimit,
+  cost = 1,
+  spend = true
+): Promise<RateLimitDenial | null> {
+  if (!(limit.capacity > 0)) return null;
+
+  let result: TakeResult;
+  try {
+    const store = await getBucketStore();
+    result = spend && !notSpending.getStore()
+      ? await store.take(key, limit, cost)
+      : await store.peek(key, limit, cost);
+  } catch (err) {
+    log.warn(`${key}: bucket unavailable, allowing`, err);
+    return null;
+  }
+
+  if (result.allowed) return null;
+  log.info(`${key}: denied, retry in ${Math.ceil(result.retryAfterMs / 1000)}s`);
+  return { scope, limit, retryAfterMs: result.retryAfterMs };
+}
+
+/**
+ * One mention from `fid` that the bot acts on, commands and answers to its prompts included
+ */
+export async function takeUserToken(fid: number): Promise<RateLimitDenial | null> {
+  return take('user', `fid:${fid}`, { capacity: RATE_LIMIT_PER_USER_DAILY, windowMs: DAY_MS });
+}
+
+/**
+ * The limits that apply to the project: its own overrides, else the defaults (0: no limit)
+ */
+export function effectiveProjectLimits(project: Project): { hourly: number; userDaily: number | null } {
+  return {
+    hourly: project.rate_limit_hourly ?? RATE_LIMIT_PER_PROJECT_HOURLY,
+    userDaily: project.user_rate_limit_daily
+  };
+}
+
+/**
+ * One request added to `project` by `fid`: counts against the project's hourly limit and,
+ * if the project sets one, against that fid's daily limit on the project
+ */
+export async function takeProjectToken(project: Project, fid: number): Promise<RateLimitDenial | null> {
+  return projectToken(project, fid, true);
+}
+
+/**
+ * The denial takeProjectToken would give, without taking anything
+ */
+export async function checkProjectToken(project: Project, fid: number): Promise<RateLimitDenial | null> {
+  return projectToken(project, fid, false);
+}
+
+async function projectToken(project: Project, fid: number, spend: boolean): Promise<RateLimitDenial | null> {
+  const limits = effectiveProjectLimits(project);
+  const projectDenial = await take('project', `project:${project.id}`, { capacity: limits.hourly, windowMs: HOUR_MS }, 1, spend);
+  if (projectDenial || limits.userDaily === null) {
+    return projectDenial;
+  }
+
+  return take('project_user', `project:${project.id}:fid:${fid}`, { capacity: limits.userDaily, windowMs: DAY_MS }, 1, spend);
+}
+
+/**
+ * Spend from the global LLM budget, in (estimated) tokens across all tasks
+ */
+export async function takeLlmTokens(tokens: number): Promise<RateLimitDenial | null> {
+  return take('llm', 'llm', { capacity: RATE_LIMIT_LLM_TOKENS_HOURLY, windowMs: HOUR_MS }, tokens);
+}
+
+/**
+ * One mention the bot answers in the thread, so two bots (or a bot and a script) can't keep
+ * each other going
+ */
+export async function takeThreadToken(threadHash: string): Promise<RateLimitDenial | null> {
+  return take('thread', `thread:${threadHash}`, { capacity: RATE_LIMIT_REPLIES_PER_THREAD_HOURLY, windowMs: HOUR_MS });
+}
+
+/**
+ * The denial takeThreadToken would give, without taking anything: checked before answering,
+ * taken once the bot actually replies
+ */
+export async function checkThreadToken(threadHash: string): Promise<RateLimitDenial | null> {
+  return take('thread', `thread:${threadHash}`, { capacity: RATE_LIMIT_REPLIES_PER_THREAD_HOURLY, windowMs: HOUR_MS }, 1, false);
+}
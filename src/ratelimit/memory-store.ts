@@ -0,0 +1,35 @@
+import { takeTokens, type BucketState } from './bucket.js';
+import type { BucketStore } from './store.js';
+
+// Past this many buckets, refilled ones are dropped (a missing bucket starts full anyway)
+const PRUNE_THRESHOLD = 10000;
+
+/**
+ * Buckets kept in process memory. Meant for one bot process: limits reset on restart
+ * and aren't shared with other instances.
+ */
+export function createMemoryBucketStore(): BucketStore {
+  const buckets = new Map<string, { state: BucketState; fullAt: number }>();
+
+  function prune(now: number) {
+    for (const [key, bucket] of buckets) {
+      if (bucket.fullAt <= now) buckets.delete(key);
+    }
+  }
+
+  return {
+    async take(key, limit, cost) {
+      const now = Date.now();
+      if (buckets.size >= PRUNE_THRESHOLD) prune(now);
+
+      const { state, result } = takeTokens(buckets.get(key)?.state ?? null, limit, cost, now);
+      const fullAt = now + (limit.capacity - state.tokens) * (limit.windowMs / limit.capacity);
+      buckets.set(key, { state, fullAt });
+      return result;
+    },
+
+    async peek(key, limit, cost) {
+      return takeTokens(buckets.get(key)?.state ?? null, limit, cost, Date.now()).result;
+    }
+  };
+}
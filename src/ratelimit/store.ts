@@ -0,0 +1,11 @@
+import type { BucketLimit, TakeResult } from './bucket.js';
+
+/**
+ * Persistence for rate limit buckets.
+ * Implementations must make take() atomic: two concurrent takes never spend the same token.
+ */
+export interface BucketStore {
+  take(key: string, limit: BucketLimit, cost: number): Promise<TakeResult>;
+  // What take() would answer, without taking anything
+  peek(key: string, limit: BucketLimit, cost: number): Promise<TakeResult>;
+}
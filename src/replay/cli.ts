@@ -0,0 +1,230 @@
+import 'dotenv/config';
+import { fork } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { setInterceptor } from './intercept.js';
+import {
+  REPLAY_ENV_KEYS,
+  createPlayer,
+  createRecorder,
+  diffOutcomes,
+  seedRandom,
+  summarizeCalls,
+  type Fixture,
+  type FixtureDatabase,
+  type RecordedCall,
+  type ReplayOutcome,
+} from './tape.js';
+
+const DEFAULT_FIXTURE_DIR = 'fixtures/replay';
+const DEFAULT_SEED = 1337;
+
+interface ChildResult {
+  file: string;
+  ok: boolean;
+  diffs: string[];
+  unused: number;
+  error?: string;
+}
+
+/**
+ * Run on a fresh in-memory SQLite database seeded from the fixture, instead of recorded
+ * Supabase traffic. Must be called before the pipeline is imported.
+ */
+function useFixtureDatabase() {
+  process.env.DB_BACKEND = 'sqlite';
+  process.env.SQLITE_PATH = ':memory:';
+}
+
+/**
+ * Record a cast's trip through processWebhook into a fixture.
+ * Runs against the real Neynar/LLM/Supabase config in .env (point it at a staging database:
+ * writes are real). Replies and standalone casts are captured but never published.
+ * With `databaseFile`, runs on an in-memory SQLite database seeded from it instead.
+ */
+async function record(castHash: string, file: string, name?: string, databaseFile?: string) {
+  const database = databaseFile
+    ? JSON.parse(await fs.readFile(databaseFile, 'utf8')) as FixtureDatabase
+    : undefined;
+  if (database) {
+    useFixtureDatabase();
+  } else if (process.env.DB_BACKEND === 'sqlite') {
+    // Database traffic is captured at the Supabase HTTP layer
+    throw new Error('Recording requires the Supabase backend (unset DB_BACKEND) or --database');
+  }
+
+  const { getCast } = await import('../neynar/client.js');
+  const { processWebhook } = await import('../bot/processor.js');
+
+  const cast = await getCast(castHash);
+  if (!cast) {
+    throw new Error(`Cast ${castHash} not found`);
+  }
+
+  const webhook = {
+    data: {
+      hash: cast.hash,
+      author: { fid: cast.author.fid },
+      parent_hash: cast.parent_hash,
+    },
+  };
+
+  const calls: RecordedCall[] = [];
+  let seededIds: string[] = [];
+  seedRandom(DEFAULT_SEED);
+  setInterceptor(createRecorder(calls));
+  try {
+    if (database) seededIds = await (await import('./database.js')).seedDatabase(database);
+    await processWebhook(webhook);
+  } finally {
+    setInterceptor(null);
+  }
+
+  const env: Record<string, string> = {};
+  for (const key of REPLAY_ENV_KEYS) {
+    if (process.env[key] !== undefined) env[key] = process.env[key]!;
+  }
+
+  const fixture: Fixture = {
+    name: name || path.basename(file, '.json'),
+    recorded_at: new Date().toISOString(),
+    webhook,
+    env,
+    seed: DEFAULT_SEED,
+    ...(database && { database }),
+    calls,
+    expected: await summarizeRun(calls, database, seededIds),
+  };
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+  console.log(`[Replay] Recorded ${calls.length} call(s) to ${file}`);
+  console.log(JSON.stringify(fixture.expected, null, 2));
+}
+
+/**
+ * The outcome of a run: from the calls, and from the database for fixtures that have one
+ */
+async function summarizeRun(calls: RecordedCall[], database: FixtureDatabase | undefined, seededIds: string[]): Promise<ReplayOutcome> {
+  const outcome = summarizeCalls(calls);
+  if (!database) return outcome;
+
+  const { summarizeDatabase } = await import('./database.js');
+  return summarizeDatabase(outcome, database, seededIds);
+}
+
+/**
+ * Replay one fixture in this process. Config is read at module load, so each fixture
+ * gets its own child process with the fixture's env applied before the pipeline is imported.
+ */
+async function replayInChild(file: string): Promise<ChildResult> {
+  const fixture = JSON.parse(await fs.readFile(file, 'utf8')) as Fixture;
+
+  for (const key of REPLAY_ENV_KEYS) {
+    delete process.env[key];
+  }
+  Object.assign(process.env, fixture.env);
+  // Clients refuse to load without credentials; nothing reaches the network during replay
+  process.env.SUPABASE_URL = 'http://replay.invalid';
+  process.env.SUPABASE_SERVICE_KEY = 'replay';
+  process.env.NEYNAR_API_KEY = 'replay';
+  if (fixture.database) {
+    useFixtureDatabase();
+  } else {
+    process.env.DB_BACKEND = 'supabase';
+  }
+
+  const served: RecordedCall[] = [];
+  const player = createPlayer(fixture.calls, served);
+  seedRandom(fixture.seed);
+  setInterceptor(player.interceptor);
+
+  const { processWebhook } = await import('../bot/processor.js');
+  let seededIds: string[] = [];
+  try {
+    if (fixture.database) seededIds = await (await import('./database.js')).seedDatabase(fixture.database);
+    await processWebhook(fixture.webhook as Parameters<typeof processWebhook>[0]);
+  } catch (err) {
+    return { file, ok: false, diffs: [], unused: 0, error: err instanceof Error ? err.message : String(err) };
+  }
+
+  const diffs = diffOutcomes(fixture.expected, await summarizeRun(served, fixture.database, seededIds));
+  return { file, ok: diffs.length === 0, diffs, unused: player.unused().length };
+}
+
+function runChild(file: string): Promise<ChildResult> {
+  return new Promise(resolve => {
+    const child = fork(process.argv[1], ['--child', file], {
+      execArgv: process.execArgv,
+      stdio: ['ignore', 'ignore', 'inherit', 'ipc'],
+    });
+    let result: ChildResult | null = null;
+    child.on('message', message => {
+      result = message as ChildResult;
+    });
+    child.on('exit', code => {
+      resolve(result || { file, ok: false, diffs: [], unused: 0, error: `Replay process exited with code ${code}` });
+    });
+  });
+}
+
+async function listFixtures(args: string[]): Promise<string[]> {
+  if (args.length > 0) return args;
+  const entries = await fs.readdir(DEFAULT_FIXTURE_DIR).catch(() => [] as string[]);
+  return entries.filter(f => f.endsWith('.json')).map(f => path.join(DEFAULT_FIXTURE_DIR, f));
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === '--child') {
+    const result = await replayInChild(args[0]);
+    process.send?.(result);
+    return;
+  }
+
+  if (command === 'record' && args.length >= 2) {
+    const nameIdx = args.indexOf('--name');
+    const databaseIdx = args.indexOf('--database');
+    await record(
+      args[0],
+      args[1],
+      nameIdx >= 0 ? args[nameIdx + 1] : undefined,
+      databaseIdx >= 0 ? args[databaseIdx + 1] : undefined
+    );
+    return;
+  }
+
+  if (command === 'run') {
+    const files = await listFixtures(args);
+    if (files.length === 0) {
+      console.log(`No fixtures found in ${DEFAULT_FIXTURE_DIR}`);
+      return;
+    }
+
+    let failed = 0;
+    for (const file of files) {
+      const result = await runChild(file);
+      if (result.ok) {
+        console.log(`✅ ${file}${result.unused ? ` (${result.unused} recorded call(s) not used)` : ''}`);
+        continue;
+      }
+      failed++;
+      console.log(`❌ ${file}`);
+      if (result.error) console.log(`  ${result.error}`);
+      for (const diff of result.diffs) console.log(`  ${diff}`);
+    }
+
+    console.log(`\n${files.length - failed}/${files.length} fixture(s) passed`);
+    process.exitCode = failed > 0 ? 1 : 0;
+    return;
+  }
+
+  console.error('Usage: replay record <cast_hash> <fixture.json> [--name <name>] [--database <seed.json>] | replay run [fixture.json...]');
+  process.exitCode = 1;
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+import { maskIds, type FixtureDatabase, type ReplayOutcome } from './tape.js';
+import { storeFeatureEmbedding } from '../bot/similarity.js';
+import { createProject, getProjectByHandle, verifyProject } from '../db/projects.js';
+import { createFeature, getFeatureSources, listFeatures } from '../db/features.js';
+
+/**
+ * Create the fixture's projects and features. Runs with the interceptor installed: the
+ * features' embeddings are recorded (and replayed) like any other call.
+ */
+export async function seedDatabase(database: FixtureDatabase): Promise<string[]> {
+  for (const project of database.projects) {
+    const created = await createProject({
+      name: project.name,
+      project_handle: project.project_handle,
+      owner_fid: project.owner_fid
+    });
+    if (project.is_verified) {
+      await verifyProject(created.id, project.owner_fid);
+    }
+  }
+
+  const featureIds: string[] = [];
+  for (const feature of database.features) {
+    const project = await getProjectByHandle(feature.project_handle);
+    if (!project) {
+      throw new Error(`Fixture feature "${feature.title}" is for unknown project @${feature.project_handle}`);
+    }
+    const id = await createFeature({
+      project_id: project.id,
+      title: feature.title,
+      description: feature.description,
+      submitter_fid: feature.submitter_fid
+    });
+    await storeFeatureEmbedding(id, feature.title, feature.description);
+    featureIds.push(id);
+  }
+  return featureIds;
+}
+
+/**
+ * Complete `outcome` (from the calls) with the features created and merged into since
+ * seeding, read back from the database. Ids change from run to run, so merges are reported
+ * by title and ids in replies and casts are masked.
+ */
+export async function summarizeDatabase(
+  outcome: ReplayOutcome,
+  database: FixtureDatabase,
+  seededIds: string[]
+): Promise<ReplayOutcome> {
+  const created: string[] = [];
+  const merged: string[] = [];
+
+  for (const { project_handle } of database.projects) {
+    const project = await getProjectByHandle(project_handle);
+    if (!project) continue;
+
+    const features = await listFeatures({ project_id: project.id, include_hidden: true, limit: 1000 });
+    for (const feature of features) {
+      if (!seededIds.includes(feature.id)) {
+        created.push(feature.title);
+      } else if ((await getFeatureSources(feature.id)).length > 0) {
+        merged.push(feature.title);
+      }
+    }
+  }
+
+  return {
+    replies: outcome.replies.map(reply => ({ ...reply, text: maskIds(reply.text) })),
+    casts: outcome.casts.map(maskIds),
+    // Listed by weight, which ties between fresh features
+    features_created: created.sort(),
+    features_merged: merged.sort()
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * Single boundary that external I/O (Neynar, LLM providers, Supabase HTTP, chain RPC) passes through.
+ * Normally a no-op; the record/replay harness installs an interceptor to capture or serve responses.
+ */
+export type Channel = 'neynar' | 'llm' | 'supabase' | 'rpc';
+
+export type Interceptor = <T>(
+  channel: Channel,
+  method: string,
+  args: unknown[],
+  call: () => Promise<T>
+) => Promise<T>;
+
+let active: Interceptor | null = null;
+
+export function setInterceptor(interceptor: Interceptor | null) {
+  active = interceptor;
+}
+
+export function intercept<T>(channel: Channel, method: string, args: unknown[], call: () => Promise<T>): Promise<T> {
+  return active ? active(channel, method, args, call) : call();
+}
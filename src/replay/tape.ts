@@ -0,0 +1,211 @@
+import type { Channel, Interceptor } from './intercept.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('replay');
+
+export interface RecordedCall {
+  channel: Channel;
+  method: string;
+  args: unknown[];
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * What a pipeline run produced - the part of a fixture we assert on
+ */
+export interface ReplayOutcome {
+  replies: Array<{ reply_to: string; text: string }>;
+  casts: string[];
+  features_created: string[];
+  // Feature ids; titles for fixtures with a `database`, whose ids change from run to run
+  features_merged: string[];
+}
+
+/**
+ * What a fixture recorded on the SQLite backend starts from. Database traffic isn't
+ * captured there: each run seeds a fresh in-memory database and reads the outcome back.
+ */
+export interface FixtureDatabase {
+  projects: Array<{ name: string; project_handle: string; owner_fid: number; is_verified?: boolean }>;
+  // Existing requests to merge into; their embeddings are part of the recorded calls
+  features: Array<{ project_handle: string; title: string; description: string; submitter_fid: number }>;
+}
+
+export interface Fixture {
+  name: string;
+  recorded_at: string;
+  webhook: unknown;
+  // Config the pipeline reads at startup (thresholds, bot fid...) - restored before replay
+  env: Record<string, string>;
+  seed: number;
+  database?: FixtureDatabase;
+  calls: RecordedCall[];
+  expected: ReplayOutcome;
+}
+
+// Env vars captured with a fixture because they change pipeline decisions
+export const REPLAY_ENV_KEYS = [
+  'ROADMAPR_BOT_FID',
+  'MAX_FEATURES_PER_CAST',
+  'MIN_NEYNAR_SCORE',
+  'SIMILARITY_THRESHOLD',
+  'LOCAL_SIMILARITY_THRESHOLD',
+  'SIMILARITY_CONFIRM_THRESHOLD',
+  'LOCAL_SIMILARITY_CONFIRM_THRESHOLD',
+  'MERGE_CONFIRM_DEFAULT',
+  'RATE_LIMIT_PER_USER_DAILY',
+  'TOKEN_WEIGHT_CURVE',
+  'TOKEN_WEIGHT_CAP',
+  'LLM_CHAIN_EMBEDDING',
+];
+
+// Calls that publish to Farcaster: captured but never executed, even while recording
+const PUBLISH_METHODS = new Set(['postReply', 'postStandaloneCast']);
+
+/**
+ * Key used to match a replayed call to its recording.
+ * Timestamps are masked because writes like updated_at differ between runs, and so are
+ * generated ids (e.g. a new feature's, in its announcement cast on the SQLite backend).
+ */
+export function callKey(channel: Channel, method: string, args: unknown[]): string {
+  const serialized = maskIds(JSON.stringify(args) ?? '');
+  return `${channel} ${method} ${serialized.replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g, '<timestamp>')}`;
+}
+
+export function maskIds(text: string): string {
+  return text.replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>');
+}
+
+/**
+ * Interceptor that performs real calls and appends them to `calls`
+ */
+export function createRecorder(calls: RecordedCall[]): Interceptor {
+  return async function record<T>(channel: Channel, method: string, args: unknown[], call: () => Promise<T>): Promise<T> {
+    const entry: RecordedCall = { channel, method, args: JSON.parse(JSON.stringify(args)) };
+    calls.push(entry);
+
+    if (channel === 'neynar' && PUBLISH_METHODS.has(method)) {
+      log.info(`Not publishing during recording: ${method}`);
+      // No cast hash exists for a cast that was never published
+      entry.result = null;
+      return null as T;
+    }
+
+    try {
+      const result = await call();
+      entry.result = result === undefined ? undefined : JSON.parse(JSON.stringify(result));
+      return result;
+    } catch (err) {
+      entry.error = err instanceof Error ? err.message : String(err);
+      throw err;
+    }
+  };
+}
+
+/**
+ * Interceptor that serves recorded responses in order, per call key.
+ * Unmatched calls throw so a changed pipeline fails loudly instead of hitting the network.
+ */
+export function createPlayer(recorded: RecordedCall[], served: RecordedCall[]): {
+  interceptor: Interceptor;
+  unused(): RecordedCall[];
+} {
+  const queues = new Map<string, RecordedCall[]>();
+  for (const call of recorded) {
+    const key = callKey(call.channel, call.method, call.args);
+    const queue = queues.get(key) || [];
+    queue.push(call);
+    queues.set(key, queue);
+  }
+
+  const interceptor: Interceptor = async <T>(channel: Channel, method: string, args: unknown[]) => {
+    const key = callKey(channel, method, args);
+    const match = queues.get(key)?.shift();
+    if (!match) {
+      throw new Error(`Replay miss: no recorded response for ${key.slice(0, 300)}`);
+    }
+
+    served.push(match);
+    if (match.error !== undefined) {
+      throw new Error(match.error);
+    }
+    return match.result as T;
+  };
+
+  return {
+    interceptor,
+    unused: () => Array.from(queues.values()).flat(),
+  };
+}
+
+function parseBody(body: unknown): any[] {
+  if (typeof body !== 'string' || !body) return [];
+  try {
+    const parsed = JSON.parse(body);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Derive replies, casts, created and merged features from a call log
+ */
+export function summarizeCalls(calls: RecordedCall[]): ReplayOutcome {
+  const outcome: ReplayOutcome = { replies: [], casts: [], features_created: [], features_merged: [] };
+  const createdIds = new Set<string>();
+
+  for (const call of calls) {
+    if (call.channel === 'neynar' && call.method === 'postReply') {
+      outcome.replies.push({ reply_to: String(call.args[0]), text: String(call.args[1]) });
+    } else if (call.channel === 'neynar' && call.method === 'postStandaloneCast') {
+      outcome.casts.push(String(call.args[0]));
+    } else if (call.channel === 'supabase' && call.method.startsWith('POST /rest/v1/features')) {
+      for (const row of parseBody(call.args[0])) {
+        outcome.features_created.push(row.title);
+      }
+      const response = call.result as { body?: string } | undefined;
+      for (const row of parseBody(response?.body)) {
+        if (row?.id) createdIds.add(row.id);
+      }
+    } else if (call.channel === 'supabase' && call.method.startsWith('POST /rest/v1/feature_sources')) {
+      for (const row of parseBody(call.args[0])) {
+        if (!createdIds.has(row.feature_id) && !outcome.features_merged.includes(row.feature_id)) {
+          outcome.features_merged.push(row.feature_id);
+        }
+      }
+    }
+  }
+
+  return outcome;
+}
+
+/**
+ * Replace Math.random with a seeded PRNG (mulberry32) so reply wording is reproducible
+ */
+export function seedRandom(seed: number) {
+  let state = seed >>> 0;
+  Math.random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * List differences between expected and actual outcomes (empty when they match)
+ */
+export function diffOutcomes(expected: ReplayOutcome, actual: ReplayOutcome): string[] {
+  const diffs: string[] = [];
+  for (const field of Object.keys(expected) as Array<keyof ReplayOutcome>) {
+    const want = JSON.stringify(expected[field]);
+    const got = JSON.stringify(actual[field]);
+    if (want !== got) {
+      diffs.push(`${field}:\n    expected ${want}\n    actual   ${got}`);
+    }
+  }
+  return diffs;
+}
@@ -0,0 +1,82 @@
+import { getTokenBalance, getTokenDecimals } from './rpc.js';
+import { getVerifiedAddresses } from '../neynar/client.js';
+import { createLogger } from '../log/index.js';
+
+const log = createLogger('token');
+
+export type TokenWeightCurve = 'linear' | 'sqrt' | 'capped';
+
+// How token holdings turn into vote weight: "linear" (1 token = 1), "sqrt" (default) or "capped" (linear up to TOKEN_WEIGHT_CAP)
+const TOKEN_WEIGHT_CURVE = parseCurve(process.env.TOKEN_WEIGHT_CURVE);
+const TOKEN_WEIGHT_CAP = parseFloat(process.env.TOKEN_WEIGHT_CAP || '1000');
+const TOKEN_BALANCE_CACHE_TTL_MS = parseInt(process.env.TOKEN_BALANCE_CACHE_TTL_MS || '300000');
+
+// token:owner -> balance in whole tokens
+const balanceCache = new Map<string, { balance: number; expiresAt: number }>();
+// Decimals never change, so they're cached for the life of the process
+const decimalsCache = new Map<string, Promise<number>>();
+
+function parseCurve(value: string | undefined): TokenWeightCurve {
+  if (!value) return 'sqrt';
+  if (value === 'linear' || value === 'sqrt' || value === 'capped') return value;
+  throw new Error(`Invalid TOKEN_WEIGHT_CURVE "${value}" (expected linear, sqrt or capped)`);
+}
+
+export function balanceToWeight(balance: number, curve: TokenWeightCurve = TOKEN_WEIGHT_CURVE, cap = TOKEN_WEIGHT_CAP): number {
+  if (!(balance > 0)) return 0;
+  switch (curve) {
+    case 'linear':
+      return balance;
+    case 'sqrt':
+      return Math.sqrt(balance);
+    case 'capped':
+      return Math.min(balance, cap);
+  }
+}
+
+/**
+ * Balance of `owner` in whole tokens, cached for TOKEN_BALANCE_CACHE_TTL_MS
+ */
+export async function getCachedBalance(token: string, owner: string): Promise<number> {
+  const key = `${token.toLowerCase()}:${owner.toLowerCase()}`;
+  const cached = balanceCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.balance;
+  }
+
+  let decimals = decimalsCache.get(token.toLowerCase());
+  if (!decimals) {
+    decimals = getTokenDecimals(token);
+    decimalsCache.set(token.toLowerCase(), decimals);
+    // Don't remember a failed lookup
+    decimals.catch(() => decimalsCache.delete(token.toLowerCase()));
+  }
+
+  const raw = BigInt(await getTokenBalance(token, owner));
+  const balance = toWholeTokens(raw, await decimals);
+  balanceCache.set(key, { balance, expiresAt: Date.now() + TOKEN_BALANCE_CACHE_TTL_MS });
+  return balance;
+}
+
+/**
+ * Vote weight of a fid on a token project: the token balance summed over
+ * their verified addresses, run through the configured curve
+ */
+export async function getTokenWeight(token: string, fid: number): Promise<number> {
+  const addresses = [...new Set((await getVerifiedAddresses(fid)).map(a => a.toLowerCase()))];
+
+  let total = 0;
+  for (const address of addresses) {
+    total += await getCachedBalance(token, address);
+  }
+
+  const weight = balanceToWeight(total);
+  log.info(`FID ${fid}: ${total} tokens over ${addresses.length} address(es) -> weight ${weight} (${TOKEN_WEIGHT_CURVE})`);
+  return weight;
+}
+
+function toWholeTokens(raw: bigint, decimals: number): number {
+  const unit = 10n ** BigInt(decimals);
+  // Split so large balances keep their fractional part
+  return Number(raw / unit) + Number(raw % unit) / Number(unit);
+}
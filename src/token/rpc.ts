@@ -0,0 +1,62 @@
+import { intercept } from '../replay/intercept.js';
+
+// Any Ethereum JSON-RPC endpoint for the chain the project tokens live on (a local Anvil/Hardhat node works too)
+const TOKEN_RPC_URL = process.env.TOKEN_RPC_URL || 'https://mainnet.base.org';
+const TOKEN_RPC_TIMEOUT_MS = parseInt(process.env.TOKEN_RPC_TIMEOUT_MS || '10000');
+
+// ERC-20 function selectors
+const BALANCE_OF = '0x70a08231';
+const DECIMALS = '0x313ce567';
+
+let nextId = 1;
+
+async function rpc(method: string, params: unknown[]): Promise<unknown> {
+  const response = await fetch(TOKEN_RPC_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params }),
+    signal: AbortSignal.timeout(TOKEN_RPC_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`RPC error: ${response.status} ${await response.text()}`);
+  }
+
+  const body = await response.json() as { result?: unknown; error?: { code: number; message: string } };
+  if (body.error) {
+    throw new Error(`RPC ${method} error ${body.error.code}: ${body.error.message}`);
+  }
+  return body.result;
+}
+
+async function ethCall(to: string, data: string): Promise<string> {
+  const result = await rpc('eth_call', [{ to, data }, 'latest']);
+  if (typeof result !== 'string' || !/^0x[0-9a-f]*$/i.test(result)) {
+    throw new Error(`Unexpected eth_call result from ${to}: ${JSON.stringify(result)}`);
+  }
+  return result;
+}
+
+function encodeAddress(address: string): string {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new Error(`Invalid address: ${address}`);
+  }
+  return address.slice(2).toLowerCase().padStart(64, '0');
+}
+
+/**
+ * Raw ERC-20 balanceOf(owner), as a decimal string (bigints don't survive the replay tapes)
+ */
+export async function getTokenBalance(token: string, owner: string): Promise<string> {
+  return intercept('rpc', 'balanceOf', [token, owner], async () => {
+    const result = await ethCall(token, `${BALANCE_OF}${encodeAddress(owner)}`);
+    return BigInt(result === '0x' ? 0 : result).toString();
+  });
+}
+
+export async function getTokenDecimals(token: string): Promise<number> {
+  return intercept('rpc', 'decimals', [token], async () => {
+    const result = await ethCall(token, DECIMALS);
+    return Number(BigInt(result === '0x' ? 0 : result));
+  });
+}
@@ -0,0 +1,32 @@
+-- Durable job queue for webhook processing (see src/queue)
+
+create table if not exists bot_jobs (
+  id uuid primary key default gen_random_uuid(),
+  type text not null,
+  dedupe_key text unique,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'running', 'done')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  run_at timestamptz not null default now(),
+  locked_until timestamptz,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists bot_jobs_pending_idx on bot_jobs (run_at) where status = 'pending';
+create index if not exists bot_jobs_running_idx on bot_jobs (locked_until) where status = 'running';
+
+create table if not exists bot_dead_letters (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null,
+  type text not null,
+  dedupe_key text,
+  payload jsonb not null,
+  attempts integer not null,
+  last_error text,
+  failed_at timestamptz not null default now()
+);
+
+create index if not exists bot_dead_letters_dedupe_key_idx on bot_dead_letters (dedupe_key);
@@ -0,0 +1,40 @@
+-- Feature embeddings keyed by the model that produced them (see src/bot/similarity.ts).
+-- Vectors from different models are never compared with each other.
+
+create table if not exists feature_embeddings (
+  feature_id uuid not null references features (id) on delete cascade,
+  model text not null,
+  embedding vector not null,
+  updated_at timestamptz not null default now(),
+  primary key (feature_id, model)
+);
+
+create index if not exists feature_embeddings_model_idx on feature_embeddings (model);
+
+-- Existing vectors came from GLM embedding-3
+insert into feature_embeddings (feature_id, model, embedding)
+select id, 'glm/embedding-3', embedding
+from features
+where embedding is not null
+on conflict (feature_id, model) do nothing;
+
+create or replace function match_feature_embeddings(
+  query_embedding vector,
+  model_filter text,
+  match_threshold float,
+  match_count int,
+  project_filter uuid
+)
+returns table (id uuid, title text, description text, similarity float)
+language sql stable
+as $$
+  select f.id, f.title, f.description, 1 - (e.embedding <=> query_embedding) as similarity
+  from feature_embeddings e
+  join features f on f.id = e.feature_id
+  where e.model = model_filter
+    and f.project_id = project_filter
+    and vector_dims(e.embedding) = vector_dims(query_embedding)
+    and 1 - (e.embedding <=> query_embedding) > match_threshold
+  order by e.embedding <=> query_embedding
+  limit match_count;
+$$;
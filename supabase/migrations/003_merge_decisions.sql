@@ -0,0 +1,22 @@
+-- Pending "same thing?" questions for near-duplicate feature requests (see src/bot/merge-confirmation.ts)
+
+create table if not exists merge_decisions (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects (id) on delete cascade,
+  candidate_feature_id uuid not null references features (id) on delete cascade,
+  similarity float not null,
+  requester_fid bigint not null,
+  mention_cast_hash text not null,
+  question_cast_hash text,
+  feature jsonb not null,
+  source_cast_hash text not null,
+  source_cast_author_fid bigint,
+  source_cast_text text,
+  status text not null default 'pending' check (status in ('pending', 'merged', 'created')),
+  resolved_by text check (resolved_by in ('reply', 'timeout')),
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz
+);
+
+create index if not exists merge_decisions_question_idx on merge_decisions (question_cast_hash) where status = 'pending';
@@ -0,0 +1,22 @@
+-- Journal of feature creates and merges made by the bot, so they can be undone (see src/bot/undo.ts)
+
+create table if not exists bot_actions (
+  id uuid primary key default gen_random_uuid(),
+  type text not null check (type in ('create', 'merge')),
+  project_id uuid not null references projects (id) on delete cascade,
+  feature_id uuid not null,
+  requester_fid bigint not null,
+  mention_cast_hash text not null,
+  reply_cast_hash text,
+  request jsonb not null,
+  source jsonb not null,
+  before jsonb,
+  after jsonb not null,
+  status text not null default 'applied' check (status in ('applied', 'reverted')),
+  reverted_by_fid bigint,
+  reverted_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists bot_actions_reply_idx on bot_actions (reply_cast_hash) where status = 'applied';
+create index if not exists bot_actions_feature_idx on bot_actions (feature_id) where status = 'applied';
@@ -0,0 +1,21 @@
+-- Feature lifecycle changes made by project admins (see src/bot/lifecycle.ts)
+
+create table if not exists feature_status_history (
+  id uuid primary key default gen_random_uuid(),
+  feature_id uuid not null references features (id) on delete cascade,
+  from_status text not null,
+  to_status text not null,
+  changed_by_fid bigint not null,
+  cast_hash text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists feature_status_history_feature_idx on feature_status_history (feature_id, created_at);
+
+-- Bot casts that announced a feature, so replies to them can be matched back to it
+create table if not exists feature_announcements (
+  cast_hash text not null,
+  feature_id uuid not null references features (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (cast_hash, feature_id)
+);
@@ -0,0 +1,20 @@
+-- People who asked to hear about a feature's status changes ("@roadmapr follow")
+create table if not exists feature_followers (
+  feature_id uuid not null references features (id) on delete cascade,
+  fid bigint not null,
+  created_at timestamptz not null default now(),
+  primary key (feature_id, fid)
+);
+
+-- One row per person told about a status change. Claimed before the cast is sent,
+-- so a restart or a retried job never notifies anyone twice.
+create table if not exists status_notifications (
+  id uuid primary key default gen_random_uuid(),
+  status_change_id uuid not null references feature_status_history (id) on delete cascade,
+  recipient_fid bigint not null,
+  reply_to_cast_hash text,
+  sent_cast_hash text,
+  created_at timestamptz not null default now(),
+  sent_at timestamptz,
+  unique (status_change_id, recipient_fid)
+);
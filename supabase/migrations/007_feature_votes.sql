@@ -0,0 +1,13 @@
+-- Votes cast on Farcaster: "+1" replies and likes on the bot's announcement casts.
+-- features.total_weight also counts the website's votes, so it isn't recomputed from this table:
+-- each vote moves it by the vote's change (see 015 and 018).
+create table if not exists feature_votes (
+  feature_id uuid not null references features (id) on delete cascade,
+  fid bigint not null,
+  weight double precision not null,
+  source text not null check (source in ('reply', 'like')),
+  cast_hash text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (feature_id, fid)
+);
@@ -0,0 +1,18 @@
+-- Project setup conversations started by "create project @handle" (see src/bot/project-setup.ts).
+-- Replies are matched to a setup by the cast they answer, never by the bot's wording.
+create table if not exists pending_project_setups (
+  id uuid primary key default gen_random_uuid(),
+  project_handle text not null,
+  requester_fid bigint not null,
+  mention_cast_hash text not null,
+  prompt_cast_hash text,
+  step text not null default 'owner' check (step in ('owner', 'token', 'bio')),
+  fields jsonb not null default '{}',
+  status text not null default 'pending' check (status in ('pending', 'completed', 'cancelled')),
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists pending_project_setups_prompt_idx on pending_project_setups (prompt_cast_hash) where status = 'pending';
+create index if not exists pending_project_setups_mention_idx on pending_project_setups (mention_cast_hash) where status = 'pending';
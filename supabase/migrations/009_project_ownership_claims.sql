@@ -0,0 +1,18 @@
+-- Ownership confirmations for bot-created projects (see src/bot/ownership.ts).
+-- verify: the named owner or the project's own Farcaster account confirms; projects.is_verified flips.
+-- transfer: the verified owner hands the project to to_fid, who has to accept.
+create table if not exists project_ownership_claims (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects (id) on delete cascade,
+  type text not null check (type in ('verify', 'transfer')),
+  from_fid bigint,
+  to_fid bigint not null,
+  requested_by_fid bigint not null,
+  prompt_cast_hash text,
+  status text not null default 'pending' check (status in ('pending', 'confirmed', 'declined')),
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz
+);
+
+create index if not exists project_ownership_claims_prompt_idx on project_ownership_claims (prompt_cast_hash) where status = 'pending';
@@ -0,0 +1,13 @@
+-- Audit log for project_admins (see src/bot/admins.ts): who gave or took which role, and who did it.
+-- role is null when the fid was removed; previous_role is null when they were added.
+create table if not exists project_admin_changes (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects (id) on delete cascade,
+  fid bigint not null,
+  role text check (role in ('owner', 'admin', 'moderator')),
+  previous_role text check (previous_role in ('owner', 'admin', 'moderator')),
+  actor_fid bigint not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists project_admin_changes_project_idx on project_admin_changes (project_id, created_at desc);
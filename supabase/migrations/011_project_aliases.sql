@@ -0,0 +1,14 @@
+-- Other ways people refer to a project when routing mentions (see src/bot/aliases.ts):
+-- old or extra handles, Farcaster channel ids, token cashtags and free-text names.
+-- Values are lowercased without their @ / $ / slash prefix; one project per kind/value.
+create table if not exists project_aliases (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects (id) on delete cascade,
+  kind text not null check (kind in ('handle', 'channel', 'cashtag', 'name')),
+  value text not null,
+  created_by_fid bigint not null,
+  created_at timestamptz not null default now(),
+  unique (kind, value)
+);
+
+create index if not exists project_aliases_project_idx on project_aliases (project_id);
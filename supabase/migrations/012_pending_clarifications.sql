@@ -0,0 +1,20 @@
+-- Feature requests waiting for the requester to say which project they meant (see src/bot/clarification.ts).
+-- Replying "@base" or "both" to the bot's question resumes extraction from the saved context.
+create table if not exists pending_clarifications (
+  id uuid primary key default gen_random_uuid(),
+  requester_fid bigint not null,
+  mention_cast_hash text not null,
+  prompt_cast_hash text,
+  parent_cast_hash text not null,
+  parent_cast_author_fid bigint not null,
+  parent_cast_author_username text not null,
+  parent_cast_text text not null,
+  context text not null,
+  candidate_project_ids uuid[] not null default '{}',
+  status text not null default 'pending' check (status in ('pending', 'resumed', 'cancelled')),
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz
+);
+
+create index if not exists pending_clarifications_prompt_idx on pending_clarifications (prompt_cast_hash) where status = 'pending';
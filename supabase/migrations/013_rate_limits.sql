@@ -0,0 +1,56 @@
+-- Token buckets for rate limiting (see src/ratelimit). One row per key: "fid:123",
+-- "project:<id>", "llm", "thread:<hash>". A missing row is a full bucket.
+create table if not exists rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+-- Per-project overrides of the default limits (null: use the default)
+alter table projects add column if not exists rate_limit_hourly integer;
+alter table projects add column if not exists user_rate_limit_daily integer;
+
+-- Refill the bucket and take `token_cost` tokens if it has them, holding the row lock throughout.
+-- Mirrors takeTokens() in src/ratelimit/bucket.ts.
+create or replace function take_rate_limit_tokens(
+  bucket_key text,
+  bucket_capacity double precision,
+  bucket_window_ms double precision,
+  token_cost double precision
+)
+returns table (allowed boolean, remaining double precision, retry_after_ms bigint)
+language plpgsql
+as $$
+declare
+  rate double precision := bucket_capacity / bucket_window_ms;
+  current_tokens double precision;
+  last_update timestamptz;
+  now_ts timestamptz := clock_timestamp();
+begin
+  insert into rate_limit_buckets (key, tokens, updated_at)
+  values (bucket_key, bucket_capacity, now_ts)
+  on conflict (key) do nothing;
+
+  select b.tokens, b.updated_at into current_tokens, last_update
+  from rate_limit_buckets b
+  where b.key = bucket_key
+  for update;
+
+  current_tokens := least(
+    bucket_capacity,
+    current_tokens + greatest(0, extract(epoch from (now_ts - last_update)) * 1000) * rate
+  );
+
+  if current_tokens >= token_cost then
+    update rate_limit_buckets set tokens = current_tokens - token_cost, updated_at = now_ts where key = bucket_key;
+    return query select true, current_tokens - token_cost, 0::bigint;
+  else
+    update rate_limit_buckets set tokens = current_tokens, updated_at = now_ts where key = bucket_key;
+    return query select
+      false,
+      current_tokens,
+      case when token_cost > bucket_capacity then bucket_window_ms::bigint
+           else ceil((token_cost - current_tokens) / rate)::bigint end;
+  end if;
+end;
+$$;
@@ -0,0 +1,58 @@
+-- Pre-ingest moderation (see src/bot/moderation.ts).
+-- Rules with a null project_id apply to every project. fid rules drop the account's
+-- requests; keyword and domain rules hold matching requests for review.
+create table if not exists moderation_rules (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid references projects (id) on delete cascade,
+  kind text not null check (kind in ('fid', 'keyword', 'domain')),
+  value text not null,
+  created_by_fid bigint,
+  created_at timestamptz not null default now(),
+  unique nulls not distinct (project_id, kind, value)
+);
+
+-- Requests held back for a project moderator; the feature is only stored once approved
+create table if not exists moderation_queue (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references projects (id) on delete cascade,
+  requester_fid bigint not null,
+  mention_cast_hash text not null,
+  notice_cast_hash text,
+  feature jsonb not null,
+  source_cast_hash text not null,
+  source_cast_author_fid bigint not null,
+  source_cast_text text not null,
+  reasons text[] not null default '{}',
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  reviewed_by_fid bigint,
+  created_at timestamptz not null default now(),
+  reviewed_at timestamptz
+);
+
+create index if not exists moderation_queue_project_idx on moderation_queue (project_id, created_at) where status = 'pending';
+create index if not exists moderation_queue_notice_idx on moderation_queue (notice_cast_hash) where status = 'pending';
+
+-- Hidden features stay in the table but out of lists, searches and similarity matches
+alter table features add column if not exists is_hidden boolean not null default false;
+
+create or replace function match_feature_embeddings(
+  query_embedding vector,
+  model_filter text,
+  match_threshold float,
+  match_count int,
+  project_filter uuid
+)
+returns table (id uuid, title text, description text, similarity float)
+language sql stable
+as $$
+  select f.id, f.title, f.description, 1 - (e.embedding <=> query_embedding) as similarity
+  from feature_embeddings e
+  join features f on f.id = e.feature_id
+  where e.model = model_filter
+    and f.project_id = project_filter
+    and not f.is_hidden
+    and vector_dims(e.embedding) = vector_dims(query_embedding)
+    and 1 - (e.embedding <=> query_embedding) > match_threshold
+  order by e.embedding <=> query_embedding
+  limit match_count;
+$$;
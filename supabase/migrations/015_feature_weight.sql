@@ -0,0 +1,14 @@
+-- features.total_weight counts votes from the website as well as feature_votes, so the bot
+-- moves it by each vote's change instead of recomputing it from feature_votes alone.
+create or replace function add_feature_weight(
+  target_feature_id uuid,
+  weight_delta double precision
+)
+returns double precision
+language sql
+as $$
+  update features
+  set total_weight = coalesce(total_weight, 0) + weight_delta, updated_at = now()
+  where id = target_feature_id
+  returning total_weight;
+$$;
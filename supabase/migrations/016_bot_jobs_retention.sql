@@ -0,0 +1,2 @@
+-- Done jobs are deleted once past QUEUE_DONE_RETENTION_MS (see purgeDone in src/queue)
+create index if not exists bot_jobs_done_idx on bot_jobs (updated_at) where status = 'done';
@@ -0,0 +1,20 @@
+-- Features without a vector from a given model: the backfill fills in local vectors for
+-- features created before they were stored, and primary ones missed during an outage.
+create or replace function features_missing_embedding(
+  model_filter text,
+  after_id uuid,
+  max_count int
+)
+returns table (id uuid, title text, description text)
+language sql stable
+as $$
+  select f.id, f.title, f.description
+  from features f
+  where (after_id is null or f.id > after_id)
+    and not exists (
+      select 1 from feature_embeddings e
+      where e.feature_id = f.id and e.model = model_filter
+    )
+  order by f.id
+  limit max_count;
+$$;
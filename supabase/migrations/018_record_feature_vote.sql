@@ -0,0 +1,73 @@
+-- A vote and the change it makes to features.total_weight are written together, holding the
+-- vote's row lock, so a like and a "+1" from the same fid arriving at once can't both count
+-- as their first vote.
+
+-- Record a vote: a fid's first vote on the feature, or a "reply" replacing their "like".
+-- Returns the vote's previous weight (null for a first vote) and the new total; no row when
+-- the fid's existing vote stays as it is.
+create or replace function record_feature_vote(
+  target_feature_id uuid,
+  voter_fid bigint,
+  vote_weight double precision,
+  vote_source text,
+  vote_cast_hash text
+)
+returns table (previous_weight double precision, total_weight double precision)
+language plpgsql
+as $$
+declare
+  existing_source text;
+  existing_weight double precision;
+begin
+  insert into feature_votes (feature_id, fid, weight, source, cast_hash)
+  values (target_feature_id, voter_fid, vote_weight, vote_source, vote_cast_hash)
+  on conflict (feature_id, fid) do nothing;
+
+  if found then
+    previous_weight := null;
+  else
+    select v.source, v.weight into existing_source, existing_weight
+    from feature_votes v
+    where v.feature_id = target_feature_id and v.fid = voter_fid
+    for update;
+
+    -- Removed in between, or a vote this one doesn't replace
+    if not found or existing_source = 'reply' or vote_source = 'like' then
+      return;
+    end if;
+
+    update feature_votes v
+    set weight = vote_weight, source = vote_source, cast_hash = vote_cast_hash, updated_at = now()
+    where v.feature_id = target_feature_id and v.fid = voter_fid;
+    previous_weight := existing_weight;
+  end if;
+
+  update features f
+  set total_weight = coalesce(f.total_weight, 0) + vote_weight - coalesce(previous_weight, 0), updated_at = now()
+  where f.id = target_feature_id
+  returning f.total_weight into total_weight;
+
+  return next;
+end;
+$$;
+
+-- Remove a fid's vote if it came from a like, taking its weight off the total.
+-- Returns the new total, null when there was no such vote.
+create or replace function remove_feature_like_vote(
+  target_feature_id uuid,
+  voter_fid bigint
+)
+returns double precision
+language sql
+as $$
+  with removed as (
+    delete from feature_votes
+    where feature_id = target_feature_id and fid = voter_fid and source = 'like'
+    returning weight
+  )
+  update features
+  set total_weight = coalesce(features.total_weight, 0) - removed.weight, updated_at = now()
+  from removed
+  where features.id = target_feature_id
+  returning features.total_weight;
+$$;